@@ -0,0 +1,3 @@
+ALTER TABLE `resumes` ADD `extraction_status` text DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE `resumes` ADD `extraction_error` text;--> statement-breakpoint
+ALTER TABLE `resumes` ADD `text_extracted_at` text;
\ No newline at end of file
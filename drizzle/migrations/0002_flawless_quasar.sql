@@ -0,0 +1,14 @@
+CREATE TABLE `resume_profiles` (
+	`id` text PRIMARY KEY NOT NULL,
+	`resume_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`profile` text NOT NULL,
+	`skills` text,
+	`tokens_used` integer DEFAULT 0,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`resume_id`) REFERENCES `resumes`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `resume_profiles_resume_id_unique` ON `resume_profiles` (`resume_id`);
\ No newline at end of file
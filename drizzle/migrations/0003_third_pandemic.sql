@@ -0,0 +1,23 @@
+CREATE TABLE `job_matches` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`extracted_job_id` text NOT NULL,
+	`resume_id` text NOT NULL,
+	`score` integer NOT NULL,
+	`keyword_score` integer NOT NULL,
+	`ai_score` integer,
+	`method` text NOT NULL,
+	`matched_skills` text,
+	`missing_skills` text,
+	`matched_requirements` text,
+	`missing_requirements` text,
+	`recommendations` text,
+	`summary` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`extracted_job_id`) REFERENCES `extracted_jobs`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`resume_id`) REFERENCES `resumes`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `job_matches_job_resume_unique` ON `job_matches` (`extracted_job_id`,`resume_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `resumes` ADD `parent_resume_id` text REFERENCES resumes(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `resumes` ADD `tailored_for_job_id` text REFERENCES extracted_jobs(id) ON DELETE set null;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `application_status_changes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`application_id` text NOT NULL,
+	`from_status` text,
+	`to_status` text NOT NULL,
+	`note` text,
+	`changed_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`application_id`) REFERENCES `applications`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `applications` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`extracted_job_id` text,
+	`resume_id` text,
+	`cover_letter_id` text,
+	`job_title` text,
+	`company` text,
+	`url` text,
+	`status` text DEFAULT 'saved' NOT NULL,
+	`notes` text,
+	`applied_at` text,
+	`status_changed_at` text DEFAULT CURRENT_TIMESTAMP,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`extracted_job_id`) REFERENCES `extracted_jobs`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`resume_id`) REFERENCES `resumes`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`cover_letter_id`) REFERENCES `cover_letters`(`id`) ON UPDATE no action ON DELETE set null
+);
@@ -0,0 +1,5 @@
+ALTER TABLE `extracted_jobs` ADD `canonical_url` text;--> statement-breakpoint
+ALTER TABLE `extracted_jobs` ADD `content_hash` text;--> statement-breakpoint
+ALTER TABLE `extracted_jobs` ADD `version` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `extracted_jobs` ADD `previous_version_id` text REFERENCES extracted_jobs(id) ON DELETE set null;--> statement-breakpoint
+CREATE INDEX `extracted_jobs_user_canonical_url_idx` ON `extracted_jobs` (`user_id`,`canonical_url`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `extracted_jobs` ADD `date_posted` text;--> statement-breakpoint
+ALTER TABLE `extracted_jobs` ADD `valid_through` text;--> statement-breakpoint
+ALTER TABLE `extracted_jobs` ADD `extraction_method` text;--> statement-breakpoint
+ALTER TABLE `extracted_jobs` ADD `field_sources` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `extracted_jobs` ADD `extractor` text;
\ No newline at end of file
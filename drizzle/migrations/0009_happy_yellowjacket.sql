@@ -0,0 +1,14 @@
+CREATE TABLE `cover_letter_versions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`cover_letter_id` text NOT NULL,
+	`version` integer NOT NULL,
+	`content` text NOT NULL,
+	`source` text NOT NULL,
+	`restored_from_version` integer,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`cover_letter_id`) REFERENCES `cover_letters`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `cover_letter_versions_letter_version_idx` ON `cover_letter_versions` (`cover_letter_id`,`version`);--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `current_version` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `updated_at` text;
\ No newline at end of file
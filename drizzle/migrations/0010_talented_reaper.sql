@@ -0,0 +1,17 @@
+CREATE TABLE `cover_letter_templates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`instructions` text,
+	`opening` text,
+	`closing` text,
+	`avoid_phrases` text,
+	`signature` text,
+	`preferences` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `cover_letter_templates_user_idx` ON `cover_letter_templates` (`user_id`);--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `template_id` text REFERENCES cover_letter_templates(id) ON DELETE set null;
\ No newline at end of file
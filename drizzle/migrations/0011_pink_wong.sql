@@ -0,0 +1,3 @@
+ALTER TABLE `cover_letters` ADD `generation_group_id` text;--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `is_favorite` integer DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX `cover_letters_generation_group_idx` ON `cover_letters` (`generation_group_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `cover_letters` ADD `language` text DEFAULT 'en' NOT NULL;--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `translated_from_id` text REFERENCES cover_letters(id) ON DELETE set null;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `application_documents` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`application_id` text,
+	`extracted_job_id` text,
+	`resume_id` text,
+	`type` text NOT NULL,
+	`job_title` text,
+	`company` text,
+	`recipient_name` text,
+	`subject` text,
+	`content` text NOT NULL,
+	`credits_used` integer NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`application_id`) REFERENCES `applications`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`extracted_job_id`) REFERENCES `extracted_jobs`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`resume_id`) REFERENCES `resumes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `application_documents_user_idx` ON `application_documents` (`user_id`);--> statement-breakpoint
+CREATE INDEX `application_documents_application_idx` ON `application_documents` (`application_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `api_usage` ADD `model` text;--> statement-breakpoint
+ALTER TABLE `api_usage` ADD `model_tier` text;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE `prompt_experiments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`prompt_name` text NOT NULL,
+	`variants` text NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`started_at` text DEFAULT CURRENT_TIMESTAMP,
+	`stopped_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `prompt_experiments_prompt_status_idx` ON `prompt_experiments` (`prompt_name`,`status`);--> statement-breakpoint
+CREATE TABLE `prompt_templates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`version` integer NOT NULL,
+	`system` text NOT NULL,
+	`template` text NOT NULL,
+	`description` text,
+	`is_active` integer DEFAULT false NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `prompt_templates_name_version_idx` ON `prompt_templates` (`name`,`version`);--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `prompt_name` text;--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `prompt_version` integer;--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `prompt_experiment_id` text REFERENCES prompt_experiments(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `rating` integer;--> statement-breakpoint
+ALTER TABLE `cover_letters` ADD `rated_at` text;--> statement-breakpoint
+CREATE INDEX `cover_letters_prompt_experiment_idx` ON `cover_letters` (`prompt_experiment_id`);
\ No newline at end of file
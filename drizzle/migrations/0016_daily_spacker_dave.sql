@@ -0,0 +1 @@
+ALTER TABLE `job_matches` ADD `input_hash` text;
\ No newline at end of file
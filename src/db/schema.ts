@@ -1,5 +1,6 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex, type AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
+import { APPLICATION_STATUSES } from '../lib/applications';
 
 export const users = sqliteTable('users', {
   id: text('id').primaryKey(),
@@ -27,6 +28,22 @@ export const resumes = sqliteTable('resumes', {
   fileSize: integer('file_size').notNull(),
   mimeType: text('mime_type').notNull(),
   extractedText: text('extracted_text'), // Cached extracted text
+  extractionStatus: text('extraction_status', { enum: ['pending', 'completed', 'failed'] }).default('pending'),
+  extractionError: text('extraction_error'),
+  textExtractedAt: text('text_extracted_at'),
+  parentResumeId: text('parent_resume_id').references((): AnySQLiteColumn => resumes.id, { onDelete: 'set null' }), // Set for job-tailored versions
+  tailoredForJobId: text('tailored_for_job_id').references((): AnySQLiteColumn => extractedJobs.id, { onDelete: 'set null' }),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
+});
+
+export const resumeProfiles = sqliteTable('resume_profiles', {
+  id: text('id').primaryKey(),
+  resumeId: text('resume_id').notNull().unique().references(() => resumes.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  profile: text('profile').notNull(), // JSON object (ResumeProfile)
+  skills: text('skills'), // JSON array, denormalized for matching
+  tokensUsed: integer('tokens_used').default(0),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
 });
@@ -35,6 +52,10 @@ export const extractedJobs = sqliteTable('extracted_jobs', {
   id: text('id').primaryKey(),
   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   url: text('url').notNull(),
+  canonicalUrl: text('canonical_url'), // Tracking params stripped, job-board IDs normalized
+  contentHash: text('content_hash'), // SHA-256 of the page's visible text
+  version: integer('version').notNull().default(1),
+  previousVersionId: text('previous_version_id').references((): AnySQLiteColumn => extractedJobs.id, { onDelete: 'set null' }),
   title: text('title'),
   company: text('company'),
   location: text('location'),
@@ -47,24 +68,177 @@ export const extractedJobs = sqliteTable('extracted_jobs', {
   skills: text('skills'), // JSON array
   industry: text('industry'),
   remote: text('remote'),
+  datePosted: text('date_posted'),
+  validThrough: text('valid_through'),
   pageType: text('page_type'),
   confidence: real('confidence'),
+  extractionMethod: text('extraction_method', { enum: ['structured', 'extractor', 'ai', 'hybrid'] }),
+  extractor: text('extractor'), // Site-specific extractor that handled the page, if any
+  fieldSources: text('field_sources'), // JSON object: field -> 'structured' | 'extractor' | 'ai'
   extractedAt: text('extracted_at').default(sql`CURRENT_TIMESTAMP`)
-});
+}, (table) => [
+  index('extracted_jobs_user_canonical_url_idx').on(table.userId, table.canonicalUrl)
+]);
+
+export const jobMatches = sqliteTable('job_matches', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  extractedJobId: text('extracted_job_id').notNull().references(() => extractedJobs.id, { onDelete: 'cascade' }),
+  resumeId: text('resume_id').notNull().references(() => resumes.id, { onDelete: 'cascade' }),
+  score: integer('score').notNull(), // 0-100
+  keywordScore: integer('keyword_score').notNull(),
+  aiScore: integer('ai_score'),
+  method: text('method', { enum: ['keyword', 'ai'] }).notNull(),
+  matchedSkills: text('matched_skills'), // JSON array
+  missingSkills: text('missing_skills'), // JSON array
+  matchedRequirements: text('matched_requirements'), // JSON array
+  missingRequirements: text('missing_requirements'), // JSON array
+  recommendations: text('recommendations'), // JSON array
+  summary: text('summary'),
+  inputHash: text('input_hash'), // SHA-256 of the resume text, parsed skills and job the result was computed from
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  uniqueIndex('job_matches_job_resume_unique').on(table.extractedJobId, table.resumeId)
+]);
+
+export const coverLetterTemplates = sqliteTable('cover_letter_templates', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  instructions: text('instructions'), // Free-form writing instructions
+  opening: text('opening'), // Required opening line
+  closing: text('closing'), // Required closing line
+  avoidPhrases: text('avoid_phrases'), // JSON array of phrases the letter must not use
+  signature: text('signature'), // Appended verbatim after the letter
+  preferences: text('preferences'), // JSON object with default tone, focus, length
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  index('cover_letter_templates_user_idx').on(table.userId)
+]);
+
+// Stored versions of registry prompts; version 1 of each prompt is built in (src/lib/prompts.ts)
+export const promptTemplates = sqliteTable('prompt_templates', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(), // Registry prompt name, e.g. cover_letter
+  version: integer('version').notNull(),
+  system: text('system').notNull(),
+  template: text('template').notNull(), // With {{variable}} placeholders
+  description: text('description'),
+  isActive: integer('is_active', { mode: 'boolean' }).notNull().default(false), // Served outside experiments
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  uniqueIndex('prompt_templates_name_version_idx').on(table.name, table.version)
+]);
+
+// A/B test splitting users between versions of one prompt
+export const promptExperiments = sqliteTable('prompt_experiments', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  promptName: text('prompt_name').notNull(),
+  variants: text('variants').notNull(), // JSON array of { version, weight }
+  status: text('status', { enum: ['running', 'stopped'] }).notNull().default('running'),
+  startedAt: text('started_at').default(sql`CURRENT_TIMESTAMP`),
+  stoppedAt: text('stopped_at')
+}, (table) => [
+  index('prompt_experiments_prompt_status_idx').on(table.promptName, table.status)
+]);
 
 export const coverLetters = sqliteTable('cover_letters', {
   id: text('id').primaryKey(),
   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   extractedJobId: text('extracted_job_id').references(() => extractedJobs.id, { onDelete: 'set null' }),
   resumeId: text('resume_id').notNull().references(() => resumes.id, { onDelete: 'cascade' }),
+  templateId: text('template_id').references(() => coverLetterTemplates.id, { onDelete: 'set null' }),
+  generationGroupId: text('generation_group_id'), // Shared by variants generated in one request
+  isFavorite: integer('is_favorite', { mode: 'boolean' }).notNull().default(false), // The variant picked from its group
+  language: text('language').notNull().default('en'), // BCP 47 code, e.g. de, fr-CA
+  translatedFromId: text('translated_from_id').references((): AnySQLiteColumn => coverLetters.id, { onDelete: 'set null' }),
   jobTitle: text('job_title'),
   company: text('company'),
   content: text('content').notNull(),
   creditsUsed: integer('credits_used').notNull(),
   preferences: text('preferences'), // JSON object with tone, focus, length
+  currentVersion: integer('current_version').notNull().default(1),
+  promptName: text('prompt_name'), // Registry prompt that generated the letter
+  promptVersion: integer('prompt_version'),
+  promptExperimentId: text('prompt_experiment_id').references(() => promptExperiments.id, { onDelete: 'set null' }),
+  rating: integer('rating'), // 1-5, from the user
+  ratedAt: text('rated_at'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at')
+}, (table) => [
+  index('cover_letters_generation_group_idx').on(table.generationGroupId),
+  index('cover_letters_prompt_experiment_idx').on(table.promptExperimentId)
+]);
+
+export const coverLetterVersions = sqliteTable('cover_letter_versions', {
+  id: text('id').primaryKey(),
+  coverLetterId: text('cover_letter_id').notNull().references(() => coverLetters.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  content: text('content').notNull(),
+  source: text('source', { enum: ['ai', 'user'] }).notNull(), // AI-generated or user-edited
+  restoredFromVersion: integer('restored_from_version'), // Set when the version restores an earlier one
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  uniqueIndex('cover_letter_versions_letter_version_idx').on(table.coverLetterId, table.version)
+]);
+
+export const applications = sqliteTable('applications', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  extractedJobId: text('extracted_job_id').references(() => extractedJobs.id, { onDelete: 'set null' }),
+  resumeId: text('resume_id').references(() => resumes.id, { onDelete: 'set null' }),
+  coverLetterId: text('cover_letter_id').references(() => coverLetters.id, { onDelete: 'set null' }),
+  jobTitle: text('job_title'),
+  company: text('company'),
+  url: text('url'),
+  status: text('status', {
+    enum: APPLICATION_STATUSES
+  }).notNull().default('saved'),
+  notes: text('notes'),
+  appliedAt: text('applied_at'), // Set the first time the application leaves 'saved'
+  statusChangedAt: text('status_changed_at').default(sql`CURRENT_TIMESTAMP`),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
+});
+
+export const applicationStatusChanges = sqliteTable('application_status_changes', {
+  id: text('id').primaryKey(),
+  applicationId: text('application_id').notNull().references(() => applications.id, { onDelete: 'cascade' }),
+  fromStatus: text('from_status', {
+    enum: APPLICATION_STATUSES
+  }), // Null for the initial status
+  toStatus: text('to_status', {
+    enum: APPLICATION_STATUSES
+  }).notNull(),
+  note: text('note'),
+  changedAt: text('changed_at').default(sql`CURRENT_TIMESTAMP`)
 });
 
+export const applicationDocuments = sqliteTable('application_documents', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  applicationId: text('application_id').references(() => applications.id, { onDelete: 'set null' }),
+  extractedJobId: text('extracted_job_id').references(() => extractedJobs.id, { onDelete: 'set null' }),
+  resumeId: text('resume_id').references(() => resumes.id, { onDelete: 'set null' }),
+  type: text('type', {
+    enum: ['linkedin_message', 'thank_you', 'follow_up', 'withdrawal', 'offer_negotiation']
+  }).notNull(),
+  jobTitle: text('job_title'),
+  company: text('company'),
+  recipientName: text('recipient_name'),
+  subject: text('subject'), // Email subject line; null for LinkedIn messages
+  content: text('content').notNull(),
+  creditsUsed: integer('credits_used').notNull(),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at')
+}, (table) => [
+  index('application_documents_user_idx').on(table.userId),
+  index('application_documents_application_idx').on(table.applicationId)
+]);
+
 export const apiUsage = sqliteTable('api_usage', {
   id: text('id').primaryKey(),
   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -73,6 +247,8 @@ export const apiUsage = sqliteTable('api_usage', {
   ipAddress: text('ip_address'),
   userAgent: text('user_agent'),
   responseTime: integer('response_time'), // milliseconds
+  model: text('model'), // "provider:model" that served an AI request, comma-separated when several did
+  modelTier: text('model_tier', { enum: ['fast', 'standard', 'premium'] }),
   success: integer('success', { mode: 'boolean' }).default(true),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`)
 });
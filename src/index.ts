@@ -7,10 +7,14 @@ import { secureHeaders } from 'hono/secure-headers';
 import { auth } from './routes/auth';
 import { jobs } from './routes/jobs';
 import { coverLetterRoutes } from './routes/coverLetters';
+import { applicationDocumentRoutes } from './routes/applicationDocuments';
+import { templateRoutes } from './routes/templates';
 import { resumeRoutes } from './routes/resumes';
+import { applicationRoutes } from './routes/applications';
 import { userRoutes } from './routes/users';
 import { billing } from './routes/billing';
 import { webhooks } from './routes/webhooks';
+import { promptRoutes } from './routes/prompts';
 
 // Import middleware
 import { extensionAuthMiddleware } from './middleware/extensionAuth';
@@ -40,7 +44,7 @@ app.use('*', cors({
     'http://localhost:8787'  // Wrangler dev
   ],
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Extension-Key', 'X-Extension-ID', 'X-Extension-Version', 'X-Test-Key'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Extension-Key', 'X-Extension-ID', 'X-Extension-Version', 'X-Test-Key', 'X-Admin-Key'],
   credentials: true,
   maxAge: 86400 // 24 hours
 }));
@@ -67,7 +71,11 @@ app.get('/api/debug/env', (c) => {
   return c.json({
     environment: config.environment,
     hasJWT: !!config.jwt.secret,
-    hasOpenAI: !!config.openai.apiKey,
+    aiModels: Object.fromEntries(Object.entries(config.ai.tiers).map(([tier, { provider, model }]) => [tier, `${provider}:${model}`])),
+    hasOpenAI: !!config.ai.openai,
+    hasAnthropic: !!config.ai.anthropic,
+    hasWorkersAI: !!config.ai.workersAI,
+    hasOpenAICompatible: !!config.ai.openaiCompatible,
     hasStripe: !!config.stripe.secretKey,
     hasExtensionSecret: !!config.extension.secret,
     hasValidIds: config.extension.validIds.length > 0,
@@ -291,17 +299,32 @@ app.use('/api/jobs/*', extensionRateLimitMiddleware, extensionAuthMiddleware);
 app.use('/api/cover-letters/*', (c, next) => chooseMonitoringMiddleware(c)(c, next));
 app.use('/api/cover-letters/*', extensionRateLimitMiddleware, extensionAuthMiddleware);
 
+app.use('/api/templates/*', (c, next) => chooseMonitoringMiddleware(c)(c, next));
+app.use('/api/templates/*', extensionRateLimitMiddleware, extensionAuthMiddleware);
+
+app.use('/api/documents/*', (c, next) => chooseMonitoringMiddleware(c)(c, next));
+app.use('/api/documents/*', extensionRateLimitMiddleware, extensionAuthMiddleware);
+
 app.use('/api/resumes/*', (c, next) => chooseMonitoringMiddleware(c)(c, next));
 app.use('/api/resumes/*', extensionRateLimitMiddleware, extensionAuthMiddleware);
 
+app.use('/api/applications/*', (c, next) => chooseMonitoringMiddleware(c)(c, next));
+app.use('/api/applications/*', extensionRateLimitMiddleware, extensionAuthMiddleware);
+
 // User and billing routes (require user auth, not extension auth)
 app.route('/api/users', userRoutes);
 app.route('/api/billing', billing);
 
+// Admin routes (admin key, not user or extension auth)
+app.route('/api/admin/prompts', promptRoutes);
+
 // Apply routes
 app.route('/api/jobs', jobs);
 app.route('/api/cover-letters', coverLetterRoutes);
+app.route('/api/templates', templateRoutes);
+app.route('/api/documents', applicationDocumentRoutes);
 app.route('/api/resumes', resumeRoutes);
+app.route('/api/applications', applicationRoutes);
 
 // Root endpoint
 app.get('/', (c) => {
@@ -316,10 +339,14 @@ app.get('/', (c) => {
       auth: '/api/auth/*',
       jobs: '/api/jobs/*',
       coverLetters: '/api/cover-letters/*',
+      templates: '/api/templates/*',
+      documents: '/api/documents/*',
       resumes: '/api/resumes/*',
+      applications: '/api/applications/*',
       users: '/api/users/*',
       billing: '/api/billing/*',
-      webhooks: '/api/webhooks/*'
+      webhooks: '/api/webhooks/*',
+      adminPrompts: '/api/admin/prompts/*'
     }
   });
 });
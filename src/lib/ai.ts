@@ -1,255 +1,611 @@
-import { getConfig } from './config';
-import type { JobExtractionData, CoverLetterPreferences } from '../types/database';
+import type { z } from 'zod';
+import { getConfig, type AppConfig } from './config';
+import {
+  getLLMProvider,
+  withResilience,
+  validateStructuredOutput,
+  buildRepairPrompt,
+  AIError,
+  type StructuredOutput,
+  type LLMProvider,
+  type ChatMessage,
+  type ChatCompletionRequest,
+  type ChatCompletionResult,
+  type ChatCompletionStreamChunk
+} from './llm';
+import { routeModel, type ModelRoute, type ModelRoutingOptions } from './modelRouting';
+import {
+  resumeProfileSchema,
+  jobMatchAnalysisSchema,
+  coverLetterCritiqueSchema,
+  applicationDocumentOutputSchema,
+  jobExtractionDataSchema
+} from './validation';
+import { hasJobFields } from './jobPosting';
+import { buildTemplatePrompt } from './coverLetterTemplates';
+import { PROMPT_REGISTRY, renderPrompt, type PromptDefinition } from './prompts';
+import { numberLines, type CoverLetterChecks } from './coverLetterReview';
+import { LETTER_LANGUAGES, type LetterLanguage } from './languages';
+import { APPLICATION_DOCUMENT_CONFIG, fitToLength } from './applicationDocuments';
+import type { KeywordMatchResult } from './matching';
+import type { StructuredJobData, JobField } from './jobPosting';
+import type {
+  JobExtractionData,
+  CoverLetterPreferences,
+  FormattedCoverLetterTemplate,
+  CoverLetterCritique,
+  ApplicationDocumentType,
+  ResumeProfile,
+  JobMatchAnalysis
+} from '../types/database';
 
-interface OpenAIUsage {
-  prompt_tokens: number;
-  completion_tokens: number;
-  total_tokens: number;
-}
+// The model is chosen per operation by the routing policy
+type LLMRequest = Omit<ChatCompletionRequest, 'model'>;
+
+// Re-prompts allowed when JSON output fails validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+type PromptJob = { title?: string | null; company?: string | null; skills: string[]; requirements: string[]; description?: string | null };
 
-interface OpenAIMessage {
-  role: string;
-  content: string;
+/**
+ * System and user messages from a prompt version
+ */
+function promptMessages(prompt: PromptDefinition, variables: Record<string, string>): ChatMessage[] {
+  return [
+    { role: 'system', content: renderPrompt(prompt.system, variables) },
+    { role: 'user', content: renderPrompt(prompt.template, variables) }
+  ];
 }
 
-interface OpenAIChoice {
-  index: number;
-  message: OpenAIMessage;
-  finish_reason: string;
+// The job as the match and tailoring prompts describe it
+function formatPromptJob(job: PromptJob): string {
+  return `Title: ${job.title || 'Unknown'}
+Company: ${job.company || 'Unknown'}
+Description: ${job.description || 'Not provided'}
+Skills: ${job.skills.join(', ') || 'None listed'}
+Requirements:
+${job.requirements.map(requirement => `- ${requirement}`).join('\n') || 'None listed'}`;
 }
 
-interface OpenAIResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: OpenAIChoice[];
-  usage: OpenAIUsage;
+/**
+ * Add context to a failure, keeping AI errors intact so routes can map them to API error codes
+ */
+function operationError(action: string, error: unknown): Error {
+  if (error instanceof AIError) return error;
+  // Malformed JSON from the model
+  if (error instanceof SyntaxError) return new AIError(`${action}: ${error.message}`, 'invalid_output');
+  return new Error(`${action}: ` + (error instanceof Error ? error.message : 'Unknown error'));
 }
 
 export class AIService {
-    private readonly apiKey: string;
+    private readonly config: AppConfig['ai'];
+    private readonly circuitKV?: KVNamespace;
+    private readonly routes: ModelRoute[] = [];
 
-    constructor() {
+    constructor(private readonly routing: ModelRoutingOptions) {
       const config = getConfig();
-      this.apiKey = config.openai.apiKey;
+      this.config = config.ai;
+      this.circuitKV = config.storage.rateLimitKV;
     }
   
-    async extractJobFromHTML(html: string, url: string, title: string, maxTokens = 15000) {
+    /**
+     * Every model that served this service's calls, for usage records ("provider:model", comma-separated
+     * when pinned operations used different ones). The tier comes from the plan and quality, so calls share it.
+     */
+    get servedBy(): { model: string; tier: ModelRoute['tier'] } | null {
+      if (this.routes.length === 0) return null;
+
+      const models = new Set(this.routes.map(route => `${route.provider}:${route.model}`));
+      return { model: [...models].join(','), tier: this.routes[0].tier };
+    }
+  
+    async extractJobFromHTML(
+      html: string,
+      url: string,
+      title: string,
+      maxTokens = 15000,
+      structured?: { known: StructuredJobData; fields: JobField[] },
+      prompt: PromptDefinition = PROMPT_REGISTRY.job_extraction
+    ) {
       const cleanedHtml = this.cleanHTML(html, maxTokens);
       
-      const prompt = `
-Analyze this job posting content and extract structured information. Return ONLY valid JSON with these exact fields:
-
-{
-  "title": "exact job title",
-  "company": "company name",
-  "location": "location (city, state/country)",
-  "salary": "salary range or compensation",
-  "jobType": "full-time/part-time/contract/internship",
-  "experience": "experience level required",
-  "requirements": ["requirement 1", "requirement 2"],
-  "description": "brief job description (2-3 sentences)",
-  "benefits": ["benefit 1", "benefit 2"],
-  "skills": ["skill 1", "skill 2"],
-  "industry": "industry/sector",
-  "remote": "remote/hybrid/on-site",
-  "pageType": "job" or "general",
-  "confidence": 0.8,
-  "url": "${url}",
-  "domain": "${new URL(url).hostname}"
-}
-
-Content to analyze:
-Title: ${title}
-URL: ${url}
-Content: ${cleanedHtml}
+      const variables = {
+        title,
+        url,
+        domain: new URL(url).hostname,
+        content: cleanedHtml,
+        // When the page markup already provided some fields, only ask for the rest
+        structuredNote: structured ? `
+These fields are already known from the page markup - do not re-extract them:
+${JSON.stringify(structured.known, null, 2)}
 
-Use your best judgement to extract the information. Use null for missing fields. Set pageType to "job" if this is clearly a job posting, "general" otherwise.
-`;
+Only extract: ${structured.fields.join(', ')}. Use null for every other field.
+` : ''
+      };
   
       try {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'gpt-4-turbo-preview',
-            messages: [
-              {
-                role: 'system',
-                content: 'You are a precise content analyzer. Extract only accurate information that is clearly stated in the content. Return valid JSON only.'
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            temperature: 0.1,
-            max_tokens: 1000,
-            response_format: { type: 'json_object' }
-          })
-        });
-  
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`);
-        }
+        const result = await this.createStructuredCompletion({
+          operation: 'jobExtraction',
+          messages: promptMessages(prompt, variables),
+          temperature: 0.1,
+          maxTokens: 1000,
+          responseFormat: 'json'
+        }, jobExtractionDataSchema);
   
-        const result = await response.json() as OpenAIResponse;
-        const extractedText = result.choices[0].message.content;
-  
-        // Parse JSON response
-        let jobData: JobExtractionData;
-        try { 
-          jobData = JSON.parse(extractedText);
-        } catch (parseError) {
-          console.error('JSON parsing error:', parseError);
-          // Try to extract JSON from response if parsing fails
-          const jsonMatch = extractedText.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            jobData = JSON.parse(jsonMatch[0]);
-          } else {
-            throw new Error('Failed to parse AI response as JSON');
-          }
+        // Fields still invalid after repair are dropped; the rest are usable on their own
+        if (!result.complete) {
+          console.warn('Partial AI job extraction:', result.errors.join('; '));
         }
-  
-        // Calculate confidence score based on extracted fields
-        const fields = Object.keys(jobData).filter(key => 
-          jobData[key as keyof JobExtractionData] !== null && 
-          jobData[key as keyof JobExtractionData] !== '' && 
-          jobData[key as keyof JobExtractionData] !== undefined &&
-          !(Array.isArray(jobData[key as keyof JobExtractionData]) && (jobData[key as keyof JobExtractionData] as unknown[]).length === 0)
-        );
-        
-        // Higher confidence for more fields and job-specific content
-        let confidence = Math.min(fields.length / 10, 1);
-        if (jobData.title && jobData.company) confidence += 0.1;
-        if (jobData.pageType === 'job') confidence += 0.2;
-        confidence = Math.min(confidence, 1);
+        const usable = result.complete || hasJobFields(result.data);
   
         return {
-          success: true,
-          jobData,
-          confidence: Math.round(confidence * 100) / 100,
-          extractedFields: fields,
-          tokensUsed: result.usage?.total_tokens || 0
+          status: result.complete ? 'complete' as const : usable ? 'partial' as const : 'failed' as const,
+          jobData: usable ? result.data : null,
+          fieldValidity: result.fieldValidity,
+          error: usable ? undefined : 'The AI response contained no valid job fields',
+          tokensUsed: result.tokensUsed
         };
   
       } catch (error) {
         console.error('AI extraction error:', error);
         return {
-          success: false,
-          error: error instanceof Error ? error.message : 'AI extraction failed',
+          status: 'failed' as const,
           jobData: null,
-          confidence: 0,
+          fieldValidity: {},
+          error: error instanceof Error ? error.message : 'AI extraction failed',
+          aiError: error instanceof AIError ? error : undefined,
           tokensUsed: 0
         };
       }
     }
   
-    async generateCoverLetter(jobData: JobExtractionData, resumeText: string, preferences: CoverLetterPreferences = {}) {
+    async generateCoverLetter(
+      jobData: JobExtractionData,
+      resumeText: string,
+      preferences: CoverLetterPreferences = {},
+      template: FormattedCoverLetterTemplate | null = null,
+      prompt: PromptDefinition = PROMPT_REGISTRY.cover_letter
+    ) {
+      try {
+        const result = await this.createChatCompletion(this.buildCoverLetterRequest(jobData, resumeText, preferences, template, prompt));
+        const coverLetterContent = result.content;
+  
+        return {
+          content: coverLetterContent,
+          tokensUsed: result.tokensUsed
+        };
+  
+      } catch (error) {
+        console.error('Cover letter generation error:', error);
+        throw operationError('Failed to generate cover letter', error);
+      }
+    }
+  
+    /**
+     * Stream a cover letter as it is generated. The final chunk carries token usage.
+     */
+    async *streamCoverLetter(
+      jobData: JobExtractionData,
+      resumeText: string,
+      preferences: CoverLetterPreferences = {},
+      template: FormattedCoverLetterTemplate | null = null,
+      prompt: PromptDefinition = PROMPT_REGISTRY.cover_letter,
+      signal?: AbortSignal
+    ): AsyncGenerator<ChatCompletionStreamChunk> {
+      try {
+        yield* this.createChatCompletionStream(this.buildCoverLetterRequest(jobData, resumeText, preferences, template, prompt), signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('Cover letter streaming error:', error);
+        throw operationError('Failed to generate cover letter', error);
+      }
+    }
+  
+    async parseResume(
+      resumeText: string,
+      prompt: PromptDefinition = PROMPT_REGISTRY.resume_parse
+    ): Promise<{ profile: ResumeProfile; tokensUsed: number }> {
       // Truncate resume text to avoid token limits
-      const truncatedResume = resumeText.substring(0, 8000);
-      
-      const prompt = `
-You are an expert cover letter writer with 15+ years of experience. Create a personalized, compelling cover letter based on the job information and candidate's resume.
-
-Job Information:
-${JSON.stringify(jobData, null, 2)}
-
-Resume Content:
-${truncatedResume}
-
-Writing Preferences:
-- Tone: ${preferences.tone || 'professional'}
-- Focus: ${preferences.focus || 'experience'}
-- Length: ${preferences.length || 'medium'}
-
-Create a compelling cover letter that:
-1. Opens with enthusiasm for the specific role and company
-2. Connects the candidate's experience directly to job requirements
-3. Highlights 2-3 most relevant achievements with quantifiable results
-4. Shows genuine knowledge of the company/industry
-5. Uses the specified tone throughout
-6. Ends with a confident call to action
-7. Length guidelines:
-   - Short: 2-3 paragraphs (200-300 words)
-   - Medium: 3-4 paragraphs (300-450 words)
-   - Long: 4-5 paragraphs (450-600 words)
-
-Important guidelines:
-- Write in first person as the candidate
-- Be specific and avoid generic phrases
-- Match the company's culture and tone if evident
-- Include relevant keywords from the job posting
-- Format as clean, readable text
-- No placeholder text or brackets
-- Professional closing with candidate's interest in next steps
-
-Generate the cover letter now:
-`;
+      const variables = { resume: resumeText.substring(0, 12000) };
+  
+      try {
+        const result = await this.createStructuredCompletion({
+          operation: 'resumeParsing',
+          messages: promptMessages(prompt, variables),
+          temperature: 0.1,
+          maxTokens: 2500,
+          responseFormat: 'json'
+        }, resumeProfileSchema);
+  
+        if (!result.complete) {
+          throw new AIError(`Invalid resume profile: ${result.errors.join('; ')}`, 'invalid_output');
+        }
+  
+        return {
+          profile: result.data,
+          tokensUsed: result.tokensUsed
+        };
+  
+      } catch (error) {
+        console.error('Resume parsing error:', error);
+        throw operationError('Failed to parse resume', error);
+      }
+    }
+  
+    async analyzeJobMatch(
+      job: PromptJob,
+      resumeText: string,
+      keywordMatch: KeywordMatchResult,
+      prompt: PromptDefinition = PROMPT_REGISTRY.job_match
+    ): Promise<{ analysis: JobMatchAnalysis; tokensUsed: number }> {
+      const variables = {
+        job: formatPromptJob(job),
+        matchedSkills: keywordMatch.matchedSkills.join(', ') || 'none',
+        missingSkills: keywordMatch.missingSkills.join(', ') || 'none',
+        // Truncate resume text to avoid token limits
+        resume: resumeText.substring(0, 8000)
+      };
+  
+      try {
+        const result = await this.createStructuredCompletion({
+          operation: 'jobMatch',
+          messages: promptMessages(prompt, variables),
+          temperature: 0.2,
+          maxTokens: 800,
+          responseFormat: 'json'
+        }, jobMatchAnalysisSchema);
+  
+        if (!result.complete) {
+          throw new AIError(`Invalid match analysis: ${result.errors.join('; ')}`, 'invalid_output');
+        }
+  
+        return {
+          analysis: result.data,
+          tokensUsed: result.tokensUsed
+        };
+  
+      } catch (error) {
+        console.error('Job match analysis error:', error);
+        throw operationError('Failed to analyze job match', error);
+      }
+    }
+  
+    async tailorResume(
+      job: PromptJob,
+      resumeText: string,
+      keywordMatch?: KeywordMatchResult,
+      prompt: PromptDefinition = PROMPT_REGISTRY.resume_tailor
+    ): Promise<{ content: string; tokensUsed: number }> {
+      const variables = {
+        job: formatPromptJob(job),
+        keywordNote: keywordMatch ? `
+Job skills already present in the resume (emphasize these): ${keywordMatch.matchedSkills.join(', ') || 'none'}
+` : '',
+        // Truncate resume text to avoid token limits
+        resume: resumeText.substring(0, 12000)
+      };
   
       try {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'gpt-4-turbo-preview',
-            messages: [
-              {
-                role: 'system',
-                content: 'You are an expert cover letter writer who creates compelling, personalized cover letters that get results. Write professionally but with personality that matches the specified tone.'
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            temperature: 0.7,
-            max_tokens: 800
-          })
+        const result = await this.createChatCompletion({
+          operation: 'resumeTailoring',
+          messages: promptMessages(prompt, variables),
+          temperature: 0.4,
+          maxTokens: 3000
         });
   
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`);
+        return {
+          content: result.content.trim(),
+          tokensUsed: result.tokensUsed
+        };
+  
+      } catch (error) {
+        console.error('Resume tailoring error:', error);
+        throw operationError('Failed to tailor resume', error);
+      }
+    }
+  
+    /**
+     * Rewrite one section of a cover letter following the user's instruction.
+     * The surrounding text is sent so the rewrite keeps the letter's flow and voice.
+     */
+    async rewriteCoverLetterSection(
+      section: { before: string; text: string; after: string },
+      instruction: string,
+      context: { jobTitle?: string | null; company?: string | null; resumeText?: string | null },
+      prompt: PromptDefinition = PROMPT_REGISTRY.cover_letter_rewrite
+    ): Promise<{ content: string; tokensUsed: number }> {
+      const variables = {
+        instruction,
+        jobTitle: context.jobTitle || 'Unknown',
+        company: context.company || 'Unknown',
+        resumeContext: context.resumeText ? `
+Candidate's resume (the only source of facts about the candidate):
+${context.resumeText.substring(0, 8000)}
+` : '',
+        before: section.before.slice(-3000),
+        section: section.text,
+        after: section.after.substring(0, 3000)
+      };
+  
+      try {
+        const result = await this.createChatCompletion({
+          operation: 'coverLetterRewrite',
+          messages: promptMessages(prompt, variables),
+          temperature: 0.6,
+          maxTokens: 800
+        });
+  
+        return {
+          content: result.content.trim().replace(/^"""\s*|\s*"""$/g, ''),
+          tokensUsed: result.tokensUsed
+        };
+  
+      } catch (error) {
+        console.error('Cover letter rewrite error:', error);
+        throw operationError('Failed to rewrite cover letter section', error);
+      }
+    }
+  
+    /**
+     * Qualitative critique of a cover letter: specificity, tone consistency and line-level suggestions
+     */
+    async critiqueCoverLetter(
+      content: string,
+      job: { title?: string | null; company?: string | null; description?: string | null } | null,
+      checks: CoverLetterChecks,
+      prompt: PromptDefinition = PROMPT_REGISTRY.cover_letter_critique
+    ): Promise<{ critique: CoverLetterCritique; tokensUsed: number }> {
+      const variables = {
+        jobContext: job ? `
+Job: ${job.title || 'Unknown'} at ${job.company || 'Unknown'}
+Description: ${(job.description || 'Not provided').substring(0, 3000)}
+` : '',
+        wordCount: String(checks.wordCount),
+        cliches: checks.cliches.map(cliche => `"${cliche.phrase}" (line ${cliche.line})`).join(', ') || 'none',
+        missingKeywords: checks.keywordCoverage?.missingSkills.join(', ') || 'none',
+        letter: numberLines(content.substring(0, 12000))
+      };
+  
+      try {
+        const result = await this.createStructuredCompletion({
+          operation: 'coverLetterCritique',
+          messages: promptMessages(prompt, variables),
+          temperature: 0.3,
+          maxTokens: 1200,
+          responseFormat: 'json'
+        }, coverLetterCritiqueSchema);
+  
+        if (!result.complete) {
+          throw new AIError(`Invalid cover letter critique: ${result.errors.join('; ')}`, 'invalid_output');
         }
   
-        const result = await response.json() as OpenAIResponse;
-        const coverLetterContent = result.choices[0].message.content;
+        return {
+          critique: result.data,
+          tokensUsed: result.tokensUsed
+        };
+  
+      } catch (error) {
+        console.error('Cover letter critique error:', error);
+        throw operationError('Failed to critique cover letter', error);
+      }
+    }
+  
+    /**
+     * Translate a cover letter, adapting greeting, closing and phrasing to the target language's conventions
+     */
+    async translateCoverLetter(
+      content: string,
+      targetLanguage: LetterLanguage,
+      context: { jobTitle?: string | null; company?: string | null },
+      prompt: PromptDefinition = PROMPT_REGISTRY.cover_letter_translation
+    ): Promise<{ content: string; tokensUsed: number }> {
+      const language = LETTER_LANGUAGES[targetLanguage];
+      const variables = {
+        language: language.name,
+        conventions: language.conventions,
+        jobTitle: context.jobTitle || 'Unknown',
+        company: context.company || 'Unknown',
+        letter: content.substring(0, 12000)
+      };
+  
+      try {
+        const result = await this.createChatCompletion({
+          operation: 'coverLetterTranslation',
+          messages: promptMessages(prompt, variables),
+          temperature: 0.3,
+          maxTokens: 1500
+        });
   
         return {
-          content: coverLetterContent,
-          tokensUsed: result.usage?.total_tokens || 0
+          content: result.content.trim(),
+          tokensUsed: result.tokensUsed
         };
   
       } catch (error) {
-        console.error('Cover letter generation error:', error);
-        throw new Error('Failed to generate cover letter: ' + (error instanceof Error ? error.message : 'Unknown error'));
+        console.error('Cover letter translation error:', error);
+        throw operationError('Failed to translate cover letter', error);
       }
     }
   
-    async extractTextFromResume(fileContent: string, mimeType: string): Promise<string> {
-      if (mimeType.includes('pdf')) {
-        // For PDFs, we need a proper PDF parser. For now, return a placeholder
-        // In production, you would use a library like pdf-parse or pdf2pic + OCR
-        console.warn('PDF text extraction not fully implemented. Consider using a PDF parsing library.');
-        return `[PDF Resume Content - ${mimeType}]\n\nNote: This is a PDF file. Text extraction from PDFs requires additional processing. Please ensure your resume content is accessible for the best cover letter generation results.`;
-      } else if (mimeType.includes('word')) {
-        // For Word documents, return as-is for now (would need proper parser)
-        return fileContent;
-      } else {
-        // Plain text or other formats
-        return fileContent;
+    /**
+     * Write a short application document (outreach, thank-you, follow-up, ...) using the type's prompt and length limit
+     */
+    async generateApplicationDocument(
+      type: ApplicationDocumentType,
+      context: {
+        candidateName: string;
+        jobTitle?: string | null;
+        company?: string | null;
+        jobDescription?: string | null;
+        requirements?: string[];
+        resumeText?: string | null;
+        recipientName?: string | null;
+        applicationStatus?: string | null;
+        details?: string | null;
+        tone?: CoverLetterPreferences['tone'];
+      },
+      prompt: PromptDefinition = PROMPT_REGISTRY.application_document
+    ): Promise<{ subject: string | null; content: string; tokensUsed: number }> {
+      const config = APPLICATION_DOCUMENT_CONFIG[type];
+  
+      const variables = {
+        purpose: config.purpose,
+        subjectField: config.isEmail ? '"subject": "concise email subject line",' : '"subject": null,',
+        contentDescription: config.isEmail ? 'email body, including greeting and sign-off' : 'message',
+        candidateName: context.candidateName,
+        jobTitle: context.jobTitle || 'Unknown',
+        company: context.company || 'Unknown',
+        recipient: context.recipientName || 'Unknown - use a neutral greeting',
+        // Optional sections, each only when there is something to say
+        context: `${context.applicationStatus ? `Application status: ${context.applicationStatus}
+` : ''}${context.jobDescription ? `
+Job description:
+${context.jobDescription.substring(0, 3000)}
+` : ''}${context.requirements?.length ? `
+Key requirements: ${context.requirements.slice(0, 10).join('; ')}
+` : ''}${context.resumeText ? `
+Candidate's resume:
+${context.resumeText.substring(0, 4000)}
+` : ''}${context.details ? `
+Details from the candidate:
+${context.details}
+` : ''}`,
+        guidelines: config.guidelines.map((guideline, index) => `${index + 1}. ${guideline}`).join('\n'),
+        tone: context.tone || 'professional',
+        targetWords: config.targetWords,
+        maxCharacters: String(config.maxCharacters)
+      };
+  
+      try {
+        const result = await this.createStructuredCompletion({
+          operation: 'applicationDocument',
+          messages: promptMessages(prompt, variables),
+          temperature: 0.6,
+          maxTokens: config.maxTokens,
+          responseFormat: 'json'
+        }, applicationDocumentOutputSchema);
+  
+        if (!result.complete) {
+          throw new AIError(`Invalid ${config.label.toLowerCase()}: ${result.errors.join('; ')}`, 'invalid_output');
+        }
+  
+        return {
+          subject: config.isEmail ? result.data.subject?.trim() || null : null,
+          content: fitToLength(result.data.content, config.maxCharacters),
+          tokensUsed: result.tokensUsed
+        };
+  
+      } catch (error) {
+        console.error('Application document generation error:', error);
+        throw operationError(`Failed to generate ${config.label.toLowerCase()}`, error);
+      }
+    }
+  
+    private buildCoverLetterRequest(
+      jobData: JobExtractionData,
+      resumeText: string,
+      preferences: CoverLetterPreferences,
+      template: FormattedCoverLetterTemplate | null,
+      prompt: PromptDefinition
+    ): LLMRequest {
+      // Truncate resume text to avoid token limits
+      const truncatedResume = resumeText.substring(0, 8000);
+      const language = preferences.language ? LETTER_LANGUAGES[preferences.language] : null;
+      
+      const variables = {
+        job: JSON.stringify(jobData, null, 2),
+        resume: truncatedResume,
+        tone: preferences.tone || 'professional',
+        focus: preferences.focus || 'experience',
+        length: preferences.length || 'medium',
+        languageInstructions: language ? `
+Language: write the entire letter in ${language.name}, regardless of the language of the job posting or resume.
+Letter conventions: ${language.conventions}
+` : '',
+        templateInstructions: template ? buildTemplatePrompt(template) : ''
+      };
+  
+      return {
+        operation: 'coverLetter',
+        messages: promptMessages(prompt, variables),
+        temperature: 0.7,
+        maxTokens: 800
+      };
+    }
+  
+    /**
+     * Run a completion on the model the routing policy picks for the operation, plan and quality
+     */
+    private async createChatCompletion(request: LLMRequest): Promise<ChatCompletionResult> {
+      const route = this.route(request);
+      return await this.provider(route).complete({
+        ...request,
+        model: route.model,
+        temperature: route.temperature,
+        maxTokens: route.maxTokens
+      });
+    }
+  
+    /**
+     * JSON completion validated against a schema. Invalid output is sent back with the validation
+     * errors for a corrected version; whatever is still invalid after that is reported per field.
+     */
+    private async createStructuredCompletion<T extends z.AnyZodObject>(
+      request: LLMRequest,
+      schema: T
+    ): Promise<StructuredOutput<z.infer<T>> & { tokensUsed: number }> {
+      const messages = [...request.messages];
+      let tokensUsed = 0;
+  
+      for (let attempt = 0; ; attempt++) {
+        const result = await this.createChatCompletion({ ...request, messages });
+        tokensUsed += result.tokensUsed;
+  
+        const output = validateStructuredOutput(result.content, schema);
+        if (output.complete || attempt >= MAX_REPAIR_ATTEMPTS) {
+          return { ...output, tokensUsed };
+        }
+  
+        console.warn(`Repairing ${request.operation} output:`, output.errors.join('; '));
+        messages.push(
+          { role: 'assistant', content: result.content },
+          { role: 'user', content: buildRepairPrompt(output.errors) }
+        );
       }
     }
   
+    /**
+     * Stream a completion, yielding content deltas as they arrive and token usage at the end
+     */
+    private async *createChatCompletionStream(
+      request: LLMRequest,
+      signal?: AbortSignal
+    ): AsyncGenerator<ChatCompletionStreamChunk> {
+      const route = this.route(request);
+      yield* this.provider(route).stream({
+        ...request,
+        model: route.model,
+        temperature: route.temperature,
+        maxTokens: route.maxTokens
+      }, signal);
+    }
+  
+    private route(request: LLMRequest): ModelRoute {
+      const route = routeModel(this.config, request.operation, request, this.routing);
+      this.routes.push(route);
+      return route;
+    }
+  
+    /**
+     * The routed provider with timeouts, retries and the circuit breaker applied
+     */
+    private provider(route: ModelRoute): LLMProvider {
+      return withResilience(getLLMProvider(this.config, route.provider), {
+        ...this.config.resilience,
+        kv: this.circuitKV
+      });
+    }
+  
     private cleanHTML(html: string, maxTokens: number): string {
       // Remove script tags, style tags, and comments
       let cleaned = html
@@ -0,0 +1,128 @@
+import { CreditManager } from './credits';
+import type { ApplicationDocumentType } from '../types/database';
+
+/**
+ * Application documents beyond cover letters: recruiter outreach, thank-you notes,
+ * follow-ups, withdrawals and offer negotiation, each with its own prompt, length limit and cost
+ */
+
+export const APPLICATION_DOCUMENT_TYPES = [
+  'linkedin_message',
+  'thank_you',
+  'follow_up',
+  'withdrawal',
+  'offer_negotiation'
+] as const;
+
+export interface ApplicationDocumentTypeConfig {
+  label: string;
+  cost: number;
+  isEmail: boolean; // Emails get a subject line
+  targetWords: string; // Length guideline passed to the prompt
+  maxCharacters: number; // Hard limit enforced on the generated text
+  maxTokens: number;
+  requiresDetails: boolean; // Can't be written without details from the user
+  purpose: string;
+  guidelines: string[];
+}
+
+export const APPLICATION_DOCUMENT_CONFIG: Record<ApplicationDocumentType, ApplicationDocumentTypeConfig> = {
+  linkedin_message: {
+    label: 'LinkedIn message',
+    cost: CreditManager.COSTS.LINKEDIN_MESSAGE,
+    isEmail: false,
+    targetWords: '50-100 words',
+    maxCharacters: 1000,
+    maxTokens: 300,
+    requiresDetails: false,
+    purpose: 'a LinkedIn message to a recruiter or hiring manager about the role',
+    guidelines: [
+      'Open with the role and why the candidate is reaching out - no "I hope this finds you well"',
+      'Give one specific, relevant strength from the resume',
+      'End with a low-effort ask, such as a short call or who to speak to',
+      'Conversational and brief; no subject line, no formal letter layout'
+    ]
+  },
+  thank_you: {
+    label: 'Thank-you note',
+    cost: CreditManager.COSTS.THANK_YOU_NOTE,
+    isEmail: true,
+    targetWords: '120-200 words',
+    maxCharacters: 1600,
+    maxTokens: 500,
+    requiresDetails: false,
+    purpose: 'a thank-you email sent within a day of an interview',
+    guidelines: [
+      'Thank the interviewer for their time and name the role',
+      'Refer to something specific from the interview when the details mention it',
+      'Briefly reinforce one way the candidate fits what was discussed',
+      'Close by restating interest and looking forward to next steps'
+    ]
+  },
+  follow_up: {
+    label: 'Follow-up email',
+    cost: CreditManager.COSTS.FOLLOW_UP_EMAIL,
+    isEmail: true,
+    targetWords: '80-150 words',
+    maxCharacters: 1200,
+    maxTokens: 400,
+    requiresDetails: false,
+    purpose: 'a polite follow-up email asking about the status of the application',
+    guidelines: [
+      'Mention when and how the candidate applied or interviewed if the details say so',
+      'Reaffirm interest in one sentence with one relevant strength',
+      'Ask about the timeline or next steps without sounding impatient',
+      'Offer to provide anything else they need'
+    ]
+  },
+  withdrawal: {
+    label: 'Withdrawal email',
+    cost: CreditManager.COSTS.WITHDRAWAL_EMAIL,
+    isEmail: true,
+    targetWords: '60-120 words',
+    maxCharacters: 1000,
+    maxTokens: 300,
+    requiresDetails: false,
+    purpose: 'an email withdrawing from the hiring process while keeping the relationship positive',
+    guidelines: [
+      'State clearly that the candidate is withdrawing their application',
+      'Give a brief, gracious reason only if the details provide one - never invent one',
+      'Thank them for their time and consideration',
+      'Leave the door open for future opportunities'
+    ]
+  },
+  offer_negotiation: {
+    label: 'Offer negotiation email',
+    cost: CreditManager.COSTS.OFFER_NEGOTIATION_EMAIL,
+    isEmail: true,
+    targetWords: '180-300 words',
+    maxCharacters: 2600,
+    maxTokens: 700,
+    requiresDetails: true,
+    purpose: 'an email negotiating a job offer',
+    guidelines: [
+      'Open by thanking them for the offer and expressing genuine enthusiasm for the role',
+      'Make the request specific (a figure or range, start date, equity, remote days) using only what the details give',
+      'Justify it with the candidate\'s experience and any market data or competing offers the details mention',
+      'Stay collaborative - frame it as finding terms that work for both sides',
+      'Never invent competing offers, salary figures or benefits'
+    ]
+  }
+};
+
+/**
+ * Trim generated text to the type's hard limit, ending on a full sentence where possible
+ */
+export function fitToLength(content: string, maxCharacters: number): string {
+  const trimmed = content.trim();
+  if (trimmed.length <= maxCharacters) return trimmed;
+
+  const cut = trimmed.slice(0, maxCharacters);
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '), cut.lastIndexOf('.\n'));
+  if (sentenceEnd > maxCharacters / 2) {
+    return cut.slice(0, sentenceEnd + 1).trim();
+  }
+
+  const wordEnd = cut.lastIndexOf(' ');
+  return (wordEnd > 0 ? cut.slice(0, wordEnd) : cut).trim();
+}
@@ -0,0 +1,58 @@
+import type { ApplicationStatus } from '../types/database';
+
+/**
+ * Application pipeline: saved → applied → screening → interview → offer,
+ * with rejected/withdrawn as terminal outcomes
+ */
+
+export const APPLICATION_STATUSES = [
+  'saved',
+  'applied',
+  'screening',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn'
+] as const;
+
+const TERMINAL_STATUSES: ApplicationStatus[] = ['rejected', 'withdrawn'];
+
+/**
+ * Check whether an application can move from one status to another.
+ * Moving forward may skip stages (e.g. applied → interview); moving backward is only
+ * allowed to reopen a rejected/withdrawn application.
+ */
+export function canTransitionStatus(from: ApplicationStatus, to: ApplicationStatus): boolean {
+  if (from === to) return false;
+
+  // Any open application can end, and an ended one can be reopened at any stage
+  if (TERMINAL_STATUSES.includes(to) || TERMINAL_STATUSES.includes(from)) {
+    return true;
+  }
+
+  return APPLICATION_STATUSES.indexOf(to) > APPLICATION_STATUSES.indexOf(from);
+}
+
+/**
+ * Whether a status means the application has been submitted
+ */
+export function isSubmittedStatus(status: ApplicationStatus): boolean {
+  return status !== 'saved' && status !== 'withdrawn';
+}
+
+/**
+ * Group applications by status for a kanban board, keeping every column present
+ */
+export function groupByStatus<T extends { status: ApplicationStatus }>(
+  items: T[]
+): Record<ApplicationStatus, T[]> {
+  const board = Object.fromEntries(
+    APPLICATION_STATUSES.map(status => [status, [] as T[]])
+  ) as Record<ApplicationStatus, T[]>;
+
+  for (const item of items) {
+    board[item.status].push(item);
+  }
+
+  return board;
+}
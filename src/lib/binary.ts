@@ -0,0 +1,80 @@
+/**
+ * Low-level byte helpers shared by the document parsers and content hashing
+ */
+
+/**
+ * Decode bytes one-to-one into a string so byte offsets and string offsets match
+ */
+export function bytesToLatin1(bytes: Uint8Array): string {
+  const chunkSize = 0x8000;
+  let result = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return result;
+}
+
+/**
+ * Concatenate byte chunks into a single array
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * SHA-256 of a string as lower-case hex
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Most a document may decompress to in total. Resume text layers are far smaller; anything
+// near this is a zip or Flate bomb, which would otherwise exhaust the Worker's memory.
+export const MAX_DECOMPRESSED_BYTES = 32 * 1024 * 1024;
+
+export class DecompressionLimitError extends Error {
+  constructor(public maxBytes: number) {
+    super(`Decompressed data exceeds ${maxBytes} bytes`);
+    this.name = 'DecompressionLimitError';
+  }
+}
+
+/**
+ * Decompress zlib ("deflate") or raw deflate data using the runtime's DecompressionStream.
+ * Stops reading and throws DecompressionLimitError once the output passes maxBytes.
+ */
+export async function inflate(data: Uint8Array, format: 'deflate' | 'deflate-raw', maxBytes: number): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      total += value.length;
+      if (total > maxBytes) {
+        await reader.cancel().catch(() => {});
+        throw new DecompressionLimitError(maxBytes);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    // Many PDF producers leave trailing bytes after the deflate data - keep what was decoded
+    if (chunks.length === 0 || error instanceof DecompressionLimitError) {
+      throw error;
+    }
+  }
+
+  return concatBytes(chunks);
+}
@@ -1,3 +1,12 @@
+import {
+  AI_OPERATIONS,
+  parseModelSelection,
+  type AIOperation,
+  type LLMProviderName,
+  type ModelTier,
+  type ModelSelection,
+  type WorkersAIBinding
+} from './llm';
 import type { AppEnv } from '../types/env';
 
 export interface AppConfig {
@@ -5,8 +14,14 @@ export interface AppConfig {
   jwt: {
     secret: string;
   };
-  openai: {
-    apiKey: string;
+  ai: {
+    tiers: Record<ModelTier, ModelSelection>;
+    operations: Partial<Record<AIOperation, ModelSelection>>; // Pinned models, used at every tier
+    openai?: { apiKey: string };
+    anthropic?: { apiKey: string };
+    workersAI?: { binding: WorkersAIBinding };
+    openaiCompatible?: { baseUrl: string; apiKey?: string };
+    resilience: { timeoutMs: number; maxRetries: number };
   };
   stripe: {
     secretKey: string;
@@ -26,6 +41,7 @@ export interface AppConfig {
   };
   features: {
     testApiKey?: string;
+    adminApiKey?: string;
   };
 }
 
@@ -57,6 +73,23 @@ interface BindingConfig {
   required: boolean;
 }
 
+function validateModelSpec(value: string) {
+  return {
+    valid: parseModelSelection(value) !== null,
+    error: 'Must be "provider:model" with a known provider'
+  };
+}
+
+function validateIntegerRange(min: number, max: number) {
+  return (value: string) => {
+    const parsed = Number(value);
+    return {
+      valid: Number.isInteger(parsed) && parsed >= min && parsed <= max,
+      error: `Must be an integer from ${min} to ${max}`
+    };
+  };
+}
+
 // Define all environment variables we need
 const ENV_VAR_SCHEMA: EnvVarConfig[] = [
   {
@@ -76,7 +109,80 @@ const ENV_VAR_SCHEMA: EnvVarConfig[] = [
   {
     key: 'OPENAI_API_KEY',
     description: 'OpenAI API key',
-    required: true
+    required: false // Required when an "openai:" model is configured
+  },
+  {
+    key: 'ANTHROPIC_API_KEY',
+    description: 'Anthropic API key',
+    required: false
+  },
+  {
+    key: 'OPENAI_COMPATIBLE_BASE_URL',
+    description: 'Base URL of an OpenAI-compatible API',
+    required: false,
+    validator: (value) => {
+      try {
+        new URL(value);
+        return { valid: true };
+      } catch {
+        return { valid: false, error: 'Must be a valid URL' };
+      }
+    }
+  },
+  {
+    key: 'OPENAI_COMPATIBLE_API_KEY',
+    description: 'API key for the OpenAI-compatible API',
+    required: false
+  },
+  {
+    key: 'AI_MODEL',
+    description: 'Standard-tier AI model as "provider:model"',
+    required: false,
+    validator: validateModelSpec
+  },
+  {
+    key: 'AI_FAST_MODEL',
+    description: 'Fast-tier AI model as "provider:model"',
+    required: false,
+    validator: validateModelSpec
+  },
+  {
+    key: 'AI_PREMIUM_MODEL',
+    description: 'Premium-tier AI model as "provider:model"',
+    required: false,
+    validator: validateModelSpec
+  },
+  {
+    key: 'AI_OPERATION_MODELS',
+    description: 'Per-operation AI models as a JSON object of operation -> "provider:model"',
+    required: false,
+    validator: (value) => {
+      try {
+        const parsed = JSON.parse(value);
+        const valid = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+          && Object.entries(parsed).every(([operation, spec]) =>
+            (AI_OPERATIONS as readonly string[]).includes(operation)
+              && typeof spec === 'string' && parseModelSelection(spec) !== null);
+        return {
+          valid,
+          error: valid ? undefined : `Keys must be one of ${AI_OPERATIONS.join(', ')} and values "provider:model"`
+        };
+      } catch {
+        return { valid: false, error: 'Must be valid JSON' };
+      }
+    }
+  },
+  {
+    key: 'AI_TIMEOUT_MS',
+    description: 'Per-attempt AI request timeout in milliseconds',
+    required: false,
+    validator: validateIntegerRange(1000, 300_000)
+  },
+  {
+    key: 'AI_MAX_RETRIES',
+    description: 'Retries for rate-limited, timed out or failed AI requests',
+    required: false,
+    validator: validateIntegerRange(0, 5)
   },
   {
     key: 'STRIPE_SECRET_KEY',
@@ -114,6 +220,15 @@ const ENV_VAR_SCHEMA: EnvVarConfig[] = [
     key: 'TEST_API_KEY',
     description: 'Test API key for development',
     required: false
+  },
+  {
+    key: 'ADMIN_API_KEY',
+    description: 'Admin API key (X-Admin-Key header)',
+    required: false, // The admin API is disabled without it
+    validator: (value) => ({
+      valid: value.length >= 32,
+      error: 'Must be at least 32 characters'
+    })
   }
 ];
 
@@ -138,9 +253,37 @@ const BINDING_SCHEMA: BindingConfig[] = [
     key: 'EXTENSION_KV',
     description: 'KV namespace for extension data',
     required: false // Optional for now
+  },
+  {
+    key: 'AI',
+    description: 'Workers AI binding',
+    required: false // Only needed for "workers-ai:" models
   }
 ];
 
+// Used when AI_MODEL is not set
+const DEFAULT_AI_MODEL: ModelSelection = { provider: 'openai', model: 'gpt-4o' };
+
+// Fast and premium models for the standard model's provider when AI_FAST_MODEL/AI_PREMIUM_MODEL are not set,
+// each a step down or up from that provider's usual standard model. Other providers use the standard model for every tier.
+const DEFAULT_TIER_MODELS: Partial<Record<LLMProviderName, Record<'fast' | 'premium', string>>> = {
+  openai: { fast: 'gpt-4o-mini', premium: 'gpt-4.1' },
+  anthropic: { fast: 'claude-3-5-haiku-latest', premium: 'claude-opus-4-0' }
+};
+
+// Used when AI_TIMEOUT_MS / AI_MAX_RETRIES are not set
+const DEFAULT_AI_TIMEOUT_MS = 60_000;
+const DEFAULT_AI_MAX_RETRIES = 2;
+
+// What each provider needs before it can be selected
+const PROVIDER_REQUIREMENTS: Record<LLMProviderName, { key: keyof AppEnv['Bindings']; description: string } | null> = {
+  openai: { key: 'OPENAI_API_KEY', description: 'OpenAI API key' },
+  anthropic: { key: 'ANTHROPIC_API_KEY', description: 'Anthropic API key' },
+  'workers-ai': { key: 'AI', description: 'Workers AI binding' },
+  'openai-compatible': { key: 'OPENAI_COMPATIBLE_BASE_URL', description: 'Base URL of an OpenAI-compatible API' },
+  fake: null
+};
+
 /**
  * Validates and creates a typed configuration object from environment variables
  * Throws ConfigValidationError if any required variables are missing
@@ -187,9 +330,39 @@ export function validateConfig(env: AppEnv['Bindings']): AppConfig {
     }
   }
 
-  // Throw error if any required vars are missing
-  if (missingVars.length > 0) {
-    const message = `Missing required environment variables:\n${errors.map(e => `  - ${e}`).join('\n')}`;
+  // Every provider selected for an operation must be configured
+  const standardModel = validatedVars.AI_MODEL ? parseModelSelection(validatedVars.AI_MODEL)! : DEFAULT_AI_MODEL;
+  const tierModel = (key: 'AI_FAST_MODEL' | 'AI_PREMIUM_MODEL', tier: 'fast' | 'premium'): ModelSelection => {
+    if (validatedVars[key]) return parseModelSelection(validatedVars[key])!;
+    const model = DEFAULT_TIER_MODELS[standardModel.provider]?.[tier];
+    return model ? { provider: standardModel.provider, model } : standardModel;
+  };
+  const tiers: Record<ModelTier, ModelSelection> = {
+    fast: tierModel('AI_FAST_MODEL', 'fast'),
+    standard: standardModel,
+    premium: tierModel('AI_PREMIUM_MODEL', 'premium')
+  };
+  const operationModels = Object.fromEntries(
+    Object.entries(validatedVars.AI_OPERATION_MODELS ? JSON.parse(validatedVars.AI_OPERATION_MODELS) as Record<string, string> : {})
+      .map(([operation, spec]) => [operation, parseModelSelection(spec)!])
+  ) as Partial<Record<AIOperation, ModelSelection>>;
+
+  const selections = [...Object.values(tiers), ...Object.values(operationModels)] as ModelSelection[];
+  const selectedProviders = new Set(selections.map(selection => selection.provider));
+  for (const provider of selectedProviders) {
+    const requirement = PROVIDER_REQUIREMENTS[provider];
+    if (requirement && !validatedVars[String(requirement.key)] && !env[requirement.key]) {
+      missingVars.push(String(requirement.key));
+      errors.push(`${String(requirement.key)} (${requirement.description}, required by the configured "${provider}" models)`);
+    }
+  }
+  if (selectedProviders.has('fake') && validatedVars.ENVIRONMENT === 'production') {
+    errors.push('AI_MODEL / AI_FAST_MODEL / AI_PREMIUM_MODEL / AI_OPERATION_MODELS - The fake provider cannot be used in production');
+  }
+
+  // Throw error if any required vars are missing or invalid
+  if (errors.length > 0) {
+    const message = `${missingVars.length > 0 ? 'Missing required' : 'Invalid'} environment variables:\n${errors.map(e => `  - ${e}`).join('\n')}`;
     throw new ConfigValidationError(message, missingVars);
   }
 
@@ -204,8 +377,19 @@ export function validateConfig(env: AppEnv['Bindings']): AppConfig {
     jwt: {
       secret: validatedVars.JWT_SECRET,
     },
-    openai: {
-      apiKey: validatedVars.OPENAI_API_KEY,
+    ai: {
+      tiers,
+      operations: operationModels,
+      openai: validatedVars.OPENAI_API_KEY ? { apiKey: validatedVars.OPENAI_API_KEY } : undefined,
+      anthropic: validatedVars.ANTHROPIC_API_KEY ? { apiKey: validatedVars.ANTHROPIC_API_KEY } : undefined,
+      workersAI: env.AI ? { binding: env.AI } : undefined,
+      openaiCompatible: validatedVars.OPENAI_COMPATIBLE_BASE_URL
+        ? { baseUrl: validatedVars.OPENAI_COMPATIBLE_BASE_URL, apiKey: validatedVars.OPENAI_COMPATIBLE_API_KEY }
+        : undefined,
+      resilience: {
+        timeoutMs: validatedVars.AI_TIMEOUT_MS ? Number(validatedVars.AI_TIMEOUT_MS) : DEFAULT_AI_TIMEOUT_MS,
+        maxRetries: validatedVars.AI_MAX_RETRIES ? Number(validatedVars.AI_MAX_RETRIES) : DEFAULT_AI_MAX_RETRIES,
+      },
     },
     stripe: {
       secretKey: validatedVars.STRIPE_SECRET_KEY,
@@ -225,6 +409,7 @@ export function validateConfig(env: AppEnv['Bindings']): AppConfig {
     },
     features: {
       testApiKey: validatedVars.TEST_API_KEY,
+      adminApiKey: validatedVars.ADMIN_API_KEY,
     },
   };
 }
@@ -251,6 +436,14 @@ export function getConfig(): AppConfig {
   return configInstance;
 }
 
+/**
+ * Forget the config, so the next request validates its env again - for tests that run several environments in one isolate
+ */
+export function resetConfig(): void {
+  configInstance = null;
+  isInitialized = false;
+}
+
 /**
  * Check if config is initialized
  */
@@ -0,0 +1,204 @@
+import { sha256Hex } from './binary';
+import { createDocx, type DocxBlock } from './docx';
+import { createPdf, type PdfTextBlock } from './pdf';
+import { splitParagraphs } from './coverLetterText';
+import { getLetterLanguage } from './languages';
+import type { ResumeProfile } from '../types/database';
+
+/**
+ * Render cover letters as downloadable PDF, DOCX, Markdown or plain text files
+ */
+
+export const COVER_LETTER_EXPORT_FORMATS = ['pdf', 'docx', 'md', 'txt'] as const;
+export const COVER_LETTER_LAYOUTS = ['classic', 'modern', 'compact'] as const;
+
+export type CoverLetterExportFormat = typeof COVER_LETTER_EXPORT_FORMATS[number];
+export type CoverLetterLayout = typeof COVER_LETTER_LAYOUTS[number];
+
+export interface CoverLetterHeader {
+  name: string;
+  contact: string[]; // Email, phone, location, links
+  date: string;
+  company: string | null;
+  jobTitle: string | null;
+  recipient: string; // Localized "Hiring Team"
+  subject: string | null; // Localized "Re: <job title>"
+}
+
+export const COVER_LETTER_CONTENT_TYPES: Record<CoverLetterExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  md: 'text/markdown; charset=utf-8',
+  txt: 'text/plain; charset=utf-8'
+};
+
+// Block of the laid-out letter, shared by every format
+interface LetterBlock extends PdfTextBlock {
+  role: 'name' | 'contact' | 'date' | 'recipient' | 'body';
+}
+
+interface LayoutStyle {
+  margin: number; // Points
+  bodySize: number;
+  nameSize: number;
+  nameAlign: 'left' | 'center';
+  contactSeparator: string | null; // Null puts each contact detail on its own line
+  dateAlign: 'left' | 'right';
+}
+
+const LAYOUT_STYLES: Record<CoverLetterLayout, LayoutStyle> = {
+  classic: { margin: 72, bodySize: 11, nameSize: 16, nameAlign: 'left', contactSeparator: null, dateAlign: 'left' },
+  modern: { margin: 72, bodySize: 11, nameSize: 20, nameAlign: 'center', contactSeparator: ' | ', dateAlign: 'right' },
+  compact: { margin: 54, bodySize: 10.5, nameSize: 13, nameAlign: 'left', contactSeparator: ' · ', dateAlign: 'left' }
+};
+
+/**
+ * Header details: account name and email, plus phone/location/links from the parsed resume when available.
+ * The date and labels follow the letter's language.
+ */
+export function buildCoverLetterHeader(
+  user: { name: string; email: string },
+  contact: ResumeProfile['contact'] | null,
+  letter: { company: string | null; jobTitle: string | null; language: string },
+  date: Date
+): CoverLetterHeader {
+  const language = getLetterLanguage(letter.language);
+
+  const details = [
+    contact?.email ?? user.email,
+    contact?.phone,
+    contact?.location,
+    contact?.linkedin,
+    contact?.website
+  ].filter((value): value is string => Boolean(value?.trim()));
+
+  return {
+    name: contact?.name?.trim() || user.name,
+    contact: details,
+    date: date.toLocaleDateString(language.locale, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }),
+    company: letter.company,
+    jobTitle: letter.jobTitle,
+    recipient: language.hiringTeam,
+    subject: letter.jobTitle ? language.subject(letter.jobTitle) : null
+  };
+}
+
+function layoutLetter(header: CoverLetterHeader, content: string, layout: CoverLetterLayout): LetterBlock[] {
+  const style = LAYOUT_STYLES[layout];
+  const blocks: LetterBlock[] = [];
+  const gap = style.bodySize;
+
+  blocks.push({
+    role: 'name',
+    text: header.name,
+    bold: true,
+    size: style.nameSize,
+    align: style.nameAlign,
+    spacingAfter: header.contact.length > 0 ? 2 : gap * 1.5
+  });
+
+  if (style.contactSeparator && header.contact.length > 0) {
+    blocks.push({ role: 'contact', text: header.contact.join(style.contactSeparator), size: style.bodySize - 1, align: style.nameAlign, spacingAfter: gap * 1.5 });
+  } else {
+    header.contact.forEach((line, index) => {
+      const last = index === header.contact.length - 1;
+      blocks.push({ role: 'contact', text: line, size: style.bodySize, spacingAfter: last ? gap * 1.5 : 0 });
+    });
+  }
+
+  blocks.push({ role: 'date', text: header.date, size: style.bodySize, align: style.dateAlign, spacingAfter: gap });
+
+  if (header.company) {
+    blocks.push({ role: 'recipient', text: `${header.recipient}\n${header.company}`, size: style.bodySize, spacingAfter: gap });
+  }
+  if (header.subject) {
+    blocks.push({ role: 'recipient', text: header.subject, bold: true, size: style.bodySize, spacingAfter: gap });
+  }
+
+  for (const paragraph of splitParagraphs(content)) {
+    blocks.push({ role: 'body', text: paragraph.text.trim(), size: style.bodySize, spacingAfter: gap * 0.75 });
+  }
+
+  return blocks;
+}
+
+function toDocxBlocks(blocks: LetterBlock[]): DocxBlock[] {
+  // DOCX paragraphs can't hold line breaks here, so multi-line blocks become tightly spaced paragraphs
+  return blocks.flatMap(block => {
+    const lines = block.text.split('\n');
+    return lines.map((line, index): DocxBlock => ({
+      type: 'paragraph',
+      runs: [{ text: line, bold: block.bold, size: block.size }],
+      align: block.align,
+      spacingAfter: index === lines.length - 1 ? Math.round((block.spacingAfter ?? 0) * 20) : 0
+    }));
+  });
+}
+
+function toMarkdown(header: CoverLetterHeader, blocks: LetterBlock[]): string {
+  const sections = [`# ${header.name}`];
+  if (header.contact.length > 0) sections.push(header.contact.join(' | '));
+
+  for (const block of blocks) {
+    if (block.role === 'name' || block.role === 'contact') continue;
+    const text = block.text.split('\n').join('  \n');
+    sections.push(block.bold ? `**${text}**` : text);
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+function toPlainText(blocks: LetterBlock[]): string {
+  return blocks.map((block, index) => {
+    const next = blocks[index + 1];
+    // Keep consecutive contact lines together
+    const separator = block.role === 'contact' && next?.role === 'contact' ? '\n' : '\n\n';
+    return block.text + (next ? separator : '\n');
+  }).join('');
+}
+
+/**
+ * Render a cover letter with its header block in the requested format and layout
+ */
+export function renderCoverLetter(
+  header: CoverLetterHeader,
+  content: string,
+  format: CoverLetterExportFormat,
+  layout: CoverLetterLayout = 'classic'
+): Uint8Array | string {
+  const blocks = layoutLetter(header, content, layout);
+
+  switch (format) {
+    case 'pdf':
+      return createPdf(blocks, { margin: LAYOUT_STYLES[layout].margin });
+    case 'docx':
+      return createDocx(toDocxBlocks(blocks));
+    case 'md':
+      return toMarkdown(header, blocks);
+    case 'txt':
+      return toPlainText(blocks);
+  }
+}
+
+/**
+ * R2 prefix holding a cover letter's cached exports
+ */
+export function exportCachePrefix(userId: string, coverLetterId: string): string {
+  return `cover-letters/${userId}/${coverLetterId}/exports/`;
+}
+
+/**
+ * R2 key for a cached export. Versions are immutable, so the key covers everything that
+ * changes the output: version, layout and header details.
+ */
+export async function exportCacheKey(
+  userId: string,
+  coverLetterId: string,
+  version: number,
+  format: CoverLetterExportFormat,
+  layout: CoverLetterLayout,
+  header: CoverLetterHeader
+): Promise<string> {
+  const hash = (await sha256Hex(JSON.stringify({ version, layout, header }))).slice(0, 24);
+  return `${exportCachePrefix(userId, coverLetterId)}v${version}-${hash}.${format}`;
+}
@@ -0,0 +1,209 @@
+import { matchResumeToJob } from './matching';
+import { splitParagraphs } from './coverLetterText';
+
+/**
+ * Deterministic cover letter checks: keyword coverage, clichés, length and specificity
+ */
+
+export type ReviewCategory = 'keywords' | 'cliches' | 'length' | 'specificity' | 'critique';
+
+export interface ReviewSuggestion {
+  category: ReviewCategory;
+  line: number | null; // 1-based line of the letter, null for letter-wide suggestions
+  excerpt?: string;
+  suggestion: string;
+}
+
+export interface KeywordCoverage {
+  score: number; // 0-100
+  matchedSkills: string[];
+  missingSkills: string[];
+  matchedRequirements: string[];
+  missingRequirements: string[];
+}
+
+export interface CoverLetterChecks {
+  scores: {
+    keywordCoverage: number | null; // Null when there is no job to compare against
+    cliches: number;
+    length: number;
+    specificity: number;
+  };
+  wordCount: number;
+  keywordCoverage: KeywordCoverage | null;
+  cliches: Array<{ phrase: string; line: number }>;
+  suggestions: ReviewSuggestion[];
+}
+
+// Phrases recruiters skim past; matched case-insensitively
+const CLICHES = [
+  'to whom it may concern',
+  'dear sir or madam',
+  'i am writing to express my interest',
+  'i am writing to apply',
+  'please accept this letter',
+  'i believe i would be a great fit',
+  'perfect fit',
+  'ideal candidate',
+  'team player',
+  'hard-working',
+  'hardworking',
+  'detail-oriented',
+  'self-starter',
+  'go-getter',
+  'results-driven',
+  'think outside the box',
+  'fast-paced environment',
+  'proven track record',
+  'excellent communication skills',
+  'hit the ground running',
+  'wear many hats',
+  'synergy',
+  'passionate about',
+  'i am confident that i',
+  'thank you for your time and consideration'
+];
+
+const VAGUE_WORDS = /\b(various|several|many|numerous|things|stuff|etc|lots of|a variety of)\b/gi;
+
+// Word counts that read well on one page
+const IDEAL_MIN_WORDS = 250;
+const IDEAL_MAX_WORDS = 400;
+
+function lineNumberAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function scoreLength(wordCount: number): number {
+  if (wordCount < IDEAL_MIN_WORDS) {
+    return clamp(((wordCount - 100) / (IDEAL_MIN_WORDS - 100)) * 100);
+  }
+  if (wordCount > IDEAL_MAX_WORDS) {
+    return clamp(((700 - wordCount) / (700 - IDEAL_MAX_WORDS)) * 100);
+  }
+  return 100;
+}
+
+/**
+ * Run the free checks. Pass the linked job to include keyword coverage.
+ */
+export function checkCoverLetter(
+  content: string,
+  job: { company?: string | null; skills: string[]; requirements: string[] } | null
+): CoverLetterChecks {
+  const suggestions: ReviewSuggestion[] = [];
+  const lowerContent = content.toLowerCase();
+
+  // Clichés
+  const cliches: Array<{ phrase: string; line: number }> = [];
+  for (const phrase of CLICHES) {
+    let index = lowerContent.indexOf(phrase);
+    while (index !== -1) {
+      const line = lineNumberAt(content, index);
+      cliches.push({ phrase, line });
+      suggestions.push({
+        category: 'cliches',
+        line,
+        excerpt: content.slice(index, index + phrase.length),
+        suggestion: `Replace "${content.slice(index, index + phrase.length)}" with something only you could say - a specific example or result.`
+      });
+      index = lowerContent.indexOf(phrase, index + phrase.length);
+    }
+  }
+
+  // Length
+  const wordCount = countWords(content);
+  if (wordCount < IDEAL_MIN_WORDS) {
+    suggestions.push({
+      category: 'length',
+      line: null,
+      suggestion: `At ${wordCount} words the letter is short - aim for ${IDEAL_MIN_WORDS}-${IDEAL_MAX_WORDS} by adding a concrete example of relevant work.`
+    });
+  } else if (wordCount > IDEAL_MAX_WORDS) {
+    suggestions.push({
+      category: 'length',
+      line: null,
+      suggestion: `At ${wordCount} words the letter is long - aim for ${IDEAL_MIN_WORDS}-${IDEAL_MAX_WORDS} by cutting anything the resume already says.`
+    });
+  }
+
+  // Specificity: measurable results, naming the company, few vague words
+  const metricSentences = content.split(/(?<=[.!?])\s+/).filter(sentence => /\d|%|\$/.test(sentence)).length;
+  const vagueWords = content.match(VAGUE_WORDS) ?? [];
+  const mentionsCompany = Boolean(job?.company && lowerContent.includes(job.company.toLowerCase()));
+  const specificity = clamp(30 + Math.min(metricSentences, 3) * 20 + (mentionsCompany ? 10 : 0) - vagueWords.length * 5);
+
+  for (const paragraph of splitParagraphs(content)) {
+    if (countWords(paragraph.text) >= 40 && !/\d|%|\$/.test(paragraph.text)) {
+      suggestions.push({
+        category: 'specificity',
+        line: lineNumberAt(content, paragraph.start),
+        excerpt: paragraph.text.slice(0, 80),
+        suggestion: 'This paragraph has no concrete evidence - add a number, scale or outcome from your experience.'
+      });
+    }
+  }
+  if (job?.company && !mentionsCompany) {
+    suggestions.push({
+      category: 'specificity',
+      line: null,
+      suggestion: `Mention ${job.company} by name and what draws you to it specifically.`
+    });
+  }
+
+  // Keyword coverage of the linked job
+  let keywordCoverage: KeywordCoverage | null = null;
+  if (job && (job.skills.length > 0 || job.requirements.length > 0)) {
+    const match = matchResumeToJob(content, job);
+    keywordCoverage = {
+      score: match.score,
+      matchedSkills: match.matchedSkills,
+      missingSkills: match.missingSkills,
+      matchedRequirements: match.matchedRequirements,
+      missingRequirements: match.missingRequirements
+    };
+
+    if (match.missingSkills.length > 0) {
+      suggestions.push({
+        category: 'keywords',
+        line: null,
+        suggestion: `The posting asks for ${match.missingSkills.slice(0, 5).join(', ')} - mention any you genuinely have so ATS keyword filters pick them up.`
+      });
+    }
+    for (const requirement of match.missingRequirements.slice(0, 3)) {
+      suggestions.push({
+        category: 'keywords',
+        line: null,
+        suggestion: `Not addressed: "${requirement}"`
+      });
+    }
+  }
+
+  return {
+    scores: {
+      keywordCoverage: keywordCoverage?.score ?? null,
+      cliches: clamp(100 - cliches.length * 15),
+      length: scoreLength(wordCount),
+      specificity
+    },
+    wordCount,
+    keywordCoverage,
+    cliches,
+    suggestions
+  };
+}
+
+/**
+ * Prefix each line with its number so AI suggestions can point at lines
+ */
+export function numberLines(content: string): string {
+  return content.split('\n').map((line, index) => `${index + 1}: ${line}`).join('\n');
+}
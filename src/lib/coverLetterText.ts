@@ -0,0 +1,52 @@
+/**
+ * Locating and replacing sections of a cover letter's text
+ */
+
+export interface TextSection {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Paragraphs of a letter (blocks separated by blank lines) with their character offsets
+ */
+export function splitParagraphs(content: string): TextSection[] {
+  const paragraphs: TextSection[] = [];
+  const pattern = /[^\n]*\S[^\n]*(?:\n[^\n]*\S[^\n]*)*/g;
+
+  for (const match of content.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    paragraphs.push({ start, end: start + match[0].length, text: match[0] });
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Resolve a paragraph index or a character range to the section it covers.
+ * Returns null when the index or range falls outside the letter.
+ */
+export function resolveSection(
+  content: string,
+  target: { paragraphIndex?: number; range?: { start: number; end: number } }
+): TextSection | null {
+  if (target.paragraphIndex !== undefined) {
+    return splitParagraphs(content)[target.paragraphIndex] ?? null;
+  }
+
+  if (target.range) {
+    const { start, end } = target.range;
+    if (end > content.length || !content.slice(start, end).trim()) return null;
+    return { start, end, text: content.slice(start, end) };
+  }
+
+  return null;
+}
+
+/**
+ * Replace a section, keeping the text around it untouched
+ */
+export function replaceSection(content: string, section: TextSection, replacement: string): string {
+  return content.slice(0, section.start) + replacement + content.slice(section.end);
+}
@@ -0,0 +1,55 @@
+import type { CoverLetterPreferences } from '../types/database';
+
+/**
+ * Tone/focus combinations for cover letter variants generated in one request
+ */
+
+type Tone = NonNullable<CoverLetterPreferences['tone']>;
+type Focus = NonNullable<CoverLetterPreferences['focus']>;
+
+export const MAX_COVER_LETTER_VARIANTS = 3;
+
+const TONES: Tone[] = ['professional', 'enthusiastic', 'casual'];
+const FOCUSES: Focus[] = ['experience', 'achievements', 'skills'];
+
+function styleDistance(a: CoverLetterPreferences, b: CoverLetterPreferences): number {
+  return (a.tone !== b.tone ? 1 : 0) + (a.focus !== b.focus ? 1 : 0);
+}
+
+/**
+ * Preferences for each variant. The first uses the requested preferences; the others differ from
+ * every earlier variant as much as possible while keeping any tone or focus the user chose.
+ */
+export function buildVariantPreferences(base: CoverLetterPreferences, count: number): CoverLetterPreferences[] {
+  const variants: CoverLetterPreferences[] = [{
+    ...base,
+    tone: base.tone ?? 'professional',
+    focus: base.focus ?? 'experience'
+  }];
+
+  const candidates = TONES.flatMap(tone => FOCUSES.map(focus => ({ ...base, tone, focus })));
+
+  while (variants.length < Math.min(count, candidates.length)) {
+    let best: CoverLetterPreferences | null = null;
+    let bestScore = -Infinity;
+
+    for (const candidate of candidates) {
+      if (variants.some(variant => styleDistance(variant, candidate) === 0)) continue;
+
+      // Overriding a chosen tone/focus costs more than any gain in distance
+      const overrides = (base.tone && candidate.tone !== base.tone ? 1 : 0) + (base.focus && candidate.focus !== base.focus ? 1 : 0);
+      const distance = Math.min(...variants.map(variant => styleDistance(variant, candidate)));
+      const score = distance - overrides * 10;
+
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (!best) break;
+    variants.push(best);
+  }
+
+  return variants;
+}
@@ -0,0 +1,87 @@
+import { eq, and, desc } from 'drizzle-orm';
+import type { Database } from './db';
+import { coverLetters, coverLetterVersions } from '../db/schema';
+import type { CoverLetter, CoverLetterVersion, CoverLetterVersionSource } from '../types/database';
+
+/**
+ * Record the generated text as version 1 of a new cover letter
+ */
+export async function recordInitialVersion(db: Database, coverLetter: CoverLetter): Promise<CoverLetterVersion> {
+  const [version] = await db.insert(coverLetterVersions).values({
+    id: crypto.randomUUID(),
+    coverLetterId: coverLetter.id,
+    version: coverLetter.currentVersion,
+    content: coverLetter.content,
+    source: 'ai',
+    createdAt: coverLetter.createdAt ?? new Date().toISOString()
+  }).returning();
+
+  return version;
+}
+
+/**
+ * All versions of a cover letter, newest first.
+ * Letters generated before versioning have no history yet - their current text becomes version 1.
+ */
+export async function getVersionHistory(db: Database, coverLetter: CoverLetter): Promise<CoverLetterVersion[]> {
+  const versions = await db.select()
+    .from(coverLetterVersions)
+    .where(eq(coverLetterVersions.coverLetterId, coverLetter.id))
+    .orderBy(desc(coverLetterVersions.version));
+
+  if (versions.length > 0) return versions;
+
+  return [await recordInitialVersion(db, coverLetter)];
+}
+
+export async function getVersion(
+  db: Database,
+  coverLetter: CoverLetter,
+  versionNumber: number
+): Promise<CoverLetterVersion | undefined> {
+  // Make sure legacy letters have their version 1
+  await getVersionHistory(db, coverLetter);
+
+  return db.select()
+    .from(coverLetterVersions)
+    .where(and(
+      eq(coverLetterVersions.coverLetterId, coverLetter.id),
+      eq(coverLetterVersions.version, versionNumber)
+    ))
+    .get();
+}
+
+/**
+ * Save new content as the next version and make it the letter's current text
+ */
+export async function saveNewVersion(
+  db: Database,
+  coverLetter: CoverLetter,
+  content: string,
+  source: CoverLetterVersionSource,
+  restoredFromVersion?: number
+): Promise<{ coverLetter: CoverLetter; version: CoverLetterVersion }> {
+  await getVersionHistory(db, coverLetter);
+
+  const now = new Date().toISOString();
+  const [version] = await db.insert(coverLetterVersions).values({
+    id: crypto.randomUUID(),
+    coverLetterId: coverLetter.id,
+    version: coverLetter.currentVersion + 1,
+    content,
+    source,
+    restoredFromVersion: restoredFromVersion ?? null,
+    createdAt: now
+  }).returning();
+
+  const [updated] = await db.update(coverLetters)
+    .set({
+      content,
+      currentVersion: version.version,
+      updatedAt: now
+    })
+    .where(eq(coverLetters.id, coverLetter.id))
+    .returning();
+
+  return { coverLetter: updated, version };
+}
@@ -2,6 +2,7 @@ import { eq, and, sql, desc } from 'drizzle-orm';
 import type { Database } from './db';
 import { users, apiUsage, creditTransactions } from '../db/schema';
 import type { CreditTransaction } from '../types/database';
+import type { ModelTier } from './llm';
 
 interface CreditStats {
   currentBalance: number;
@@ -27,9 +28,19 @@ interface SubscriptionLimits {
 export class CreditManager {
   static readonly COSTS = {
     COVER_LETTER_GENERATION: 3,
-    JOB_EXTRACTION: 1,
+    JOB_EXTRACTION: 1, // Free when structured data or a site extractor covers every required field
     RESUME_ANALYSIS: 2,
-    RESUME_UPLOAD: 1
+    RESUME_UPLOAD: 1,
+    JOB_MATCH_ANALYSIS: 1, // Keyword matching is free; this covers the optional AI pass
+    RESUME_TAILORING: 3,
+    COVER_LETTER_REWRITE: 1, // Rewriting one section of an existing letter
+    COVER_LETTER_REVIEW: 1, // Keyword coverage is free; this covers the optional AI critique
+    COVER_LETTER_TRANSLATION: 1,
+    LINKEDIN_MESSAGE: 1,
+    THANK_YOU_NOTE: 1,
+    FOLLOW_UP_EMAIL: 1,
+    WITHDRAWAL_EMAIL: 1,
+    OFFER_NEGOTIATION_EMAIL: 2 // Longer, and weighs the offer details against the job
   };
 
   static async checkCredits(db: Database, userId: string, requiredCredits: number): Promise<boolean> {
@@ -44,7 +55,8 @@ export class CreditManager {
     endpoint: string, 
     ipAddress?: string, 
     userAgent?: string,
-    sourceId?: string
+    sourceId?: string,
+    servedBy?: { model: string; tier: ModelTier } | null
   ): Promise<void> {
     // Get current balance
     const user = await db.select({ credits: users.credits })
@@ -75,6 +87,8 @@ export class CreditManager {
       creditsUsed: amount,
       ipAddress,
       userAgent,
+      model: servedBy?.model ?? null,
+      modelTier: servedBy?.tier ?? null,
       success: true,
       createdAt: new Date().toISOString()
     });
@@ -0,0 +1,137 @@
+import { extractPdfText } from './pdf';
+import { extractDocxText } from './docx';
+import { DecompressionLimitError } from './binary';
+
+/**
+ * Resume document text extraction - runs entirely inside the Worker, no network access
+ */
+
+export type DocumentType = 'pdf' | 'docx' | 'text';
+
+export type DocumentExtractionErrorCode =
+  | 'unsupported_type'
+  | 'image_only_pdf'
+  | 'encrypted_pdf'
+  | 'corrupt_file'
+  | 'no_text'
+  | 'missing_file';
+
+export class DocumentExtractionError extends Error {
+  constructor(
+    message: string,
+    public code: DocumentExtractionErrorCode
+  ) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+  }
+}
+
+// Fewer readable characters than this in a PDF with images means it is a scan
+const MIN_TEXT_LAYER_CHARS = 20;
+
+/**
+ * Detect the document type from magic bytes, falling back to the declared MIME type
+ */
+export function detectDocumentType(bytes: Uint8Array, mimeType = ''): DocumentType | null {
+  // %PDF
+  if (bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46) {
+    return 'pdf';
+  }
+
+  // PK\x03\x04 - ZIP container, which is what DOCX is
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    return 'docx';
+  }
+
+  if (mimeType.includes('pdf')) return 'pdf';
+  if (mimeType.includes('wordprocessingml')) return 'docx';
+  if (mimeType.startsWith('text/')) return 'text';
+
+  return null;
+}
+
+/**
+ * Collapse layout whitespace while keeping line and paragraph breaks
+ */
+export function normalizeExtractedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+async function extractFromPdf(bytes: Uint8Array): Promise<string> {
+  const result = await extractPdfText(bytes);
+
+  if (result.encrypted) {
+    throw new DocumentExtractionError(
+      'This PDF is encrypted or password-protected. Please upload an unprotected copy.',
+      'encrypted_pdf'
+    );
+  }
+
+  const text = normalizeExtractedText(result.text);
+  const readableChars = text.replace(/\s/g, '').length;
+
+  if (readableChars < MIN_TEXT_LAYER_CHARS && result.imageCount > 0) {
+    throw new DocumentExtractionError(
+      'This PDF appears to be a scanned image with no text layer. Please upload a text-based PDF, a DOCX, or a plain text version of your resume.',
+      'image_only_pdf'
+    );
+  }
+
+  return text;
+}
+
+/**
+ * Extract plain text from an uploaded resume (PDF text layer, DOCX, or plain text)
+ * Throws DocumentExtractionError with a user-facing message when no text can be recovered
+ */
+export async function extractDocumentText(data: ArrayBuffer | Uint8Array, mimeType: string): Promise<string> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const type = detectDocumentType(bytes, mimeType);
+
+  if (!type) {
+    throw new DocumentExtractionError(
+      `Unsupported file type: ${mimeType || 'unknown'}. Please upload a PDF, DOCX, or plain text resume.`,
+      'unsupported_type'
+    );
+  }
+
+  let text: string;
+  try {
+    if (type === 'pdf') {
+      text = await extractFromPdf(bytes);
+    } else if (type === 'docx') {
+      text = normalizeExtractedText(await extractDocxText(bytes));
+    } else {
+      text = normalizeExtractedText(new TextDecoder().decode(bytes));
+    }
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      throw error;
+    }
+    if (error instanceof DecompressionLimitError) {
+      throw new DocumentExtractionError(
+        `The ${type.toUpperCase()} file expands to more data than a resume could hold, so it was not read.`,
+        'corrupt_file'
+      );
+    }
+    console.error('Document extraction error:', error);
+    throw new DocumentExtractionError(
+      `The ${type.toUpperCase()} file could not be read. It may be corrupted.`,
+      'corrupt_file'
+    );
+  }
+
+  if (!text) {
+    throw new DocumentExtractionError('No text could be extracted from this file.', 'no_text');
+  }
+
+  return text;
+}
@@ -0,0 +1,240 @@
+import { readZipEntries, readZipEntry, createZip } from './zip';
+import { MAX_DECOMPRESSED_BYTES } from './binary';
+
+/**
+ * DOCX (Office Open XML) text extraction and generation
+ */
+
+export interface DocxRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  size?: number; // Points
+}
+
+export type DocxBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; runs: DocxRun[] }
+  | { type: 'paragraph'; runs: DocxRun[]; align?: 'left' | 'right' | 'center'; spacingAfter?: number }
+  | { type: 'bullet'; runs: DocxRun[] };
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Convert a WordprocessingML part (document, header or footer) to plain text
+ */
+export function wordXmlToText(xml: string): string {
+  const parts: string[] = [];
+  const tokenPattern = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>|<w:numPr\b|<\/w:(p|tc)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    if (match[1] !== undefined) {
+      parts.push(decodeXmlEntities(match[1]));
+    } else if (match[2] === 'tab') {
+      parts.push('\t');
+    } else if (match[2]) {
+      parts.push('\n');
+    } else if (match[0] === '<w:numPr') {
+      // List paragraph - numbering properties precede the runs, so prefix a bullet
+      parts.push('• ');
+    } else if (match[3] === 'p') {
+      parts.push('\n');
+    } else if (match[3] === 'tc') {
+      parts.push('\t');
+    }
+  }
+
+  return parts.join('');
+}
+
+/**
+ * Extract plain text from a DOCX file, including headers where contact details often live
+ */
+export async function extractDocxText(data: Uint8Array): Promise<string> {
+  const entries = readZipEntries(data);
+  const document = entries.get('word/document.xml');
+
+  if (!document) {
+    throw new Error('Invalid DOCX: word/document.xml not found');
+  }
+
+  const headers = [...entries.values()]
+    .filter(entry => /^word\/header\d*\.xml$/.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const decoder = new TextDecoder();
+  const sections: string[] = [];
+  let remaining = MAX_DECOMPRESSED_BYTES; // Shared by all parts, so many small bombs add up too
+
+  for (const entry of [...headers, document]) {
+    const xml = await readZipEntry(data, entry, remaining);
+    remaining -= xml.length;
+    sections.push(wordXmlToText(decoder.decode(xml)));
+  }
+
+  return sections.join('\n');
+}
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const DOCX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCX_DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="240" w:after="120"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="200" w:after="80"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="160" w:after="60"/></w:pPr><w:rPr><w:b/><w:sz w:val="23"/></w:rPr></w:style>
+</w:styles>`;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function runsToXml(runs: DocxRun[]): string {
+  return runs.map(run => {
+    const properties = `${run.bold ? '<w:b/>' : ''}${run.italic ? '<w:i/>' : ''}${run.size ? `<w:sz w:val="${Math.round(run.size * 2)}"/>` : ''}`;
+    const rPr = properties ? `<w:rPr>${properties}</w:rPr>` : '';
+    return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+  }).join('');
+}
+
+function blockToXml(block: DocxBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<w:p><w:pPr><w:pStyle w:val="Heading${block.level}"/></w:pPr>${runsToXml(block.runs)}</w:p>`;
+    case 'bullet':
+      return `<w:p><w:pPr><w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/></w:pPr>${runsToXml([{ text: '•\t' }, ...block.runs])}</w:p>`;
+    case 'paragraph': {
+      const properties = [
+        block.align && block.align !== 'left' ? `<w:jc w:val="${block.align}"/>` : '',
+        block.spacingAfter !== undefined ? `<w:spacing w:after="${block.spacingAfter}"/>` : ''
+      ].join('');
+      const pPr = properties ? `<w:pPr>${properties}</w:pPr>` : '';
+      return `<w:p>${pPr}${runsToXml(block.runs)}</w:p>`;
+    }
+  }
+}
+
+/**
+ * Parse inline Markdown emphasis (**bold**, *italic*) into runs
+ */
+export function parseInlineMarkdown(text: string): DocxRun[] {
+  const runs: DocxRun[] = [];
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      runs.push({ text: text.slice(lastIndex, match.index) });
+    }
+    if (match[1] !== undefined) {
+      runs.push({ text: match[1], bold: true });
+    } else {
+      runs.push({ text: match[2] ?? match[3], italic: true });
+    }
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (lastIndex < text.length) {
+    runs.push({ text: text.slice(lastIndex) });
+  }
+
+  return runs;
+}
+
+/**
+ * Convert the Markdown subset produced by the AI (headings, bullets, emphasis) into DOCX blocks
+ */
+export function markdownToDocxBlocks(markdown: string): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', runs: parseInlineMarkdown(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^[-*+]\s+(.*)$/);
+
+    if (!line || /^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, runs: parseInlineMarkdown(heading[2]) });
+    } else if (bullet) {
+      flushParagraph();
+      blocks.push({ type: 'bullet', runs: parseInlineMarkdown(bullet[1]) });
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Build a DOCX file from blocks
+ */
+export function createDocx(blocks: DocxBlock[]): Uint8Array {
+  const body = blocks.map(blockToXml).join('');
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1080" w:right="1080" w:bottom="1080" w:left="1080" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: DOCX_CONTENT_TYPES },
+    { name: '_rels/.rels', data: DOCX_ROOT_RELS },
+    { name: 'word/_rels/document.xml.rels', data: DOCX_DOCUMENT_RELS },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/styles.xml', data: DOCX_STYLES }
+  ]);
+}
+
+/**
+ * Convert Markdown to a DOCX file
+ */
+export function markdownToDocx(markdown: string): Uint8Array {
+  return createDocx(markdownToDocxBlocks(markdown));
+}
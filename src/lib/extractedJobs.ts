@@ -0,0 +1,70 @@
+import { eq, and, desc } from 'drizzle-orm';
+import type { Database } from './db';
+import { canonicalizeJobUrl } from './jobUrls';
+import { extractedJobs } from '../db/schema';
+import type { ExtractedJob, JobExtractionData } from '../types/database';
+
+/**
+ * Stored extracted jobs as input for cover letter generation
+ */
+
+/**
+ * Load an extracted job owned by the user. Returns null when it doesn't exist or belongs to someone else.
+ */
+export async function getUserExtractedJob(db: Database, jobId: string, userId: string): Promise<ExtractedJob | null> {
+  const job = await db.select()
+    .from(extractedJobs)
+    .where(eq(extractedJobs.id, jobId))
+    .get();
+
+  if (!job || job.userId !== userId) return null;
+  return job;
+}
+
+/**
+ * Latest stored version of a posting the user has extracted, matched on the canonical URL
+ */
+export async function findExtractedJobByUrl(db: Database, url: string, userId: string): Promise<ExtractedJob | null> {
+  const job = await db.select()
+    .from(extractedJobs)
+    .where(and(eq(extractedJobs.userId, userId), eq(extractedJobs.canonicalUrl, canonicalizeJobUrl(url))))
+    .orderBy(desc(extractedJobs.version))
+    .limit(1)
+    .get();
+
+  return job ?? null;
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Convert a stored job row into the extraction shape the AI prompts take
+ */
+export function toJobExtractionData(job: ExtractedJob): JobExtractionData {
+  return {
+    title: job.title ?? undefined,
+    company: job.company ?? undefined,
+    location: job.location ?? undefined,
+    description: job.description ?? undefined,
+    salary: job.salary ?? undefined,
+    jobType: job.jobType ?? undefined,
+    experience: job.experience ?? undefined,
+    requirements: job.requirements ? JSON.parse(job.requirements) as string[] : undefined,
+    skills: job.skills ? JSON.parse(job.skills) as string[] : undefined,
+    benefits: job.benefits ? JSON.parse(job.benefits) as string[] : undefined,
+    industry: job.industry ?? undefined,
+    remote: job.remote ?? undefined,
+    datePosted: job.datePosted ?? undefined,
+    validThrough: job.validThrough ?? undefined,
+    pageType: job.pageType ?? 'job',
+    confidence: job.confidence ?? 1,
+    url: job.url,
+    domain: hostnameOf(job.url)
+  };
+}
@@ -0,0 +1,56 @@
+import { elementText, htmlToText } from '../html';
+import {
+  describeSection,
+  companyFromSlug,
+  normalizeJobType,
+  detectRemote,
+  extractScriptJson,
+  compactJobData,
+  type SiteExtractor
+} from './shared';
+
+interface AshbyAppData {
+  organization?: { name?: string };
+  posting?: {
+    title?: string;
+    locationName?: string;
+    employmentType?: string;
+    workplaceType?: string;
+    isRemote?: boolean;
+    descriptionHtml?: string;
+    compensationTierSummary?: string;
+    scrapeableCompensationSalarySummary?: string;
+    publishedDate?: string;
+  };
+}
+
+function text(value: string | undefined): string | undefined {
+  return value ? htmlToText(value) || undefined : undefined;
+}
+
+/**
+ * Ashby job boards (jobs.ashbyhq.com/<company>/<id>) - the posting is embedded as window.__appData
+ */
+export const ashbyExtractor: SiteExtractor = {
+  name: 'ashby',
+  hosts: ['jobs.ashbyhq.com'],
+
+  extract(html, url) {
+    const appData = extractScriptJson(html, 'window.__appData') as AshbyAppData | null;
+    const posting = appData?.posting;
+
+    const location = text(posting?.locationName);
+    const workplace = posting?.workplaceType ?? (posting?.isRemote ? 'Remote' : undefined);
+
+    return compactJobData({
+      title: text(posting?.title) ?? elementText(html, { className: 'ashby-job-posting-heading' }),
+      company: text(appData?.organization?.name) ?? companyFromSlug(url.pathname.split('/')[1]),
+      location,
+      jobType: normalizeJobType(posting?.employmentType),
+      remote: detectRemote(workplace ?? location),
+      salary: text(posting?.scrapeableCompensationSalarySummary ?? posting?.compensationTierSummary),
+      datePosted: posting?.publishedDate,
+      ...describeSection(posting?.descriptionHtml)
+    });
+  }
+};
@@ -0,0 +1,39 @@
+import { findElement, elementText, getMetaContent } from '../html';
+import { describeSection, pageTitle, companyFromSlug, detectRemote, compactJobData, type SiteExtractor } from './shared';
+
+/**
+ * Greenhouse hosted job boards - both the classic (#app_body) and the newer job-boards layout
+ */
+export const greenhouseExtractor: SiteExtractor = {
+  name: 'greenhouse',
+  hosts: ['boards.greenhouse.io', 'job-boards.greenhouse.io', 'job-boards.eu.greenhouse.io'],
+
+  extract(html, url) {
+    // "Job Application for Senior Engineer at Acme"
+    const titleMatch = pageTitle(html)?.match(/^Job Application for (.+) at (.+)$/i);
+
+    const title = elementText(html, { className: 'app-title' })
+      ?? elementText(html, { className: 'section-header' })
+      ?? titleMatch?.[1]
+      ?? elementText(html, { tag: 'h1' });
+
+    const company = elementText(html, { className: 'company-name' })?.replace(/^at\s+/i, '')
+      ?? titleMatch?.[2]
+      ?? getMetaContent(html, 'og:site_name')
+      ?? companyFromSlug(url.pathname.split('/')[1]);
+
+    const location = elementText(html, { className: 'location' })
+      ?? elementText(html, { className: 'job__location' });
+
+    const description = findElement(html, { id: 'content' })
+      ?? findElement(html, { className: 'job__description' });
+
+    return compactJobData({
+      title,
+      company,
+      location,
+      remote: detectRemote(location),
+      ...describeSection(description?.innerHtml)
+    });
+  }
+};
@@ -0,0 +1,73 @@
+import { greenhouseExtractor } from './greenhouse';
+import { leverExtractor } from './lever';
+import { workdayExtractor } from './workday';
+import { ashbyExtractor } from './ashby';
+import { smartRecruitersExtractor } from './smartRecruiters';
+import { linkedInExtractor } from './linkedIn';
+import type { SiteExtractor } from './shared';
+import type { StructuredJobData } from '../jobPosting';
+
+export type { SiteExtractor } from './shared';
+
+/**
+ * Registry of site-specific extractors, keyed by hostname
+ * Keys starting with "." match any subdomain of that domain.
+ */
+const extractorsByHost = new Map<string, SiteExtractor>();
+
+export function registerExtractor(extractor: SiteExtractor): void {
+  for (const host of extractor.hosts) {
+    extractorsByHost.set(host.toLowerCase(), extractor);
+  }
+}
+
+[
+  greenhouseExtractor,
+  leverExtractor,
+  workdayExtractor,
+  ashbyExtractor,
+  smartRecruitersExtractor,
+  linkedInExtractor
+].forEach(registerExtractor);
+
+/**
+ * Find the extractor for a URL - exact hostname first, then the closest ".domain" entry
+ */
+export function getExtractorForUrl(url: URL): SiteExtractor | null {
+  const hostname = url.hostname.toLowerCase();
+  const exact = extractorsByHost.get(hostname);
+  if (exact) return exact;
+
+  const labels = hostname.split('.');
+  for (let i = 1; i < labels.length - 1; i++) {
+    const extractor = extractorsByHost.get(`.${labels.slice(i).join('.')}`);
+    if (extractor) return extractor;
+  }
+
+  return null;
+}
+
+/**
+ * Run the matching site extractor. Returns null when no extractor handles the host
+ * or it found nothing (e.g. the page layout changed).
+ */
+export function runSiteExtractor(html: string, url: string): { extractor: string; data: StructuredJobData } | null {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const extractor = getExtractorForUrl(parsedUrl);
+  if (!extractor) return null;
+
+  try {
+    const data = extractor.extract(html, parsedUrl);
+    return Object.keys(data).length > 0 ? { extractor: extractor.name, data } : null;
+  } catch (error) {
+    // A broken extractor should never block extraction - the AI still runs
+    console.error(`Site extractor ${extractor.name} failed:`, error);
+    return null;
+  }
+}
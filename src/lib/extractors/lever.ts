@@ -0,0 +1,47 @@
+import { findElement, elementText, findListAfterHeading } from '../html';
+import {
+  describeSection,
+  pageTitle,
+  companyFromSlug,
+  normalizeJobType,
+  detectRemote,
+  compactJobData,
+  REQUIREMENTS_HEADING,
+  BENEFITS_HEADING,
+  type SiteExtractor
+} from './shared';
+
+/**
+ * Lever job postings (jobs.lever.co/<company>/<id>)
+ */
+export const leverExtractor: SiteExtractor = {
+  name: 'lever',
+  hosts: ['jobs.lever.co', 'jobs.eu.lever.co'],
+
+  extract(html, url) {
+    const headline = findElement(html, { className: 'posting-headline' });
+    const categories = findElement(html, { className: 'posting-categories' })?.innerHtml ?? '';
+
+    // "Acme - Senior Engineer"
+    const titleParts = pageTitle(html)?.split(' - ');
+
+    const location = elementText(categories, { className: 'location' });
+    const description = findElement(html, { attribute: ['data-qa', 'job-description'] })
+      ?? findElement(html, { className: 'section-wrapper' });
+
+    // Lever puts each list in its own section after the description
+    const section = describeSection(description?.innerHtml);
+
+    return compactJobData({
+      title: (headline && elementText(headline.innerHtml, { tag: 'h2' })) ?? titleParts?.slice(1).join(' - '),
+      company: titleParts && titleParts.length > 1 ? titleParts[0] : companyFromSlug(url.pathname.split('/')[1]),
+      location,
+      jobType: normalizeJobType(elementText(categories, { className: 'commitment' })),
+      remote: detectRemote(elementText(categories, { className: 'workplaceTypes' }) ?? location),
+      salary: elementText(html, { attribute: ['data-qa', 'salary-range'] }),
+      ...section,
+      requirements: section.requirements ?? findListAfterHeading(html, REQUIREMENTS_HEADING),
+      benefits: section.benefits ?? findListAfterHeading(html, BENEFITS_HEADING)
+    });
+  }
+};
@@ -0,0 +1,72 @@
+import { findElement, findElements, elementText } from '../html';
+import { describeSection, normalizeJobType, detectRemote, compactJobData, type SiteExtractor } from './shared';
+
+/**
+ * First class that yields text - LinkedIn uses different class names for guest and signed-in views
+ */
+function textByClass(html: string, classNames: string[]): string | undefined {
+  for (const className of classNames) {
+    const text = elementText(html, { className });
+    if (text) return text;
+  }
+  return undefined;
+}
+
+/**
+ * "Seniority level", "Employment type" and "Industries" from the job criteria list (guest view)
+ */
+function jobCriteria(html: string): Record<string, string> {
+  const criteria: Record<string, string> = {};
+  for (const item of findElements(html, { className: 'description__job-criteria-item' })) {
+    const label = elementText(item.innerHtml, { className: 'description__job-criteria-subheader' });
+    const value = elementText(item.innerHtml, { className: 'description__job-criteria-text' });
+    if (label && value) criteria[label.toLowerCase()] = value;
+  }
+  return criteria;
+}
+
+/**
+ * LinkedIn job view pages, both the public guest page and the signed-in job details pane
+ */
+export const linkedInExtractor: SiteExtractor = {
+  name: 'linkedin',
+  hosts: ['linkedin.com', '.linkedin.com'],
+
+  extract(html) {
+    const criteria = jobCriteria(html);
+
+    // Signed-in view: "Seattle, WA · 2 days ago · 100 applicants"
+    const primaryDescription = textByClass(html, [
+      'job-details-jobs-unified-top-card__primary-description-container',
+      'job-details-jobs-unified-top-card__primary-description'
+    ]);
+    const location = textByClass(html, ['topcard__flavor--bullet', 'jobs-unified-top-card__bullet'])
+      ?? primaryDescription?.split('·')[0].trim();
+
+    const workplace = textByClass(html, ['job-details-jobs-unified-top-card__workplace-type', 'jobs-unified-top-card__workplace-type']);
+
+    const description = findElement(html, { className: 'show-more-less-html__markup' })
+      ?? findElement(html, { className: 'jobs-description__content' })
+      ?? findElement(html, { id: 'job-details' });
+
+    return compactJobData({
+      title: textByClass(html, [
+        'top-card-layout__title',
+        'topcard__title',
+        'job-details-jobs-unified-top-card__job-title',
+        'jobs-unified-top-card__job-title'
+      ]),
+      company: textByClass(html, [
+        'topcard__org-name-link',
+        'job-details-jobs-unified-top-card__company-name',
+        'jobs-unified-top-card__company-name'
+      ]),
+      location,
+      jobType: normalizeJobType(criteria['employment type']),
+      experience: criteria['seniority level'],
+      industry: criteria['industries'],
+      remote: detectRemote(workplace ?? location),
+      ...describeSection(description?.innerHtml)
+    });
+  }
+};
@@ -0,0 +1,113 @@
+import { findElement, htmlToText, summarizeText, findListAfterHeading } from '../html';
+import type { StructuredJobData } from '../jobPosting';
+
+/**
+ * Site-specific extractor: turns a job board's known page structure into job fields
+ */
+export interface SiteExtractor {
+  name: string;
+  hosts: string[]; // Exact hostnames, or ".example.com" to match every subdomain
+  extract(html: string, url: URL): StructuredJobData;
+}
+
+export const REQUIREMENTS_HEADING = /requirement|qualification|what you.ll (need|bring)|who you are|you (have|bring)|must have|skills/i;
+export const BENEFITS_HEADING = /benefit|perks|what we offer|why (join|work)/i;
+
+/**
+ * Description summary plus requirement and benefit lists from a description fragment
+ */
+export function describeSection(descriptionHtml: string | undefined): StructuredJobData {
+  if (!descriptionHtml) return {};
+
+  const text = htmlToText(descriptionHtml);
+  return {
+    description: text ? summarizeText(text) : undefined,
+    requirements: findListAfterHeading(descriptionHtml, REQUIREMENTS_HEADING),
+    benefits: findListAfterHeading(descriptionHtml, BENEFITS_HEADING)
+  };
+}
+
+/**
+ * Text of the page's <title>
+ */
+export function pageTitle(html: string): string | undefined {
+  const title = findElement(html, { tag: 'title' });
+  return title ? htmlToText(title.innerHtml) || undefined : undefined;
+}
+
+/**
+ * Readable company name from a URL slug ("acme-corp" → "Acme Corp")
+ */
+export function companyFromSlug(slug: string | undefined): string | undefined {
+  if (!slug) return undefined;
+  return decodeURIComponent(slug)
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b\w/g, letter => letter.toUpperCase())
+    .trim() || undefined;
+}
+
+/**
+ * Normalize employment type labels ("Full time", "FullTime", "FULL_TIME") to "full-time" style
+ */
+export function normalizeJobType(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return value
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/^contractor$/, 'contract')
+    .replace(/^intern$/, 'internship');
+}
+
+/**
+ * Workplace type ("remote", "hybrid", "on-site") mentioned in a label, if any
+ */
+export function detectRemote(value: string | undefined): string | undefined {
+  const match = value?.match(/\b(remote|hybrid|on-?site|in-office)\b/i);
+  if (!match) return undefined;
+  const type = match[1].toLowerCase();
+  return type === 'remote' || type === 'hybrid' ? type : 'on-site';
+}
+
+/**
+ * Parse a JSON object assigned to a global in an inline script (e.g. window.__appData = {...})
+ */
+export function extractScriptJson(html: string, variable: string): Record<string, unknown> | null {
+  const start = html.search(new RegExp(`${variable.replace(/[.$]/g, '\\$&')}\\s*=\\s*\\{`));
+  if (start === -1) return null;
+
+  const open = html.indexOf('{', start);
+  let depth = 0;
+  let inString = false;
+
+  // Find the matching brace, skipping braces inside strings
+  for (let i = open; i < html.length; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      try {
+        return JSON.parse(html.slice(open, i + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Drop empty fields so the registry can tell when an extractor found nothing
+ */
+export function compactJobData(data: StructuredJobData): StructuredJobData {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) =>
+      value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0))
+  ) as StructuredJobData;
+}
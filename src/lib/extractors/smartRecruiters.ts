@@ -0,0 +1,48 @@
+import { findElement, elementText, getAttribute, htmlToText, listItems } from '../html';
+import { describeSection, companyFromSlug, normalizeJobType, detectRemote, compactJobData, type SiteExtractor } from './shared';
+
+/**
+ * Items of a SmartRecruiters section - a list when there is one, otherwise one item per line
+ */
+function sectionItems(html: string, id: string): string[] | undefined {
+  const section = findElement(html, { id });
+  if (!section) return undefined;
+
+  const items = listItems(section.innerHtml);
+  if (items.length > 0) return items;
+
+  // Skip the section heading
+  const lines = htmlToText(section.innerHtml.replace(/<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>/gi, ''))
+    .split('\n')
+    .map(line => line.replace(/^[\s\-*•·]+/, '').trim())
+    .filter(line => line.length > 1);
+  return lines.length > 0 ? lines : undefined;
+}
+
+/**
+ * SmartRecruiters job pages (jobs.smartrecruiters.com/<company>/<id>-<slug>)
+ */
+export const smartRecruitersExtractor: SiteExtractor = {
+  name: 'smartrecruiters',
+  hosts: ['jobs.smartrecruiters.com', 'careers.smartrecruiters.com'],
+
+  extract(html, url) {
+    const locationElement = findElement(html, { tag: 'spl-job-location' });
+    const location = (locationElement && getAttribute(locationElement.attributes, 'formattedaddress'))
+      ?? elementText(html, { className: 'job-location' });
+
+    const description = findElement(html, { id: 'st-jobDescription' });
+
+    return compactJobData({
+      title: elementText(html, { className: 'job-title' }) ?? elementText(html, { tag: 'h1' }),
+      company: companyFromSlug(url.pathname.split('/')[1]),
+      location,
+      jobType: normalizeJobType(elementText(html, { attribute: ['itemprop', 'employmentType'] })),
+      remote: detectRemote(location),
+      // Drop the section's own "Job Description" heading
+      ...describeSection(description?.innerHtml.replace(/^\s*<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>/i, '')),
+      requirements: sectionItems(html, 'st-qualifications'),
+      benefits: sectionItems(html, 'st-additionalInformation')
+    });
+  }
+};
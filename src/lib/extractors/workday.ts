@@ -0,0 +1,34 @@
+import { findElement, elementText } from '../html';
+import { describeSection, companyFromSlug, normalizeJobType, detectRemote, compactJobData, type SiteExtractor } from './shared';
+
+/**
+ * Value of a Workday detail block (<div data-automation-id="..."><dl><dt>label</dt><dd>value</dd></dl>)
+ */
+function detailValue(html: string, automationId: string): string | undefined {
+  const element = findElement(html, { attribute: ['data-automation-id', automationId] });
+  if (!element) return undefined;
+  return elementText(element.innerHtml, { tag: 'dd' }) ?? elementText(html, { attribute: ['data-automation-id', automationId] });
+}
+
+/**
+ * Workday career sites (<tenant>.wd1-wd12.myworkdayjobs.com), as rendered in the browser
+ */
+export const workdayExtractor: SiteExtractor = {
+  name: 'workday',
+  hosts: ['.myworkdayjobs.com'],
+
+  extract(html, url) {
+    const location = detailValue(html, 'locations');
+    const description = findElement(html, { attribute: ['data-automation-id', 'jobPostingDescription'] });
+
+    return compactJobData({
+      title: elementText(html, { attribute: ['data-automation-id', 'jobPostingHeader'] }),
+      // The tenant subdomain is the company (acme.wd5.myworkdayjobs.com)
+      company: companyFromSlug(url.hostname.split('.')[0]),
+      location,
+      jobType: normalizeJobType(detailValue(html, 'time')),
+      remote: detectRemote(detailValue(html, 'remoteType') ?? location),
+      ...describeSection(description?.innerHtml)
+    });
+  }
+};
@@ -0,0 +1,181 @@
+/**
+ * Lightweight HTML helpers for deterministic extraction - regex and tag-balancing only,
+ * since Workers have no DOM parser
+ */
+
+export interface HtmlElement {
+  tag: string;
+  attributes: string;
+  innerHtml: string;
+}
+
+export interface ElementMatcher {
+  tag?: string;
+  id?: string;
+  className?: string; // Matches one class in the class list
+  attribute?: [name: string, value?: string];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', rsquo: '’', lsquo: '‘', bull: '•'
+};
+
+// Elements that never have a closing tag
+export const VOID_ELEMENTS = new Set(['meta', 'link', 'img', 'br', 'hr', 'input', 'source', 'area', 'base', 'col', 'embed', 'wbr']);
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert an HTML fragment to text, keeping list items and paragraphs on separate lines
+ */
+export function htmlToText(html: string): string {
+  // Descriptions embedded in JSON are often entity-encoded HTML, so decode before stripping tags
+  const decoded = /&lt;\/?[a-z]/i.test(html) ? decodeEntities(html) : html;
+  return decodeEntities(
+    decoded
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<li[^>]*>/gi, '\n• ')
+      .replace(/<(br|\/p|\/div|\/h[1-6]|\/ul|\/ol|\/tr)[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+/**
+ * Shorten a full posting description to its opening sentences
+ */
+export function summarizeText(text: string, maxLength = 600): string {
+  const sentences = text.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]+(\s|$)/g) ?? [text];
+  let summary = '';
+  for (const sentence of sentences) {
+    if (summary && (summary + sentence).length > maxLength) break;
+    summary += sentence;
+  }
+  return summary.trim().slice(0, maxLength);
+}
+
+export function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function matchesElement(tag: string, attributes: string, matcher: ElementMatcher): boolean {
+  if (matcher.tag && matcher.tag !== tag) return false;
+  if (matcher.id && getAttribute(attributes, 'id') !== matcher.id) return false;
+  if (matcher.className && !(getAttribute(attributes, 'class') ?? '').split(/\s+/).includes(matcher.className)) {
+    return false;
+  }
+  if (matcher.attribute) {
+    const [name, value] = matcher.attribute;
+    const actual = getAttribute(attributes, name);
+    if (actual === undefined || (value !== undefined && actual !== value)) return false;
+  }
+  return true;
+}
+
+/**
+ * Find elements matching a tag/id/class/attribute, with their inner HTML
+ */
+export function findElements(html: string, matcher: ElementMatcher, limit = Infinity): HtmlElement[] {
+  const elements: HtmlElement[] = [];
+  const openPattern = /<([a-zA-Z][\w:-]*)(\s[^>]*)?>/g;
+
+  let match: RegExpExecArray | null;
+  while (elements.length < limit && (match = openPattern.exec(html)) !== null) {
+    const tag = match[1].toLowerCase();
+    const attributes = match[2] ?? '';
+    if (!matchesElement(tag, attributes, matcher)) continue;
+
+    const contentStart = openPattern.lastIndex;
+    if (VOID_ELEMENTS.has(tag) || attributes.endsWith('/')) {
+      elements.push({ tag, attributes, innerHtml: '' });
+      continue;
+    }
+
+    // Walk same-name tags to find the matching close tag
+    const tagPattern = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+    tagPattern.lastIndex = contentStart;
+    let depth = 1;
+    let contentEnd = html.length;
+    let tagMatch: RegExpExecArray | null;
+    while ((tagMatch = tagPattern.exec(html)) !== null) {
+      depth += tagMatch[1] ? -1 : 1;
+      if (depth === 0) {
+        contentEnd = tagMatch.index;
+        break;
+      }
+    }
+
+    elements.push({ tag, attributes, innerHtml: html.slice(contentStart, contentEnd) });
+  }
+
+  return elements;
+}
+
+export function findElement(html: string, matcher: ElementMatcher): HtmlElement | null {
+  return findElements(html, matcher, 1)[0] ?? null;
+}
+
+/**
+ * Text content of the first matching element, or undefined when missing or empty
+ */
+export function elementText(html: string, matcher: ElementMatcher): string | undefined {
+  const element = findElement(html, matcher);
+  const text = element ? htmlToText(element.innerHtml) : '';
+  return text || undefined;
+}
+
+/**
+ * Content of a <meta> tag by property or name (e.g. og:title)
+ */
+export function getMetaContent(html: string, key: string): string | undefined {
+  for (const element of findElements(html, { tag: 'meta' })) {
+    if (getAttribute(element.attributes, 'property') === key || getAttribute(element.attributes, 'name') === key) {
+      return getAttribute(element.attributes, 'content') || undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Text of each <li> in a fragment
+ */
+export function listItems(html: string): string[] {
+  return findElements(html, { tag: 'li' })
+    .map(item => htmlToText(item.innerHtml))
+    .filter(item => item.length > 1);
+}
+
+/**
+ * Items of the first list that follows a heading (h1-h6, strong or b) matching the pattern
+ */
+export function findListAfterHeading(html: string, heading: RegExp): string[] | undefined {
+  const headingPattern = /<(h[1-6]|strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = headingPattern.exec(html)) !== null) {
+    if (!heading.test(htmlToText(match[2]))) continue;
+
+    // The list must come before the next heading
+    const rest = html.slice(headingPattern.lastIndex);
+    const nextHeading = rest.search(/<h[1-6]\b/i);
+    const section = nextHeading === -1 ? rest : rest.slice(0, nextHeading);
+    const list = findElement(section, { tag: 'ul' }) ?? findElement(section, { tag: 'ol' });
+
+    if (list) {
+      const items = listItems(list.innerHtml);
+      if (items.length > 0) return items;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,413 @@
+import { decodeEntities, htmlToText, summarizeText, getAttribute, VOID_ELEMENTS } from './html';
+import type { JobExtractionData } from '../types/database';
+
+/**
+ * Deterministic extraction of schema.org JobPosting data (JSON-LD and microdata)
+ * so the LLM is only asked for what the page doesn't already state
+ */
+
+export type JobField =
+  | 'title' | 'company' | 'location' | 'description' | 'salary' | 'jobType' | 'experience'
+  | 'requirements' | 'skills' | 'benefits' | 'industry' | 'remote' | 'datePosted' | 'validThrough';
+
+export type JobFieldSource = 'structured' | 'extractor' | 'ai';
+
+export type JobFieldSources = Partial<Record<JobField, JobFieldSource>>;
+
+export type StructuredJobData = Partial<Pick<JobExtractionData, JobField>>;
+
+// Without these the posting isn't useful for matching or cover letters, so the AI fills them in
+export const REQUIRED_JOB_FIELDS: JobField[] = ['title', 'company', 'location', 'description', 'requirements', 'skills'];
+
+// Fields the AI is asked for when they're missing (dates only ever come from structured data)
+const AI_JOB_FIELDS: JobField[] = [
+  'title', 'company', 'location', 'description', 'salary', 'jobType', 'experience',
+  'requirements', 'skills', 'benefits', 'industry', 'remote'
+];
+
+const JOB_FIELDS: JobField[] = [...AI_JOB_FIELDS, 'datePosted', 'validThrough'];
+
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  FULL_TIME: 'full-time',
+  PART_TIME: 'part-time',
+  CONTRACTOR: 'contract',
+  TEMPORARY: 'temporary',
+  INTERN: 'internship',
+  VOLUNTEER: 'volunteer',
+  PER_DIEM: 'per diem'
+};
+
+type SchemaValue = string | number | boolean | null | SchemaObject | SchemaValue[];
+interface SchemaObject { [key: string]: SchemaValue }
+
+function asArray(value: SchemaValue | undefined): SchemaValue[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isObject(value: SchemaValue | undefined): value is SchemaObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Text of a property that may be a plain value, an object with a name, or a list of either
+ */
+function textOf(value: SchemaValue | undefined): string | undefined {
+  const parts = asArray(value)
+    .map(item => {
+      if (isObject(item)) return textOf(item.name ?? item['@value']);
+      if (typeof item === 'string' || typeof item === 'number') return htmlToText(String(item));
+      return undefined;
+    })
+    .filter((item): item is string => !!item);
+
+  return parts.length > 0 ? [...new Set(parts)].join(', ') : undefined;
+}
+
+/**
+ * Split a list-like property (an array, an HTML list or a bulleted/line-separated string) into items
+ */
+function listOf(value: SchemaValue | undefined, separator: RegExp = /\n|•|;/): string[] | undefined {
+  const items = asArray(value).flatMap(item => {
+    const text = isObject(item) ? textOf(item.name) : textOf(item);
+    return text ? text.split(separator) : [];
+  })
+    .map(item => item.replace(/^[\s\-*•·]+/, '').trim())
+    .filter(item => item.length > 1);
+
+  return items.length > 0 ? [...new Set(items)] : undefined;
+}
+
+function hasType(node: SchemaObject, type: string): boolean {
+  return asArray(node['@type']).some(value => typeof value === 'string' && value.replace(/^.*[/:]/, '') === type);
+}
+
+function formatLocation(value: SchemaValue | undefined): string | undefined {
+  const locations = asArray(value).map(location => {
+    const address = isObject(location) ? location.address : location;
+    if (!isObject(address)) return textOf(address);
+
+    const parts = [address.addressLocality, address.addressRegion, address.addressCountry]
+      .map(part => textOf(part))
+      .filter((part): part is string => !!part);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }).filter((location): location is string => !!location);
+
+  return locations.length > 0 ? [...new Set(locations)].join('; ') : undefined;
+}
+
+function formatSalary(value: SchemaValue | undefined): string | undefined {
+  if (!isObject(value)) return textOf(value);
+
+  const currency = textOf(value.currency) ?? '';
+  const amount = isObject(value.value) ? value.value : { value: value.value ?? null };
+  const unit = textOf(amount.unitText ?? value.unitText)?.toLowerCase();
+
+  const format = (number: SchemaValue | undefined) => {
+    const parsed = typeof number === 'number' ? number : parseFloat(String(number ?? ''));
+    return Number.isFinite(parsed) ? parsed.toLocaleString('en-US') : undefined;
+  };
+
+  const min = format(amount.minValue);
+  const max = format(amount.maxValue);
+  const single = format(amount.value);
+  const range = min && max ? `${min} - ${max}` : min ?? max ?? single;
+
+  if (!range) return undefined;
+  return `${currency ? `${currency} ` : ''}${range}${unit ? ` per ${unit}` : ''}`;
+}
+
+function formatExperience(value: SchemaValue | undefined): string | undefined {
+  const parts = asArray(value).map(item => {
+    if (isObject(item) && item.monthsOfExperience !== undefined) {
+      const months = Number(item.monthsOfExperience);
+      if (Number.isFinite(months)) {
+        return months >= 12 ? `${Math.round(months / 12)}+ years` : `${months}+ months`;
+      }
+    }
+    return isObject(item) ? textOf(item.description ?? item.name) : textOf(item);
+  }).filter((part): part is string => !!part);
+
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+/**
+ * Map a schema.org JobPosting node to job fields
+ */
+function mapJobPosting(node: SchemaObject): StructuredJobData {
+  const description = textOf(node.description);
+  const jobTypes = asArray(node.employmentType)
+    .map(type => textOf(type))
+    .filter((type): type is string => !!type)
+    .map(type => EMPLOYMENT_TYPES[type.toUpperCase().replace(/[\s-]/g, '_')] ?? type.toLowerCase());
+
+  const remote = asArray(node.jobLocationType).some(type => textOf(type)?.toUpperCase() === 'TELECOMMUTE')
+    ? 'remote'
+    : undefined;
+
+  const data: StructuredJobData = {
+    title: textOf(node.title ?? node.name),
+    company: textOf(node.hiringOrganization),
+    location: formatLocation(node.jobLocation) ?? (remote ? textOf(node.applicantLocationRequirements) : undefined),
+    description: description ? summarizeText(description) : undefined,
+    salary: formatSalary(node.baseSalary ?? node.estimatedSalary),
+    jobType: jobTypes.length > 0 ? [...new Set(jobTypes)].join(', ') : undefined,
+    experience: formatExperience(node.experienceRequirements),
+    requirements: listOf(node.qualifications) ?? listOf(node.educationRequirements),
+    skills: listOf(node.skills, /\n|•|;|,/),
+    benefits: listOf(node.jobBenefits),
+    industry: textOf(node.industry),
+    remote,
+    datePosted: textOf(node.datePosted),
+    validThrough: textOf(node.validThrough)
+  };
+
+  // Drop empty fields so "missing" is unambiguous
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined && value !== '')
+  ) as StructuredJobData;
+}
+
+function findJobPostings(value: SchemaValue, found: SchemaObject[] = []): SchemaObject[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => findJobPostings(item, found));
+  } else if (isObject(value)) {
+    if (hasType(value, 'JobPosting')) {
+      found.push(value);
+    } else {
+      // @graph, mainEntity and other wrappers
+      Object.values(value).forEach(item => findJobPostings(item, found));
+    }
+  }
+  return found;
+}
+
+function parseJsonLd(html: string): SchemaObject[] {
+  const postings: SchemaObject[] = [];
+  const pattern = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    const json = match[1].trim().replace(/^<!\[CDATA\[|\]\]>$/g, '').replace(/^<!--|-->$/g, '');
+    try {
+      findJobPostings(JSON.parse(json), postings);
+    } catch {
+      // Malformed JSON-LD is common - skip the block
+    }
+  }
+
+  return postings;
+}
+
+function addProperty(scope: SchemaObject, name: string, value: SchemaValue) {
+  const existing = scope[name];
+  if (existing === undefined) {
+    scope[name] = value;
+  } else {
+    scope[name] = [...asArray(existing), value];
+  }
+}
+
+/**
+ * Parse microdata (itemscope/itemprop) JobPosting items with a lightweight tag walker
+ */
+function parseMicrodata(html: string): SchemaObject[] {
+  if (!/itemtype\s*=\s*["']?https?:\/\/schema\.org\/JobPosting/i.test(html)) {
+    return [];
+  }
+
+  const postings: SchemaObject[] = [];
+  const stack: Array<{ tag: string; scope?: SchemaObject; prop?: string; parentScope?: SchemaObject; textStart?: number }> = [];
+  const scopes: SchemaObject[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)([^>]*?)(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html)) !== null) {
+    const [, closing, rawTag, attributes, selfClosing] = match;
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      const index = stack.map(entry => entry.tag).lastIndexOf(tag);
+      if (index === -1) continue;
+
+      // Close this element and anything left unclosed inside it
+      for (const entry of stack.splice(index).reverse()) {
+        if (entry.scope) {
+          scopes.pop();
+        } else if (entry.prop && entry.parentScope && entry.textStart !== undefined) {
+          const text = htmlToText(html.slice(entry.textStart, match.index));
+          if (text) addProperty(entry.parentScope, entry.prop, text);
+        }
+      }
+      continue;
+    }
+
+    if (tag === 'script' || tag === 'style') {
+      // Skip raw text content
+      const end = html.toLowerCase().indexOf(`</${tag}`, tagPattern.lastIndex);
+      tagPattern.lastIndex = end === -1 ? html.length : end;
+      continue;
+    }
+
+    const isVoid = VOID_ELEMENTS.has(tag) || !!selfClosing;
+    const prop = getAttribute(attributes, 'itemprop');
+    const currentScope = scopes[scopes.length - 1];
+    const entry: (typeof stack)[number] = { tag };
+
+    if (/\sitemscope\b/i.test(attributes)) {
+      const scope: SchemaObject = {};
+      const itemType = getAttribute(attributes, 'itemtype');
+      if (itemType) scope['@type'] = itemType;
+
+      if (prop && currentScope) {
+        prop.split(/\s+/).forEach(name => addProperty(currentScope, name, scope));
+      } else if (itemType && hasType(scope, 'JobPosting')) {
+        postings.push(scope);
+      }
+
+      if (!isVoid) {
+        entry.scope = scope;
+        scopes.push(scope);
+      }
+    } else if (prop && currentScope) {
+      const attributeValue = getAttribute(attributes, 'content')
+        ?? (tag === 'time' ? getAttribute(attributes, 'datetime') : undefined)
+        ?? (tag === 'a' || tag === 'link' ? getAttribute(attributes, 'href') : undefined)
+        ?? (tag === 'img' ? getAttribute(attributes, 'src') : undefined);
+
+      if (attributeValue !== undefined || isVoid) {
+        if (attributeValue) prop.split(/\s+/).forEach(name => addProperty(currentScope, name, attributeValue));
+      } else {
+        entry.prop = prop;
+        entry.parentScope = currentScope;
+        entry.textStart = tagPattern.lastIndex;
+      }
+    }
+
+    if (!isVoid) {
+      stack.push(entry);
+    }
+  }
+
+  return postings;
+}
+
+/**
+ * Extract JobPosting fields from JSON-LD or microdata. Returns null when the page has none.
+ * JSON-LD wins where both are present.
+ */
+export function parseStructuredJobPosting(html: string): StructuredJobData | null {
+  const postings = [...parseJsonLd(html), ...parseMicrodata(html)];
+  if (postings.length === 0) return null;
+
+  const data: StructuredJobData = {};
+  for (const posting of postings) {
+    for (const [field, value] of Object.entries(mapJobPosting(posting))) {
+      if (data[field as JobField] === undefined) {
+        Object.assign(data, { [field]: value });
+      }
+    }
+  }
+
+  return Object.keys(data).length > 0 ? data : null;
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Whether (possibly partial) job data has any posting field, as opposed to only page metadata
+ */
+export function hasJobFields(data: Partial<JobExtractionData>): boolean {
+  return JOB_FIELDS.some(field => hasValue(data[field]));
+}
+
+/**
+ * Required fields that structured data did not provide
+ */
+export function getMissingJobFields(data: StructuredJobData | null): JobField[] {
+  return REQUIRED_JOB_FIELDS.filter(field => !hasValue(data?.[field]));
+}
+
+/**
+ * Fields the AI should extract, given what structured data already provided
+ */
+export function getFieldsForAI(data: StructuredJobData | null): JobField[] {
+  return AI_JOB_FIELDS.filter(field => !hasValue(data?.[field]));
+}
+
+/**
+ * Combine deterministic sources in priority order, recording where each field came from
+ */
+export function combineJobFields(
+  sources: Array<{ source: JobFieldSource; data: StructuredJobData | null }>
+): { data: StructuredJobData; fieldSources: JobFieldSources } {
+  const data: StructuredJobData = {};
+  const fieldSources: JobFieldSources = {};
+
+  for (const { source, data: sourceData } of sources) {
+    for (const field of JOB_FIELDS) {
+      if (!hasValue(data[field]) && hasValue(sourceData?.[field])) {
+        Object.assign(data, { [field]: sourceData![field] });
+        fieldSources[field] = source;
+      }
+    }
+  }
+
+  return { data, fieldSources };
+}
+
+/**
+ * Fill the gaps in deterministically extracted fields with AI output and build the final job data
+ */
+export function mergeJobData(
+  known: { data: StructuredJobData; fieldSources: JobFieldSources },
+  aiData: Partial<JobExtractionData> | null,
+  url: string
+): { jobData: JobExtractionData; fieldSources: JobFieldSources } {
+  const data: StructuredJobData = { ...known.data };
+  const fieldSources: JobFieldSources = { ...known.fieldSources };
+
+  for (const field of AI_JOB_FIELDS) {
+    if (!hasValue(data[field]) && hasValue(aiData?.[field])) {
+      Object.assign(data, { [field]: aiData![field] });
+      fieldSources[field] = 'ai';
+    }
+  }
+
+  const jobData: JobExtractionData = {
+    ...data,
+    // A page with job markup or a known job board layout is a job posting whatever the AI thinks
+    pageType: Object.keys(known.fieldSources).length > 0 ? 'job' : aiData?.pageType || 'job',
+    confidence: 0,
+    url,
+    domain: new URL(url).hostname
+  };
+
+  return { jobData, fieldSources };
+}
+
+/**
+ * Confidence score for extracted job data, based on how many fields were found
+ * Deterministic fields count extra since they come straight from the page markup.
+ */
+export function scoreJobData(
+  jobData: JobExtractionData,
+  fieldSources: JobFieldSources = {}
+): { confidence: number; extractedFields: string[] } {
+  const extractedFields = Object.keys(jobData).filter(key => hasValue(jobData[key as keyof JobExtractionData]));
+
+  // Higher confidence for more fields and job-specific content
+  let confidence = Math.min(extractedFields.length / 10, 1);
+  if (jobData.title && jobData.company) confidence += 0.1;
+  if (jobData.pageType === 'job') confidence += 0.2;
+
+  const deterministicCount = Object.values(fieldSources).filter(source => source !== 'ai').length;
+  confidence += Math.min(deterministicCount * 0.02, 0.1);
+
+  return {
+    confidence: Math.round(Math.min(confidence, 1) * 100) / 100,
+    extractedFields
+  };
+}
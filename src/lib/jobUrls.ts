@@ -0,0 +1,130 @@
+import { sha256Hex } from './binary';
+
+/**
+ * Canonical job URLs and content hashes, used to recognise repeat extractions of the same posting
+ */
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  'gclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'yclid', 'igshid', 'dclid', 'twclid', 'li_fat_id',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'ref', 'refid', 'referrer', 'trk', 'trkinfo', 'trackingid',
+  'lipi', 'src', 'source', 'gh_src', 'lever-source', 'lever-origin'
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_', 'hsa_'];
+
+function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return TRACKING_PARAMS.has(key) || TRACKING_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+/**
+ * Reduce known job boards to the URL that identifies the posting itself.
+ * Returns null when the URL is not from a recognised board.
+ */
+function canonicalizeJobBoardUrl(url: URL): string | null {
+  const host = url.hostname;
+  const path = url.pathname;
+
+  // LinkedIn: /jobs/view/<slug>-<id>, or ?currentJobId=<id> on search/collection pages
+  if (host.endsWith('linkedin.com')) {
+    const jobId = path.match(/\/jobs\/view\/(?:[^/]*?-)?(\d{6,})/)?.[1] ?? url.searchParams.get('currentJobId');
+    if (jobId && /^\d+$/.test(jobId)) {
+      return `https://www.linkedin.com/jobs/view/${jobId}`;
+    }
+  }
+
+  // Indeed: the posting is identified by jk (or vjk on search result pages)
+  if (/(^|\.)indeed\.[a-z.]+$/.test(host)) {
+    const jobKey = url.searchParams.get('jk') ?? url.searchParams.get('vjk');
+    if (jobKey) {
+      return `https://${host}/viewjob?jk=${jobKey}`;
+    }
+  }
+
+  // Glassdoor: jl / jobListingId
+  if (/(^|\.)glassdoor\.[a-z.]+$/.test(host)) {
+    const listingId = url.searchParams.get('jl') ?? url.searchParams.get('jobListingId');
+    if (listingId) {
+      return `https://${host}/job-listing/?jl=${listingId}`;
+    }
+  }
+
+  // Greenhouse: hosted boards, or company career pages embedding a board via gh_jid
+  if (host === 'boards.greenhouse.io' || host === 'job-boards.greenhouse.io') {
+    const match = path.match(/^\/([^/]+)\/jobs\/(\d+)/);
+    if (match) {
+      return `https://boards.greenhouse.io/${match[1]}/jobs/${match[2]}`;
+    }
+  }
+  const greenhouseJobId = url.searchParams.get('gh_jid');
+  if (greenhouseJobId) {
+    return `https://${host}${path.replace(/\/+$/, '')}?gh_jid=${greenhouseJobId}`;
+  }
+
+  // Lever and Ashby: /<company>/<posting id>, with optional /apply or /application suffix
+  if (host === 'jobs.lever.co' || host === 'jobs.eu.lever.co' || host === 'jobs.ashbyhq.com') {
+    const match = path.match(/^\/([^/]+)\/([0-9a-f-]{36})/i);
+    if (match) {
+      return `https://${host}/${match[1]}/${match[2].toLowerCase()}`;
+    }
+  }
+
+  // Workday: drop the locale prefix and /apply suffix around /job/<location>/<title>_<requisition>
+  if (host.endsWith('.myworkdayjobs.com')) {
+    const match = path.match(/^(?:\/[a-z]{2}-[A-Z]{2})?(\/.+?\/job\/.+?_[A-Za-z0-9-]+)(?:\/apply.*)?\/?$/);
+    if (match) {
+      return `https://${host}${match[1]}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Canonicalize a job posting URL: strip tracking parameters and fragments, normalize the host
+ * and reduce known job boards (LinkedIn, Indeed, Greenhouse, Lever, Workday, ...) to the posting ID
+ */
+export function canonicalizeJobUrl(rawUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return rawUrl.trim();
+  }
+
+  url.hostname = url.hostname.toLowerCase();
+  url.hash = '';
+
+  const jobBoardUrl = canonicalizeJobBoardUrl(url);
+  if (jobBoardUrl) {
+    return jobBoardUrl;
+  }
+
+  // Keep meaningful parameters in a stable order
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const query = new URLSearchParams(params).toString();
+  const path = url.pathname.length > 1 ? url.pathname.replace(/\/+$/, '') : '';
+
+  return `https://${url.host.replace(/^www\./, '')}${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * SHA-256 of the page's visible text, so markup-only changes (scripts, attributes, whitespace)
+ * don't count as a new version of the posting
+ */
+export async function hashJobContent(html: string): Promise<string> {
+  const text = html
+    .replace(/<script[^>]*>.*?<\/script>/gis, '')
+    .replace(/<style[^>]*>.*?<\/style>/gis, '')
+    .replace(/<!--.*?-->/gs, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+  return sha256Hex(text);
+}
@@ -0,0 +1,153 @@
+/**
+ * Cover letter languages: prompt conventions, localized header labels and posting language detection
+ */
+
+export const LETTER_LANGUAGE_CODES = ['en', 'en-GB', 'de', 'fr', 'fr-CA', 'es', 'it', 'nl', 'pt-BR'] as const;
+
+export type LetterLanguage = typeof LETTER_LANGUAGE_CODES[number];
+
+export interface LetterLanguageInfo {
+  name: string;
+  locale: string; // For date formatting
+  conventions: string; // Letter etiquette passed to the prompt
+  hiringTeam: string; // Recipient line when no name is known
+  subject: (jobTitle: string) => string;
+}
+
+export const LETTER_LANGUAGES: Record<LetterLanguage, LetterLanguageInfo> = {
+  en: {
+    name: 'English',
+    locale: 'en-US',
+    conventions: 'Open with "Dear Hiring Manager," (or the recipient\'s name) and close with "Sincerely," or "Best regards,".',
+    hiringTeam: 'Hiring Team',
+    subject: jobTitle => `Re: ${jobTitle}`
+  },
+  'en-GB': {
+    name: 'British English',
+    locale: 'en-GB',
+    conventions: 'Use British spelling. Close with "Yours sincerely," when addressing a named person, otherwise open with "Dear Hiring Manager," and close with "Yours faithfully,".',
+    hiringTeam: 'Hiring Team',
+    subject: jobTitle => `Re: ${jobTitle}`
+  },
+  de: {
+    name: 'German',
+    locale: 'de-DE',
+    conventions: 'Use the formal "Sie" throughout. Open with "Sehr geehrte Damen und Herren," (or "Sehr geehrte Frau …,"/"Sehr geehrter Herr …,") and continue in lower case after the comma. Close with "Mit freundlichen Grüßen" without a trailing comma. Keep the tone factual and precise.',
+    hiringTeam: 'Personalabteilung',
+    subject: jobTitle => `Bewerbung als ${jobTitle}`
+  },
+  fr: {
+    name: 'French',
+    locale: 'fr-FR',
+    conventions: 'Use "vous". Open with "Madame, Monsieur," and close with a formal closing such as "Je vous prie d\'agréer, Madame, Monsieur, l\'expression de mes salutations distinguées."',
+    hiringTeam: 'Service recrutement',
+    subject: jobTitle => `Objet : candidature au poste de ${jobTitle}`
+  },
+  'fr-CA': {
+    name: 'Canadian French (Quebec)',
+    locale: 'fr-CA',
+    conventions: 'Use Quebec French vocabulary (e.g. "courriel", "emploi") and "vous". Open with "Madame, Monsieur," or "Bonjour," and close with "Veuillez agréer, Madame, Monsieur, mes salutations distinguées." or "Cordialement,".',
+    hiringTeam: 'Équipe de recrutement',
+    subject: jobTitle => `Objet : candidature au poste de ${jobTitle}`
+  },
+  es: {
+    name: 'Spanish',
+    locale: 'es-ES',
+    conventions: 'Use "usted". Open with "Estimado/a responsable de selección:" (colon, not comma) and close with "Atentamente,".',
+    hiringTeam: 'Equipo de selección',
+    subject: jobTitle => `Asunto: candidatura para ${jobTitle}`
+  },
+  it: {
+    name: 'Italian',
+    locale: 'it-IT',
+    conventions: 'Use the formal "Lei". Open with "Gentile Responsabile della selezione," and close with "Cordiali saluti,".',
+    hiringTeam: 'Ufficio del personale',
+    subject: jobTitle => `Oggetto: candidatura per ${jobTitle}`
+  },
+  nl: {
+    name: 'Dutch',
+    locale: 'nl-NL',
+    conventions: 'Use "u". Open with "Geachte heer/mevrouw," and close with "Met vriendelijke groet,". Keep it direct and concise.',
+    hiringTeam: 'Afdeling HR',
+    subject: jobTitle => `Betreft: sollicitatie ${jobTitle}`
+  },
+  'pt-BR': {
+    name: 'Brazilian Portuguese',
+    locale: 'pt-BR',
+    conventions: 'Open with "Prezados(as)," or "Prezado(a) recrutador(a)," and close with "Atenciosamente,".',
+    hiringTeam: 'Equipe de recrutamento',
+    subject: jobTitle => `Assunto: candidatura para ${jobTitle}`
+  }
+};
+
+/**
+ * Language info for a stored letter, falling back to English for unknown codes
+ */
+export function getLetterLanguage(code: string | null | undefined): LetterLanguageInfo {
+  return (LETTER_LANGUAGE_CODES as readonly string[]).includes(code ?? '')
+    ? LETTER_LANGUAGES[code as LetterLanguage]
+    : LETTER_LANGUAGES.en;
+}
+
+// Frequent function words; enough to tell the supported languages apart in a job posting
+const STOP_WORDS: Record<'en' | 'de' | 'fr' | 'es' | 'it' | 'nl' | 'pt', string[]> = {
+  en: ['the', 'and', 'you', 'with', 'our', 'for', 'will', 'are', 'your', 'this', 'we', 'to', 'of', 'in', 'is'],
+  de: ['und', 'der', 'die', 'das', 'mit', 'für', 'sie', 'wir', 'ist', 'ein', 'eine', 'zu', 'von', 'den', 'auf', 'bei', 'ihre'],
+  fr: ['et', 'le', 'la', 'les', 'des', 'vous', 'nous', 'pour', 'une', 'dans', 'est', 'avec', 'du', 'sur', 'votre', 'au'],
+  es: ['y', 'el', 'la', 'los', 'las', 'para', 'con', 'una', 'del', 'en', 'que', 'por', 'nuestro', 'tu', 'su', 'es'],
+  it: ['e', 'il', 'di', 'che', 'per', 'con', 'una', 'della', 'del', 'nel', 'sono', 'gli', 'le', 'la', 'tua'],
+  nl: ['en', 'de', 'het', 'van', 'een', 'voor', 'met', 'je', 'wij', 'jij', 'bij', 'naar', 'ons', 'zijn', 'op'],
+  pt: ['e', 'de', 'da', 'do', 'para', 'com', 'uma', 'em', 'os', 'as', 'você', 'nossa', 'nosso', 'na', 'no']
+};
+
+// Minimum stop-word hits before trusting a detection
+const MIN_DETECTION_HITS = 8;
+
+const QUEBEC_PATTERN = /\b(qu[ée]bec|montr[ée]al|gatineau|laval|sherbrooke|trois-rivi[èe]res|QC)\b/i;
+const UK_PATTERN = /\b(united kingdom|england|scotland|wales|london|manchester|edinburgh|UK)\b/i;
+
+/**
+ * Detect the language of a job posting from its text, with regional variants
+ * (Quebec French, British English) inferred from the location. Returns null when unsure.
+ */
+export function detectJobLanguage(job: {
+  title?: string;
+  description?: string;
+  requirements?: string[];
+  location?: string;
+}): LetterLanguage | null {
+  const text = [job.title, job.description, ...(job.requirements ?? [])].filter(Boolean).join(' ').toLowerCase();
+  const words = text.match(/[\p{L}']+/gu) ?? [];
+
+  const counts = Object.fromEntries(Object.keys(STOP_WORDS).map(language => [language, 0])) as Record<keyof typeof STOP_WORDS, number>;
+  const sets = Object.entries(STOP_WORDS).map(([language, list]) => [language, new Set(list)] as const);
+
+  for (const word of words) {
+    for (const [language, set] of sets) {
+      if (set.has(word)) counts[language as keyof typeof STOP_WORDS]++;
+    }
+  }
+
+  const ranked = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const [best, bestHits] = ranked[0];
+  const secondHits = ranked[1][1];
+  if (bestHits < MIN_DETECTION_HITS || bestHits < secondHits * 1.3) return null;
+
+  const location = job.location ?? '';
+  switch (best) {
+    case 'en': return UK_PATTERN.test(location) ? 'en-GB' : 'en';
+    case 'fr': return QUEBEC_PATTERN.test(location) ? 'fr-CA' : 'fr';
+    case 'pt': return 'pt-BR';
+    default: return best as LetterLanguage;
+  }
+}
+
+/**
+ * Language for a new letter: the requested one, else the posting's language, else English
+ */
+export function resolveLetterLanguage(
+  requested: LetterLanguage | undefined,
+  job: Parameters<typeof detectJobLanguage>[0]
+): LetterLanguage {
+  return requested ?? detectJobLanguage(job) ?? 'en';
+}
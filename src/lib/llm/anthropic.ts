@@ -0,0 +1,126 @@
+import {
+  readServerSentEvents,
+  throwResponseError,
+  extractJsonObject,
+  AIError,
+  LLMProviderError,
+  type LLMProvider,
+  type ChatCompletionRequest
+} from './shared';
+
+interface AnthropicResponse {
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { usage: { input_tokens: number; output_tokens: number } };
+  delta?: { type: string; text?: string; stop_reason?: string | null };
+  usage?: { output_tokens: number };
+  error?: { type: string; message: string };
+}
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Claude has no JSON mode, so JSON requests get this added to the system prompt
+const JSON_INSTRUCTION = 'Respond with a single JSON object and nothing else - no code fences or commentary.';
+
+/**
+ * Anthropic Messages API
+ */
+export function createAnthropicProvider(options: { apiKey: string }): LLMProvider {
+  const headers = {
+    'x-api-key': options.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+    'Content-Type': 'application/json'
+  };
+
+  // System messages go in a top-level field; the rest must be user/assistant turns
+  const buildBody = (request: ChatCompletionRequest) => {
+    const system = request.messages.filter(message => message.role === 'system').map(message => message.content);
+    if (request.responseFormat === 'json') system.push(JSON_INSTRUCTION);
+
+    return {
+      model: request.model,
+      system: system.join('\n\n') || undefined,
+      messages: request.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role, content: message.content })),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    };
+  };
+
+  return {
+    name: 'anthropic',
+
+    async complete(request, signal) {
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(buildBody(request)),
+        signal
+      });
+
+      if (!response.ok) {
+        await throwResponseError('anthropic', 'Anthropic', response);
+      }
+
+      const result = await response.json() as AnthropicResponse;
+      if (result.stop_reason === 'refusal') {
+        throw new AIError('Anthropic declined to respond (refusal)', 'content_filtered');
+      }
+
+      const text = result.content.map(block => block.text ?? '').join('');
+      return {
+        content: request.responseFormat === 'json' ? extractJsonObject(text) : text,
+        tokensUsed: result.usage.input_tokens + result.usage.output_tokens
+      };
+    },
+
+    async *stream(request, signal) {
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ...buildBody(request), stream: true }),
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        await throwResponseError('anthropic', 'Anthropic', response);
+      }
+
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      for await (const { data } of readServerSentEvents(response.body!)) {
+        const event = JSON.parse(data) as AnthropicStreamEvent;
+
+        switch (event.type) {
+          case 'message_start':
+            inputTokens = event.message?.usage.input_tokens ?? 0;
+            outputTokens = event.message?.usage.output_tokens ?? 0;
+            break;
+          case 'content_block_delta':
+            if (event.delta?.text) yield { content: event.delta.text };
+            break;
+          case 'message_delta':
+            if (event.delta?.stop_reason === 'refusal') {
+              throw new AIError('Anthropic stopped the response (refusal)', 'content_filtered');
+            }
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+            break;
+          case 'message_stop':
+            yield { tokensUsed: inputTokens + outputTokens };
+            return;
+          case 'error':
+            // Mid-stream errors (e.g. overloaded_error) arrive after a 200, so give them a retryable status
+            throw new LLMProviderError('anthropic', event.error?.type === 'overloaded_error' ? 529 : 500, `Anthropic stream error: ${data}`);
+        }
+      }
+    }
+  };
+}
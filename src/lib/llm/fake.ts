@@ -0,0 +1,136 @@
+import type { LLMProvider, AIOperation, ChatCompletionRequest } from './shared';
+
+/**
+ * In-memory provider for running the API offline (local development, tests).
+ * Returns canned responses that pass each operation's validation, or whatever `respond` returns.
+ */
+
+export interface FakeProviderOptions {
+  respond?: (request: ChatCompletionRequest) => string | undefined; // Undefined falls back to the canned response
+}
+
+export interface FakeLLMProvider extends LLMProvider {
+  requests: ChatCompletionRequest[]; // Every request received, oldest first
+}
+
+const FAKE_COVER_LETTER = `Dear Hiring Manager,
+
+I am excited to apply for this role. Over the past five years I have built and shipped production web applications, most recently leading a migration that cut page load times by 40%.
+
+Your posting emphasizes ownership and collaboration, which is how I have worked on every team I have joined. I would bring the same care for quality and users to your team.
+
+I would welcome the chance to discuss how I can contribute.
+
+Sincerely,
+Alex Candidate`;
+
+const CANNED_RESPONSES: Record<AIOperation, (request: ChatCompletionRequest) => string> = {
+  jobExtraction: request => {
+    const url = /^URL: (\S+)/m.exec(lastUserMessage(request))?.[1] ?? 'https://example.com/jobs/1';
+    return JSON.stringify({
+      title: 'Software Engineer',
+      company: 'Example Corp',
+      location: 'Remote',
+      salary: null,
+      jobType: 'full-time',
+      experience: 'Mid-level',
+      requirements: ['3+ years of TypeScript experience', 'Experience with REST APIs'],
+      description: 'Build and maintain web applications for Example Corp customers.',
+      benefits: ['Health insurance'],
+      skills: ['TypeScript', 'Node.js', 'SQL'],
+      industry: 'Software',
+      remote: 'remote',
+      pageType: 'job',
+      confidence: 0.9,
+      url,
+      domain: safeHostname(url)
+    });
+  },
+  coverLetter: () => FAKE_COVER_LETTER,
+  resumeParsing: () => JSON.stringify({
+    contact: { name: 'Alex Candidate', email: 'alex@example.com', phone: null, location: null, linkedin: null, website: null },
+    summary: 'Software engineer with five years of experience building web applications.',
+    workHistory: [{
+      company: 'Acme Inc',
+      title: 'Software Engineer',
+      location: null,
+      startDate: '2020-01',
+      endDate: null,
+      current: true,
+      highlights: ['Led a migration that cut page load times by 40%']
+    }],
+    education: [],
+    skills: ['TypeScript', 'Node.js', 'SQL'],
+    certifications: [],
+    projects: []
+  }),
+  jobMatch: () => JSON.stringify({
+    score: 72,
+    summary: 'Solid fit on core skills with some gaps in the listed requirements.',
+    recommendations: ['Highlight your API design experience']
+  }),
+  resumeTailoring: () => '# Alex Candidate\nalex@example.com\n\n## Summary\nSoftware engineer with five years of experience building web applications.\n\n## Experience\n### Software Engineer - Acme Inc (2020 - Present)\n- Led a migration that cut page load times by 40%\n\n## Skills\nTypeScript, Node.js, SQL',
+  coverLetterRewrite: () => 'I led a migration that cut page load times by 40%, work I would be glad to repeat for your customers.',
+  coverLetterCritique: () => JSON.stringify({
+    scores: { specificity: 70, toneConsistency: 85, overall: 75 },
+    summary: 'A clear, professional letter that would benefit from one more concrete example.',
+    suggestions: [{ line: 3, excerpt: 'I am excited to apply', suggestion: 'Open with what draws you to this company specifically.' }]
+  }),
+  coverLetterTranslation: request => {
+    const letter = lastUserMessage(request).split('Cover letter:\n')[1];
+    return letter?.trim() || FAKE_COVER_LETTER;
+  },
+  applicationDocument: () => JSON.stringify({
+    subject: 'Thank you',
+    content: 'Hi,\n\nThank you for your time - I enjoyed our conversation and remain very interested in the role.\n\nBest regards,\nAlex Candidate'
+  })
+};
+
+function lastUserMessage(request: ChatCompletionRequest): string {
+  return [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+}
+
+function safeHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return 'example.com';
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createFakeProvider(options: FakeProviderOptions = {}): FakeLLMProvider {
+  const requests: ChatCompletionRequest[] = [];
+
+  const respond = (request: ChatCompletionRequest) => {
+    requests.push(request);
+    return options.respond?.(request) ?? CANNED_RESPONSES[request.operation](request);
+  };
+
+  const tokensFor = (request: ChatCompletionRequest, content: string) =>
+    estimateTokens(request.messages.map(message => message.content).join('')) + estimateTokens(content);
+
+  return {
+    name: 'fake',
+    requests,
+
+    async complete(request) {
+      const content = respond(request);
+      return { content, tokensUsed: tokensFor(request, content) };
+    },
+
+    async *stream(request, signal) {
+      const content = respond(request);
+
+      // Word-sized chunks, like a real stream
+      for (const token of content.match(/\S+\s*|\s+/g) ?? []) {
+        if (signal?.aborted) return;
+        yield { content: token };
+      }
+      yield { tokensUsed: tokensFor(request, content) };
+    }
+  };
+}
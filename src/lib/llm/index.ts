@@ -0,0 +1,71 @@
+import { createOpenAIProvider } from './openai';
+import { createAnthropicProvider } from './anthropic';
+import { createWorkersAIProvider } from './workersAI';
+import { createFakeProvider } from './fake';
+import type { AppConfig } from '../config';
+import type { LLMProvider, LLMProviderName, AIOperation, ModelSelection, ModelTier } from './shared';
+
+export * from './shared';
+export { createFakeProvider, type FakeLLMProvider, type FakeProviderOptions } from './fake';
+export { withResilience, type ResilienceOptions } from './resilience';
+export { validateStructuredOutput, buildRepairPrompt, type StructuredOutput, type FieldValidity } from './structured';
+export type { WorkersAIBinding } from './workersAI';
+
+/**
+ * Providers registered at runtime take precedence over the ones built from config,
+ * e.g. a fake provider with scripted responses in tests
+ */
+const registeredProviders = new Map<LLMProviderName, LLMProvider>();
+
+export function registerLLMProvider(provider: LLMProvider): void {
+  registeredProviders.set(provider.name, provider);
+}
+
+export function clearRegisteredLLMProviders(): void {
+  registeredProviders.clear();
+}
+
+/**
+ * Provider and model for an operation at a tier. A model pinned to the operation serves every tier.
+ */
+export function getModelSelection(config: AppConfig['ai'], operation: AIOperation, tier: ModelTier): ModelSelection {
+  return config.operations[operation] ?? config.tiers[tier];
+}
+
+/**
+ * Build the named provider from config. Config validation guarantees configured
+ * providers have their credentials, so a missing one here is a programming error.
+ */
+export function getLLMProvider(config: AppConfig['ai'], name: LLMProviderName): LLMProvider {
+  const registered = registeredProviders.get(name);
+  if (registered) return registered;
+
+  switch (name) {
+    case 'openai':
+      if (!config.openai) throw new Error('OpenAI provider is not configured');
+      return createOpenAIProvider({ apiKey: config.openai.apiKey, streamUsage: true });
+
+    case 'openai-compatible':
+      if (!config.openaiCompatible) throw new Error('OpenAI-compatible provider is not configured');
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        baseUrl: config.openaiCompatible.baseUrl,
+        apiKey: config.openaiCompatible.apiKey
+      });
+
+    case 'anthropic':
+      if (!config.anthropic) throw new Error('Anthropic provider is not configured');
+      return createAnthropicProvider({ apiKey: config.anthropic.apiKey });
+
+    case 'workers-ai':
+      if (!config.workersAI) throw new Error('Workers AI provider is not configured');
+      return createWorkersAIProvider({ binding: config.workersAI.binding });
+
+    case 'fake': {
+      // One shared instance so callers can inspect the requests it received
+      const fake = createFakeProvider();
+      registeredProviders.set('fake', fake);
+      return fake;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { readServerSentEvents, throwResponseError, AIError, type LLMProvider, type LLMProviderName, type ChatCompletionRequest } from './shared';
+
+interface OpenAIResponse {
+  choices: Array<{ index: number; message: { role: string; content: string | null }; finish_reason: string }>;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+interface OpenAIStreamChunk {
+  choices: Array<{ index: number; delta: { content?: string | null }; finish_reason: string | null }>;
+  usage?: { total_tokens: number } | null;
+}
+
+interface OpenAIProviderOptions {
+  name?: LLMProviderName;
+  apiKey?: string; // Optional for self-hosted servers without auth
+  baseUrl?: string;
+  streamUsage?: boolean; // stream_options.include_usage - not every compatible server accepts it
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * OpenAI chat completions, and any server implementing the same API (vLLM, Ollama, LM Studio, ...)
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const name = options.name ?? 'openai';
+  const label = name === 'openai' ? 'OpenAI' : 'OpenAI-compatible';
+  const endpoint = `${(options.baseUrl ?? OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.apiKey) {
+    headers['Authorization'] = `Bearer ${options.apiKey}`;
+  }
+
+  const buildBody = (request: ChatCompletionRequest) => ({
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+  });
+
+  return {
+    name,
+
+    async complete(request, signal) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(buildBody(request)),
+        signal
+      });
+
+      if (!response.ok) {
+        await throwResponseError(name, label, response);
+      }
+
+      const result = await response.json() as OpenAIResponse;
+      if (result.choices[0]?.finish_reason === 'content_filter') {
+        throw new AIError(`${label} withheld the response (content filter)`, 'content_filtered');
+      }
+
+      return {
+        content: result.choices[0]?.message.content ?? '',
+        tokensUsed: result.usage?.total_tokens || 0
+      };
+    },
+
+    async *stream(request, signal) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          ...buildBody(request),
+          stream: true,
+          ...(options.streamUsage ? { stream_options: { include_usage: true } } : {})
+        }),
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        await throwResponseError(name, label, response);
+      }
+
+      for await (const { data } of readServerSentEvents(response.body!)) {
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data) as OpenAIStreamChunk;
+        if (chunk.choices[0]?.finish_reason === 'content_filter') {
+          throw new AIError(`${label} stopped the response (content filter)`, 'content_filtered');
+        }
+
+        const content = chunk.choices[0]?.delta.content;
+        if (content) yield { content };
+        if (chunk.usage) yield { tokensUsed: chunk.usage.total_tokens };
+      }
+    }
+  };
+}
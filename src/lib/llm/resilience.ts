@@ -0,0 +1,278 @@
+import { AIError, LLMProviderError, type LLMProvider, type LLMProviderName } from './shared';
+
+/**
+ * Retries, timeouts and a circuit breaker around an LLM provider.
+ * Every failure that leaves here is an AIError.
+ */
+
+export interface ResilienceOptions {
+  timeoutMs: number; // Per attempt; for streams, the longest wait for the next chunk
+  maxRetries: number;
+  kv?: KVNamespace; // Circuit breaker state - without it the breaker is off
+}
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+const MAX_RETRY_AFTER_MS = 20_000; // Asked to wait longer than this, fail now rather than hold the request open
+
+const FAILURE_THRESHOLD = 5; // Upstream failures within the window that open the circuit
+const FAILURE_WINDOW_MS = 60_000;
+const OPEN_DURATION_MS = 30_000;
+const CIRCUIT_TTL_SECONDS = 120; // KV's minimum is 60
+
+interface CircuitState {
+  failures: number;
+  windowStart: number;
+  openUntil: number | null;
+}
+
+interface ClassifiedFailure {
+  error: AIError;
+  retryable: boolean;
+  upstream: boolean; // Counts towards opening the circuit
+}
+
+/**
+ * Map anything a provider throws to an AIError, and decide whether it is worth retrying
+ */
+function classifyFailure(provider: LLMProviderName, error: unknown): ClassifiedFailure {
+  if (error instanceof AIError) {
+    const transient = error.code === 'timeout';
+    return { error, retryable: transient, upstream: transient };
+  }
+
+  if (error instanceof LLMProviderError) {
+    if (error.status === 429) {
+      return {
+        error: new AIError(error.message, 'rate_limited', error.retryAfterMs),
+        retryable: true,
+        upstream: false
+      };
+    }
+    if (error.status === 408) {
+      return { error: new AIError(error.message, 'timeout'), retryable: true, upstream: true };
+    }
+
+    const serverError = error.status >= 500;
+    return {
+      error: new AIError(error.message, 'provider_error', error.retryAfterMs),
+      retryable: serverError,
+      upstream: serverError
+    };
+  }
+
+  // fetch throws TypeError when the connection fails
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    error: new AIError(`${provider} request failed: ${message}`, 'provider_error'),
+    retryable: error instanceof TypeError,
+    upstream: error instanceof TypeError
+  };
+}
+
+/**
+ * Delay before the next attempt, or null to give up. Exponential backoff with full jitter,
+ * but never sooner than the provider's Retry-After.
+ */
+function retryDelay(failure: ClassifiedFailure, attempt: number, maxRetries: number): number | null {
+  if (!failure.retryable || attempt >= maxRetries) return null;
+
+  const retryAfter = failure.error.retryAfterMs ?? 0;
+  if (retryAfter > MAX_RETRY_AFTER_MS) return null;
+
+  const backoff = Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.max(retryAfter, backoff);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Abort signal for one attempt, linked to the caller's, and a deadline for each step of it.
+ * Steps race the deadline, so providers that ignore the signal (Workers AI) still time out.
+ */
+function createAttempt(timeoutMs: number, callerSignal?: AbortSignal) {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  callerSignal?.addEventListener('abort', abort);
+
+  return {
+    signal: controller.signal,
+
+    async within<T>(step: Promise<T>): Promise<T> {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const deadline = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new AIError(`No response within ${timeoutMs}ms`, 'timeout'));
+        }, timeoutMs);
+      });
+
+      try {
+        return await Promise.race([step, deadline]);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+
+    dispose() {
+      callerSignal?.removeEventListener('abort', abort);
+    }
+  };
+}
+
+/**
+ * Circuit breaker shared across isolates through KV. KV is eventually consistent, so
+ * the count is approximate - good enough to stop hammering a provider that is down.
+ * KV failures never fail the AI call itself.
+ */
+function createCircuitBreaker(provider: LLMProviderName, kv?: KVNamespace) {
+  const key = `ai_circuit:${provider}`;
+  let known: CircuitState | null = null;
+
+  const read = async (): Promise<CircuitState | null> => {
+    try {
+      known = kv ? await kv.get<CircuitState>(key, 'json') : null;
+    } catch (error) {
+      console.error('Circuit breaker read failed:', error);
+      known = null;
+    }
+    return known;
+  };
+
+  return {
+    // Fail fast while the circuit is open; once it has been open long enough, let a trial call through
+    async assertClosed(): Promise<void> {
+      const state = await read();
+      const now = Date.now();
+      if (state?.openUntil && state.openUntil > now) {
+        throw new AIError(`${provider} is temporarily unavailable`, 'provider_unavailable', state.openUntil - now);
+      }
+    },
+
+    async recordSuccess(): Promise<void> {
+      // Only a circuit with failures on record needs a write
+      if (!kv || !known) return;
+      try {
+        await kv.delete(key);
+        known = null;
+      } catch (error) {
+        console.error('Circuit breaker reset failed:', error);
+      }
+    },
+
+    async recordFailure(): Promise<void> {
+      if (!kv) return;
+
+      const now = Date.now();
+      const state = await read();
+      const halfOpen = state?.openUntil != null && state.openUntil <= now;
+      const inWindow = state !== null && now - state.windowStart < FAILURE_WINDOW_MS;
+
+      const next: CircuitState = inWindow && !halfOpen
+        ? { ...state!, failures: state!.failures + 1 }
+        : { failures: halfOpen ? FAILURE_THRESHOLD : 1, windowStart: now, openUntil: null };
+      if (next.failures >= FAILURE_THRESHOLD) {
+        next.openUntil = now + OPEN_DURATION_MS;
+        console.warn(`AI circuit opened for ${provider} until ${new Date(next.openUntil).toISOString()}`);
+      }
+
+      try {
+        await kv.put(key, JSON.stringify(next), { expirationTtl: CIRCUIT_TTL_SECONDS });
+      } catch (error) {
+        console.error('Circuit breaker write failed:', error);
+      }
+    }
+  };
+}
+
+/**
+ * Wrap a provider so each call times out, retries transient failures and respects the circuit breaker
+ */
+export function withResilience(provider: LLMProvider, options: ResilienceOptions): LLMProvider {
+  const breaker = createCircuitBreaker(provider.name, options.kv);
+
+  const fail = async (failure: ClassifiedFailure): Promise<never> => {
+    if (failure.upstream) await breaker.recordFailure();
+    throw failure.error;
+  };
+
+  return {
+    name: provider.name,
+
+    async complete(request, signal) {
+      await breaker.assertClosed();
+
+      for (let attempt = 0; ; attempt++) {
+        const current = createAttempt(options.timeoutMs, signal);
+        try {
+          const result = await current.within(provider.complete(request, current.signal));
+          await breaker.recordSuccess();
+          return result;
+        } catch (error) {
+          // The caller gave up - not a provider failure
+          if (signal?.aborted) throw error;
+
+          const failure = classifyFailure(provider.name, error);
+          const delay = retryDelay(failure, attempt, options.maxRetries);
+          if (delay === null) return await fail(failure);
+
+          console.warn(`Retrying ${provider.name} ${request.operation} in ${Math.round(delay)}ms:`, failure.error.message);
+          await sleep(delay, signal);
+        } finally {
+          current.dispose();
+        }
+      }
+    },
+
+    async *stream(request, signal) {
+      await breaker.assertClosed();
+
+      for (let attempt = 0; ; attempt++) {
+        const current = createAttempt(options.timeoutMs, signal);
+        const iterator = provider.stream(request, current.signal)[Symbol.asyncIterator]();
+        let started = false;
+        let finished = false;
+
+        try {
+          while (true) {
+            const { done, value } = await current.within(iterator.next());
+            if (done) break;
+            started = true;
+            yield value;
+          }
+          finished = true;
+          await breaker.recordSuccess();
+          return;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+
+          // Content already sent on can't be taken back, so only retry before the first chunk
+          const failure = classifyFailure(provider.name, error);
+          const delay = started ? null : retryDelay(failure, attempt, options.maxRetries);
+          if (delay === null) return await fail(failure);
+
+          console.warn(`Retrying ${provider.name} ${request.operation} stream in ${Math.round(delay)}ms:`, failure.error.message);
+          await sleep(delay, signal);
+        } finally {
+          // Close the provider's stream if we stopped early; not awaited, as a stalled read may never settle
+          if (!finished) iterator.return?.(undefined).catch(() => {});
+          current.dispose();
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Provider-neutral chat completion interface used by AIService
+ */
+
+export const LLM_PROVIDER_NAMES = ['openai', 'anthropic', 'workers-ai', 'openai-compatible', 'fake'] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDER_NAMES[number];
+
+// Each AIService operation can run on its own provider and model
+export const AI_OPERATIONS = [
+  'jobExtraction',
+  'coverLetter',
+  'resumeParsing',
+  'jobMatch',
+  'resumeTailoring',
+  'coverLetterRewrite',
+  'coverLetterCritique',
+  'coverLetterTranslation',
+  'applicationDocument'
+] as const;
+
+export type AIOperation = typeof AI_OPERATIONS[number];
+
+// Model quality levels; which one serves a request depends on the plan and requested quality
+export const MODEL_TIERS = ['fast', 'standard', 'premium'] as const;
+
+export type ModelTier = typeof MODEL_TIERS[number];
+
+export interface ModelSelection {
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  operation: AIOperation;
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  responseFormat?: 'text' | 'json';
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  tokensUsed: number;
+}
+
+export interface ChatCompletionStreamChunk {
+  content?: string;
+  tokensUsed?: number; // Sent once, at the end of the stream
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResult>;
+  stream(request: ChatCompletionRequest, signal?: AbortSignal): AsyncGenerator<ChatCompletionStreamChunk>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    public provider: LLMProviderName,
+    public status: number,
+    message: string,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+export type AIErrorCode =
+  | 'rate_limited'
+  | 'timeout'
+  | 'content_filtered'
+  | 'invalid_output'
+  | 'provider_unavailable' // Circuit breaker is open
+  | 'provider_error';
+
+/**
+ * An AI call that failed for good (after any retries), classified so routes can map it to an API error code
+ */
+export class AIError extends Error {
+  constructor(
+    message: string,
+    public code: AIErrorCode,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+/**
+ * Parse a "provider:model" spec, e.g. "anthropic:claude-3-5-sonnet-latest".
+ * Returns null for unknown providers or a missing model.
+ */
+export function parseModelSelection(spec: string): ModelSelection | null {
+  const separator = spec.indexOf(':');
+  if (separator === -1) return null;
+
+  const provider = spec.slice(0, separator).trim();
+  const model = spec.slice(separator + 1).trim();
+  if (!model || !(LLM_PROVIDER_NAMES as readonly string[]).includes(provider)) return null;
+
+  return { provider: provider as LLMProviderName, model };
+}
+
+/**
+ * Throw a provider error for a failed HTTP response, including the body for debugging
+ */
+export async function throwResponseError(provider: LLMProviderName, label: string, response: Response): Promise<never> {
+  const errorText = await response.text();
+  const message = `${label} API error: ${response.status} ${response.statusText} - ${errorText}`;
+
+  // Prompts rejected by moderation come back as a 400 with a content policy error code
+  if (response.status === 400 && /content_filter|content_policy/.test(errorText)) {
+    throw new AIError(message, 'content_filtered');
+  }
+  throw new LLMProviderError(provider, response.status, message, parseRetryAfter(response.headers));
+}
+
+/**
+ * Delay a provider asked for, from Retry-After (seconds or an HTTP date) or OpenAI's retry-after-ms
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (milliseconds > 0) return milliseconds;
+
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Read a Server-Sent Events body, yielding each event's name (if any) and data
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let event: string | undefined;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.replace(/\r$/, '');
+        if (line === '') {
+          event = undefined;
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          yield { event, data: line.slice(5).trim() };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * JSON object from a model that has no JSON mode: strips code fences and any text around the object
+ */
+export function extractJsonObject(text: string): string {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+}
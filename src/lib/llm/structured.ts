@@ -0,0 +1,98 @@
+import type { z } from 'zod';
+import { extractJsonObject } from './shared';
+
+/**
+ * Validation of JSON model output against a zod object schema, field by field,
+ * so a response with one bad field still yields the rest
+ */
+
+export type FieldValidity = 'valid' | 'invalid' | 'missing';
+
+interface StructuredOutputBase {
+  fieldValidity: Record<string, FieldValidity>;
+  errors: string[]; // "path: message" - fed back to the model on repair
+}
+
+export type StructuredOutput<T> =
+  | (StructuredOutputBase & { complete: true; data: T })
+  | (StructuredOutputBase & { complete: false; data: Partial<T> }); // Only the fields that validated
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function formatIssues(error: z.ZodError, prefix: string[] = []): string[] {
+  return error.errors.map(issue => `${[...prefix, ...issue.path].join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Parse model text as JSON, tolerating code fences and surrounding prose
+ */
+function parseJson(text: string): { value: unknown } | { error: string } {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    try {
+      return { value: JSON.parse(extractJsonObject(text)) };
+    } catch (error) {
+      return { error: `Response is not valid JSON: ${error instanceof Error ? error.message : 'parse failed'}` };
+    }
+  }
+}
+
+export function validateStructuredOutput<T extends z.AnyZodObject>(text: string, schema: T): StructuredOutput<z.infer<T>> {
+  const fields = Object.keys(schema.shape);
+  const parsed = parseJson(text);
+
+  if ('error' in parsed || typeof parsed.value !== 'object' || parsed.value === null || Array.isArray(parsed.value)) {
+    return {
+      complete: false,
+      data: {},
+      fieldValidity: Object.fromEntries(fields.map(field => [field, 'invalid' as const])),
+      errors: ['error' in parsed ? parsed.error : 'Response must be a single JSON object']
+    };
+  }
+
+  const raw = parsed.value as Record<string, unknown>;
+  const fieldValidity: Record<string, FieldValidity> = {};
+  const whole = schema.safeParse(raw);
+
+  if (whole.success) {
+    for (const field of fields) {
+      fieldValidity[field] = isMissing(raw[field]) ? 'missing' : 'valid';
+    }
+    return { complete: true, data: whole.data, fieldValidity, errors: [] };
+  }
+
+  // Keep every field that validates on its own
+  const data: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const field of fields) {
+    const result = (schema.shape[field] as z.ZodTypeAny).safeParse(raw[field]);
+    if (result.success) {
+      data[field] = result.data;
+      fieldValidity[field] = isMissing(raw[field]) ? 'missing' : 'valid';
+    } else {
+      fieldValidity[field] = 'invalid';
+      errors.push(...formatIssues(result.error, [field]));
+    }
+  }
+
+  return {
+    complete: false,
+    data: data as Partial<z.infer<T>>,
+    fieldValidity,
+    // Object-level rules (refinements) have no single field to blame
+    errors: errors.length > 0 ? errors : formatIssues(whole.error)
+  };
+}
+
+/**
+ * Follow-up message asking the model to fix its previous response
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return `Your previous response did not match the required JSON format:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the complete corrected JSON object only. Keep every value that was already correct.`;
+}
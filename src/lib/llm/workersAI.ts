@@ -0,0 +1,63 @@
+import { readServerSentEvents, extractJsonObject, LLMProviderError, type LLMProvider, type ChatCompletionRequest } from './shared';
+
+// The generated model list only accepts known model names; models here come from config
+type ConfiguredModels = Record<string, { inputs: Record<string, unknown>; postProcessedOutputs: unknown }>;
+
+export type WorkersAIBinding = Ai<ConfiguredModels>;
+
+interface WorkersAIResponse {
+  response?: string | object;
+  usage?: { total_tokens?: number };
+}
+
+/**
+ * Cloudflare Workers AI through the AI binding (model names like "@cf/meta/llama-3.1-8b-instruct")
+ */
+export function createWorkersAIProvider(options: { binding: WorkersAIBinding }): LLMProvider {
+  const buildInputs = (request: ChatCompletionRequest) => ({
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+  });
+
+  const run = async (request: ChatCompletionRequest, stream: boolean) => {
+    try {
+      return await options.binding.run(request.model, { ...buildInputs(request), stream });
+    } catch (error) {
+      throw new LLMProviderError('workers-ai', 500, `Workers AI error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return {
+    name: 'workers-ai',
+
+    async complete(request) {
+      const result = await run(request, false) as WorkersAIResponse;
+
+      // JSON mode may return the parsed object instead of text
+      const response = typeof result.response === 'object' ? JSON.stringify(result.response) : result.response ?? '';
+      return {
+        content: request.responseFormat === 'json' ? extractJsonObject(response) : response,
+        tokensUsed: result.usage?.total_tokens || 0
+      };
+    },
+
+    async *stream(request, signal) {
+      const body = await run(request, true) as ReadableStream<Uint8Array>;
+
+      // The binding takes no abort signal, so stop reading and cancel the body instead
+      try {
+        for await (const { data } of readServerSentEvents(body)) {
+          if (signal?.aborted || data === '[DONE]') return;
+
+          const chunk = JSON.parse(data) as WorkersAIResponse;
+          if (typeof chunk.response === 'string' && chunk.response) yield { content: chunk.response };
+          if (chunk.usage?.total_tokens) yield { tokensUsed: chunk.usage.total_tokens };
+        }
+      } finally {
+        if (signal?.aborted) await body.cancel().catch(() => {});
+      }
+    }
+  };
+}
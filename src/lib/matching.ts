@@ -0,0 +1,182 @@
+import { sha256Hex } from './binary';
+
+/**
+ * Deterministic resume-to-job keyword matching
+ */
+
+export interface KeywordMatchResult {
+  score: number; // 0-100
+  matchedSkills: string[];
+  missingSkills: string[];
+  matchedRequirements: string[];
+  missingRequirements: string[];
+  recommendations: string[];
+}
+
+// Share of the score contributed by skills vs. requirements when both are present
+const SKILL_WEIGHT = 0.6;
+const REQUIREMENT_WEIGHT = 0.4;
+
+// A requirement counts as met when at least this share of its keywords appear in the resume
+const REQUIREMENT_COVERAGE_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'of', 'on',
+  'or', 'our', 'that', 'the', 'their', 'this', 'to', 'we', 'with', 'you', 'your', 'will', 'have', 'has',
+  'ability', 'able', 'experience', 'experienced', 'strong', 'excellent', 'good', 'knowledge', 'understanding',
+  'proficiency', 'proficient', 'familiarity', 'familiar', 'skills', 'skill', 'work', 'working', 'years', 'year',
+  'plus', 'preferred', 'required', 'requirements', 'must', 'including', 'such', 'other', 'related', 'least',
+  'minimum', 'demonstrated', 'proven', 'solid', 'using', 'use', 'etc', 'e.g', 'i.e', 'both', 'well', 'team'
+]);
+
+// Common spellings that should be treated as the same skill
+const SKILL_ALIASES: Record<string, string[]> = {
+  javascript: ['js', 'ecmascript'],
+  typescript: ['ts'],
+  'node.js': ['node', 'nodejs'],
+  react: ['react.js', 'reactjs'],
+  vue: ['vue.js', 'vuejs'],
+  'next.js': ['nextjs'],
+  postgresql: ['postgres', 'psql'],
+  kubernetes: ['k8s'],
+  'amazon web services': ['aws'],
+  'google cloud': ['gcp', 'google cloud platform'],
+  'machine learning': ['ml'],
+  'continuous integration': ['ci/cd']
+};
+
+/**
+ * Lower-case and pad text so phrases can be matched on word boundaries
+ */
+function normalize(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9+#./\s-]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsPhrase(normalizedText: string, phrase: string): boolean {
+  const normalizedPhrase = normalize(phrase).trim();
+  if (!normalizedPhrase) return false;
+
+  // Word-boundary match that still allows symbols like C++, C# and .NET
+  const pattern = new RegExp(`(^|[\\s/(,])${escapeRegExp(normalizedPhrase)}(?=$|[\\s/),.:;])`);
+  return pattern.test(normalizedText);
+}
+
+function skillVariants(skill: string): string[] {
+  const key = skill.toLowerCase().trim();
+  const variants = new Set([key]);
+
+  for (const [canonical, aliases] of Object.entries(SKILL_ALIASES)) {
+    if (canonical === key || aliases.includes(key)) {
+      variants.add(canonical);
+      aliases.forEach(alias => variants.add(alias));
+    }
+  }
+
+  return [...variants];
+}
+
+/**
+ * Check whether a skill (or one of its aliases) appears in the resume
+ */
+export function resumeHasSkill(normalizedResume: string, skill: string): boolean {
+  return skillVariants(skill).some(variant => containsPhrase(normalizedResume, variant));
+}
+
+/**
+ * Significant words of a requirement sentence, without filler words
+ */
+export function extractKeywords(text: string): string[] {
+  const words = normalize(text).trim().split(' ')
+    .map(word => word.replace(/^[./-]+|[./-]+$/g, ''))
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word) && !/^\d+\+?$/.test(word));
+
+  return [...new Set(words)];
+}
+
+function requirementCoverage(normalizedResume: string, requirement: string): number {
+  const keywords = extractKeywords(requirement);
+  if (keywords.length === 0) return 0;
+
+  const found = keywords.filter(keyword => resumeHasSkill(normalizedResume, keyword));
+  return found.length / keywords.length;
+}
+
+/**
+ * Score a resume against a job's skills and requirements using keyword matching
+ * Extra resume skills (e.g. from a parsed profile) count as present in the resume
+ */
+export function matchResumeToJob(
+  resumeText: string,
+  job: { skills: string[]; requirements: string[] },
+  resumeSkills: string[] = []
+): KeywordMatchResult {
+  const normalizedResume = normalize(`${resumeText}\n${resumeSkills.join(', ')}`);
+
+  const matchedSkills: string[] = [];
+  const missingSkills: string[] = [];
+  for (const skill of job.skills) {
+    (resumeHasSkill(normalizedResume, skill) ? matchedSkills : missingSkills).push(skill);
+  }
+
+  const matchedRequirements: string[] = [];
+  const missingRequirements: string[] = [];
+  for (const requirement of job.requirements) {
+    const coverage = requirementCoverage(normalizedResume, requirement);
+    (coverage >= REQUIREMENT_COVERAGE_THRESHOLD ? matchedRequirements : missingRequirements).push(requirement);
+  }
+
+  const skillRatio = job.skills.length > 0 ? matchedSkills.length / job.skills.length : null;
+  const requirementRatio = job.requirements.length > 0
+    ? matchedRequirements.length / job.requirements.length
+    : null;
+
+  let ratio = 0;
+  if (skillRatio !== null && requirementRatio !== null) {
+    ratio = skillRatio * SKILL_WEIGHT + requirementRatio * REQUIREMENT_WEIGHT;
+  } else {
+    ratio = skillRatio ?? requirementRatio ?? 0;
+  }
+
+  const recommendations: string[] = [];
+  if (missingSkills.length > 0) {
+    recommendations.push(
+      `If you have experience with ${missingSkills.slice(0, 5).join(', ')}, mention it explicitly in your resume.`
+    );
+  }
+  for (const requirement of missingRequirements.slice(0, 3)) {
+    recommendations.push(`Address this requirement with a concrete example: "${requirement}"`);
+  }
+  if (job.skills.length === 0 && job.requirements.length === 0) {
+    recommendations.push('This job has no extracted skills or requirements to compare against.');
+  }
+
+  return {
+    score: Math.round(ratio * 100),
+    matchedSkills,
+    missingSkills,
+    matchedRequirements,
+    missingRequirements,
+    recommendations
+  };
+}
+
+/**
+ * SHA-256 of everything a match result is computed from - the resume text, its parsed skills
+ * and the job - so a stored result can be recognised as stale once any of them changes
+ */
+export async function hashMatchInputs(
+  resumeText: string,
+  job: { title: string | null; company: string | null; description: string | null; skills: string[]; requirements: string[] },
+  resumeSkills: string[] = []
+): Promise<string> {
+  const inputs = JSON.stringify({
+    resumeText,
+    resumeSkills,
+    job: [job.title, job.company, job.description, job.skills, job.requirements]
+  });
+  return sha256Hex(inputs);
+}
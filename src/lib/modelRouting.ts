@@ -0,0 +1,106 @@
+import { getModelSelection, type AIOperation, type ModelSelection, type ModelTier } from './llm';
+import type { AppConfig } from './config';
+import type { JWTPayload } from '../types/env';
+
+/**
+ * Model routing policy: which model, temperature and token budget serve an AI operation,
+ * based on the user's plan and the quality they ask for
+ */
+
+export const MODEL_QUALITIES = ['fast', 'best'] as const;
+
+export type ModelQuality = typeof MODEL_QUALITIES[number];
+
+export type Plan = JWTPayload['plan'];
+
+export interface ModelRoutingOptions {
+  plan: Plan;
+  quality?: ModelQuality;
+}
+
+export interface ModelRoute extends ModelSelection {
+  tier: ModelTier;
+  temperature: number;
+  maxTokens: number;
+}
+
+type OperationCategory = 'extraction' | 'generation' | 'critique';
+
+const OPERATION_CATEGORIES: Record<AIOperation, OperationCategory> = {
+  jobExtraction: 'extraction',
+  resumeParsing: 'extraction',
+  coverLetter: 'generation',
+  resumeTailoring: 'generation',
+  coverLetterRewrite: 'generation',
+  coverLetterTranslation: 'generation',
+  applicationDocument: 'generation',
+  jobMatch: 'critique',
+  coverLetterCritique: 'critique'
+};
+
+// Tier a plan gets when no quality is requested - "Premium AI models" is a Professional feature
+const PLAN_TIERS: Record<Plan, ModelTier> = {
+  free: 'standard',
+  starter: 'standard',
+  pro: 'premium',
+  enterprise: 'premium'
+};
+
+// Token budget relative to the operation's own limit, and the highest temperature allowed.
+// Fast models get less room and stay cooler so they don't drift; premium models get room to do more.
+const TIER_POLICIES: Record<OperationCategory, Record<ModelTier, { maxTokensScale: number; maxTemperature: number }>> = {
+  extraction: {
+    fast: { maxTokensScale: 1, maxTemperature: 0.1 }, // Truncated JSON is useless, so no cut
+    standard: { maxTokensScale: 1, maxTemperature: 0.1 },
+    premium: { maxTokensScale: 1.5, maxTemperature: 0.1 }
+  },
+  generation: {
+    fast: { maxTokensScale: 0.75, maxTemperature: 0.5 },
+    standard: { maxTokensScale: 1, maxTemperature: 0.7 },
+    premium: { maxTokensScale: 1.5, maxTemperature: 0.8 }
+  },
+  critique: {
+    fast: { maxTokensScale: 1, maxTemperature: 0.2 },
+    standard: { maxTokensScale: 1, maxTemperature: 0.3 },
+    premium: { maxTokensScale: 1.5, maxTemperature: 0.3 }
+  }
+};
+
+/**
+ * Tier for a request: "fast" and "best" override the plan's default
+ */
+export function selectModelTier(plan: Plan, quality?: ModelQuality): ModelTier {
+  if (quality === 'fast') return 'fast';
+  if (quality === 'best') return 'premium';
+  return PLAN_TIERS[plan];
+}
+
+/**
+ * Resolve the model, temperature and token budget for one AI call
+ */
+export function routeModel(
+  config: AppConfig['ai'],
+  operation: AIOperation,
+  request: { temperature: number; maxTokens: number },
+  options: ModelRoutingOptions
+): ModelRoute {
+  const tier = selectModelTier(options.plan, options.quality);
+  const policy = TIER_POLICIES[OPERATION_CATEGORIES[operation]][tier];
+
+  return {
+    ...getModelSelection(config, operation, tier),
+    tier,
+    temperature: Math.min(request.temperature, policy.maxTemperature),
+    maxTokens: Math.round(request.maxTokens * policy.maxTokensScale)
+  };
+}
+
+/**
+ * Credits for an operation at the requested quality. Fast costs about half;
+ * best costs double unless the plan already includes premium models.
+ */
+export function getQualityCost(baseCost: number, plan: Plan, quality?: ModelQuality): number {
+  if (quality === 'fast') return Math.max(1, Math.ceil(baseCost / 2));
+  if (quality === 'best' && PLAN_TIERS[plan] !== 'premium') return baseCost * 2;
+  return baseCost;
+}
@@ -0,0 +1,955 @@
+import { bytesToLatin1, inflate, DecompressionLimitError, MAX_DECOMPRESSED_BYTES } from './binary';
+
+/**
+ * PDF text layer extraction and simple text PDF generation, built on Web APIs only so it runs inside the Worker.
+ * Handles the common cases produced by word processors and resume builders:
+ * Flate-compressed content streams, object streams, ToUnicode CMaps and form XObjects.
+ */
+
+interface PdfName {
+  type: 'name';
+  value: string;
+}
+
+interface PdfString {
+  type: 'string';
+  value: string; // Raw bytes, one char per byte
+}
+
+interface PdfRef {
+  type: 'ref';
+  num: number;
+  gen: number;
+}
+
+interface PdfDict {
+  type: 'dict';
+  entries: Record<string, PdfValue>;
+}
+
+interface PdfOperator {
+  type: 'op';
+  value: string;
+}
+
+type PdfValue = null | boolean | number | PdfName | PdfString | PdfRef | PdfDict | PdfValue[];
+
+type PdfToken = PdfValue | PdfOperator | typeof END_ARRAY | typeof END_DICT;
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Uint8Array;
+}
+
+interface FontDecoder {
+  codeLength: 1 | 2;
+  toUnicode?: Map<number, string>;
+}
+
+export interface PdfTextResult {
+  text: string;
+  pageCount: number;
+  imageCount: number;
+  encrypted: boolean;
+}
+
+const END_ARRAY = Symbol('END_ARRAY');
+const END_DICT = Symbol('END_DICT');
+
+const WHITESPACE = '\x00\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+const MAX_FORM_DEPTH = 5;
+
+// WinAnsiEncoding differs from Latin-1 in the 0x80-0x9F range
+const WIN_ANSI_OVERRIDES: Record<number, string> = {
+  0x80: '€', 0x85: '…', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”',
+  0x95: '•', 0x96: '–', 0x97: '—', 0x99: '™'
+};
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\'
+};
+
+function isOperator(token: PdfToken | undefined, value?: string): token is PdfOperator {
+  return typeof token === 'object' && token !== null && !Array.isArray(token) &&
+    token.type === 'op' && (value === undefined || token.value === value);
+}
+
+function isName(value: PdfValue | undefined, name?: string): value is PdfName {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    value.type === 'name' && (name === undefined || value.value === name);
+}
+
+function isString(value: PdfValue | undefined): value is PdfString {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'string';
+}
+
+function isRef(value: PdfValue | undefined): value is PdfRef {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'ref';
+}
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'dict';
+}
+
+/**
+ * Tokenizer for PDF object syntax and content streams
+ */
+class PdfLexer {
+  constructor(private readonly src: string, public pos = 0) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '%') {
+        while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') {
+          this.pos++;
+        }
+      } else if (WHITESPACE.includes(ch)) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  startsWith(keyword: string): boolean {
+    return this.src.startsWith(keyword, this.pos);
+  }
+
+  next(): PdfToken | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.src.length) return undefined;
+
+    const ch = this.src[this.pos];
+    const nextCh = this.src[this.pos + 1];
+
+    if (ch === '<' && nextCh === '<') {
+      this.pos += 2;
+      return this.readDict();
+    }
+    if (ch === '>' && nextCh === '>') {
+      this.pos += 2;
+      return END_DICT;
+    }
+    if (ch === '<') return this.readHexString();
+    if (ch === '(') return this.readLiteralString();
+    if (ch === '/') return this.readName();
+    if (ch === '[') {
+      this.pos++;
+      return this.readItems(END_ARRAY);
+    }
+    if (ch === ']') {
+      this.pos++;
+      return END_ARRAY;
+    }
+    if (ch === '{' || ch === '}' || ch === ')' || ch === '>') {
+      // PostScript calculator braces or stray delimiters - nothing we need
+      this.pos++;
+      return this.next();
+    }
+
+    const word = this.readRegular();
+    if (NUMBER_PATTERN.test(word)) return parseFloat(word);
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return { type: 'op', value: word };
+  }
+
+  /**
+   * Read a single value, resolving "num gen R" into a reference
+   */
+  readValue(): PdfValue | undefined {
+    const token = this.next();
+
+    if (typeof token === 'number') {
+      const saved = this.pos;
+      const gen = this.next();
+      const keyword = this.next();
+      if (typeof gen === 'number' && isOperator(keyword, 'R')) {
+        return { type: 'ref', num: token, gen };
+      }
+      this.pos = saved;
+    }
+
+    if (token === undefined || token === END_ARRAY || token === END_DICT || isOperator(token)) {
+      return undefined;
+    }
+    return token;
+  }
+
+  private readItems(end: typeof END_ARRAY | typeof END_DICT): PdfValue[] {
+    const items: PdfValue[] = [];
+
+    for (;;) {
+      const token = this.next();
+      if (token === undefined || token === end) return items;
+      if (token === END_ARRAY || token === END_DICT) continue;
+
+      if (isOperator(token)) {
+        const gen = items[items.length - 1];
+        const num = items[items.length - 2];
+        if (token.value === 'R' && typeof gen === 'number' && typeof num === 'number') {
+          items.splice(items.length - 2, 2, { type: 'ref', num, gen });
+        }
+        continue;
+      }
+
+      items.push(token);
+    }
+  }
+
+  private readDict(): PdfDict {
+    const items = this.readItems(END_DICT);
+    const entries: Record<string, PdfValue> = {};
+
+    for (let i = 0; i + 1 < items.length; i += 2) {
+      const key = items[i];
+      if (isName(key)) {
+        entries[key.value] = items[i + 1];
+      } else {
+        // Malformed dictionary - resync on the next name
+        i--;
+      }
+    }
+
+    return { type: 'dict', entries };
+  }
+
+  private readName(): PdfName {
+    this.pos++; // skip '/'
+    const raw = this.readRegular(true);
+    const value = raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    return { type: 'name', value };
+  }
+
+  private readRegular(allowEmpty = false): string {
+    const start = this.pos;
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (WHITESPACE.includes(ch) || DELIMITERS.includes(ch)) break;
+      this.pos++;
+    }
+    if (this.pos === start && !allowEmpty) this.pos++; // always make progress
+    return this.src.slice(start, this.pos);
+  }
+
+  private readHexString(): PdfString {
+    this.pos++; // skip '<'
+    const end = this.src.indexOf('>', this.pos);
+    const stop = end === -1 ? this.src.length : end;
+    let hex = this.src.slice(this.pos, stop).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = stop + 1;
+
+    if (hex.length % 2 === 1) hex += '0';
+    let value = '';
+    for (let i = 0; i < hex.length; i += 2) {
+      value += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    }
+    return { type: 'string', value };
+  }
+
+  private readLiteralString(): PdfString {
+    this.pos++; // skip '('
+    let depth = 1;
+    let value = '';
+
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos++];
+
+      if (ch === '\\') {
+        const escaped = this.src[this.pos++];
+        if (escaped === undefined) break;
+        if (escaped in ESCAPES) {
+          value += ESCAPES[escaped];
+        } else if (escaped >= '0' && escaped <= '7') {
+          let octal = escaped;
+          while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') {
+            octal += this.src[this.pos++];
+          }
+          value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (escaped === '\r') {
+          // Line continuation
+          if (this.src[this.pos] === '\n') this.pos++;
+        } else if (escaped !== '\n') {
+          value += escaped;
+        }
+        continue;
+      }
+
+      if (ch === '(') {
+        depth++;
+      } else if (ch === ')') {
+        depth--;
+        if (depth === 0) break;
+      }
+      value += ch;
+    }
+
+    return { type: 'string', value };
+  }
+}
+
+/**
+ * Collects text runs and decides where line breaks and spaces go
+ */
+class TextCollector {
+  private readonly parts: string[] = [];
+  imageCount = 0;
+
+  append(text: string): void {
+    if (text) this.parts.push(text);
+  }
+
+  space(): void {
+    const last = this.parts[this.parts.length - 1];
+    if (last && !/\s$/.test(last)) this.parts.push(' ');
+  }
+
+  newline(): void {
+    const last = this.parts[this.parts.length - 1];
+    if (last && !last.endsWith('\n')) this.parts.push('\n');
+  }
+
+  toString(): string {
+    return this.parts.join('');
+  }
+}
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>();
+  private readonly decodedStreams = new Map<PdfObject, Promise<Uint8Array | null>>();
+  private readonly fontCache = new Map<PdfDict, Promise<FontDecoder>>();
+  private readonly src: string;
+  private decompressedBytes = 0; // Across all streams, so many small bombs add up too
+
+  constructor(private readonly data: Uint8Array) {
+    this.src = bytesToLatin1(data);
+  }
+
+  get encrypted(): boolean {
+    return /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(this.src);
+  }
+
+  async load(): Promise<void> {
+    if (!this.src.slice(0, 1024).includes('%PDF-')) {
+      throw new Error('Not a PDF file');
+    }
+
+    const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = objectPattern.exec(this.src)) !== null) {
+      const lexer = new PdfLexer(this.src, match.index + match[0].length);
+      const value = lexer.readValue();
+      if (value === undefined) continue;
+
+      const object: PdfObject = { value };
+      lexer.skipWhitespace();
+
+      if (lexer.startsWith('stream')) {
+        let start = lexer.pos + 'stream'.length;
+        if (this.src[start] === '\r') start++;
+        if (this.src[start] === '\n') start++;
+
+        const end = this.findStreamEnd(start, isDict(value) ? value.entries.Length : undefined);
+        object.stream = this.data.subarray(start, end);
+        objectPattern.lastIndex = end;
+      }
+
+      // Later definitions win - incremental updates append replacement objects
+      this.objects.set(parseInt(match[1], 10), object);
+    }
+
+    await this.loadObjectStreams();
+  }
+
+  private findStreamEnd(start: number, length: PdfValue | undefined): number {
+    if (typeof length === 'number') {
+      const after = new PdfLexer(this.src, start + length);
+      after.skipWhitespace();
+      if (after.startsWith('endstream')) return start + length;
+    }
+
+    const end = this.src.indexOf('endstream', start);
+    if (end === -1) return this.src.length;
+
+    let trimmed = end;
+    if (this.src[trimmed - 1] === '\n') trimmed--;
+    if (this.src[trimmed - 1] === '\r') trimmed--;
+    return trimmed;
+  }
+
+  private async loadObjectStreams(): Promise<void> {
+    const objectStreams = [...this.objects.values()].filter(object =>
+      isDict(object.value) && isName(object.value.entries.Type, 'ObjStm')
+    );
+
+    for (const objectStream of objectStreams) {
+      const dict = objectStream.value as PdfDict;
+      const decoded = await this.decodeStream(objectStream);
+      if (!decoded) continue;
+
+      const content = bytesToLatin1(decoded);
+      const count = typeof dict.entries.N === 'number' ? dict.entries.N : 0;
+      const first = typeof dict.entries.First === 'number' ? dict.entries.First : 0;
+      const header = new PdfLexer(content);
+
+      for (let i = 0; i < count; i++) {
+        const num = header.next();
+        const offset = header.next();
+        if (typeof num !== 'number' || typeof offset !== 'number') break;
+
+        // Direct objects take precedence over compressed copies
+        if (this.objects.has(num)) continue;
+
+        const value = new PdfLexer(content, first + offset).readValue();
+        if (value !== undefined) {
+          this.objects.set(num, { value });
+        }
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value;
+    for (let hops = 0; isRef(current) && hops < 10; hops++) {
+      current = this.objects.get(current.num)?.value;
+    }
+    return current;
+  }
+
+  private resolveDict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  private async decodeStream(object: PdfObject): Promise<Uint8Array | null> {
+    let cached = this.decodedStreams.get(object);
+    if (!cached) {
+      cached = this.decodeStreamUncached(object);
+      this.decodedStreams.set(object, cached);
+    }
+    return cached;
+  }
+
+  private async decodeStreamUncached(object: PdfObject): Promise<Uint8Array | null> {
+    if (!object.stream || !isDict(object.value)) return null;
+
+    const filter = this.resolve(object.value.entries.Filter);
+    const filters = (Array.isArray(filter) ? filter : [filter]).filter((value): value is PdfName => isName(value));
+    let data = object.stream;
+
+    for (const { value: name } of filters) {
+      if (name === 'FlateDecode' || name === 'Fl') {
+        const maxBytes = MAX_DECOMPRESSED_BYTES - this.decompressedBytes;
+        try {
+          data = await inflate(data, 'deflate', maxBytes);
+        } catch (error) {
+          if (error instanceof DecompressionLimitError) throw error;
+          try {
+            data = await inflate(data, 'deflate-raw', maxBytes);
+          } catch (rawError) {
+            if (rawError instanceof DecompressionLimitError) throw rawError;
+            return null;
+          }
+        }
+        this.decompressedBytes += data.length;
+      } else {
+        // Image codecs and rarely used text filters carry nothing we can read
+        return null;
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Page dictionaries in reading order, with inherited resources resolved
+   */
+  getPages(): Array<{ page: PdfDict; resources?: PdfDict }> {
+    const pages: Array<{ page: PdfDict; resources?: PdfDict }> = [];
+    const visited = new Set<PdfValue>();
+
+    const walk = (node: PdfValue | undefined, inherited?: PdfDict) => {
+      const dict = this.resolveDict(node);
+      if (!dict || visited.has(dict)) return;
+      visited.add(dict);
+
+      const resources = this.resolveDict(dict.entries.Resources) ?? inherited;
+      if (isName(dict.entries.Type, 'Page')) {
+        pages.push({ page: dict, resources });
+        return;
+      }
+
+      const kids = this.resolve(dict.entries.Kids);
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(kid, resources);
+      }
+    };
+
+    const rootMatches = [...this.src.matchAll(/\/Root\s+(\d+)\s+(\d+)\s+R/g)];
+    const rootMatch = rootMatches[rootMatches.length - 1];
+    if (rootMatch) {
+      const catalog = this.resolveDict({ type: 'ref', num: parseInt(rootMatch[1], 10), gen: 0 });
+      walk(catalog?.entries.Pages);
+    }
+
+    if (pages.length === 0) {
+      // Broken page tree - fall back to every page object in file order
+      const sorted = [...this.objects.entries()].sort(([a], [b]) => a - b);
+      for (const [, object] of sorted) {
+        if (isDict(object.value) && isName(object.value.entries.Type, 'Page')) {
+          pages.push({ page: object.value, resources: this.resolveDict(object.value.entries.Resources) });
+        }
+      }
+    }
+
+    return pages;
+  }
+
+  async extractPageText(page: PdfDict, resources: PdfDict | undefined, collector: TextCollector): Promise<void> {
+    const contents = this.resolve(page.entries.Contents);
+    const refs = Array.isArray(contents) ? contents : [page.entries.Contents];
+    const chunks: string[] = [];
+
+    for (const ref of refs) {
+      const object = isRef(ref) ? this.objects.get(ref.num) : undefined;
+      const decoded = object ? await this.decodeStream(object) : null;
+      if (decoded) chunks.push(bytesToLatin1(decoded));
+    }
+
+    // Content may be split across streams at arbitrary token boundaries
+    await this.interpretContent(chunks.join('\n'), resources, collector, 0);
+  }
+
+  private async interpretContent(
+    content: string,
+    resources: PdfDict | undefined,
+    collector: TextCollector,
+    depth: number
+  ): Promise<void> {
+    const fonts = this.resolveDict(resources?.entries.Font);
+    const xObjects = this.resolveDict(resources?.entries.XObject);
+    const lexer = new PdfLexer(content);
+    let operands: PdfValue[] = [];
+    let font: FontDecoder = { codeLength: 1 };
+    let lastY: number | null = null;
+
+    for (;;) {
+      const token = lexer.next();
+      if (token === undefined) break;
+      if (token === END_ARRAY || token === END_DICT) continue;
+
+      if (!isOperator(token)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.value) {
+        case 'BI': {
+          // Inline image data is binary - jump past it
+          const dataStart = content.indexOf('ID', lexer.pos);
+          const dataEnd = dataStart === -1 ? -1 : content.slice(dataStart + 2).search(/\sEI(\s|$)/);
+          lexer.pos = dataEnd === -1 ? content.length : dataStart + 2 + dataEnd + 3;
+          collector.imageCount++;
+          break;
+        }
+        case 'Tf': {
+          const fontName = operands[0];
+          if (isName(fontName) && fonts) {
+            font = await this.getFontDecoder(fonts.entries[fontName.value]);
+          }
+          break;
+        }
+        case 'Tj': {
+          const text = operands[operands.length - 1];
+          if (isString(text)) collector.append(this.decodeText(text.value, font));
+          break;
+        }
+        case "'":
+        case '"': {
+          collector.newline();
+          const text = operands[operands.length - 1];
+          if (isString(text)) collector.append(this.decodeText(text.value, font));
+          break;
+        }
+        case 'TJ': {
+          const items = operands[operands.length - 1];
+          if (Array.isArray(items)) {
+            for (const item of items) {
+              if (isString(item)) {
+                collector.append(this.decodeText(item.value, font));
+              } else if (typeof item === 'number' && item < -180) {
+                // Large negative kerning is how many producers encode word gaps
+                collector.space();
+              }
+            }
+          }
+          break;
+        }
+        case 'Td':
+        case 'TD': {
+          const [tx, ty] = operands;
+          if (typeof ty === 'number' && Math.abs(ty) > 0.5) {
+            collector.newline();
+          } else if (typeof tx === 'number' && tx > 0) {
+            collector.space();
+          }
+          break;
+        }
+        case 'Tm': {
+          const y = operands[5];
+          if (typeof y === 'number') {
+            if (lastY !== null && Math.abs(y - lastY) > 1) {
+              collector.newline();
+            } else {
+              collector.space();
+            }
+            lastY = y;
+          }
+          break;
+        }
+        case 'T*':
+          collector.newline();
+          break;
+        case 'ET':
+          collector.space();
+          break;
+        case 'Do': {
+          const name = operands[0];
+          const ref = isName(name) ? xObjects?.entries[name.value] : undefined;
+          const object = isRef(ref) ? this.objects.get(ref.num) : undefined;
+          if (!object || !isDict(object.value)) break;
+
+          if (isName(object.value.entries.Subtype, 'Image')) {
+            collector.imageCount++;
+          } else if (isName(object.value.entries.Subtype, 'Form') && depth < MAX_FORM_DEPTH) {
+            const decoded = await this.decodeStream(object);
+            if (decoded) {
+              const formResources = this.resolveDict(object.value.entries.Resources) ?? resources;
+              await this.interpretContent(bytesToLatin1(decoded), formResources, collector, depth + 1);
+            }
+          }
+          break;
+        }
+      }
+
+      operands = [];
+    }
+  }
+
+  private async getFontDecoder(fontValue: PdfValue | undefined): Promise<FontDecoder> {
+    const fontDict = this.resolveDict(fontValue);
+    if (!fontDict) return { codeLength: 1 };
+
+    let cached = this.fontCache.get(fontDict);
+    if (!cached) {
+      cached = this.buildFontDecoder(fontDict);
+      this.fontCache.set(fontDict, cached);
+    }
+    return cached;
+  }
+
+  private async buildFontDecoder(fontDict: PdfDict): Promise<FontDecoder> {
+    const decoder: FontDecoder = {
+      codeLength: isName(fontDict.entries.Subtype, 'Type0') ? 2 : 1
+    };
+
+    const toUnicodeRef = fontDict.entries.ToUnicode;
+    const toUnicode = isRef(toUnicodeRef) ? this.objects.get(toUnicodeRef.num) : undefined;
+    const decoded = toUnicode ? await this.decodeStream(toUnicode) : null;
+
+    if (decoded) {
+      const cmap = parseToUnicodeCMap(bytesToLatin1(decoded));
+      decoder.toUnicode = cmap.map;
+      if (cmap.codeLength) decoder.codeLength = cmap.codeLength;
+    }
+
+    return decoder;
+  }
+
+  private decodeText(raw: string, font: FontDecoder): string {
+    let text = '';
+
+    for (let i = 0; i < raw.length; i += font.codeLength) {
+      const code = font.codeLength === 2
+        ? (raw.charCodeAt(i) << 8) | (raw.charCodeAt(i + 1) || 0)
+        : raw.charCodeAt(i);
+
+      const mapped = font.toUnicode?.get(code);
+      if (mapped !== undefined) {
+        text += mapped;
+      } else if (font.codeLength === 1) {
+        text += WIN_ANSI_OVERRIDES[code] ?? String.fromCharCode(code);
+      }
+      // Two-byte codes without a ToUnicode map are glyph IDs - nothing readable to emit
+    }
+
+    return text;
+  }
+}
+
+function utf16beToString(hex: string): string {
+  let result = '';
+  for (let i = 0; i < hex.length; i += 4) {
+    result += String.fromCharCode(parseInt(hex.slice(i, i + 4).padEnd(4, '0'), 16));
+  }
+  return result;
+}
+
+/**
+ * Parse the bfchar/bfrange sections of a ToUnicode CMap
+ */
+function parseToUnicodeCMap(cmap: string): { map: Map<number, string>; codeLength?: 1 | 2 } {
+  const map = new Map<number, string>();
+  let codeLength: 1 | 2 | undefined;
+
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  if (codespace) {
+    codeLength = codespace[1].length > 2 ? 2 : 1;
+  }
+
+  for (const section of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of section[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(pair[1], 16), utf16beToString(pair[2]));
+    }
+  }
+
+  for (const section of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const rangePattern = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<([0-9a-fA-F]*)>|\[([^\]]*)\])/g;
+
+    for (const range of section[1].matchAll(rangePattern)) {
+      const low = parseInt(range[1], 16);
+      const high = parseInt(range[2], 16);
+
+      if (range[4] !== undefined) {
+        // Consecutive codes map to consecutive values of the last UTF-16 unit
+        const base = range[4];
+        const prefix = utf16beToString(base.slice(0, -4));
+        const start = parseInt(base.slice(-4) || '0', 16);
+        for (let code = low; code <= high && code - low < 0x10000; code++) {
+          map.set(code, prefix + String.fromCharCode(start + code - low));
+        }
+      } else if (range[5] !== undefined) {
+        const values = [...range[5].matchAll(/<([0-9a-fA-F]*)>/g)];
+        values.forEach((value, index) => map.set(low + index, utf16beToString(value[1])));
+      }
+    }
+  }
+
+  return { map, codeLength };
+}
+
+/**
+ * Extract the text layer of a PDF. Returns what was found, including the number of
+ * images, so callers can tell an image-only (scanned) PDF from an empty one.
+ */
+export async function extractPdfText(data: Uint8Array): Promise<PdfTextResult> {
+  const document = new PdfDocument(data);
+  await document.load();
+
+  if (document.encrypted) {
+    return { text: '', pageCount: 0, imageCount: 0, encrypted: true };
+  }
+
+  const collector = new TextCollector();
+  const pages = document.getPages();
+
+  for (const { page, resources } of pages) {
+    await document.extractPageText(page, resources, collector);
+    collector.newline();
+  }
+
+  return {
+    text: collector.toString(),
+    pageCount: pages.length,
+    imageCount: collector.imageCount,
+    encrypted: false
+  };
+}
+
+// ---------------------------------------------------------------------------
+// PDF generation - text documents set in the standard Helvetica fonts, so no fonts are embedded
+// ---------------------------------------------------------------------------
+
+export interface PdfTextBlock {
+  text: string;
+  bold?: boolean;
+  size?: number; // Points, defaults to 11
+  align?: 'left' | 'center' | 'right';
+  spacingAfter?: number; // Points below the block
+}
+
+export interface PdfPageOptions {
+  pageWidth?: number; // Points, defaults to US Letter
+  pageHeight?: number;
+  margin?: number;
+  lineHeight?: number; // Multiple of the font size
+}
+
+// Glyph widths (per 1000 em) for WinAnsi codes 32-126, from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const WIN_ANSI_CODES = new Map(Object.entries(WIN_ANSI_OVERRIDES).map(([code, char]) => [char, Number(code)]));
+
+/**
+ * Encode text as WinAnsi bytes (one char per byte); characters outside the encoding become "?"
+ */
+function toWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text.normalize('NFC')) {
+    const code = char.codePointAt(0) ?? 63;
+    if (code === 9) {
+      result += ' ';
+    } else if (code === 10 || (code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      result += char;
+    } else {
+      result += String.fromCharCode(WIN_ANSI_CODES.get(char) ?? 63);
+    }
+  }
+  return result;
+}
+
+function textWidth(encoded: string, size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Break encoded text into lines no wider than maxWidth, splitting overlong words
+ */
+function wrapText(encoded: string, size: number, bold: boolean, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of encoded.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size, bold) > maxWidth && line.length > 1) {
+        let fit = line.length - 1;
+        while (fit > 1 && textWidth(line.slice(0, fit), size, bold) > maxWidth) fit--;
+        lines.push(line.slice(0, fit));
+        line = line.slice(fit);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function escapePdfString(encoded: string): string {
+  return encoded.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Lay out text blocks over as many pages as needed and build a PDF file
+ */
+export function createPdf(blocks: PdfTextBlock[], options: PdfPageOptions = {}): Uint8Array {
+  const pageWidth = options.pageWidth ?? 612;
+  const pageHeight = options.pageHeight ?? 792;
+  const margin = options.margin ?? 72;
+  const lineHeight = options.lineHeight ?? 1.35;
+  const contentWidth = pageWidth - margin * 2;
+
+  const pages: string[][] = [[]];
+  let y = pageHeight - margin;
+
+  for (const block of blocks) {
+    const size = block.size ?? 11;
+    const bold = block.bold ?? false;
+    const leading = size * lineHeight;
+
+    for (const line of wrapText(toWinAnsi(block.text), size, bold, contentWidth)) {
+      if (y - size < margin) {
+        pages.push([]);
+        y = pageHeight - margin;
+      }
+      y -= leading;
+
+      if (line) {
+        const width = textWidth(line, size, bold);
+        const x = block.align === 'center' ? margin + (contentWidth - width) / 2
+          : block.align === 'right' ? margin + contentWidth - width
+          : margin;
+        pages[pages.length - 1].push(
+          `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(x)} ${formatNumber(y)} Td (${escapePdfString(line)}) Tj ET`
+        );
+      }
+    }
+
+    y -= block.spacingAfter ?? 0;
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and content stream per page
+  const objects: string[] = [];
+  const pageRefs = pages.map((_, index) => `${5 + index * 2} 0 R`);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((commands, index) => {
+    const content = commands.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Everything is one byte per char, so string offsets are byte offsets
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,463 @@
+import { eq, and, desc } from 'drizzle-orm';
+import type { Database } from './db';
+import { promptTemplates, promptExperiments } from '../db/schema';
+import type { PromptExperiment, FormattedPromptExperiment, PromptExperimentVariant } from '../types/database';
+
+/**
+ * Prompt registry: named prompts with versioned {{variable}} templates.
+ * Version 1 of each prompt is built in; later versions are stored in the database so wording
+ * can change without a deploy, and experiments split users between versions.
+ */
+
+export const PROMPT_NAMES = [
+  'cover_letter',
+  'cover_letter_rewrite',
+  'cover_letter_critique',
+  'cover_letter_translation',
+  'resume_parse',
+  'resume_tailor',
+  'job_match',
+  'job_extraction',
+  'application_document'
+] as const;
+
+export type PromptName = typeof PROMPT_NAMES[number];
+
+// Prompts experiments can measure - results come from the ratings and edits of the letters each variant generated
+export const EXPERIMENT_PROMPT_NAMES = ['cover_letter'] as const satisfies readonly PromptName[];
+
+export const BUILT_IN_PROMPT_VERSION = 1;
+
+export interface PromptDefinition {
+  system: string;
+  template: string;
+}
+
+export interface ResolvedPrompt extends PromptDefinition {
+  name: PromptName;
+  version: number;
+  experimentId: string | null; // Set when an experiment picked the version
+}
+
+interface RegisteredPrompt extends PromptDefinition {
+  description: string;
+  variables: string[]; // The only placeholders stored versions may use
+}
+
+export const PROMPT_REGISTRY: Record<PromptName, RegisteredPrompt> = {
+  cover_letter: {
+    description: 'Cover letter generation (streamed and non-streamed)',
+    variables: ['job', 'resume', 'tone', 'focus', 'length', 'languageInstructions', 'templateInstructions'],
+    system: 'You are an expert cover letter writer who creates compelling, personalized cover letters that get results. Write professionally but with personality that matches the specified tone.',
+    template: `
+You are an expert cover letter writer with 15+ years of experience. Create a personalized, compelling cover letter based on the job information and candidate's resume.
+
+Job Information:
+{{job}}
+
+Resume Content:
+{{resume}}
+
+Writing Preferences:
+- Tone: {{tone}}
+- Focus: {{focus}}
+- Length: {{length}}
+{{languageInstructions}}{{templateInstructions}}
+Create a compelling cover letter that:
+1. Opens with enthusiasm for the specific role and company
+2. Connects the candidate's experience directly to job requirements
+3. Highlights 2-3 most relevant achievements with quantifiable results
+4. Shows genuine knowledge of the company/industry
+5. Uses the specified tone throughout
+6. Ends with a confident call to action
+7. Length guidelines:
+   - Short: 2-3 paragraphs (200-300 words)
+   - Medium: 3-4 paragraphs (300-450 words)
+   - Long: 4-5 paragraphs (450-600 words)
+
+Important guidelines:
+- Write in first person as the candidate
+- Be specific and avoid generic phrases
+- Match the company's culture and tone if evident
+- Include relevant keywords from the job posting
+- Format as clean, readable text
+- No placeholder text or brackets
+- Professional closing with candidate's interest in next steps
+
+Generate the cover letter now:
+`
+  },
+  cover_letter_rewrite: {
+    description: 'Rewrite of one section of a cover letter',
+    variables: ['instruction', 'jobTitle', 'company', 'resumeContext', 'before', 'section', 'after'],
+    system: 'You are a professional cover letter editor. You make targeted edits that blend seamlessly into the existing letter.',
+    template: `
+Rewrite the marked section of this cover letter following the instruction.
+
+Instruction: {{instruction}}
+
+Job: {{jobTitle}} at {{company}}
+{{resumeContext}}
+Cover letter text before the section:
+"""
+{{before}}
+"""
+
+SECTION TO REWRITE:
+"""
+{{section}}
+"""
+
+Cover letter text after the section:
+"""
+{{after}}
+"""
+
+Rules:
+1. Return ONLY the rewritten section - no quotes, labels or commentary
+2. It must read naturally between the text before and after it, in the same voice and tone
+3. Do not repeat points already made elsewhere in the letter
+4. Keep roughly the same length unless the instruction asks otherwise
+5. NEVER invent experience, skills or achievements that are not in the resume
+`
+  },
+  cover_letter_critique: {
+    description: 'Hiring-manager critique of a cover letter (JSON)',
+    variables: ['jobContext', 'wordCount', 'cliches', 'missingKeywords', 'letter'],
+    system: 'You are an experienced hiring manager who gives candid, specific feedback on cover letters. Return valid JSON only.',
+    template: `
+Critique this cover letter like a hiring manager. Return ONLY valid JSON with these exact fields:
+
+{
+  "scores": { "specificity": 70, "toneConsistency": 85, "overall": 75 },
+  "summary": "2-3 sentence overall assessment",
+  "suggestions": [
+    { "line": 3, "excerpt": "short quote from that line", "suggestion": "specific, actionable rewrite advice" }
+  ]
+}
+{{jobContext}}
+Automated checks already found (don't repeat these):
+- Word count: {{wordCount}}
+- Clichés: {{cliches}}
+- Missing job keywords: {{missingKeywords}}
+
+Cover letter (each line prefixed with its line number):
+{{letter}}
+
+Scoring (0-100):
+- specificity: concrete examples, numbers and details unique to this candidate and company
+- toneConsistency: one consistent voice and register from greeting to sign-off
+- overall: how likely this letter is to earn an interview
+
+Give 3-8 suggestions, each tied to a line number when it concerns specific text (null for letter-wide advice).
+Never suggest claiming experience the letter doesn't already support.
+`
+  },
+  cover_letter_translation: {
+    description: 'Translation of a cover letter into another language',
+    variables: ['language', 'conventions', 'jobTitle', 'company', 'letter'],
+    system: 'You are a professional translator specializing in job applications written in {{language}}.',
+    template: `
+Translate this cover letter into {{language}}.
+
+Job: {{jobTitle}} at {{company}}
+
+Rules:
+1. Keep the meaning, facts, names, numbers and paragraph structure exactly
+2. Write natural, idiomatic business {{language}} - not a word-for-word translation
+3. Adapt the greeting, closing and formality to local conventions: {{conventions}}
+4. Keep company names, product names and technical terms that are normally left untranslated
+5. Return ONLY the translated letter - no notes or commentary
+
+Cover letter:
+{{letter}}
+`
+  },
+  resume_parse: {
+    description: 'Resume text to a structured profile (JSON)',
+    variables: ['resume'],
+    system: 'You are a precise resume parser. Extract only information that is clearly stated in the resume. Never invent details. Return valid JSON only.',
+    template: `
+Parse this resume into a structured profile. Return ONLY valid JSON with these exact fields:
+
+{
+  "contact": {
+    "name": "full name",
+    "email": "email address",
+    "phone": "phone number",
+    "location": "city, state/country",
+    "linkedin": "LinkedIn URL",
+    "website": "personal website or portfolio URL"
+  },
+  "summary": "professional summary as written in the resume",
+  "workHistory": [
+    {
+      "company": "company name",
+      "title": "job title",
+      "location": "location",
+      "startDate": "YYYY-MM",
+      "endDate": "YYYY-MM or null if current",
+      "current": false,
+      "highlights": ["accomplishment or responsibility 1", "accomplishment or responsibility 2"]
+    }
+  ],
+  "education": [
+    {
+      "institution": "school name",
+      "degree": "degree",
+      "field": "field of study",
+      "startDate": "YYYY-MM",
+      "endDate": "YYYY-MM",
+      "gpa": "GPA if listed"
+    }
+  ],
+  "skills": ["skill 1", "skill 2"],
+  "certifications": [
+    { "name": "certification name", "issuer": "issuing organization", "date": "YYYY-MM" }
+  ],
+  "projects": [
+    { "name": "project name", "description": "one sentence", "technologies": ["tech 1"], "url": "URL" }
+  ]
+}
+
+Resume Content:
+{{resume}}
+
+Only include information that is explicitly stated in the resume. Use null for missing fields and empty arrays for missing sections. Use "YYYY" when only the year is given. List work history most recent first.
+`
+  },
+  resume_tailor: {
+    description: 'Resume rewritten for a job (Markdown)',
+    variables: ['job', 'keywordNote', 'resume'],
+    system: 'You are an expert resume writer. You tailor resumes to job postings while staying strictly truthful to the candidate\'s actual experience.',
+    template: `
+Rewrite this resume so it is tailored to the job below. Return the complete resume in Markdown.
+
+Job:
+{{job}}
+{{keywordNote}}
+Resume Content:
+{{resume}}
+
+Tailoring rules:
+1. Rewrite the professional summary (3-4 sentences) to speak directly to this role
+2. Within each position, reorder bullets so the most relevant to the job come first
+3. Rephrase bullets to emphasize matching skills and use the job's terminology where it accurately describes the candidate's work
+4. Reorder the skills section so matching skills come first
+5. Keep every employer, title, date, degree and certification exactly as in the original
+6. NEVER invent experience, skills, metrics, employers or credentials that are not in the original resume
+7. Do not drop positions; you may shorten less relevant bullets
+
+Formatting:
+- "# Full Name" on the first line, then contact details on one line
+- "## " for section headings (Summary, Experience, Skills, Education, ...)
+- "### Title - Company (Dates)" for each position
+- "- " for bullets
+- No commentary before or after the resume
+`
+  },
+  job_match: {
+    description: 'Resume-to-job fit assessment (JSON)',
+    variables: ['job', 'matchedSkills', 'missingSkills', 'resume'],
+    system: 'You are an experienced technical recruiter who evaluates candidate fit honestly and precisely. Return valid JSON only.',
+    template: `
+Assess how well this candidate's resume fits the job. Return ONLY valid JSON with these exact fields:
+
+{
+  "score": 75,
+  "summary": "2-3 sentence assessment of the fit",
+  "recommendations": ["specific, actionable recommendation 1", "recommendation 2"]
+}
+
+Job:
+{{job}}
+
+Keyword matching already found:
+Matched skills: {{matchedSkills}}
+Missing skills: {{missingSkills}}
+
+Resume Content:
+{{resume}}
+
+Score from 0 to 100. Account for transferable and equivalent experience that keyword matching misses (e.g. "Postgres" satisfies "relational databases"). Recommendations must be based on the resume - never suggest claiming experience the candidate does not have.
+`
+  },
+  job_extraction: {
+    description: 'Job posting fields from page content (JSON)',
+    variables: ['title', 'url', 'domain', 'content', 'structuredNote'],
+    system: 'You are a precise content analyzer. Extract only accurate information that is clearly stated in the content. Return valid JSON only.',
+    template: `
+Analyze this job posting content and extract structured information. Return ONLY valid JSON with these exact fields:
+
+{
+  "title": "exact job title",
+  "company": "company name",
+  "location": "location (city, state/country)",
+  "salary": "salary range or compensation",
+  "jobType": "full-time/part-time/contract/internship",
+  "experience": "experience level required",
+  "requirements": ["requirement 1", "requirement 2"],
+  "description": "brief job description (2-3 sentences)",
+  "benefits": ["benefit 1", "benefit 2"],
+  "skills": ["skill 1", "skill 2"],
+  "industry": "industry/sector",
+  "remote": "remote/hybrid/on-site",
+  "pageType": "job" or "general",
+  "confidence": 0.8,
+  "url": "{{url}}",
+  "domain": "{{domain}}"
+}
+
+Content to analyze:
+Title: {{title}}
+URL: {{url}}
+Content: {{content}}
+
+Use your best judgement to extract the information. Use null for missing fields. Set pageType to "job" if this is clearly a job posting, "general" otherwise.
+{{structuredNote}}`
+  },
+  application_document: {
+    description: 'Outreach, thank-you and follow-up messages (JSON); the document type supplies purpose, guidelines and length',
+    variables: [
+      'purpose', 'subjectField', 'contentDescription', 'candidateName', 'jobTitle', 'company', 'recipient',
+      'context', 'guidelines', 'tone', 'targetWords', 'maxCharacters'
+    ],
+    system: 'You are a career coach who writes concise, genuine job search messages that get replies. Return valid JSON only.',
+    template: `
+Write {{purpose}}. Return ONLY valid JSON with these exact fields:
+
+{
+  {{subjectField}}
+  "content": "the full {{contentDescription}}"
+}
+
+Candidate: {{candidateName}}
+Job: {{jobTitle}} at {{company}}
+Recipient: {{recipient}}
+{{context}}
+Guidelines:
+{{guidelines}}
+
+Important:
+- Tone: {{tone}}
+- Length: {{targetWords}}, and never more than {{maxCharacters}} characters
+- Write in first person as the candidate and sign off with their name
+- Use only facts from the resume and details - never invent experience, names or numbers
+- No placeholder text or brackets
+`
+  }
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Placeholders used in a template, in order of first use
+ */
+export function getTemplateVariables(text: string): string[] {
+  return [...new Set([...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Placeholders in the texts that the prompt doesn't supply
+ */
+export function findUnknownVariables(name: PromptName, texts: string[]): string[] {
+  const known = PROMPT_REGISTRY[name].variables;
+  return texts.flatMap(getTemplateVariables).filter(variable => !known.includes(variable));
+}
+
+/**
+ * Fill in {{variable}} placeholders. One pass, so braces inside values (e.g. resume text) are left alone.
+ */
+export function renderPrompt(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '');
+}
+
+export function formatExperiment(experiment: PromptExperiment): FormattedPromptExperiment {
+  return {
+    ...experiment,
+    variants: JSON.parse(experiment.variants) as PromptExperimentVariant[]
+  };
+}
+
+// FNV-1a - stable across requests and isolates, so a user always sees the same variant
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  // FNV's low bits barely mix (the lowest is the parity of the input), and buckets come from them - finish with murmur3's avalanche
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Variant for a user, weighted. Hashing with the experiment ID reshuffles users between experiments.
+ */
+export function assignVariant(experimentId: string, userId: string, variants: PromptExperimentVariant[]): PromptExperimentVariant {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let bucket = hashString(`${experimentId}:${userId}`) % totalWeight;
+
+  for (const variant of variants) {
+    if (bucket < variant.weight) return variant;
+    bucket -= variant.weight;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * A specific version of a prompt - built in for version 1, otherwise from the database
+ */
+export async function getPromptVersion(db: Database, name: PromptName, version: number): Promise<PromptDefinition | null> {
+  if (version === BUILT_IN_PROMPT_VERSION) return PROMPT_REGISTRY[name];
+
+  const stored = await db.select()
+    .from(promptTemplates)
+    .where(and(eq(promptTemplates.name, name), eq(promptTemplates.version, version)))
+    .get();
+
+  return stored ? { system: stored.system, template: stored.template } : null;
+}
+
+/**
+ * The running experiment for a prompt, if any
+ */
+export async function getRunningExperiment(db: Database, name: PromptName): Promise<FormattedPromptExperiment | null> {
+  const experiment = await db.select()
+    .from(promptExperiments)
+    .where(and(eq(promptExperiments.promptName, name), eq(promptExperiments.status, 'running')))
+    .orderBy(desc(promptExperiments.startedAt))
+    .get();
+
+  return experiment ? formatExperiment(experiment) : null;
+}
+
+/**
+ * Prompt version to use for a user: their experiment variant, else the active stored version, else the built-in one
+ */
+export async function resolvePrompt(db: Database, name: PromptName, userId: string): Promise<ResolvedPrompt> {
+  const experiment = await getRunningExperiment(db, name);
+  if (experiment) {
+    const { version } = assignVariant(experiment.id, userId, experiment.variants);
+    const prompt = await getPromptVersion(db, name, version);
+    if (prompt) {
+      return { ...prompt, name, version, experimentId: experiment.id };
+    }
+  }
+
+  const active = await db.select()
+    .from(promptTemplates)
+    .where(and(eq(promptTemplates.name, name), eq(promptTemplates.isActive, true)))
+    .get();
+  if (active) {
+    return { system: active.system, template: active.template, name, version: active.version, experimentId: null };
+  }
+
+  const { system, template } = PROMPT_REGISTRY[name];
+  return { system, template, name, version: BUILT_IN_PROMPT_VERSION, experimentId: null };
+}
@@ -1,4 +1,5 @@
 import type { Context } from 'hono';
+import { AIError, type AIErrorCode } from './llm';
 import type { ValidationErrorDetail } from '../types/database';
 
 /**
@@ -13,6 +14,7 @@ export interface SuccessResponse<T = unknown> {
 export interface ErrorResponse {
   success: false;
   error: string;
+  code?: string; // Machine-readable, for errors clients handle differently (e.g. "ai_rate_limited")
   details?: ValidationErrorDetail[];
 }
 
@@ -88,11 +90,42 @@ export function sendInsufficientCredits(c: Context, error: string = 'Insufficien
   return sendError(c, error, 402);
 }
 
+// Status and client-facing message for each AI failure; the code is returned as "ai_<code>"
+const AI_ERROR_RESPONSES: Record<AIErrorCode, { status: number; message: string }> = {
+  rate_limited: { status: 429, message: 'The AI provider is rate limiting requests. Please try again shortly.' },
+  timeout: { status: 504, message: 'The AI provider took too long to respond. Please try again.' },
+  content_filtered: { status: 422, message: 'The AI provider declined this content under its content policy.' },
+  invalid_output: { status: 502, message: 'The AI returned an unusable response. Please try again.' },
+  provider_unavailable: { status: 503, message: 'The AI provider is temporarily unavailable. Please try again in a minute.' },
+  provider_error: { status: 502, message: 'The AI provider returned an error. Please try again.' }
+};
+
+/**
+ * Client-facing body for an AI failure - the provider's own message (status, response body) stays in the logs
+ */
+export function aiErrorResponse(error: AIError): ErrorResponse {
+  return { ...errorResponse(AI_ERROR_RESPONSES[error.code].message), code: `ai_${error.code}` };
+}
+
+/**
+ * Send an AI failure with its error code, and Retry-After when the wait is known
+ */
+export function sendAIError(c: Context, error: AIError) {
+  if (error.retryAfterMs !== undefined) {
+    c.header('Retry-After', Math.ceil(error.retryAfterMs / 1000).toString());
+  }
+  return c.json(aiErrorResponse(error), AI_ERROR_RESPONSES[error.code].status);
+}
+
 /**
  * Handle and send error response based on error type
  */
 export function handleError(c: Context, error: unknown, defaultMessage: string = 'An error occurred') {
   console.error(defaultMessage + ':', error);
+
+  if (error instanceof AIError) {
+    return sendAIError(c, error);
+  }
   
   if (error instanceof Error) {
     return sendError(c, defaultMessage, 500);
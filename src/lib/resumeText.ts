@@ -0,0 +1,68 @@
+import { eq } from 'drizzle-orm';
+import type { Database } from './db';
+import { getConfig } from './config';
+import { extractDocumentText, DocumentExtractionError } from './documentText';
+import { resumes } from '../db/schema';
+import type { Resume } from '../types/database';
+
+/**
+ * Extract text from the resume file in R2 and cache it in resumes.extractedText
+ * Records a failed status (and rethrows) when the file cannot be read.
+ * Pass fileData when the bytes are already in memory (e.g. right after upload).
+ */
+export async function extractAndCacheResumeText(
+  db: Database,
+  resume: Resume,
+  fileData?: ArrayBuffer | Uint8Array
+): Promise<Resume> {
+  if (!fileData) {
+    const config = getConfig();
+    const resumeFile = await config.storage.bucket.get(resume.fileKey);
+    if (!resumeFile) {
+      throw new DocumentExtractionError('Resume file not found', 'missing_file');
+    }
+    fileData = await resumeFile.arrayBuffer();
+  }
+
+  try {
+    const extractedText = await extractDocumentText(fileData, resume.mimeType);
+
+    const updated = await db.update(resumes)
+      .set({
+        extractedText,
+        extractionStatus: 'completed',
+        extractionError: null,
+        textExtractedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(resumes.id, resume.id))
+      .returning();
+
+    return updated[0];
+
+  } catch (error) {
+    await db.update(resumes)
+      .set({
+        extractedText: null,
+        extractionStatus: 'failed',
+        extractionError: error instanceof Error ? error.message : 'Text extraction failed',
+        textExtractedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(resumes.id, resume.id));
+
+    throw error;
+  }
+}
+
+/**
+ * Get resume text, using the cached copy when extraction has already completed
+ */
+export async function getResumeText(db: Database, resume: Resume): Promise<string> {
+  if (resume.extractionStatus === 'completed' && resume.extractedText) {
+    return resume.extractedText;
+  }
+
+  const updated = await extractAndCacheResumeText(db, resume);
+  return updated.extractedText ?? '';
+}
@@ -0,0 +1,116 @@
+/**
+ * Word/line diff between two texts (longest common subsequence over tokens)
+ */
+
+export type DiffGranularity = 'word' | 'line';
+
+export interface DiffChange {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+export interface TextDiff {
+  granularity: DiffGranularity;
+  changes: DiffChange[];
+  stats: { added: number; removed: number; unchanged: number };
+}
+
+// LCS table cells above which word diffs fall back to lines (keeps CPU time bounded)
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split text into tokens, keeping whitespace/newlines so the changes join back into the original text
+ */
+function tokenize(text: string, granularity: DiffGranularity): string[] {
+  const tokens = granularity === 'line'
+    ? text.split(/(?<=\n)/)
+    : text.split(/(\s+)/);
+  return tokens.filter(token => token.length > 0);
+}
+
+function isCounted(token: string, granularity: DiffGranularity): boolean {
+  return granularity === 'line' ? token.trim().length > 0 : !/^\s+$/.test(token);
+}
+
+function diffTokens(before: string[], after: string[]): Array<{ type: DiffChange['type']; token: string }> {
+  // Common prefix/suffix don't need the LCS table
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: Array<{ type: DiffChange['type']; token: string }> = before.slice(0, start)
+    .map(token => ({ type: 'equal' as const, token }));
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', token: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', token: a[i++] });
+    } else {
+      result.push({ type: 'added', token: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', token: a[i++] });
+  while (j < b.length) result.push({ type: 'added', token: b[j++] });
+
+  for (const token of before.slice(endBefore)) {
+    result.push({ type: 'equal', token });
+  }
+
+  return result;
+}
+
+/**
+ * Diff two texts. Adjacent tokens of the same type are merged into one change.
+ */
+export function diffText(before: string, after: string, granularity: DiffGranularity = 'word'): TextDiff {
+  let beforeTokens = tokenize(before, granularity);
+  let afterTokens = tokenize(after, granularity);
+
+  if (granularity === 'word' && beforeTokens.length * afterTokens.length > MAX_WORD_DIFF_CELLS) {
+    granularity = 'line';
+    beforeTokens = tokenize(before, granularity);
+    afterTokens = tokenize(after, granularity);
+  }
+
+  const changes: DiffChange[] = [];
+  const stats = { added: 0, removed: 0, unchanged: 0 };
+
+  for (const { type, token } of diffTokens(beforeTokens, afterTokens)) {
+    if (isCounted(token, granularity)) {
+      stats[type === 'equal' ? 'unchanged' : type]++;
+    }
+
+    const last = changes[changes.length - 1];
+    if (last && last.type === type) {
+      last.value += token;
+    } else {
+      changes.push({ type, value: token });
+    }
+  }
+
+  return { granularity, changes, stats };
+}
@@ -0,0 +1,146 @@
+import { readZipEntries } from './zip';
+import { concatBytes } from './binary';
+import { detectDocumentType } from './documentText';
+import type { JWTPayload } from '../types/env';
+
+/**
+ * Server-side validation for uploaded resume files.
+ * The file type is decided by sniffing the bytes - client-declared MIME types are ignored.
+ */
+
+export type ResumeFileType = 'pdf' | 'docx' | 'txt' | 'md';
+
+export const RESUME_MIME_TYPES: Record<ResumeFileType, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  md: 'text/markdown'
+};
+
+const MB = 1024 * 1024;
+
+// Maximum resume file size per plan, in bytes
+export const RESUME_SIZE_LIMITS: Record<JWTPayload['plan'], number> = {
+  free: 2 * MB,
+  starter: 5 * MB,
+  pro: 10 * MB,
+  enterprise: 10 * MB
+};
+
+export type ResumeFileValidation =
+  | { valid: true; type: ResumeFileType; mimeType: string }
+  | { valid: false; error: string; status: 400 | 413 | 415 };
+
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+}
+
+function isWordDocument(bytes: Uint8Array): boolean {
+  try {
+    return readZipEntries(bytes).has('word/document.xml');
+  } catch {
+    return false;
+  }
+}
+
+function isPlainText(bytes: Uint8Array): boolean {
+  if (bytes.includes(0)) return false;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the maximum resume file size for a plan
+ */
+export function getResumeSizeLimit(plan: JWTPayload['plan']): number {
+  return RESUME_SIZE_LIMITS[plan] ?? RESUME_SIZE_LIMITS.free;
+}
+
+/**
+ * Validate an uploaded resume against the allow-list (PDF, DOCX, TXT, MD) and plan size limit
+ */
+export function validateResumeFile(
+  bytes: Uint8Array,
+  filename: string,
+  plan: JWTPayload['plan']
+): ResumeFileValidation {
+  if (bytes.length === 0) {
+    return { valid: false, error: 'Uploaded file is empty', status: 400 };
+  }
+
+  const limit = getResumeSizeLimit(plan);
+  if (bytes.length > limit) {
+    return {
+      valid: false,
+      error: `File exceeds the ${limit / MB}MB limit for the ${plan} plan`,
+      status: 413
+    };
+  }
+
+  // Sniff magic bytes only - no MIME type fallback
+  const sniffed = detectDocumentType(bytes);
+
+  let type: ResumeFileType | null = null;
+  if (sniffed === 'pdf') {
+    type = 'pdf';
+  } else if (sniffed === 'docx') {
+    // Any ZIP matches the magic bytes - it must actually be a Word document
+    type = isWordDocument(bytes) ? 'docx' : null;
+  } else if (isPlainText(bytes)) {
+    const extension = getExtension(filename);
+    type = extension === 'md' || extension === 'markdown' ? 'md' : 'txt';
+  }
+
+  if (!type) {
+    return {
+      valid: false,
+      error: 'Unsupported file type. Please upload a PDF, DOCX, TXT or Markdown file.',
+      status: 415
+    };
+  }
+
+  return { valid: true, type, mimeType: RESUME_MIME_TYPES[type] };
+}
+
+/**
+ * Buffer a request body, giving up as soon as it grows past maxBytes.
+ * Content-Length can't be relied on - a chunked body doesn't send one. Returns null when the body is too large.
+ */
+export async function readBodyWithLimit(request: Request, maxBytes: number): Promise<Uint8Array | null> {
+  if (!request.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return concatBytes(chunks);
+}
+
+/**
+ * Make a user-supplied filename safe to use in an R2 key
+ */
+export function sanitizeFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() ?? '';
+  const sanitized = base.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^[._]+/, '').slice(0, 120);
+  return sanitized || 'resume';
+}
@@ -1,4 +1,14 @@
 import { z } from 'zod';
+import { APPLICATION_STATUSES } from './applications';
+import { APPLICATION_DOCUMENT_TYPES, APPLICATION_DOCUMENT_CONFIG } from './applicationDocuments';
+import { COVER_LETTER_EXPORT_FORMATS, COVER_LETTER_LAYOUTS } from './coverLetterExport';
+import { MAX_COVER_LETTER_VARIANTS } from './coverLetterVariants';
+import { LETTER_LANGUAGE_CODES } from './languages';
+import { MODEL_QUALITIES } from './modelRouting';
+import { PROMPT_NAMES, EXPERIMENT_PROMPT_NAMES, findUnknownVariables } from './prompts';
+
+// Optional on AI endpoints: "fast" is cheaper, "best" uses premium models (charged extra below Professional)
+const qualitySchema = z.enum(MODEL_QUALITIES).optional();
 
 export const registerSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -15,35 +25,260 @@ export const extractJobSchema = z.object({
   html: z.string().min(100, 'HTML content too short'),
   url: z.string().url('Invalid URL'),
   title: z.string().min(1, 'Title is required'),
-  maxTokens: z.number().optional().default(15000)
+  maxTokens: z.number().optional().default(15000),
+  force: z.boolean().optional().default(false), // Re-extract even when the page is unchanged
+  quality: qualitySchema
+});
+
+export const coverLetterPreferencesSchema = z.object({
+  tone: z.enum(['professional', 'casual', 'enthusiastic']).optional(),
+  focus: z.enum(['experience', 'skills', 'achievements']).optional(),
+  length: z.enum(['short', 'medium', 'long']).optional(),
+  language: z.enum(LETTER_LANGUAGE_CODES).optional() // Defaults to the job posting's language
+});
+
+// Job posting data as extracted from a page - validates AI extraction output and job content sent
+// by clients, and JobExtractionData is inferred from it. Missing fields may be null.
+const optionalJobText = z.string().nullish().transform(value => value ?? undefined);
+const optionalJobList = z.array(z.string()).nullish().transform(value => value ?? undefined);
+
+export const jobExtractionDataSchema = z.object({
+  title: optionalJobText,
+  company: optionalJobText,
+  location: optionalJobText,
+  description: optionalJobText,
+  salary: optionalJobText,
+  jobType: optionalJobText,
+  experience: optionalJobText,
+  requirements: optionalJobList,
+  skills: optionalJobList,
+  benefits: optionalJobList,
+  industry: optionalJobText,
+  remote: optionalJobText,
+  datePosted: optionalJobText,
+  validThrough: optionalJobText,
+  pageType: z.string(),
+  confidence: z.number().min(0).max(1),
+  url: z.string().url(),
+  domain: z.string()
 });
 
 export const generateCoverLetterSchema = z.object({
-  extractedContent: z.object({
-    title: z.string().optional(),
-    company: z.string().optional(),
-    location: z.string().optional(),
-    description: z.string().optional(),
-    salary: z.string().optional(),
-    requirements: z.array(z.string()).optional(),
-    skills: z.array(z.string()).optional(),
-    pageType: z.string(),
-    confidence: z.number(),
-    url: z.string().url(),
-    domain: z.string()
+  extractedJobId: z.string().uuid('Invalid job ID').optional(), // A stored job from /api/jobs/extract
+  extractedContent: jobExtractionDataSchema.optional(),
+  resumeId: z.string().uuid('Invalid resume ID'),
+  templateId: z.string().uuid('Invalid template ID').optional(),
+  preferences: coverLetterPreferencesSchema.optional(),
+  variants: z.number().int().min(1).max(MAX_COVER_LETTER_VARIANTS).default(1), // Each variant is charged separately
+  quality: qualitySchema
+}).refine(data => (data.extractedJobId === undefined) !== (data.extractedContent === undefined), {
+  message: 'Provide either an extracted job ID or the extracted job content',
+  path: ['extractedJobId']
+});
+
+export const coverLetterListSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  extractedJobId: z.string().uuid('Invalid job ID').optional()
+});
+
+const templateText = (max: number) => z.string().trim().min(1).max(max);
+
+export const createTemplateSchema = z.object({
+  name: templateText(100),
+  instructions: templateText(2000).optional(),
+  opening: templateText(500).optional(),
+  closing: templateText(500).optional(),
+  avoidPhrases: z.array(templateText(100)).max(50).default([]),
+  signature: templateText(500).optional(),
+  preferences: coverLetterPreferencesSchema.optional()
+});
+
+// null clears a field
+export const updateTemplateSchema = z.object({
+  name: templateText(100).optional(),
+  instructions: templateText(2000).nullable().optional(),
+  opening: templateText(500).nullable().optional(),
+  closing: templateText(500).nullable().optional(),
+  avoidPhrases: z.array(templateText(100)).max(50).optional(),
+  signature: templateText(500).nullable().optional(),
+  preferences: coverLetterPreferencesSchema.nullable().optional()
+});
+
+export const updateResumeSchema = z.object({
+  filename: z.string().min(1, 'Filename is required')
+});
+
+// Structured resume profile returned by the AI parser
+const nullableText = z.string().nullish().transform(value => value ?? null);
+
+export const resumeProfileSchema = z.object({
+  contact: z.object({
+    name: nullableText,
+    email: nullableText,
+    phone: nullableText,
+    location: nullableText,
+    linkedin: nullableText,
+    website: nullableText
   }),
+  summary: nullableText,
+  workHistory: z.array(z.object({
+    company: z.string(),
+    title: z.string(),
+    location: nullableText,
+    startDate: nullableText, // YYYY-MM or YYYY
+    endDate: nullableText,   // YYYY-MM, YYYY, or null when current
+    current: z.boolean().default(false),
+    highlights: z.array(z.string()).default([])
+  })).default([]),
+  education: z.array(z.object({
+    institution: z.string(),
+    degree: nullableText,
+    field: nullableText,
+    startDate: nullableText,
+    endDate: nullableText,
+    gpa: nullableText
+  })).default([]),
+  skills: z.array(z.string()).default([]),
+  certifications: z.array(z.object({
+    name: z.string(),
+    issuer: nullableText,
+    date: nullableText
+  })).default([]),
+  projects: z.array(z.object({
+    name: z.string(),
+    description: nullableText,
+    technologies: z.array(z.string()).default([]),
+    url: nullableText
+  })).default([])
+});
+
+export const tailorResumeSchema = z.object({
+  extractedJobId: z.string().uuid('Invalid job ID'),
+  quality: qualitySchema
+});
+
+export const parseResumeQuerySchema = z.object({
+  quality: qualitySchema
+});
+
+export const resumeDownloadSchema = z.object({
+  format: z.enum(['original', 'md', 'docx']).default('original')
+});
+
+export const jobMatchSchema = z.object({
   resumeId: z.string().uuid('Invalid resume ID'),
-  preferences: z.object({
-    tone: z.enum(['professional', 'casual', 'enthusiastic']).optional(),
-    focus: z.enum(['experience', 'skills', 'achievements']).optional(),
-    length: z.enum(['short', 'medium', 'long']).optional()
-  }).optional()
+  useAI: z.boolean().optional().default(false),
+  refresh: z.boolean().optional().default(false),
+  quality: qualitySchema // Only used with useAI
+});
+
+export const jobMatchQuerySchema = z.object({
+  resumeId: z.string().uuid('Invalid resume ID').optional()
+});
+
+// AI assessment returned by the job match analysis
+export const jobMatchAnalysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  summary: z.string(),
+  recommendations: z.array(z.string()).default([])
+});
+
+export const updateCoverLetterSchema = z.object({
+  content: z.string().trim().min(1, 'Cover letter cannot be empty').max(20000, 'Cover letter is too long')
+});
+
+export const rateCoverLetterSchema = z.object({
+  rating: z.number().int().min(1).max(5)
 });
 
-export const uploadResumeSchema = z.object({
-  filename: z.string().min(1, 'Filename is required'),
-  mimeType: z.string().min(1, 'MIME type is required'),
-  fileSize: z.number().positive('File size must be positive')
+export const coverLetterExportSchema = z.object({
+  format: z.enum(COVER_LETTER_EXPORT_FORMATS).default('pdf'),
+  layout: z.enum(COVER_LETTER_LAYOUTS).default('classic'),
+  cache: z.enum(['true', 'false']).default('true').transform(value => value === 'true')
+});
+
+export const rewriteCoverLetterSchema = z.object({
+  paragraphIndex: z.number().int().min(0).optional(),
+  range: z.object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(1)
+  }).refine(range => range.end > range.start, { message: 'Range end must be after start' }).optional(),
+  instruction: z.string().trim().min(1, 'Instruction is required').max(500),
+  quality: qualitySchema
+}).refine(data => (data.paragraphIndex === undefined) !== (data.range === undefined), {
+  message: 'Provide either a paragraph index or a text range',
+  path: ['paragraphIndex']
+});
+
+export const translateCoverLetterSchema = z.object({
+  language: z.enum(LETTER_LANGUAGE_CODES),
+  quality: qualitySchema
+});
+
+export const coverLetterDiffSchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(), // Defaults to the current version
+  granularity: z.enum(['word', 'line']).default('word')
+});
+
+export const reviewCoverLetterSchema = z.object({
+  extractedJobId: z.string().uuid('Invalid job ID').optional(), // Defaults to the letter's linked job
+  useAI: z.boolean().optional().default(false), // Qualitative critique, billed separately
+  quality: qualitySchema // Only used with useAI
+});
+
+export const reviewPastedCoverLetterSchema = reviewCoverLetterSchema.extend({
+  content: z.string().trim().min(1, 'Cover letter is required').max(20000, 'Cover letter is too long')
+});
+
+// AI critique returned by the cover letter review
+export const coverLetterCritiqueSchema = z.object({
+  scores: z.object({
+    specificity: z.number().min(0).max(100),
+    toneConsistency: z.number().min(0).max(100),
+    overall: z.number().min(0).max(100)
+  }),
+  summary: z.string(),
+  suggestions: z.array(z.object({
+    line: z.number().int().min(1).nullable().default(null),
+    excerpt: z.string().optional(),
+    suggestion: z.string()
+  })).default([])
+});
+
+export const createApplicationSchema = z.object({
+  extractedJobId: z.string().uuid('Invalid job ID').optional(),
+  jobTitle: z.string().min(1).max(200).optional(),
+  company: z.string().min(1).max(200).optional(),
+  url: z.string().url('Invalid URL').optional(),
+  status: z.enum(APPLICATION_STATUSES).default('saved'),
+  notes: z.string().max(10000).optional(),
+  resumeId: z.string().uuid('Invalid resume ID').optional(),
+  coverLetterId: z.string().uuid('Invalid cover letter ID').optional()
+}).refine(data => data.extractedJobId || data.jobTitle || data.company, {
+  message: 'Provide an extracted job or a job title/company',
+  path: ['extractedJobId']
+});
+
+export const updateApplicationSchema = z.object({
+  jobTitle: z.string().min(1).max(200).optional(),
+  company: z.string().min(1).max(200).optional(),
+  url: z.string().url('Invalid URL').nullable().optional(),
+  notes: z.string().max(10000).nullable().optional(),
+  resumeId: z.string().uuid('Invalid resume ID').nullable().optional(),
+  coverLetterId: z.string().uuid('Invalid cover letter ID').nullable().optional()
+});
+
+export const updateApplicationStatusSchema = z.object({
+  status: z.enum(APPLICATION_STATUSES),
+  note: z.string().max(2000).optional()
+});
+
+export const applicationListSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(APPLICATION_STATUSES).optional()
 });
 
 export const updateUserSchema = z.object({
@@ -51,6 +286,77 @@ export const updateUserSchema = z.object({
   email: z.string().email('Invalid email address').optional()
 });
 
+export const generateApplicationDocumentSchema = z.object({
+  type: z.enum(APPLICATION_DOCUMENT_TYPES),
+  applicationId: z.string().uuid('Invalid application ID').optional(), // Supplies the job and resume when not given
+  extractedJobId: z.string().uuid('Invalid job ID').optional(),
+  resumeId: z.string().uuid('Invalid resume ID').optional(),
+  jobTitle: z.string().min(1).max(200).optional(),
+  company: z.string().min(1).max(200).optional(),
+  recipientName: z.string().trim().min(1).max(100).optional(),
+  details: z.string().trim().min(1).max(4000).optional(), // Interview notes, offer terms, reason for withdrawing...
+  tone: z.enum(['professional', 'casual', 'enthusiastic']).optional(),
+  quality: qualitySchema
+}).refine(data => data.applicationId || data.extractedJobId || data.jobTitle || data.company, {
+  message: 'Provide an application, an extracted job or a job title/company',
+  path: ['applicationId']
+}).refine(data => !APPLICATION_DOCUMENT_CONFIG[data.type].requiresDetails || data.details, {
+  message: 'This document type needs details (e.g. the offer terms)',
+  path: ['details']
+});
+
+export const updateApplicationDocumentSchema = z.object({
+  subject: z.string().trim().min(1).max(200).optional(),
+  content: z.string().trim().min(1, 'Content is required').max(10000).optional()
+}).refine(data => data.subject !== undefined || data.content !== undefined, {
+  message: 'Provide a subject or content to update'
+});
+
+export const applicationDocumentListSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  type: z.enum(APPLICATION_DOCUMENT_TYPES).optional(),
+  applicationId: z.string().uuid('Invalid application ID').optional(),
+  extractedJobId: z.string().uuid('Invalid job ID').optional()
+});
+
+export const applicationDocumentOutputSchema = z.object({
+  subject: z.string().nullable().default(null),
+  content: z.string().min(1)
+});
+
+export const promptNameSchema = z.enum(PROMPT_NAMES);
+
+// New stored prompt version; placeholders must be ones the prompt supplies
+export const createPromptVersionSchema = z.object({
+  name: promptNameSchema,
+  system: z.string().trim().min(1).max(5000),
+  template: z.string().trim().min(1).max(20000),
+  description: z.string().trim().max(500).optional(),
+  activate: z.boolean().default(false) // Serve it outside experiments right away
+}).superRefine((data, ctx) => {
+  const unknown = findUnknownVariables(data.name, [data.system, data.template]);
+  if (unknown.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown variables: ${[...new Set(unknown)].join(', ')}`,
+      path: ['template']
+    });
+  }
+});
+
+export const createPromptExperimentSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  promptName: z.enum(EXPERIMENT_PROMPT_NAMES),
+  variants: z.array(z.object({
+    version: z.number().int().min(1),
+    weight: z.number().int().min(1).max(100).default(1)
+  })).min(2, 'An experiment needs at least two variants').max(5)
+}).refine(data => new Set(data.variants.map(variant => variant.version)).size === data.variants.length, {
+  message: 'Each version can only be one variant',
+  path: ['variants']
+});
+
 export const paginationSchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20)
@@ -0,0 +1,35 @@
+import { MiddlewareHandler } from 'hono';
+import { getConfig } from '../lib/config';
+import { sendNotFound, sendUnauthorized } from '../lib/responses';
+import type { AppEnv } from '../types/env';
+
+// Compare without exiting early, so response timing doesn't reveal how much of the key matched
+function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+
+  let difference = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    difference |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return difference === 0;
+}
+
+/**
+ * Admin API authentication via the X-Admin-Key header. Without ADMIN_API_KEY the admin API doesn't exist.
+ */
+export const adminAuthMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const config = getConfig();
+
+  if (!config.features.adminApiKey) {
+    return sendNotFound(c);
+  }
+
+  const key = c.req.header('X-Admin-Key');
+  if (!key || !timingSafeEqual(key, config.features.adminApiKey)) {
+    return sendUnauthorized(c, 'Invalid admin key');
+  }
+
+  await next();
+};
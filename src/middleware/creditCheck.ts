@@ -1,5 +1,6 @@
 import { MiddlewareHandler, Context } from 'hono';
 import { CreditManager } from '../lib/credits';
+import type { ModelTier } from '../lib/llm';
 import { sendInsufficientCredits } from '../lib/responses';
 import type { AppEnv } from '../types/env';
 
@@ -36,12 +37,14 @@ export const creditCheckMiddleware = {
 
 /**
  * Helper function to deduct credits after successful operation
+ * Pass the AIService's servedBy to record which models handled the request.
  */
 export async function deductCreditsAfterOperation(
   c: Context<AppEnv>,
   cost: number,
   endpoint: string,
-  responseTime?: number
+  responseTime?: number,
+  servedBy?: { model: string; tier: ModelTier } | null
 ) {
   const user = c.get('user');
   const db = c.get('db');
@@ -57,7 +60,8 @@ export async function deductCreditsAfterOperation(
     endpoint,
     c.req.header('CF-Connecting-IP'),
     c.req.header('User-Agent'),
-    responseTime?.toString()
+    responseTime?.toString(),
+    servedBy
   );
   
   return await CreditManager.getUserCredits(db, user.userId);
@@ -0,0 +1,273 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { eq, and, desc, type SQL } from 'drizzle-orm';
+import { AIService } from '../lib/ai';
+import { CreditManager } from '../lib/credits';
+import { DocumentExtractionError } from '../lib/documentText';
+import { getResumeText } from '../lib/resumeText';
+import { getUserExtractedJob } from '../lib/extractedJobs';
+import { APPLICATION_DOCUMENT_CONFIG } from '../lib/applicationDocuments';
+import { getQualityCost } from '../lib/modelRouting';
+import { resolvePrompt } from '../lib/prompts';
+import {
+  generateApplicationDocumentSchema,
+  updateApplicationDocumentSchema,
+  applicationDocumentListSchema
+} from '../lib/validation';
+import { applicationDocuments, applications, resumes, users } from '../db/schema';
+import { authContextMiddleware, getAuthContext } from '../middleware/authContext';
+import { deductCreditsAfterOperation } from '../middleware/creditCheck';
+import { sendSuccess, sendError, sendNotFound, sendInsufficientCredits, handleError } from '../lib/responses';
+import type { AppEnv } from '../types/env';
+
+const applicationDocumentRoutes = new Hono<AppEnv>();
+
+// All routes require authentication
+applicationDocumentRoutes.use('*', authContextMiddleware);
+
+// Generate an application document - the application (if given) supplies the job and resume
+applicationDocumentRoutes.post('/generate', zValidator('json', generateApplicationDocumentSchema), async (c) => {
+  const startTime = Date.now();
+
+  try {
+    const { user, db } = getAuthContext(c);
+    const data = c.req.valid('json');
+    const config = APPLICATION_DOCUMENT_CONFIG[data.type];
+    const cost = getQualityCost(config.cost, user.plan, data.quality);
+
+    // Costs vary by type and quality, so the check can't be a fixed middleware
+    if (!(await CreditManager.checkCredits(db, user.userId, cost))) {
+      return sendInsufficientCredits(c);
+    }
+
+    let extractedJobId = data.extractedJobId ?? null;
+    let resumeId = data.resumeId ?? null;
+    let jobTitle = data.jobTitle ?? null;
+    let company = data.company ?? null;
+    let applicationStatus: string | null = null;
+
+    if (data.applicationId) {
+      const application = await db.select()
+        .from(applications)
+        .where(eq(applications.id, data.applicationId))
+        .get();
+
+      if (!application || application.userId !== user.userId) {
+        return sendNotFound(c, 'Application not found');
+      }
+
+      // Explicit values win over the application's
+      extractedJobId = extractedJobId ?? application.extractedJobId;
+      resumeId = resumeId ?? application.resumeId;
+      jobTitle = jobTitle ?? application.jobTitle;
+      company = company ?? application.company;
+      applicationStatus = application.status;
+    }
+
+    let jobDescription: string | null = null;
+    let requirements: string[] = [];
+    if (extractedJobId) {
+      const job = await getUserExtractedJob(db, extractedJobId, user.userId);
+      if (!job) {
+        return sendNotFound(c, 'Job not found');
+      }
+
+      jobTitle = jobTitle ?? job.title;
+      company = company ?? job.company;
+      jobDescription = job.description;
+      requirements = job.requirements ? JSON.parse(job.requirements) as string[] : [];
+    }
+
+    let resumeText: string | null = null;
+    if (resumeId) {
+      const resume = await db.select()
+        .from(resumes)
+        .where(eq(resumes.id, resumeId))
+        .get();
+
+      if (!resume || resume.userId !== user.userId) {
+        return sendNotFound(c, 'Resume not found');
+      }
+
+      resumeText = await getResumeText(db, resume);
+    }
+
+    const account = await db.select({ name: users.name })
+      .from(users)
+      .where(eq(users.id, user.userId))
+      .get();
+
+    if (!account) {
+      return sendNotFound(c, 'User not found');
+    }
+
+    const ai = new AIService({ plan: user.plan, quality: data.quality });
+    const prompt = await resolvePrompt(db, 'application_document', user.userId);
+    const result = await ai.generateApplicationDocument(data.type, {
+      candidateName: account.name,
+      jobTitle,
+      company,
+      jobDescription,
+      requirements,
+      resumeText,
+      recipientName: data.recipientName,
+      applicationStatus,
+      details: data.details,
+      tone: data.tone
+    }, prompt);
+
+    const now = new Date().toISOString();
+    const inserted = await db.insert(applicationDocuments).values({
+      id: crypto.randomUUID(),
+      userId: user.userId,
+      applicationId: data.applicationId ?? null,
+      extractedJobId,
+      resumeId,
+      type: data.type,
+      jobTitle,
+      company,
+      recipientName: data.recipientName ?? null,
+      subject: result.subject,
+      content: result.content,
+      creditsUsed: cost,
+      createdAt: now,
+      updatedAt: now
+    }).returning();
+
+    const remainingCredits = await deductCreditsAfterOperation(
+      c,
+      cost,
+      `generate-${data.type.replace(/_/g, '-')}`,
+      Date.now() - startTime,
+      ai.servedBy
+    );
+
+    return sendSuccess(c, {
+      document: inserted[0],
+      tokensUsed: result.tokensUsed,
+      remainingCredits
+    }, 201);
+
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      return sendError(c, error.message, error.code === 'missing_file' ? 404 : 422);
+    }
+    return handleError(c, error, 'Document generation failed');
+  }
+});
+
+// List documents, optionally filtered by type, application or job
+applicationDocumentRoutes.get('/', zValidator('query', applicationDocumentListSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const { page, limit, type, applicationId, extractedJobId } = c.req.valid('query');
+
+    const offset = (page - 1) * limit;
+
+    const filters: SQL[] = [eq(applicationDocuments.userId, user.userId)];
+    if (type) filters.push(eq(applicationDocuments.type, type));
+    if (applicationId) filters.push(eq(applicationDocuments.applicationId, applicationId));
+    if (extractedJobId) filters.push(eq(applicationDocuments.extractedJobId, extractedJobId));
+
+    const documents = await db.select()
+      .from(applicationDocuments)
+      .where(and(...filters))
+      .orderBy(desc(applicationDocuments.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return sendSuccess(c, {
+      documents,
+      pagination: {
+        page,
+        limit,
+        total: documents.length,
+        hasMore: documents.length === limit
+      }
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch documents');
+  }
+});
+
+// Get specific document
+applicationDocumentRoutes.get('/:id', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const documentId = c.req.param('id');
+
+    const document = await db.select()
+      .from(applicationDocuments)
+      .where(eq(applicationDocuments.id, documentId))
+      .get();
+
+    if (!document || document.userId !== user.userId) {
+      return sendNotFound(c, 'Document not found');
+    }
+
+    return sendSuccess(c, document);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch document');
+  }
+});
+
+// Edit a document's subject or text
+applicationDocumentRoutes.put('/:id', zValidator('json', updateApplicationDocumentSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const documentId = c.req.param('id');
+    const { subject, content } = c.req.valid('json');
+
+    const document = await db.select()
+      .from(applicationDocuments)
+      .where(eq(applicationDocuments.id, documentId))
+      .get();
+
+    if (!document || document.userId !== user.userId) {
+      return sendNotFound(c, 'Document not found');
+    }
+
+    if (subject !== undefined && !APPLICATION_DOCUMENT_CONFIG[document.type].isEmail) {
+      return sendError(c, 'LinkedIn messages have no subject line', 400);
+    }
+
+    const updated = await db.update(applicationDocuments)
+      .set({ subject, content, updatedAt: new Date().toISOString() })
+      .where(eq(applicationDocuments.id, documentId))
+      .returning();
+
+    return sendSuccess(c, updated[0]);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to update document');
+  }
+});
+
+// Delete document
+applicationDocumentRoutes.delete('/:id', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const documentId = c.req.param('id');
+
+    const document = await db.select()
+      .from(applicationDocuments)
+      .where(eq(applicationDocuments.id, documentId))
+      .get();
+
+    if (!document || document.userId !== user.userId) {
+      return sendNotFound(c, 'Document not found');
+    }
+
+    await db.delete(applicationDocuments)
+      .where(eq(applicationDocuments.id, documentId));
+
+    return sendSuccess(c, { message: 'Document deleted successfully' });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to delete document');
+  }
+});
+
+export { applicationDocumentRoutes };
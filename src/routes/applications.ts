@@ -0,0 +1,320 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { eq, and, asc, desc } from 'drizzle-orm';
+import { canTransitionStatus, isSubmittedStatus, groupByStatus } from '../lib/applications';
+import {
+  createApplicationSchema,
+  updateApplicationSchema,
+  updateApplicationStatusSchema,
+  applicationListSchema
+} from '../lib/validation';
+import { applications, applicationStatusChanges, extractedJobs, resumes, coverLetters } from '../db/schema';
+import { authContextMiddleware, getAuthContext } from '../middleware/authContext';
+import { sendSuccess, sendError, sendNotFound, handleError } from '../lib/responses';
+import type { Database } from '../lib/db';
+import type { AppEnv } from '../types/env';
+import type { ApplicationWithHistory } from '../types/database';
+
+const applicationRoutes = new Hono<AppEnv>();
+
+// All routes require authentication
+applicationRoutes.use('*', authContextMiddleware);
+
+/**
+ * Check that the linked resume and cover letter belong to the user
+ * Returns an error message, or null when all links are valid
+ */
+async function validateLinks(
+  db: Database,
+  userId: string,
+  links: { resumeId?: string | null; coverLetterId?: string | null }
+): Promise<string | null> {
+  if (links.resumeId) {
+    const resume = await db.select()
+      .from(resumes)
+      .where(eq(resumes.id, links.resumeId))
+      .get();
+
+    if (!resume || resume.userId !== userId) {
+      return 'Resume not found';
+    }
+  }
+
+  if (links.coverLetterId) {
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, links.coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== userId) {
+      return 'Cover letter not found';
+    }
+  }
+
+  return null;
+}
+
+// Create an application, optionally from an extracted job
+applicationRoutes.post('/', zValidator('json', createApplicationSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const data = c.req.valid('json');
+
+    let jobTitle = data.jobTitle ?? null;
+    let company = data.company ?? null;
+    let url = data.url ?? null;
+
+    if (data.extractedJobId) {
+      const job = await db.select()
+        .from(extractedJobs)
+        .where(eq(extractedJobs.id, data.extractedJobId))
+        .get();
+
+      if (!job || job.userId !== user.userId) {
+        return sendNotFound(c, 'Job not found');
+      }
+
+      // Explicit values win over the extracted ones
+      jobTitle = jobTitle ?? job.title;
+      company = company ?? job.company;
+      url = url ?? job.url;
+    }
+
+    const linkError = await validateLinks(db, user.userId, data);
+    if (linkError) {
+      return sendNotFound(c, linkError);
+    }
+
+    const now = new Date().toISOString();
+    const inserted = await db.insert(applications).values({
+      id: crypto.randomUUID(),
+      userId: user.userId,
+      extractedJobId: data.extractedJobId,
+      resumeId: data.resumeId,
+      coverLetterId: data.coverLetterId,
+      jobTitle,
+      company,
+      url,
+      status: data.status,
+      notes: data.notes,
+      appliedAt: isSubmittedStatus(data.status) ? now : null,
+      statusChangedAt: now,
+      createdAt: now,
+      updatedAt: now
+    }).returning();
+
+    // Record the starting status so the history covers the whole pipeline
+    await db.insert(applicationStatusChanges).values({
+      id: crypto.randomUUID(),
+      applicationId: inserted[0].id,
+      fromStatus: null,
+      toStatus: data.status,
+      changedAt: now
+    });
+
+    return sendSuccess(c, inserted[0], 201);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to create application');
+  }
+});
+
+// List applications, optionally filtered by status
+applicationRoutes.get('/', zValidator('query', applicationListSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const { page, limit, status } = c.req.valid('query');
+
+    const offset = (page - 1) * limit;
+
+    const userApplications = await db.select()
+      .from(applications)
+      .where(status
+        ? and(eq(applications.userId, user.userId), eq(applications.status, status))
+        : eq(applications.userId, user.userId))
+      .orderBy(desc(applications.updatedAt))
+      .limit(limit)
+      .offset(offset);
+
+    return sendSuccess(c, {
+      applications: userApplications,
+      pagination: {
+        page,
+        limit,
+        total: userApplications.length,
+        hasMore: userApplications.length === limit
+      }
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch applications');
+  }
+});
+
+// Kanban view - all applications grouped by status
+applicationRoutes.get('/board', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+
+    const userApplications = await db.select()
+      .from(applications)
+      .where(eq(applications.userId, user.userId))
+      .orderBy(desc(applications.statusChangedAt));
+
+    const columns = groupByStatus(userApplications);
+    const counts = Object.fromEntries(
+      Object.entries(columns).map(([status, items]) => [status, items.length])
+    );
+
+    return sendSuccess(c, {
+      columns,
+      counts,
+      total: userApplications.length
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch application board');
+  }
+});
+
+// Get specific application with its status history
+applicationRoutes.get('/:id', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const applicationId = c.req.param('id');
+
+    const application = await db.select()
+      .from(applications)
+      .where(eq(applications.id, applicationId))
+      .get();
+
+    if (!application || application.userId !== user.userId) {
+      return sendNotFound(c, 'Application not found');
+    }
+
+    const history = await db.select()
+      .from(applicationStatusChanges)
+      .where(eq(applicationStatusChanges.applicationId, applicationId))
+      .orderBy(asc(applicationStatusChanges.changedAt));
+
+    const result: ApplicationWithHistory = { ...application, history };
+
+    return sendSuccess(c, result);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch application');
+  }
+});
+
+// Update application details (status changes go through /:id/status)
+applicationRoutes.put('/:id', zValidator('json', updateApplicationSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const applicationId = c.req.param('id');
+    const data = c.req.valid('json');
+
+    const application = await db.select()
+      .from(applications)
+      .where(eq(applications.id, applicationId))
+      .get();
+
+    if (!application || application.userId !== user.userId) {
+      return sendNotFound(c, 'Application not found');
+    }
+
+    const linkError = await validateLinks(db, user.userId, data);
+    if (linkError) {
+      return sendNotFound(c, linkError);
+    }
+
+    const updatedApplication = await db.update(applications)
+      .set({
+        ...data,
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(applications.id, applicationId))
+      .returning();
+
+    return sendSuccess(c, updatedApplication[0]);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to update application');
+  }
+});
+
+// Move an application through the pipeline
+applicationRoutes.post('/:id/status', zValidator('json', updateApplicationStatusSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const applicationId = c.req.param('id');
+    const { status, note } = c.req.valid('json');
+
+    const application = await db.select()
+      .from(applications)
+      .where(eq(applications.id, applicationId))
+      .get();
+
+    if (!application || application.userId !== user.userId) {
+      return sendNotFound(c, 'Application not found');
+    }
+
+    if (!canTransitionStatus(application.status, status)) {
+      return sendError(c, `Cannot move application from ${application.status} to ${status}`, 409);
+    }
+
+    const now = new Date().toISOString();
+    const updatedApplication = await db.update(applications)
+      .set({
+        status,
+        statusChangedAt: now,
+        appliedAt: application.appliedAt ?? (isSubmittedStatus(status) ? now : null),
+        updatedAt: now
+      })
+      .where(eq(applications.id, applicationId))
+      .returning();
+
+    const change = await db.insert(applicationStatusChanges).values({
+      id: crypto.randomUUID(),
+      applicationId,
+      fromStatus: application.status,
+      toStatus: status,
+      note,
+      changedAt: now
+    }).returning();
+
+    return sendSuccess(c, {
+      application: updatedApplication[0],
+      change: change[0]
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to update application status');
+  }
+});
+
+// Delete application (status history is removed with it)
+applicationRoutes.delete('/:id', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const applicationId = c.req.param('id');
+
+    const application = await db.select()
+      .from(applications)
+      .where(eq(applications.id, applicationId))
+      .get();
+
+    if (!application || application.userId !== user.userId) {
+      return sendNotFound(c, 'Application not found');
+    }
+
+    await db.delete(applications)
+      .where(eq(applications.id, applicationId));
+
+    return sendSuccess(c, { message: 'Application deleted successfully' });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to delete application');
+  }
+});
+
+export { applicationRoutes };
@@ -1,32 +1,208 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { zValidator } from '@hono/zod-validator';
-import { eq, desc } from 'drizzle-orm';
+import { eq, and, ne, desc } from 'drizzle-orm';
 import { AIService } from '../lib/ai';
+import { AIError } from '../lib/llm';
 import { CreditManager } from '../lib/credits';
-import { generateCoverLetterSchema, paginationSchema } from '../lib/validation';
-import { coverLetters, resumes } from '../db/schema';
-import { authContextMiddleware, getAuthContext } from '../middleware/authContext';
-import { creditCheckMiddleware, deductCreditsAfterOperation } from '../middleware/creditCheck';
-import { sendSuccess, sendError, sendNotFound, handleError } from '../lib/responses';
+import { DocumentExtractionError } from '../lib/documentText';
+import { getResumeText } from '../lib/resumeText';
+import { getUserTemplate, mergeTemplatePreferences, applyTemplateSignature } from '../lib/coverLetterTemplates';
+import { buildVariantPreferences } from '../lib/coverLetterVariants';
+import { resolveLetterLanguage } from '../lib/languages';
+import { resolvePrompt, type ResolvedPrompt } from '../lib/prompts';
+import { getQualityCost, type ModelQuality } from '../lib/modelRouting';
+import { getUserExtractedJob, findExtractedJobByUrl, toJobExtractionData } from '../lib/extractedJobs';
+import { checkCoverLetter, type ReviewSuggestion } from '../lib/coverLetterReview';
+import { recordInitialVersion, getVersionHistory, getVersion, saveNewVersion } from '../lib/coverLetterVersions';
+import { diffText } from '../lib/textDiff';
+import { resolveSection, replaceSection } from '../lib/coverLetterText';
+import {
+  buildCoverLetterHeader,
+  renderCoverLetter,
+  exportCacheKey,
+  exportCachePrefix,
+  COVER_LETTER_CONTENT_TYPES
+} from '../lib/coverLetterExport';
+import { sanitizeFilename } from '../lib/uploads';
 import { getConfig } from '../lib/config';
+import {
+  generateCoverLetterSchema,
+  updateCoverLetterSchema,
+  rateCoverLetterSchema,
+  rewriteCoverLetterSchema,
+  translateCoverLetterSchema,
+  coverLetterDiffSchema,
+  coverLetterExportSchema,
+  reviewCoverLetterSchema,
+  reviewPastedCoverLetterSchema,
+  coverLetterListSchema
+} from '../lib/validation';
+import { coverLetters, resumes, resumeProfiles, users, extractedJobs } from '../db/schema';
+import { authContextMiddleware, getAuthContext } from '../middleware/authContext';
+import { deductCreditsAfterOperation } from '../middleware/creditCheck';
+import { sendSuccess, sendError, sendNotFound, sendInsufficientCredits, handleError, aiErrorResponse, errorResponse } from '../lib/responses';
 import type { AppEnv } from '../types/env';
+import type { CoverLetter, CoverLetterPreferences, ResumeProfile, FormattedCoverLetterTemplate, JobExtractionData } from '../types/database';
 
 const coverLetterRoutes = new Hono<AppEnv>();
 
 // All routes require authentication
 coverLetterRoutes.use('*', authContextMiddleware);
 
-// Generate cover letter
+// Job details returned alongside a cover letter
+const linkedJobColumns = {
+  id: extractedJobs.id,
+  title: extractedJobs.title,
+  company: extractedJobs.company,
+  location: extractedJobs.location,
+  url: extractedJobs.url
+};
+
+/**
+ * Job data for generation: the stored job when an ID is given (null if the user doesn't own it),
+ * otherwise the inline content, linked to the user's stored copy of the same posting if there is one
+ */
+async function resolveGenerationJob(
+  c: Context<AppEnv>,
+  extractedJobId: string | undefined,
+  extractedContent: JobExtractionData | undefined
+): Promise<{ job: JobExtractionData; extractedJobId: string | null } | null> {
+  const { user, db } = getAuthContext(c);
+
+  if (extractedJobId) {
+    const record = await getUserExtractedJob(db, extractedJobId, user.userId);
+    return record ? { job: toJobExtractionData(record), extractedJobId: record.id } : null;
+  }
+
+  const job = extractedContent as JobExtractionData;
+  const record = await findExtractedJobByUrl(db, job.url, user.userId);
+  return { job, extractedJobId: record?.id ?? null };
+}
+
+/**
+ * Review letter text: free deterministic checks against the job, plus the billed AI critique when requested
+ */
+async function reviewLetter(
+  c: Context<AppEnv>,
+  content: string,
+  extractedJobId: string | null,
+  useAI: boolean,
+  quality?: ModelQuality
+) {
+  const startTime = Date.now();
+  const { user, db } = getAuthContext(c);
+
+  let job: { title: string | null; company: string | null; description: string | null; skills: string[]; requirements: string[] } | null = null;
+  if (extractedJobId) {
+    const record = await db.select()
+      .from(extractedJobs)
+      .where(eq(extractedJobs.id, extractedJobId))
+      .get();
+
+    if (!record || record.userId !== user.userId) {
+      return sendNotFound(c, 'Job not found');
+    }
+
+    job = {
+      title: record.title,
+      company: record.company,
+      description: record.description,
+      skills: record.skills ? JSON.parse(record.skills) as string[] : [],
+      requirements: record.requirements ? JSON.parse(record.requirements) as string[] : []
+    };
+  }
+
+  const cost = getQualityCost(CreditManager.COSTS.COVER_LETTER_REVIEW, user.plan, quality);
+  if (useAI && !(await CreditManager.checkCredits(db, user.userId, cost))) {
+    return sendInsufficientCredits(c);
+  }
+
+  const checks = checkCoverLetter(content, job);
+  const checkScores = [checks.scores.keywordCoverage, checks.scores.cliches, checks.scores.length, checks.scores.specificity]
+    .filter((score): score is number => score !== null);
+  const checksOverall = Math.round(checkScores.reduce((total, score) => total + score, 0) / checkScores.length);
+
+  if (!useAI) {
+    return sendSuccess(c, {
+      ...checks,
+      scores: { ...checks.scores, toneConsistency: null, overall: checksOverall },
+      summary: null,
+      extractedJobId,
+      aiReview: false,
+      creditsUsed: 0
+    });
+  }
+
+  const ai = new AIService({ plan: user.plan, quality });
+  const prompt = await resolvePrompt(db, 'cover_letter_critique', user.userId);
+  const { critique, tokensUsed } = await ai.critiqueCoverLetter(content, job, checks, prompt);
+
+  const critiqueSuggestions: ReviewSuggestion[] = critique.suggestions.map(suggestion => ({
+    category: 'critique',
+    line: suggestion.line,
+    excerpt: suggestion.excerpt,
+    suggestion: suggestion.suggestion
+  }));
+
+  const remainingCredits = await deductCreditsAfterOperation(
+    c,
+    cost,
+    'review-cover-letter',
+    Date.now() - startTime,
+    ai.servedBy
+  );
+
+  return sendSuccess(c, {
+    ...checks,
+    scores: {
+      ...checks.scores,
+      // Blend so the score stays anchored to what the checks can verify
+      specificity: Math.round((checks.scores.specificity + critique.scores.specificity) / 2),
+      toneConsistency: Math.round(critique.scores.toneConsistency),
+      overall: Math.round((checksOverall + critique.scores.overall) / 2)
+    },
+    summary: critique.summary,
+    suggestions: [...critiqueSuggestions, ...checks.suggestions],
+    extractedJobId,
+    aiReview: true,
+    creditsUsed: cost,
+    tokensUsed,
+    remainingCredits
+  });
+}
+
+// Generate cover letter - up to 3 variants in parallel, stored as siblings of one generation group
 coverLetterRoutes.post('/generate', 
-  creditCheckMiddleware.coverLetterGeneration,
   zValidator('json', generateCoverLetterSchema), 
   async (c) => {
     const startTime = Date.now();
     
     try {
-      const { extractedContent, resumeId, preferences } = c.req.valid('json');
+      const { extractedJobId, extractedContent, resumeId, templateId, preferences: requestPreferences, variants, quality } = c.req.valid('json');
       const { user, db } = getAuthContext(c);
-      const config = getConfig();
+      const cost = getQualityCost(CreditManager.COSTS.COVER_LETTER_GENERATION, user.plan, quality);
+
+      // The cost depends on the quality and the number of variants, so it's checked here rather than by middleware
+      if (!(await CreditManager.checkCredits(db, user.userId, cost * variants))) {
+        return sendInsufficientCredits(c);
+      }
+
+      const resolvedJob = await resolveGenerationJob(c, extractedJobId, extractedContent);
+      if (!resolvedJob) {
+        return sendNotFound(c, 'Job not found');
+      }
+      const { job } = resolvedJob;
+
+      let template: FormattedCoverLetterTemplate | null = null;
+      if (templateId) {
+        template = await getUserTemplate(db, templateId, user.userId);
+        if (!template) {
+          return sendNotFound(c, 'Template not found');
+        }
+      }
+      const mergedPreferences = mergeTemplatePreferences(template, requestPreferences);
+      const preferences = { ...mergedPreferences, language: resolveLetterLanguage(mergedPreferences.language, job) };
 
       // Get resume
       const resume = await db.select()
@@ -38,82 +214,271 @@ coverLetterRoutes.post('/generate',
         return sendNotFound(c, 'Resume not found');
       }
 
-      // Get resume content from R2
-      console.log(config.storage.bucket)
-      const resumeFile = await config.storage.bucket.get(resume.fileKey);
-      if (!resumeFile) {
-        return sendError(c, 'Resume file not found', 404);
-      }
-
-      // Check MIME type and read file appropriately
-      const ai = new AIService();
-      let resumeText: string;
-      if (resume.mimeType.includes('pdf')) {
-        // For PDFs, we need to extract text using AI service
-        const fileBuffer = await resumeFile.arrayBuffer();
-        // Convert ArrayBuffer to base64 using Web APIs
-        const uint8Array = new Uint8Array(fileBuffer);
-        const binaryString = Array.from(uint8Array, byte => String.fromCharCode(byte)).join('');
-        const base64Content = btoa(binaryString);
-        resumeText = await ai.extractTextFromResume(base64Content, resume.mimeType);
-      } else {
-        // For text-based files, we can read as text
-        resumeText = await resumeFile.text();
-      }
-
-      // Generate cover letter using AI
-      const result = await ai.generateCoverLetter(extractedContent, resumeText, preferences);
-
-      // Save cover letter to database
-      const coverLetterId = crypto.randomUUID();
-      const newCoverLetter = await db.insert(coverLetters).values({
-        id: coverLetterId,
-        userId: user.userId,
-        resumeId,
-        jobTitle: extractedContent.title || null,
-        company: extractedContent.company || null,
-        content: result.content,
-        creditsUsed: CreditManager.COSTS.COVER_LETTER_GENERATION,
-        preferences: preferences ? JSON.stringify(preferences) : null,
-        createdAt: new Date().toISOString()
-      }).returning();
+      // Get resume text (cached after the first extraction)
+      const resumeText = await getResumeText(db, resume);
+
+      // Generate cover letters using AI, with the prompt version the user's experiment variant (if any) calls for
+      const prompt = await resolvePrompt(db, 'cover_letter', user.userId);
+      const ai = new AIService({ plan: user.plan, quality });
+      const variantPreferences = variants > 1 ? buildVariantPreferences(preferences, variants) : [preferences];
+      const results = await Promise.allSettled(
+        variantPreferences.map(variant => ai.generateCoverLetter(job, resumeText, variant, template, prompt))
+      );
+
+      const generated = results.flatMap((result, index) =>
+        result.status === 'fulfilled' ? [{ ...result.value, preferences: variantPreferences[index] }] : []
+      );
+      if (generated.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
 
-      // Deduct credits and get remaining
+      // Save cover letters to database
+      const generationGroupId = variants > 1 ? crypto.randomUUID() : null;
+      const createdAt = new Date().toISOString();
+      const savedLetters: CoverLetter[] = [];
+      for (const result of generated) {
+        const newCoverLetter = await db.insert(coverLetters).values({
+          id: crypto.randomUUID(),
+          userId: user.userId,
+          extractedJobId: resolvedJob.extractedJobId,
+          resumeId,
+          templateId: template?.id ?? null,
+          generationGroupId,
+          language: preferences.language,
+          jobTitle: job.title || null,
+          company: job.company || null,
+          content: applyTemplateSignature(result.content, template),
+          creditsUsed: cost,
+          preferences: JSON.stringify(result.preferences),
+          promptName: prompt.name,
+          promptVersion: prompt.version,
+          promptExperimentId: prompt.experimentId,
+          createdAt
+        }).returning();
+        await recordInitialVersion(db, newCoverLetter[0]);
+        savedLetters.push(newCoverLetter[0]);
+      }
+
+      // Deduct credits for the variants that were generated, and get remaining
       const responseTime = Date.now() - startTime;
       const remainingCredits = await deductCreditsAfterOperation(
         c,
-        CreditManager.COSTS.COVER_LETTER_GENERATION,
+        cost * savedLetters.length,
         'generate-cover-letter',
-        responseTime
+        responseTime,
+        ai.servedBy
       );
 
       return sendSuccess(c, {
-        coverLetter: newCoverLetter[0],
-        tokensUsed: result.tokensUsed,
+        coverLetter: savedLetters[0],
+        variants: savedLetters,
+        generationGroupId,
+        failedVariants: results.length - generated.length,
+        tokensUsed: generated.reduce((total, result) => total + result.tokensUsed, 0),
         remainingCredits
       }, 201);
 
     } catch (error) {
+      if (error instanceof DocumentExtractionError) {
+        return sendError(c, error.message, error.code === 'missing_file' ? 404 : 422);
+      }
+      return handleError(c, error, 'Cover letter generation failed');
+    }
+  }
+);
+
+// Generate cover letter, streaming tokens as Server-Sent Events
+// Events: "start", "token" ({ content }), then "done" ({ coverLetter, tokensUsed, remainingCredits }) or "error"
+// The letter is saved and credits deducted only once the stream completes.
+coverLetterRoutes.post('/generate/stream',
+  zValidator('json', generateCoverLetterSchema),
+  async (c) => {
+    const startTime = Date.now();
+    const { extractedJobId, extractedContent, resumeId, templateId, preferences: requestPreferences, variants, quality } = c.req.valid('json');
+    const { user, db } = getAuthContext(c);
+    const cost = getQualityCost(CreditManager.COSTS.COVER_LETTER_GENERATION, user.plan, quality);
+
+    if (variants > 1) {
+      return sendError(c, 'Streaming generates one letter at a time; use /generate for variants', 400);
+    }
+
+    let resumeText: string;
+    let resolvedJob: Awaited<ReturnType<typeof resolveGenerationJob>>;
+    let template: FormattedCoverLetterTemplate | null = null;
+    let prompt: ResolvedPrompt;
+    try {
+      if (!(await CreditManager.checkCredits(db, user.userId, cost))) {
+        return sendInsufficientCredits(c);
+      }
+
+      resolvedJob = await resolveGenerationJob(c, extractedJobId, extractedContent);
+      if (!resolvedJob) {
+        return sendNotFound(c, 'Job not found');
+      }
+
+      if (templateId) {
+        template = await getUserTemplate(db, templateId, user.userId);
+        if (!template) {
+          return sendNotFound(c, 'Template not found');
+        }
+      }
+
+      const resume = await db.select()
+        .from(resumes)
+        .where(eq(resumes.id, resumeId))
+        .get();
+
+      if (!resume || resume.userId !== user.userId) {
+        return sendNotFound(c, 'Resume not found');
+      }
+
+      resumeText = await getResumeText(db, resume);
+      prompt = await resolvePrompt(db, 'cover_letter', user.userId);
+    } catch (error) {
+      if (error instanceof DocumentExtractionError) {
+        return sendError(c, error.message, error.code === 'missing_file' ? 404 : 422);
+      }
       return handleError(c, error, 'Cover letter generation failed');
     }
+
+    const { job, extractedJobId: linkedJobId } = resolvedJob;
+    const mergedPreferences = mergeTemplatePreferences(template, requestPreferences);
+    const preferences = { ...mergedPreferences, language: resolveLetterLanguage(mergedPreferences.language, job) };
+
+    return streamSSE(c, async (stream) => {
+      const controller = new AbortController();
+      let clientDisconnected = false;
+
+      // Stop the OpenAI request too - nothing is saved or charged for an abandoned letter
+      stream.onAbort(() => {
+        clientDisconnected = true;
+        controller.abort();
+      });
+
+      try {
+        await stream.writeSSE({ event: 'start', data: JSON.stringify({ resumeId, extractedJobId: linkedJobId, language: preferences.language }) });
+
+        const ai = new AIService({ plan: user.plan, quality });
+        let content = '';
+        let tokensUsed = 0;
+
+        for await (const chunk of ai.streamCoverLetter(job, resumeText, preferences, template, prompt, controller.signal)) {
+          if (chunk.tokensUsed !== undefined) tokensUsed = chunk.tokensUsed;
+          if (chunk.content) {
+            content += chunk.content;
+            await stream.writeSSE({ event: 'token', data: JSON.stringify({ content: chunk.content }) });
+          }
+        }
+
+        if (clientDisconnected) return;
+
+        // The template signature is added after generation - send it as the last token
+        const finalContent = applyTemplateSignature(content, template);
+        if (finalContent !== content) {
+          await stream.writeSSE({ event: 'token', data: JSON.stringify({ content: finalContent.slice(content.trimEnd().length) }) });
+        }
+
+        const newCoverLetter = await db.insert(coverLetters).values({
+          id: crypto.randomUUID(),
+          userId: user.userId,
+          extractedJobId: linkedJobId,
+          resumeId,
+          templateId: template?.id ?? null,
+          language: preferences.language,
+          jobTitle: job.title || null,
+          company: job.company || null,
+          content: finalContent,
+          creditsUsed: cost,
+          preferences: JSON.stringify(preferences),
+          promptName: prompt.name,
+          promptVersion: prompt.version,
+          promptExperimentId: prompt.experimentId,
+          createdAt: new Date().toISOString()
+        }).returning();
+        await recordInitialVersion(db, newCoverLetter[0]);
+
+        const remainingCredits = await deductCreditsAfterOperation(
+          c,
+          cost,
+          'generate-cover-letter-stream',
+          Date.now() - startTime,
+          ai.servedBy
+        );
+
+        await stream.writeSSE({
+          event: 'done',
+          data: JSON.stringify({ coverLetter: newCoverLetter[0], tokensUsed, remainingCredits })
+        });
+
+      } catch (error) {
+        if (clientDisconnected) return;
+
+        console.error('Cover letter streaming failed:', error);
+        await stream.writeSSE({
+          event: 'error',
+          data: JSON.stringify(error instanceof AIError
+            ? aiErrorResponse(error)
+            : errorResponse('Cover letter generation failed'))
+        });
+      }
+    });
   }
 );
 
-// Get user's cover letters
-coverLetterRoutes.get('/', zValidator('query', paginationSchema), async (c) => {
+// Review pasted cover letter text
+coverLetterRoutes.post('/review', zValidator('json', reviewPastedCoverLetterSchema), async (c) => {
+  try {
+    const { content, extractedJobId, useAI, quality } = c.req.valid('json');
+    return await reviewLetter(c, content, extractedJobId ?? null, useAI, quality);
+
+  } catch (error) {
+    return handleError(c, error, 'Cover letter review failed');
+  }
+});
+
+// Review a saved cover letter against its linked job (or the one given)
+coverLetterRoutes.post('/:id/review', zValidator('json', reviewCoverLetterSchema), async (c) => {
   try {
     const { user, db } = getAuthContext(c);
-    const { page, limit } = c.req.valid('query');
+    const coverLetterId = c.req.param('id');
+    const { extractedJobId, useAI, quality } = c.req.valid('json');
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    return await reviewLetter(c, coverLetter.content, extractedJobId ?? coverLetter.extractedJobId, useAI, quality);
+
+  } catch (error) {
+    return handleError(c, error, 'Cover letter review failed');
+  }
+});
+
+// Get user's cover letters with their linked job, optionally only those for one job
+coverLetterRoutes.get('/', zValidator('query', coverLetterListSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const { page, limit, extractedJobId } = c.req.valid('query');
 
     const offset = (page - 1) * limit;
 
-    const userCoverLetters = await db.select()
+    const rows = await db.select({ coverLetter: coverLetters, job: linkedJobColumns })
       .from(coverLetters)
-      .where(eq(coverLetters.userId, user.userId))
+      .leftJoin(extractedJobs, eq(coverLetters.extractedJobId, extractedJobs.id))
+      .where(extractedJobId
+        ? and(eq(coverLetters.userId, user.userId), eq(coverLetters.extractedJobId, extractedJobId))
+        : eq(coverLetters.userId, user.userId))
       .orderBy(desc(coverLetters.createdAt))
       .limit(limit)
       .offset(offset);
 
+    const userCoverLetters = rows.map(({ coverLetter, job }) => ({ ...coverLetter, job }));
+
     return sendSuccess(c, {
       coverLetters: userCoverLetters,
       pagination: {
@@ -144,13 +509,542 @@ coverLetterRoutes.get('/:id', async (c) => {
       return sendNotFound(c, 'Cover letter not found');
     }
 
-    return sendSuccess(c, coverLetter);
+    const job = coverLetter.extractedJobId
+      ? await db.select(linkedJobColumns).from(extractedJobs).where(eq(extractedJobs.id, coverLetter.extractedJobId)).get()
+      : null;
+
+    return sendSuccess(c, { ...coverLetter, job: job ?? null });
 
   } catch (error) {
     return handleError(c, error, 'Failed to fetch cover letter');
   }
 });
 
+// Edit cover letter - saves the new text as a user-edited version
+coverLetterRoutes.put('/:id', zValidator('json', updateCoverLetterSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+    const { content } = c.req.valid('json');
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    // Nothing changed - don't create an empty version
+    if (content === coverLetter.content) {
+      return sendSuccess(c, { coverLetter, version: null });
+    }
+
+    const result = await saveNewVersion(db, coverLetter, content, 'user');
+
+    return sendSuccess(c, result);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to update cover letter');
+  }
+});
+
+// Rewrite one paragraph (or a character range) of a cover letter with AI - saved as a new version
+coverLetterRoutes.post('/:id/rewrite',
+  zValidator('json', rewriteCoverLetterSchema),
+  async (c) => {
+    const startTime = Date.now();
+
+    try {
+      const { user, db } = getAuthContext(c);
+      const coverLetterId = c.req.param('id');
+      const { paragraphIndex, range, instruction, quality } = c.req.valid('json');
+      const cost = getQualityCost(CreditManager.COSTS.COVER_LETTER_REWRITE, user.plan, quality);
+
+      if (!(await CreditManager.checkCredits(db, user.userId, cost))) {
+        return sendInsufficientCredits(c);
+      }
+
+      const coverLetter = await db.select()
+        .from(coverLetters)
+        .where(eq(coverLetters.id, coverLetterId))
+        .get();
+
+      if (!coverLetter || coverLetter.userId !== user.userId) {
+        return sendNotFound(c, 'Cover letter not found');
+      }
+
+      const section = resolveSection(coverLetter.content, { paragraphIndex, range });
+      if (!section) {
+        return sendError(c, paragraphIndex !== undefined
+          ? 'Paragraph not found in cover letter'
+          : 'Range is outside the cover letter or empty', 400);
+      }
+
+      // The resume lets instructions like "mention my Kubernetes work" draw on real experience
+      let resumeText: string | null = null;
+      const resume = await db.select()
+        .from(resumes)
+        .where(eq(resumes.id, coverLetter.resumeId))
+        .get();
+      if (resume) {
+        try {
+          resumeText = await getResumeText(db, resume);
+        } catch (error) {
+          if (!(error instanceof DocumentExtractionError)) throw error;
+        }
+      }
+
+      const ai = new AIService({ plan: user.plan, quality });
+      const prompt = await resolvePrompt(db, 'cover_letter_rewrite', user.userId);
+      const result = await ai.rewriteCoverLetterSection(
+        {
+          before: coverLetter.content.slice(0, section.start),
+          text: section.text,
+          after: coverLetter.content.slice(section.end)
+        },
+        instruction,
+        { jobTitle: coverLetter.jobTitle, company: coverLetter.company, resumeText },
+        prompt
+      );
+
+      const content = replaceSection(coverLetter.content, section, result.content);
+      const saved = await saveNewVersion(db, coverLetter, content, 'ai');
+
+      const responseTime = Date.now() - startTime;
+      const remainingCredits = await deductCreditsAfterOperation(
+        c,
+        cost,
+        'rewrite-cover-letter',
+        responseTime,
+        ai.servedBy
+      );
+
+      return sendSuccess(c, {
+        ...saved,
+        rewritten: {
+          start: section.start,
+          end: section.start + result.content.length,
+          original: section.text,
+          text: result.content
+        },
+        tokensUsed: result.tokensUsed,
+        remainingCredits
+      }, 201);
+
+    } catch (error) {
+      return handleError(c, error, 'Cover letter rewrite failed');
+    }
+  }
+);
+
+// Translate a cover letter into another language - saved as a new letter linked to the original
+coverLetterRoutes.post('/:id/translate',
+  zValidator('json', translateCoverLetterSchema),
+  async (c) => {
+    const startTime = Date.now();
+
+    try {
+      const { user, db } = getAuthContext(c);
+      const coverLetterId = c.req.param('id');
+      const { language, quality } = c.req.valid('json');
+      const cost = getQualityCost(CreditManager.COSTS.COVER_LETTER_TRANSLATION, user.plan, quality);
+
+      if (!(await CreditManager.checkCredits(db, user.userId, cost))) {
+        return sendInsufficientCredits(c);
+      }
+
+      const coverLetter = await db.select()
+        .from(coverLetters)
+        .where(eq(coverLetters.id, coverLetterId))
+        .get();
+
+      if (!coverLetter || coverLetter.userId !== user.userId) {
+        return sendNotFound(c, 'Cover letter not found');
+      }
+
+      if (coverLetter.language === language) {
+        return sendError(c, 'Cover letter is already in this language', 409);
+      }
+
+      const ai = new AIService({ plan: user.plan, quality });
+      const prompt = await resolvePrompt(db, 'cover_letter_translation', user.userId);
+      const result = await ai.translateCoverLetter(coverLetter.content, language, coverLetter, prompt);
+
+      const preferences = coverLetter.preferences ? JSON.parse(coverLetter.preferences) as CoverLetterPreferences : {};
+      const translated = await db.insert(coverLetters).values({
+        id: crypto.randomUUID(),
+        userId: user.userId,
+        extractedJobId: coverLetter.extractedJobId,
+        resumeId: coverLetter.resumeId,
+        templateId: coverLetter.templateId,
+        language,
+        translatedFromId: coverLetter.id,
+        jobTitle: coverLetter.jobTitle,
+        company: coverLetter.company,
+        content: result.content,
+        creditsUsed: cost,
+        preferences: JSON.stringify({ ...preferences, language }),
+        promptName: prompt.name,
+        promptVersion: prompt.version,
+        promptExperimentId: prompt.experimentId,
+        createdAt: new Date().toISOString()
+      }).returning();
+      await recordInitialVersion(db, translated[0]);
+
+      const responseTime = Date.now() - startTime;
+      const remainingCredits = await deductCreditsAfterOperation(
+        c,
+        cost,
+        'translate-cover-letter',
+        responseTime,
+        ai.servedBy
+      );
+
+      return sendSuccess(c, {
+        coverLetter: translated[0],
+        tokensUsed: result.tokensUsed,
+        remainingCredits
+      }, 201);
+
+    } catch (error) {
+      return handleError(c, error, 'Cover letter translation failed');
+    }
+  }
+);
+
+// Get translations of a cover letter (and the original, when this one is a translation)
+coverLetterRoutes.get('/:id/translations', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    const originalId = coverLetter.translatedFromId ?? coverLetter.id;
+    const translations = await db.select()
+      .from(coverLetters)
+      .where(and(eq(coverLetters.translatedFromId, originalId), ne(coverLetters.id, coverLetter.id)))
+      .orderBy(desc(coverLetters.createdAt));
+
+    const original = coverLetter.translatedFromId
+      ? await db.select().from(coverLetters).where(eq(coverLetters.id, coverLetter.translatedFromId)).get()
+      : null;
+
+    return sendSuccess(c, {
+      original: original ?? null,
+      translations
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch cover letter translations');
+  }
+});
+
+// Get the other variants generated alongside a cover letter
+coverLetterRoutes.get('/:id/alternatives', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    const alternatives = coverLetter.generationGroupId
+      ? await db.select()
+        .from(coverLetters)
+        .where(and(
+          eq(coverLetters.generationGroupId, coverLetter.generationGroupId),
+          ne(coverLetters.id, coverLetter.id)
+        ))
+        .orderBy(desc(coverLetters.createdAt))
+      : [];
+
+    return sendSuccess(c, {
+      generationGroupId: coverLetter.generationGroupId,
+      alternatives
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch cover letter alternatives');
+  }
+});
+
+// Pick a variant as the favorite of its generation group - the others stay as alternatives
+coverLetterRoutes.post('/:id/favorite', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    if (coverLetter.generationGroupId) {
+      await db.update(coverLetters)
+        .set({ isFavorite: false })
+        .where(and(
+          eq(coverLetters.generationGroupId, coverLetter.generationGroupId),
+          ne(coverLetters.id, coverLetter.id)
+        ));
+    }
+
+    const updated = await db.update(coverLetters)
+      .set({ isFavorite: true })
+      .where(eq(coverLetters.id, coverLetter.id))
+      .returning();
+
+    return sendSuccess(c, updated[0]);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to set favorite cover letter');
+  }
+});
+
+// Rate a cover letter - feeds prompt experiment results
+coverLetterRoutes.put('/:id/rating', zValidator('json', rateCoverLetterSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+    const { rating } = c.req.valid('json');
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    const updated = await db.update(coverLetters)
+      .set({ rating, ratedAt: new Date().toISOString() })
+      .where(eq(coverLetters.id, coverLetter.id))
+      .returning();
+
+    return sendSuccess(c, updated[0]);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to rate cover letter');
+  }
+});
+
+// Get cover letter version history (newest first)
+coverLetterRoutes.get('/:id/versions', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    const versions = await getVersionHistory(db, coverLetter);
+
+    return sendSuccess(c, {
+      currentVersion: coverLetter.currentVersion,
+      versions
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch cover letter versions');
+  }
+});
+
+// Diff two versions (to defaults to the current version)
+coverLetterRoutes.get('/:id/versions/diff', zValidator('query', coverLetterDiffSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+    const { from, to, granularity } = c.req.valid('query');
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    const fromVersion = await getVersion(db, coverLetter, from);
+    const toVersion = await getVersion(db, coverLetter, to ?? coverLetter.currentVersion);
+
+    if (!fromVersion || !toVersion) {
+      return sendNotFound(c, 'Version not found');
+    }
+
+    return sendSuccess(c, {
+      from: fromVersion.version,
+      to: toVersion.version,
+      ...diffText(fromVersion.content, toVersion.content, granularity)
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to diff cover letter versions');
+  }
+});
+
+// Get a specific version
+coverLetterRoutes.get('/:id/versions/:version', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+    const versionNumber = Number(c.req.param('version'));
+
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return sendError(c, 'Invalid version number', 400);
+    }
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    const version = await getVersion(db, coverLetter, versionNumber);
+    if (!version) {
+      return sendNotFound(c, 'Version not found');
+    }
+
+    return sendSuccess(c, version);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch cover letter version');
+  }
+});
+
+// Restore an earlier version - its text is saved as a new version so no history is lost
+coverLetterRoutes.post('/:id/versions/:version/restore', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+    const versionNumber = Number(c.req.param('version'));
+
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return sendError(c, 'Invalid version number', 400);
+    }
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    const version = await getVersion(db, coverLetter, versionNumber);
+    if (!version) {
+      return sendNotFound(c, 'Version not found');
+    }
+
+    if (version.version === coverLetter.currentVersion) {
+      return sendError(c, 'This is already the current version', 409);
+    }
+
+    const result = await saveNewVersion(db, coverLetter, version.content, 'user', version.version);
+
+    return sendSuccess(c, result, 201);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to restore cover letter version');
+  }
+});
+
+// Export cover letter as a formatted PDF, DOCX, Markdown or text file
+coverLetterRoutes.get('/:id/export', zValidator('query', coverLetterExportSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const coverLetterId = c.req.param('id');
+    const { format, layout, cache } = c.req.valid('query');
+    const config = getConfig();
+
+    const coverLetter = await db.select()
+      .from(coverLetters)
+      .where(eq(coverLetters.id, coverLetterId))
+      .get();
+
+    if (!coverLetter || coverLetter.userId !== user.userId) {
+      return sendNotFound(c, 'Cover letter not found');
+    }
+
+    const account = await db.select({ name: users.name, email: users.email })
+      .from(users)
+      .where(eq(users.id, user.userId))
+      .get();
+
+    if (!account) {
+      return sendNotFound(c, 'User not found');
+    }
+
+    // Phone, location and links come from the parsed resume when there is one
+    const profileRecord = await db.select({ profile: resumeProfiles.profile })
+      .from(resumeProfiles)
+      .where(eq(resumeProfiles.resumeId, coverLetter.resumeId))
+      .get();
+    const contact = profileRecord ? (JSON.parse(profileRecord.profile) as ResumeProfile).contact : null;
+
+    // Date the letter by its current version so cached exports stay valid
+    const letterDate = new Date(coverLetter.updatedAt ?? coverLetter.createdAt ?? Date.now());
+    const header = buildCoverLetterHeader(account, contact, coverLetter, letterDate);
+
+    const filename = `${sanitizeFilename(coverLetter.company || 'cover-letter').replace(/\.+$/, '')}-cover-letter.${format}`;
+    const headers = {
+      'Content-Type': COVER_LETTER_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`
+    };
+
+    const cacheKey = await exportCacheKey(user.userId, coverLetter.id, coverLetter.currentVersion, format, layout, header);
+    if (cache) {
+      const cached = await config.storage.bucket.get(cacheKey);
+      if (cached) {
+        return c.body(await cached.arrayBuffer(), 200, { ...headers, 'X-Export-Cache': 'HIT' });
+      }
+    }
+
+    const body = renderCoverLetter(header, coverLetter.content, format, layout);
+
+    if (cache) {
+      await config.storage.bucket.put(cacheKey, body, {
+        httpMetadata: { contentType: COVER_LETTER_CONTENT_TYPES[format] }
+      });
+    }
+
+    return c.body(body, 200, { ...headers, 'X-Export-Cache': cache ? 'MISS' : 'BYPASS' });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to export cover letter');
+  }
+});
+
 // Delete cover letter
 coverLetterRoutes.delete('/:id', async (c) => {
   try {
@@ -165,6 +1059,17 @@ coverLetterRoutes.delete('/:id', async (c) => {
       return sendNotFound(c, 'Cover letter not found');
     }
 
+    // Remove cached exports - failures only leave orphaned files behind
+    try {
+      const bucket = getConfig().storage.bucket;
+      const cachedExports = await bucket.list({ prefix: exportCachePrefix(user.userId, coverLetterId) });
+      if (cachedExports.objects.length > 0) {
+        await bucket.delete(cachedExports.objects.map(object => object.key));
+      }
+    } catch (error) {
+      console.error('Failed to delete cached cover letter exports:', error);
+    }
+
     return sendSuccess(c, { message: 'Cover letter deleted successfully' });
 
   } catch (error) {
@@ -1,79 +1,193 @@
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, and, inArray } from 'drizzle-orm';
 import { AIService } from '../lib/ai';
 import { CreditManager } from '../lib/credits';
-import { extractJobSchema, paginationSchema } from '../lib/validation';
-import { extractedJobs } from '../db/schema';
+import { DocumentExtractionError } from '../lib/documentText';
+import { getResumeText } from '../lib/resumeText';
+import { matchResumeToJob, hashMatchInputs } from '../lib/matching';
+import { canonicalizeJobUrl, hashJobContent } from '../lib/jobUrls';
+import { parseStructuredJobPosting, combineJobFields, getMissingJobFields, getFieldsForAI, mergeJobData, scoreJobData } from '../lib/jobPosting';
+import { runSiteExtractor } from '../lib/extractors';
+import { getQualityCost } from '../lib/modelRouting';
+import { resolvePrompt } from '../lib/prompts';
+import { extractJobSchema, jobMatchSchema, jobMatchQuerySchema, paginationSchema } from '../lib/validation';
+import { extractedJobs, jobMatches, resumes, resumeProfiles } from '../db/schema';
 import { authContextMiddleware, getAuthContext } from '../middleware/authContext';
-import { creditCheckMiddleware, deductCreditsAfterOperation } from '../middleware/creditCheck';
-import { sendSuccess, sendError, sendNotFound, handleError } from '../lib/responses';
+import { deductCreditsAfterOperation } from '../middleware/creditCheck';
+import { sendSuccess, sendError, sendNotFound, sendInsufficientCredits, sendAIError, handleError } from '../lib/responses';
 import type { AppEnv } from '../types/env';
-import type { ExtractedJob, FormattedExtractedJob } from '../types/database';
+import type { ExtractedJob, FormattedExtractedJob, JobMatch, FormattedJobMatch } from '../types/database';
 
 const jobs = new Hono<AppEnv>();
 
+function formatExtractedJob(job: ExtractedJob): FormattedExtractedJob {
+  return {
+    ...job,
+    requirements: job.requirements ? JSON.parse(job.requirements) : [],
+    benefits: job.benefits ? JSON.parse(job.benefits) : [],
+    skills: job.skills ? JSON.parse(job.skills) : [],
+    fieldSources: job.fieldSources ? JSON.parse(job.fieldSources) : {}
+  };
+}
+
+function formatJobMatch(match: JobMatch): FormattedJobMatch {
+  return {
+    ...match,
+    matchedSkills: match.matchedSkills ? JSON.parse(match.matchedSkills) : [],
+    missingSkills: match.missingSkills ? JSON.parse(match.missingSkills) : [],
+    matchedRequirements: match.matchedRequirements ? JSON.parse(match.matchedRequirements) : [],
+    missingRequirements: match.missingRequirements ? JSON.parse(match.missingRequirements) : [],
+    recommendations: match.recommendations ? JSON.parse(match.recommendations) : []
+  };
+}
+
+// The job fields a resume is matched against
+function toMatchableJob(job: ExtractedJob) {
+  return {
+    title: job.title,
+    company: job.company,
+    description: job.description,
+    skills: job.skills ? JSON.parse(job.skills) as string[] : [],
+    requirements: job.requirements ? JSON.parse(job.requirements) as string[] : []
+  };
+}
+
 // All routes require authentication
 jobs.use('*', authContextMiddleware);
 
 // Extract job information from HTML content
+// Repeat extractions of an unchanged posting return the existing record without charging
 jobs.post('/extract-from-html', 
-  creditCheckMiddleware.jobExtraction,
   zValidator('json', extractJobSchema), 
   async (c) => {
     const startTime = Date.now();
     
     try {
-      const { html, url, title, maxTokens } = c.req.valid('json');
+      const { html, url, title, maxTokens, force, quality } = c.req.valid('json');
       const { user, db } = getAuthContext(c);
+      const cost = getQualityCost(CreditManager.COSTS.JOB_EXTRACTION, user.plan, quality);
 
-      // Extract job information using AI
-      const ai = new AIService();
-      const result = await ai.extractJobFromHTML(html, url, title, maxTokens);
+      const canonicalUrl = canonicalizeJobUrl(url);
+      const contentHash = await hashJobContent(html);
 
-      if (!result.success || !result.jobData) {
-        return sendError(c, result.error || 'Failed to extract job information', 400, 
-          [{ field: 'html', message: 'The AI service was unable to extract meaningful job information from the provided content.' }]);
+      // Latest version of this posting, if the user has extracted it before
+      const existingJob = await db.select()
+        .from(extractedJobs)
+        .where(and(eq(extractedJobs.userId, user.userId), eq(extractedJobs.canonicalUrl, canonicalUrl)))
+        .orderBy(desc(extractedJobs.version))
+        .limit(1)
+        .get();
+
+      if (existingJob && existingJob.contentHash === contentHash && !force) {
+        return sendSuccess(c, {
+          ...formatExtractedJob(existingJob),
+          duplicate: true,
+          tokensUsed: 0,
+          remainingCredits: await CreditManager.getUserCredits(db, user.userId)
+        });
       }
 
-      // Save extracted job to database
+      // Schema.org JobPosting markup (JSON-LD/microdata) and site-specific extractors are used as-is;
+      // the AI only fills the gaps
+      const siteExtraction = runSiteExtractor(html, url);
+      const known = combineJobFields([
+        { source: 'structured', data: parseStructuredJobPosting(html) },
+        { source: 'extractor', data: siteExtraction?.data ?? null }
+      ]);
+      const hasKnownFields = Object.keys(known.data).length > 0;
+      const needsAI = getMissingJobFields(known.data).length > 0;
+
+      const ai = new AIService({ plan: user.plan, quality });
+      let aiResult: Awaited<ReturnType<AIService['extractJobFromHTML']>> | null = null;
+      if (needsAI) {
+        // Checked here rather than in middleware so duplicates and fully structured pages stay free
+        if (!(await CreditManager.checkCredits(db, user.userId, cost))) {
+          return sendInsufficientCredits(c);
+        }
+
+        // Extract job information using AI
+        const prompt = await resolvePrompt(db, 'job_extraction', user.userId);
+        aiResult = await ai.extractJobFromHTML(
+          html,
+          url,
+          title,
+          maxTokens,
+          hasKnownFields ? { known: known.data, fields: getFieldsForAI(known.data) } : undefined,
+          prompt
+        );
+
+        // Deterministic fields alone are still a usable result if the AI fails
+        if (!aiResult.jobData && !hasKnownFields) {
+          if (aiResult.aiError) return sendAIError(c, aiResult.aiError);
+          return sendError(c, aiResult.error || 'Failed to extract job information', 400, 
+            [{ field: 'html', message: 'The AI service was unable to extract meaningful job information from the provided content.' }]);
+        }
+      }
+
+      const aiJobData = aiResult?.jobData ?? null;
+      const { jobData, fieldSources } = mergeJobData(known, aiJobData, url);
+      const { confidence, extractedFields } = scoreJobData(jobData, fieldSources);
+      // Named after the one source every field came from; fields from several sources make it 'hybrid'
+      const sources = [...new Set(Object.values(fieldSources))];
+      const extractionMethod = sources.length > 1 ? 'hybrid' : sources[0] ?? 'ai';
+      const extractor = siteExtraction?.extractor ?? null;
+      const creditsUsed = aiJobData ? cost : 0;
+
+      // Save extracted job to database - a changed or forced re-extraction becomes a new version
       const jobId = crypto.randomUUID();
       const extractedJob = await db.insert(extractedJobs).values({
         id: jobId,
         userId: user.userId,
         url,
-        title: result.jobData.title || null,
-        company: result.jobData.company || null,
-        location: result.jobData.location || null,
-        salary: result.jobData.salary || null,
-        jobType: result.jobData.jobType || null,
-        experience: result.jobData.experience || null,
-        requirements: result.jobData.requirements ? JSON.stringify(result.jobData.requirements) : null,
-        description: result.jobData.description || null,
-        benefits: result.jobData.benefits ? JSON.stringify(result.jobData.benefits) : null,
-        skills: result.jobData.skills ? JSON.stringify(result.jobData.skills) : null,
-        industry: result.jobData.industry || null,
-        remote: result.jobData.remote || null,
-        pageType: result.jobData.pageType || 'general',
-        confidence: result.confidence,
+        canonicalUrl,
+        contentHash,
+        version: existingJob ? existingJob.version + 1 : 1,
+        previousVersionId: existingJob?.id ?? null,
+        title: jobData.title || null,
+        company: jobData.company || null,
+        location: jobData.location || null,
+        salary: jobData.salary || null,
+        jobType: jobData.jobType || null,
+        experience: jobData.experience || null,
+        requirements: jobData.requirements ? JSON.stringify(jobData.requirements) : null,
+        description: jobData.description || null,
+        benefits: jobData.benefits ? JSON.stringify(jobData.benefits) : null,
+        skills: jobData.skills ? JSON.stringify(jobData.skills) : null,
+        industry: jobData.industry || null,
+        remote: jobData.remote || null,
+        datePosted: jobData.datePosted || null,
+        validThrough: jobData.validThrough || null,
+        pageType: jobData.pageType || 'general',
+        confidence,
+        extractionMethod,
+        extractor,
+        fieldSources: JSON.stringify(fieldSources),
         extractedAt: new Date().toISOString()
       }).returning();
 
       // Deduct credits and get remaining
       const responseTime = Date.now() - startTime;
-      const remainingCredits = await deductCreditsAfterOperation(
-        c,
-        CreditManager.COSTS.JOB_EXTRACTION,
-        'extract-from-html',
-        responseTime
-      );
+      const remainingCredits = creditsUsed > 0
+        ? await deductCreditsAfterOperation(c, creditsUsed, 'extract-from-html', responseTime, ai.servedBy)
+        : await CreditManager.getUserCredits(db, user.userId);
 
       return sendSuccess(c, {
         id: jobId,
-        ...result.jobData,
-        confidence: result.confidence,
-        extractedFields: result.extractedFields,
-        tokensUsed: result.tokensUsed,
+        ...jobData,
+        canonicalUrl,
+        version: extractedJob[0].version,
+        previousVersionId: extractedJob[0].previousVersionId,
+        duplicate: false,
+        confidence,
+        extractedFields,
+        extractionMethod,
+        extractor,
+        fieldSources,
+        // How the AI output held up against the schema, field by field (null when no AI was needed)
+        aiExtraction: aiResult ? { status: aiResult.status, fieldValidity: aiResult.fieldValidity } : null,
+        tokensUsed: aiResult?.tokensUsed ?? 0,
+        creditsUsed,
         remainingCredits
       });
 
@@ -99,12 +213,7 @@ jobs.get('/extracted', zValidator('query', paginationSchema), async (c) => {
       .offset(offset);
 
     // Parse JSON fields
-    const formattedJobs: FormattedExtractedJob[] = jobs.map((job: ExtractedJob) => ({
-      ...job,
-      requirements: job.requirements ? JSON.parse(job.requirements) : [],
-      benefits: job.benefits ? JSON.parse(job.benefits) : [],
-      skills: job.skills ? JSON.parse(job.skills) : []
-    }));
+    const formattedJobs: FormattedExtractedJob[] = jobs.map(formatExtractedJob);
 
     return sendSuccess(c, {
       jobs: formattedJobs,
@@ -137,12 +246,7 @@ jobs.get('/extracted/:id', async (c) => {
     }
 
     // Parse JSON fields
-    const formattedJob: FormattedExtractedJob = {
-      ...job,
-      requirements: job.requirements ? JSON.parse(job.requirements) : [],
-      benefits: job.benefits ? JSON.parse(job.benefits) : [],
-      skills: job.skills ? JSON.parse(job.skills) : []
-    };
+    const formattedJob = formatExtractedJob(job);
 
     return sendSuccess(c, formattedJob);
 
@@ -151,6 +255,195 @@ jobs.get('/extracted/:id', async (c) => {
   }
 });
 
+// Score a resume against an extracted job (keyword matching, optionally refined by AI)
+jobs.post('/extracted/:id/match', zValidator('json', jobMatchSchema), async (c) => {
+  const startTime = Date.now();
+
+  try {
+    const { user, db } = getAuthContext(c);
+    const jobId = c.req.param('id');
+    const { resumeId, useAI, refresh, quality } = c.req.valid('json');
+    const cost = getQualityCost(CreditManager.COSTS.JOB_MATCH_ANALYSIS, user.plan, quality);
+
+    const job = await db.select()
+      .from(extractedJobs)
+      .where(eq(extractedJobs.id, jobId))
+      .get();
+
+    if (!job || job.userId !== user.userId) {
+      return sendNotFound(c, 'Job not found');
+    }
+
+    const resume = await db.select()
+      .from(resumes)
+      .where(eq(resumes.id, resumeId))
+      .get();
+
+    if (!resume || resume.userId !== user.userId) {
+      return sendNotFound(c, 'Resume not found');
+    }
+
+    const resumeText = await getResumeText(db, resume);
+    const profile = await db.select({ skills: resumeProfiles.skills })
+      .from(resumeProfiles)
+      .where(eq(resumeProfiles.resumeId, resumeId))
+      .get();
+    const resumeSkills: string[] = profile?.skills ? JSON.parse(profile.skills) : [];
+    const formattedJob = toMatchableJob(job);
+    const inputHash = await hashMatchInputs(resumeText, formattedJob, resumeSkills);
+
+    // Reuse a stored result computed from the same resume and job, unless a refresh (or an upgrade to AI) is requested
+    const existing = await db.select()
+      .from(jobMatches)
+      .where(and(eq(jobMatches.extractedJobId, jobId), eq(jobMatches.resumeId, resumeId)))
+      .get();
+
+    if (existing && existing.inputHash === inputHash && !refresh && (existing.method === 'ai' || !useAI)) {
+      return sendSuccess(c, { ...formatJobMatch(existing), stale: false, cached: true });
+    }
+
+    if (useAI && !(await CreditManager.checkCredits(db, user.userId, cost))) {
+      return sendInsufficientCredits(c);
+    }
+
+    const keywordMatch = matchResumeToJob(resumeText, formattedJob, resumeSkills);
+
+    let score = keywordMatch.score;
+    let aiScore: number | null = null;
+    let summary: string | null = null;
+    let recommendations = keywordMatch.recommendations;
+    let tokensUsed = 0;
+
+    const ai = new AIService({ plan: user.plan, quality });
+    if (useAI) {
+      const prompt = await resolvePrompt(db, 'job_match', user.userId);
+      const result = await ai.analyzeJobMatch(formattedJob, resumeText, keywordMatch, prompt);
+      aiScore = Math.round(result.analysis.score);
+      // Blend both so the score stays anchored to what is literally on the resume
+      score = Math.round((keywordMatch.score + aiScore) / 2);
+      summary = result.analysis.summary;
+      recommendations = [...result.analysis.recommendations, ...keywordMatch.recommendations];
+      tokensUsed = result.tokensUsed;
+    }
+
+    const now = new Date().toISOString();
+    const values = {
+      score,
+      keywordScore: keywordMatch.score,
+      aiScore,
+      method: useAI ? 'ai' as const : 'keyword' as const,
+      matchedSkills: JSON.stringify(keywordMatch.matchedSkills),
+      missingSkills: JSON.stringify(keywordMatch.missingSkills),
+      matchedRequirements: JSON.stringify(keywordMatch.matchedRequirements),
+      missingRequirements: JSON.stringify(keywordMatch.missingRequirements),
+      recommendations: JSON.stringify(recommendations),
+      summary,
+      inputHash,
+      updatedAt: now
+    };
+
+    const saved = await db.insert(jobMatches).values({
+      id: crypto.randomUUID(),
+      userId: user.userId,
+      extractedJobId: jobId,
+      resumeId,
+      createdAt: now,
+      ...values
+    }).onConflictDoUpdate({
+      target: [jobMatches.extractedJobId, jobMatches.resumeId],
+      set: values
+    }).returning();
+
+    let remainingCredits: number | undefined;
+    if (useAI) {
+      const responseTime = Date.now() - startTime;
+      remainingCredits = await deductCreditsAfterOperation(
+        c,
+        cost,
+        'job-match',
+        responseTime,
+        ai.servedBy
+      );
+    }
+
+    return sendSuccess(c, {
+      ...formatJobMatch(saved[0]),
+      stale: false,
+      cached: false,
+      tokensUsed,
+      ...(remainingCredits !== undefined && { remainingCredits })
+    });
+
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      return sendError(c, error.message, error.code === 'missing_file' ? 404 : 422);
+    }
+    return handleError(c, error, 'Job match failed');
+  }
+});
+
+// Get stored match results for a job (e.g. for the extension badge) - never charges
+jobs.get('/extracted/:id/match', zValidator('query', jobMatchQuerySchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const jobId = c.req.param('id');
+    const { resumeId } = c.req.valid('query');
+
+    const conditions = [eq(jobMatches.extractedJobId, jobId), eq(jobMatches.userId, user.userId)];
+    if (resumeId) {
+      conditions.push(eq(jobMatches.resumeId, resumeId));
+    }
+
+    const matches = await db.select()
+      .from(jobMatches)
+      .where(and(...conditions))
+      .orderBy(desc(jobMatches.score));
+
+    const job = await db.select()
+      .from(extractedJobs)
+      .where(eq(extractedJobs.id, jobId))
+      .get();
+
+    // A result is stale once its resume text, parsed skills or the job differ from what it was computed from.
+    // Only cached text is compared - this read never extracts, so an unextracted resume counts as stale.
+    const resumeIds = [...new Set(matches.map(match => match.resumeId))];
+    const [matchedResumes, profiles] = resumeIds.length > 0
+      ? await Promise.all([
+        db.select({ id: resumes.id, extractedText: resumes.extractedText, extractionStatus: resumes.extractionStatus })
+          .from(resumes)
+          .where(inArray(resumes.id, resumeIds)),
+        db.select({ resumeId: resumeProfiles.resumeId, skills: resumeProfiles.skills })
+          .from(resumeProfiles)
+          .where(inArray(resumeProfiles.resumeId, resumeIds))
+      ])
+      : [[], []];
+
+    const currentHashes = new Map<string, string>();
+    if (job) {
+      const formattedJob = toMatchableJob(job);
+      for (const resume of matchedResumes) {
+        if (resume.extractionStatus !== 'completed' || !resume.extractedText) continue;
+        const skills = profiles.find(profile => profile.resumeId === resume.id)?.skills;
+        currentHashes.set(resume.id, await hashMatchInputs(resume.extractedText, formattedJob, skills ? JSON.parse(skills) : []));
+      }
+    }
+
+    const formattedMatches = matches.map(match => ({
+      ...formatJobMatch(match),
+      stale: !match.inputHash || match.inputHash !== currentHashes.get(match.resumeId)
+    }));
+    const freshMatches = formattedMatches.filter(match => !match.stale);
+
+    return sendSuccess(c, {
+      matches: formattedMatches,
+      bestScore: freshMatches.length > 0 ? freshMatches[0].score : null
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch job matches');
+  }
+});
+
 // Delete extracted job
 jobs.delete('/extracted/:id', async (c) => {
   try {
@@ -0,0 +1,292 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { eq, and, desc, count, avg, sql } from 'drizzle-orm';
+import {
+  PROMPT_NAMES,
+  PROMPT_REGISTRY,
+  BUILT_IN_PROMPT_VERSION,
+  getPromptVersion,
+  getRunningExperiment,
+  formatExperiment,
+  type PromptName
+} from '../lib/prompts';
+import { createPromptVersionSchema, createPromptExperimentSchema, promptNameSchema } from '../lib/validation';
+import { promptTemplates, promptExperiments, coverLetters, coverLetterVersions } from '../db/schema';
+import { adminAuthMiddleware } from '../middleware/adminAuth';
+import { sendSuccess, sendError, sendNotFound, sendValidationError, handleError } from '../lib/responses';
+import type { AppEnv } from '../types/env';
+
+const promptRoutes = new Hono<AppEnv>();
+
+// Admin only
+promptRoutes.use('*', adminAuthMiddleware);
+
+function parsePromptName(value: string): PromptName | null {
+  const parsed = promptNameSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+// List registry prompts with their versions and running experiments
+promptRoutes.get('/', async (c) => {
+  try {
+    const db = c.get('db')!;
+
+    const stored = await db.select({
+      name: promptTemplates.name,
+      version: promptTemplates.version,
+      description: promptTemplates.description,
+      isActive: promptTemplates.isActive,
+      createdAt: promptTemplates.createdAt
+    })
+      .from(promptTemplates)
+      .orderBy(promptTemplates.name, promptTemplates.version)
+      .all();
+
+    const prompts = await Promise.all(PROMPT_NAMES.map(async (name) => {
+      const versions = stored.filter(version => version.name === name);
+      const active = versions.find(version => version.isActive);
+
+      return {
+        name,
+        description: PROMPT_REGISTRY[name].description,
+        variables: PROMPT_REGISTRY[name].variables,
+        activeVersion: active?.version ?? BUILT_IN_PROMPT_VERSION,
+        versions: [
+          { version: BUILT_IN_PROMPT_VERSION, description: 'Built in', isActive: !active, createdAt: null },
+          ...versions.map(({ name: _name, ...version }) => version)
+        ],
+        runningExperiment: await getRunningExperiment(db, name)
+      };
+    }));
+
+    return sendSuccess(c, prompts);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch prompts');
+  }
+});
+
+// Get the full text of a prompt version
+promptRoutes.get('/:name/versions/:version', async (c) => {
+  try {
+    const db = c.get('db')!;
+    const name = parsePromptName(c.req.param('name'));
+    const version = parseInt(c.req.param('version'), 10);
+
+    const prompt = name && Number.isInteger(version) ? await getPromptVersion(db, name, version) : null;
+    if (!name || !prompt) {
+      return sendNotFound(c, 'Prompt version not found');
+    }
+
+    return sendSuccess(c, { name, version, ...prompt });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch prompt version');
+  }
+});
+
+// Store a new version of a prompt
+promptRoutes.post('/versions', zValidator('json', createPromptVersionSchema), async (c) => {
+  try {
+    const db = c.get('db')!;
+    const { name, system, template, description, activate } = c.req.valid('json');
+
+    const latest = await db.select({ version: promptTemplates.version })
+      .from(promptTemplates)
+      .where(eq(promptTemplates.name, name))
+      .orderBy(desc(promptTemplates.version))
+      .get();
+
+    if (activate) {
+      await db.update(promptTemplates)
+        .set({ isActive: false })
+        .where(eq(promptTemplates.name, name));
+    }
+
+    const inserted = await db.insert(promptTemplates).values({
+      id: crypto.randomUUID(),
+      name,
+      version: Math.max(latest?.version ?? 0, BUILT_IN_PROMPT_VERSION) + 1,
+      system,
+      template,
+      description: description ?? null,
+      isActive: activate,
+      createdAt: new Date().toISOString()
+    }).returning();
+
+    return sendSuccess(c, inserted[0], 201);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to create prompt version');
+  }
+});
+
+// Serve a version outside experiments (version 1 switches back to the built-in prompt)
+promptRoutes.post('/:name/versions/:version/activate', async (c) => {
+  try {
+    const db = c.get('db')!;
+    const name = parsePromptName(c.req.param('name'));
+    const version = parseInt(c.req.param('version'), 10);
+
+    const prompt = name && Number.isInteger(version) ? await getPromptVersion(db, name, version) : null;
+    if (!name || !prompt) {
+      return sendNotFound(c, 'Prompt version not found');
+    }
+
+    await db.update(promptTemplates)
+      .set({ isActive: false })
+      .where(eq(promptTemplates.name, name));
+
+    if (version !== BUILT_IN_PROMPT_VERSION) {
+      await db.update(promptTemplates)
+        .set({ isActive: true })
+        .where(and(eq(promptTemplates.name, name), eq(promptTemplates.version, version)));
+    }
+
+    return sendSuccess(c, { name, activeVersion: version });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to activate prompt version');
+  }
+});
+
+// List experiments, newest first
+promptRoutes.get('/experiments', async (c) => {
+  try {
+    const db = c.get('db')!;
+
+    const experiments = await db.select()
+      .from(promptExperiments)
+      .orderBy(desc(promptExperiments.startedAt))
+      .all();
+
+    return sendSuccess(c, experiments.map(formatExperiment));
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch experiments');
+  }
+});
+
+// Start an experiment - one at a time per prompt
+promptRoutes.post('/experiments', zValidator('json', createPromptExperimentSchema), async (c) => {
+  try {
+    const db = c.get('db')!;
+    const { name, promptName, variants } = c.req.valid('json');
+
+    if (await getRunningExperiment(db, promptName)) {
+      return sendError(c, 'An experiment is already running for this prompt', 409);
+    }
+
+    for (const [index, variant] of variants.entries()) {
+      if (!(await getPromptVersion(db, promptName, variant.version))) {
+        return sendValidationError(c, 'Prompt version not found', [
+          { field: `variants.${index}.version`, message: `${promptName} has no version ${variant.version}` }
+        ]);
+      }
+    }
+
+    const inserted = await db.insert(promptExperiments).values({
+      id: crypto.randomUUID(),
+      name,
+      promptName,
+      variants: JSON.stringify(variants),
+      status: 'running',
+      startedAt: new Date().toISOString()
+    }).returning();
+
+    return sendSuccess(c, formatExperiment(inserted[0]), 201);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to start experiment');
+  }
+});
+
+// Experiment results: outcome signals per variant from the cover letters it generated
+promptRoutes.get('/experiments/:id', async (c) => {
+  try {
+    const db = c.get('db')!;
+    const experimentId = c.req.param('id');
+
+    const experiment = await db.select()
+      .from(promptExperiments)
+      .where(eq(promptExperiments.id, experimentId))
+      .get();
+
+    if (!experiment) {
+      return sendNotFound(c, 'Experiment not found');
+    }
+
+    // Per letter: edits are saved user versions (restores excluded); rewrites are AI section rewrites after generation
+    const revisions = db.select({
+      coverLetterId: coverLetterVersions.coverLetterId,
+      userEdits: sql<number>`sum(case when ${coverLetterVersions.source} = 'user' and ${coverLetterVersions.restoredFromVersion} is null then 1 else 0 end)`.as('user_edits'),
+      aiRewrites: sql<number>`sum(case when ${coverLetterVersions.source} = 'ai' and ${coverLetterVersions.version} > 1 then 1 else 0 end)`.as('ai_rewrites')
+    })
+      .from(coverLetterVersions)
+      .groupBy(coverLetterVersions.coverLetterId)
+      .as('revisions');
+
+    const outcomes = await db.select({
+      version: coverLetters.promptVersion,
+      letters: count(),
+      ratings: count(coverLetters.rating),
+      averageRating: avg(coverLetters.rating),
+      userEdits: sql<number>`coalesce(sum(${revisions.userEdits}), 0)`,
+      editedLetters: sql<number>`coalesce(sum(${revisions.userEdits} > 0), 0)`,
+      aiRewrites: sql<number>`coalesce(sum(${revisions.aiRewrites}), 0)`
+    })
+      .from(coverLetters)
+      .leftJoin(revisions, eq(revisions.coverLetterId, coverLetters.id))
+      .where(eq(coverLetters.promptExperimentId, experiment.id))
+      .groupBy(coverLetters.promptVersion)
+      .all();
+
+    const formatted = formatExperiment(experiment);
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return sendSuccess(c, {
+      ...formatted,
+      results: formatted.variants.map(variant => {
+        const outcome = outcomes.find(row => row.version === variant.version);
+        const letters = outcome?.letters ?? 0;
+
+        return {
+          ...variant,
+          letters,
+          ratings: outcome?.ratings ?? 0,
+          averageRating: outcome?.averageRating ? round(Number(outcome.averageRating)) : null,
+          editRate: letters > 0 ? round(Number(outcome!.editedLetters) / letters) : null, // Share of letters the user edited
+          averageEdits: letters > 0 ? round(Number(outcome!.userEdits) / letters) : null,
+          averageRewrites: letters > 0 ? round(Number(outcome!.aiRewrites) / letters) : null
+        };
+      })
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch experiment');
+  }
+});
+
+// Stop an experiment - its letters keep their variant for the results
+promptRoutes.post('/experiments/:id/stop', async (c) => {
+  try {
+    const db = c.get('db')!;
+    const experimentId = c.req.param('id');
+
+    const updated = await db.update(promptExperiments)
+      .set({ status: 'stopped', stoppedAt: new Date().toISOString() })
+      .where(and(eq(promptExperiments.id, experimentId), eq(promptExperiments.status, 'running')))
+      .returning();
+
+    if (updated.length === 0) {
+      return sendNotFound(c, 'Running experiment not found');
+    }
+
+    return sendSuccess(c, formatExperiment(updated[0]));
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to stop experiment');
+  }
+});
+
+export { promptRoutes };
@@ -1,64 +1,130 @@
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, getTableColumns } from 'drizzle-orm';
 import { AIService } from '../lib/ai';
 import { CreditManager } from '../lib/credits';
-import { uploadResumeSchema, paginationSchema } from '../lib/validation';
-import { resumes } from '../db/schema';
+import { DocumentExtractionError } from '../lib/documentText';
+import { markdownToDocx } from '../lib/docx';
+import { matchResumeToJob } from '../lib/matching';
+import { extractAndCacheResumeText, getResumeText } from '../lib/resumeText';
+import { validateResumeFile, getResumeSizeLimit, readBodyWithLimit, sanitizeFilename, RESUME_MIME_TYPES } from '../lib/uploads';
+import { updateResumeSchema, tailorResumeSchema, resumeDownloadSchema, parseResumeQuerySchema, paginationSchema } from '../lib/validation';
+import { resumes, resumeProfiles, extractedJobs } from '../db/schema';
 import { authContextMiddleware, getAuthContext } from '../middleware/authContext';
 import { creditCheckMiddleware, deductCreditsAfterOperation } from '../middleware/creditCheck';
-import { sendSuccess, sendError, sendNotFound, handleError } from '../lib/responses';
+import { sendSuccess, sendError, sendNotFound, sendValidationError, sendInsufficientCredits, handleError } from '../lib/responses';
 import { getConfig } from '../lib/config';
+import { getQualityCost } from '../lib/modelRouting';
+import { resolvePrompt } from '../lib/prompts';
 import type { AppEnv } from '../types/env';
+import type { Resume, ResumeProfile } from '../types/database';
 
 const resumeRoutes = new Hono<AppEnv>();
 
+// Allowance for multipart boundaries and form fields on top of the file itself
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// Listing columns - the extracted text is only returned by GET /:id and /:id/content
+const { extractedText: _extractedText, ...resumeListColumns } = getTableColumns(resumes);
+
 // All routes require authentication
 resumeRoutes.use('*', authContextMiddleware);
 
-// Upload resume
+// Upload resume (multipart/form-data with a "file" field)
 resumeRoutes.post('/upload', 
   creditCheckMiddleware.resumeUpload,
-  zValidator('json', uploadResumeSchema), 
   async (c) => {
     const startTime = Date.now();
     
     try {
-      const { filename, mimeType, fileSize } = c.req.valid('json');
       const { user, db } = getAuthContext(c);
       const config = getConfig();
+      const maxBodySize = getResumeSizeLimit(user.plan) + MULTIPART_OVERHEAD_BYTES;
 
-      // Generate unique file key
-      const fileKey = `resumes/${user.userId}/${crypto.randomUUID()}-${filename}`;
-      
-      // Store resume metadata in database first
-      const resumeId = crypto.randomUUID();
-      const newResume = await db.insert(resumes).values({
-        id: resumeId,
-        userId: user.userId,
-        filename,
-        fileKey,
-        fileSize,
-        mimeType,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }).returning();
+      // Reject oversized bodies before buffering them
+      const contentLength = parseInt(c.req.header('Content-Length') ?? '0', 10);
+      if (contentLength > maxBodySize) {
+        return sendError(c, 'File exceeds the size limit for your plan', 413);
+      }
 
-      // Deduct credits and get remaining
-      const responseTime = Date.now() - startTime;
-      const remainingCredits = await deductCreditsAfterOperation(
-        c,
-        CreditManager.COSTS.RESUME_UPLOAD,
-        'resume-upload',
-        responseTime
-      );
+      const contentType = c.req.header('Content-Type');
+      if (!contentType?.includes('multipart/form-data')) {
+        return sendValidationError(c, 'Expected multipart/form-data with a "file" field');
+      }
+
+      // A chunked body has no Content-Length, so the limit is also enforced while reading
+      const rawBody = await readBodyWithLimit(c.req.raw, maxBodySize);
+      if (!rawBody) {
+        return sendError(c, 'File exceeds the size limit for your plan', 413);
+      }
+
+      const body = await new Response(rawBody, { headers: { 'Content-Type': contentType } }).formData();
+      const file = body.get('file');
+
+      if (!(file instanceof File)) {
+        return sendValidationError(c, 'No file provided', [{ field: 'file', message: 'A resume file is required' }]);
+      }
+
+      const fileData = await file.arrayBuffer();
+      const validation = validateResumeFile(new Uint8Array(fileData), file.name, user.plan);
+
+      if (!validation.valid) {
+        return sendError(c, validation.error, validation.status, [{ field: 'file', message: validation.error }]);
+      }
+
+      const requestedFilename = body.get('filename');
+      const filename = typeof requestedFilename === 'string' && requestedFilename.trim() ? requestedFilename.trim() : file.name;
+      const fileKey = `resumes/${user.userId}/${crypto.randomUUID()}-${sanitizeFilename(filename)}`;
+
+      // Upload to R2 first - nothing is stored or charged if this fails
+      await config.storage.bucket.put(fileKey, fileData, {
+        httpMetadata: {
+          contentType: validation.mimeType,
+        }
+      });
+
+      let resume: Resume;
+      try {
+        const inserted = await db.insert(resumes).values({
+          id: crypto.randomUUID(),
+          userId: user.userId,
+          filename,
+          fileKey,
+          fileSize: fileData.byteLength,
+          mimeType: validation.mimeType,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        }).returning();
+        resume = inserted[0];
+      } catch (error) {
+        // Don't leave an orphaned file behind
+        await config.storage.bucket.delete(fileKey);
+        throw error;
+      }
+
+      // Extract and cache the text once so later reads don't touch R2
+      let extractionError: string | null = null;
+      try {
+        resume = await extractAndCacheResumeText(db, resume, fileData);
+      } catch (error) {
+        // The file is stored either way - report the failure rather than rejecting the upload
+        extractionError = error instanceof Error ? error.message : 'Text extraction failed';
+        resume = { ...resume, extractionStatus: 'failed', extractionError };
+      }
+
+      // Only a readable resume is charged for
+      const creditsUsed = extractionError ? 0 : CreditManager.COSTS.RESUME_UPLOAD;
+      const remainingCredits = creditsUsed > 0
+        ? await deductCreditsAfterOperation(c, creditsUsed, 'resume-upload', Date.now() - startTime)
+        : await CreditManager.getUserCredits(db, user.userId);
+
+      const { extractedText, ...resumeInfo } = resume;
 
-      // Return the resume info and file key for client-side upload
-      // The client will need to send the file data in a separate request
       return sendSuccess(c, {
-        resume: newResume[0],
-        fileKey,
-        uploadEndpoint: `/api/resumes/${resumeId}/upload`,
+        resume: resumeInfo,
+        extractionStatus: resume.extractionStatus,
+        extractionError,
+        creditsUsed,
         remainingCredits
       }, 201);
 
@@ -68,47 +134,92 @@ resumeRoutes.post('/upload',
   }
 );
 
-// Upload file data to R2
-resumeRoutes.post('/:id/upload', async (c) => {
-  try {
-    const { user, db } = getAuthContext(c);
-    const resumeId = c.req.param('id');
-    const config = getConfig();
+// Replace the file of an existing resume (raw request body) - validated and charged like a fresh upload
+resumeRoutes.post('/:id/upload',
+  creditCheckMiddleware.resumeUpload,
+  async (c) => {
+    const startTime = Date.now();
 
-    // Verify the resume belongs to the user
-    const resume = await db.select()
-      .from(resumes)
-      .where(eq(resumes.id, resumeId))
-      .get();
+    try {
+      const { user, db } = getAuthContext(c);
+      const resumeId = c.req.param('id');
+      const config = getConfig();
+      const maxSize = getResumeSizeLimit(user.plan);
 
-    if (!resume || resume.userId !== user.userId) {
-      return sendNotFound(c, 'Resume not found');
-    }
+      // Verify the resume belongs to the user
+      const resume = await db.select()
+        .from(resumes)
+        .where(eq(resumes.id, resumeId))
+        .get();
 
-    // Get the file data from the request
-    const fileData = await c.req.arrayBuffer();
-    
-    if (!fileData || fileData.byteLength === 0) {
-      return sendError(c, 'No file data provided', 400);
-    }
+      if (!resume || resume.userId !== user.userId) {
+        return sendNotFound(c, 'Resume not found');
+      }
 
-    // Upload to R2
-    await config.storage.bucket.put(resume.fileKey, fileData, {
-      httpMetadata: {
-        contentType: resume.mimeType,
+      // Reject oversized bodies before buffering them, and enforce the limit while reading chunked ones
+      const contentLength = parseInt(c.req.header('Content-Length') ?? '0', 10);
+      const fileData = contentLength > maxSize ? null : await readBodyWithLimit(c.req.raw, maxSize);
+      if (!fileData) {
+        return sendError(c, 'File exceeds the size limit for your plan', 413);
       }
-    });
 
-    return sendSuccess(c, {
-      message: 'File uploaded successfully',
-      fileKey: resume.fileKey,
-      size: fileData.byteLength
-    });
+      if (fileData.byteLength === 0) {
+        return sendError(c, 'No file data provided', 400);
+      }
 
-  } catch (error) {
-    return handleError(c, error, 'File upload failed');
+      const validation = validateResumeFile(fileData, resume.filename, user.plan);
+      if (!validation.valid) {
+        return sendError(c, validation.error, validation.status);
+      }
+
+      // Upload to R2
+      await config.storage.bucket.put(resume.fileKey, fileData, {
+        httpMetadata: {
+          contentType: validation.mimeType,
+        }
+      });
+
+      const updated = await db.update(resumes)
+        .set({
+          fileSize: fileData.byteLength,
+          mimeType: validation.mimeType,
+          updatedAt: new Date().toISOString()
+        })
+        .where(eq(resumes.id, resumeId))
+        .returning();
+
+      // Extract and cache the text once so later reads don't touch R2
+      let extractionStatus: 'completed' | 'failed' = 'completed';
+      let extractionError: string | null = null;
+      try {
+        await extractAndCacheResumeText(db, updated[0], fileData);
+      } catch (error) {
+        // The file is stored either way - report the failure rather than rejecting the upload
+        extractionStatus = 'failed';
+        extractionError = error instanceof Error ? error.message : 'Text extraction failed';
+      }
+
+      // Only a readable resume is charged for
+      const creditsUsed = extractionError ? 0 : CreditManager.COSTS.RESUME_UPLOAD;
+      const remainingCredits = creditsUsed > 0
+        ? await deductCreditsAfterOperation(c, creditsUsed, 'resume-replace', Date.now() - startTime)
+        : await CreditManager.getUserCredits(db, user.userId);
+
+      return sendSuccess(c, {
+        message: 'File uploaded successfully',
+        fileKey: resume.fileKey,
+        size: fileData.byteLength,
+        extractionStatus,
+        extractionError,
+        creditsUsed,
+        remainingCredits
+      });
+
+    } catch (error) {
+      return handleError(c, error, 'File upload failed');
+    }
   }
-});
+);
 
 // Get user's resumes
 resumeRoutes.get('/', zValidator('query', paginationSchema), async (c) => {
@@ -118,7 +229,7 @@ resumeRoutes.get('/', zValidator('query', paginationSchema), async (c) => {
 
     const offset = (page - 1) * limit;
 
-    const userResumes = await db.select()
+    const userResumes = await db.select(resumeListColumns)
       .from(resumes)
       .where(eq(resumes.userId, user.userId))
       .orderBy(desc(resumes.createdAt))
@@ -145,7 +256,6 @@ resumeRoutes.get('/:id/content', async (c) => {
   try {
     const { user, db } = getAuthContext(c);
     const resumeId = c.req.param('id');
-    const config = getConfig();
 
     const resume = await db.select()
       .from(resumes)
@@ -156,41 +266,339 @@ resumeRoutes.get('/:id/content', async (c) => {
       return sendNotFound(c, 'Resume not found');
     }
 
-    // Get file from R2
-    const resumeFile = await config.storage.bucket.get(resume.fileKey);
-    if (!resumeFile) {
-      return sendNotFound(c, 'Resume file not found');
-    }
-
-    // Extract text content using AI - handle different file types properly
-    const ai = new AIService();
-    let fileContent: string;
-    
-    if (resume.mimeType.includes('pdf')) {
-      // For PDFs, read as binary and convert to base64 using Web APIs
-      const fileBuffer = await resumeFile.arrayBuffer();
-      const uint8Array = new Uint8Array(fileBuffer);
-      const binaryString = Array.from(uint8Array, byte => String.fromCharCode(byte)).join('');
-      fileContent = btoa(binaryString);
-    } else {
-      // For text-based files, read as text
-      fileContent = await resumeFile.text();
-    }
-    
-    const extractedText = await ai.extractTextFromResume(fileContent, resume.mimeType);
+    // Use the cached text, extracting it on first access
+    const extractedText = await getResumeText(db, resume);
 
     return sendSuccess(c, {
       id: resume.id,
       filename: resume.filename,
       content: extractedText,
-      extractedAt: new Date().toISOString()
+      extractedAt: resume.textExtractedAt ?? new Date().toISOString()
     });
 
   } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      return sendError(c, error.message, error.code === 'missing_file' ? 404 : 422);
+    }
     return handleError(c, error, 'Failed to get resume content');
   }
 });
 
+// Re-run text extraction for a resume, replacing the cached text
+resumeRoutes.post('/:id/extract', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const resumeId = c.req.param('id');
+
+    const resume = await db.select()
+      .from(resumes)
+      .where(eq(resumes.id, resumeId))
+      .get();
+
+    if (!resume || resume.userId !== user.userId) {
+      return sendNotFound(c, 'Resume not found');
+    }
+
+    const updatedResume = await extractAndCacheResumeText(db, resume);
+
+    return sendSuccess(c, {
+      id: updatedResume.id,
+      filename: updatedResume.filename,
+      extractionStatus: updatedResume.extractionStatus,
+      textExtractedAt: updatedResume.textExtractedAt,
+      contentLength: updatedResume.extractedText?.length ?? 0
+    });
+
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      return sendError(c, error.message, error.code === 'missing_file' ? 404 : 422);
+    }
+    return handleError(c, error, 'Failed to extract resume text');
+  }
+});
+
+// Parse resume text into a structured profile
+resumeRoutes.post('/:id/parse',
+  zValidator('query', parseResumeQuerySchema),
+  async (c) => {
+    const startTime = Date.now();
+
+    try {
+      const { user, db } = getAuthContext(c);
+      const resumeId = c.req.param('id');
+      const { quality } = c.req.valid('query');
+      const cost = getQualityCost(CreditManager.COSTS.RESUME_ANALYSIS, user.plan, quality);
+
+      if (!(await CreditManager.checkCredits(db, user.userId, cost))) {
+        return sendInsufficientCredits(c);
+      }
+
+      const resume = await db.select()
+        .from(resumes)
+        .where(eq(resumes.id, resumeId))
+        .get();
+
+      if (!resume || resume.userId !== user.userId) {
+        return sendNotFound(c, 'Resume not found');
+      }
+
+      const resumeText = await getResumeText(db, resume);
+
+      const ai = new AIService({ plan: user.plan, quality });
+      const prompt = await resolvePrompt(db, 'resume_parse', user.userId);
+      const result = await ai.parseResume(resumeText, prompt);
+
+      // One profile per resume - re-parsing replaces it
+      const now = new Date().toISOString();
+      const savedProfile = await db.insert(resumeProfiles).values({
+        id: crypto.randomUUID(),
+        resumeId,
+        userId: user.userId,
+        profile: JSON.stringify(result.profile),
+        skills: JSON.stringify(result.profile.skills),
+        tokensUsed: result.tokensUsed,
+        createdAt: now,
+        updatedAt: now
+      }).onConflictDoUpdate({
+        target: resumeProfiles.resumeId,
+        set: {
+          profile: JSON.stringify(result.profile),
+          skills: JSON.stringify(result.profile.skills),
+          tokensUsed: result.tokensUsed,
+          updatedAt: now
+        }
+      }).returning();
+
+      // Deduct credits and get remaining
+      const responseTime = Date.now() - startTime;
+      const remainingCredits = await deductCreditsAfterOperation(
+        c,
+        cost,
+        'parse-resume',
+        responseTime,
+        ai.servedBy
+      );
+
+      return sendSuccess(c, {
+        id: savedProfile[0].id,
+        resumeId,
+        profile: result.profile,
+        tokensUsed: result.tokensUsed,
+        remainingCredits
+      });
+
+    } catch (error) {
+      if (error instanceof DocumentExtractionError) {
+        return sendError(c, error.message, error.code === 'missing_file' ? 404 : 422);
+      }
+      return handleError(c, error, 'Resume parsing failed');
+    }
+  }
+);
+
+// Get the structured profile of a parsed resume
+resumeRoutes.get('/:id/profile', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const resumeId = c.req.param('id');
+
+    const record = await db.select()
+      .from(resumeProfiles)
+      .where(eq(resumeProfiles.resumeId, resumeId))
+      .get();
+
+    if (!record || record.userId !== user.userId) {
+      return sendNotFound(c, 'Resume profile not found. Parse the resume first.');
+    }
+
+    return sendSuccess(c, {
+      id: record.id,
+      resumeId: record.resumeId,
+      profile: JSON.parse(record.profile) as ResumeProfile,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch resume profile');
+  }
+});
+
+// Rewrite a resume for a specific job, saved as a new Markdown resume linked to the original
+resumeRoutes.post('/:id/tailor',
+  zValidator('json', tailorResumeSchema),
+  async (c) => {
+    const startTime = Date.now();
+
+    try {
+      const { user, db } = getAuthContext(c);
+      const resumeId = c.req.param('id');
+      const { extractedJobId, quality } = c.req.valid('json');
+      const config = getConfig();
+      const cost = getQualityCost(CreditManager.COSTS.RESUME_TAILORING, user.plan, quality);
+
+      if (!(await CreditManager.checkCredits(db, user.userId, cost))) {
+        return sendInsufficientCredits(c);
+      }
+
+      const resume = await db.select()
+        .from(resumes)
+        .where(eq(resumes.id, resumeId))
+        .get();
+
+      if (!resume || resume.userId !== user.userId) {
+        return sendNotFound(c, 'Resume not found');
+      }
+
+      const job = await db.select()
+        .from(extractedJobs)
+        .where(eq(extractedJobs.id, extractedJobId))
+        .get();
+
+      if (!job || job.userId !== user.userId) {
+        return sendNotFound(c, 'Job not found');
+      }
+
+      const resumeText = await getResumeText(db, resume);
+      const formattedJob = {
+        title: job.title,
+        company: job.company,
+        description: job.description,
+        skills: job.skills ? JSON.parse(job.skills) as string[] : [],
+        requirements: job.requirements ? JSON.parse(job.requirements) as string[] : []
+      };
+
+      const ai = new AIService({ plan: user.plan, quality });
+      const prompt = await resolvePrompt(db, 'resume_tailor', user.userId);
+      const result = await ai.tailorResume(
+        formattedJob,
+        resumeText,
+        matchResumeToJob(resumeText, formattedJob),
+        prompt
+      );
+
+      const baseName = resume.filename.replace(/\.[^.]+$/, '');
+      const filename = `${baseName} - ${job.company || job.title || 'tailored'}.md`;
+      const fileKey = `resumes/${user.userId}/${crypto.randomUUID()}-${sanitizeFilename(filename)}`;
+      const fileData = new TextEncoder().encode(result.content);
+
+      await config.storage.bucket.put(fileKey, fileData, {
+        httpMetadata: {
+          contentType: RESUME_MIME_TYPES.md,
+        }
+      });
+
+      let tailoredResume: Resume;
+      try {
+        // The Markdown is the text, so no extraction is needed
+        const now = new Date().toISOString();
+        const inserted = await db.insert(resumes).values({
+          id: crypto.randomUUID(),
+          userId: user.userId,
+          filename,
+          fileKey,
+          fileSize: fileData.byteLength,
+          mimeType: RESUME_MIME_TYPES.md,
+          extractedText: result.content,
+          extractionStatus: 'completed',
+          textExtractedAt: now,
+          parentResumeId: resume.id,
+          tailoredForJobId: job.id,
+          createdAt: now,
+          updatedAt: now
+        }).returning();
+        tailoredResume = inserted[0];
+      } catch (error) {
+        await config.storage.bucket.delete(fileKey);
+        throw error;
+      }
+
+      // Deduct credits and get remaining
+      const responseTime = Date.now() - startTime;
+      const remainingCredits = await deductCreditsAfterOperation(
+        c,
+        cost,
+        'tailor-resume',
+        responseTime,
+        ai.servedBy
+      );
+
+      const { extractedText, ...resumeInfo } = tailoredResume;
+
+      return sendSuccess(c, {
+        resume: resumeInfo,
+        content: result.content,
+        tokensUsed: result.tokensUsed,
+        remainingCredits
+      }, 201);
+
+    } catch (error) {
+      if (error instanceof DocumentExtractionError) {
+        return sendError(c, error.message, error.code === 'missing_file' ? 404 : 422);
+      }
+      return handleError(c, error, 'Resume tailoring failed');
+    }
+  }
+);
+
+// Download a resume as the original file, Markdown or DOCX
+resumeRoutes.get('/:id/download', zValidator('query', resumeDownloadSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const resumeId = c.req.param('id');
+    const { format } = c.req.valid('query');
+    const config = getConfig();
+
+    const resume = await db.select()
+      .from(resumes)
+      .where(eq(resumes.id, resumeId))
+      .get();
+
+    if (!resume || resume.userId !== user.userId) {
+      return sendNotFound(c, 'Resume not found');
+    }
+
+    const baseName = sanitizeFilename(resume.filename.replace(/\.[^.]+$/, ''));
+    let body: ArrayBuffer | Uint8Array | string;
+    let contentType: string;
+    let filename: string;
+
+    // Files already in the requested format are served as stored
+    const servesOriginal = format === 'original'
+      || (format === 'md' && resume.mimeType === RESUME_MIME_TYPES.md)
+      || (format === 'docx' && resume.mimeType === RESUME_MIME_TYPES.docx);
+
+    if (servesOriginal) {
+      const file = await config.storage.bucket.get(resume.fileKey);
+      if (!file) {
+        return sendNotFound(c, 'Resume file not found');
+      }
+      body = await file.arrayBuffer();
+      contentType = resume.mimeType;
+      filename = sanitizeFilename(resume.filename);
+    } else if (format === 'md') {
+      body = await getResumeText(db, resume);
+      contentType = RESUME_MIME_TYPES.md;
+      filename = `${baseName}.md`;
+    } else {
+      body = markdownToDocx(await getResumeText(db, resume));
+      contentType = RESUME_MIME_TYPES.docx;
+      filename = `${baseName}.docx`;
+    }
+
+    return c.body(body, 200, {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`
+    });
+
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      return sendError(c, error.message, error.code === 'missing_file' ? 404 : 422);
+    }
+    return handleError(c, error, 'Failed to download resume');
+  }
+});
+
 // Get specific resume
 resumeRoutes.get('/:id', async (c) => {
   try {
@@ -214,7 +622,7 @@ resumeRoutes.get('/:id', async (c) => {
 });
 
 // Update resume
-resumeRoutes.put('/:id', zValidator('json', uploadResumeSchema), async (c) => {
+resumeRoutes.put('/:id', zValidator('json', updateResumeSchema), async (c) => {
   try {
     const { user, db } = getAuthContext(c);
     const resumeId = c.req.param('id');
@@ -260,13 +668,13 @@ resumeRoutes.delete('/:id', async (c) => {
       return sendNotFound(c, 'Resume not found');
     }
 
-    // Delete file from R2
-    await config.storage.bucket.delete(resume.fileKey);
-
-    // Delete from database
+    // Delete from database first, so a failed delete doesn't leave the row pointing at a missing file
     await db.delete(resumes)
       .where(eq(resumes.id, resumeId));
 
+    // Delete file from R2
+    await config.storage.bucket.delete(resume.fileKey);
+
     return sendSuccess(c, { message: 'Resume deleted successfully' });
 
   } catch (error) {
@@ -0,0 +1,148 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { eq, desc } from 'drizzle-orm';
+import { formatTemplate } from '../lib/coverLetterTemplates';
+import { createTemplateSchema, updateTemplateSchema } from '../lib/validation';
+import { coverLetterTemplates } from '../db/schema';
+import { authContextMiddleware, getAuthContext } from '../middleware/authContext';
+import { sendSuccess, sendNotFound, handleError } from '../lib/responses';
+import type { AppEnv } from '../types/env';
+
+const templateRoutes = new Hono<AppEnv>();
+
+// All routes require authentication
+templateRoutes.use('*', authContextMiddleware);
+
+// Create a cover letter template
+templateRoutes.post('/', zValidator('json', createTemplateSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const data = c.req.valid('json');
+
+    const now = new Date().toISOString();
+    const inserted = await db.insert(coverLetterTemplates).values({
+      id: crypto.randomUUID(),
+      userId: user.userId,
+      name: data.name,
+      instructions: data.instructions ?? null,
+      opening: data.opening ?? null,
+      closing: data.closing ?? null,
+      avoidPhrases: data.avoidPhrases.length > 0 ? JSON.stringify(data.avoidPhrases) : null,
+      signature: data.signature ?? null,
+      preferences: data.preferences ? JSON.stringify(data.preferences) : null,
+      createdAt: now,
+      updatedAt: now
+    }).returning();
+
+    return sendSuccess(c, formatTemplate(inserted[0]), 201);
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to create template');
+  }
+});
+
+// Get user's templates (most recently updated first)
+templateRoutes.get('/', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+
+    const templates = await db.select()
+      .from(coverLetterTemplates)
+      .where(eq(coverLetterTemplates.userId, user.userId))
+      .orderBy(desc(coverLetterTemplates.updatedAt));
+
+    return sendSuccess(c, { templates: templates.map(formatTemplate) });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch templates');
+  }
+});
+
+// Get specific template
+templateRoutes.get('/:id', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const templateId = c.req.param('id');
+
+    const template = await db.select()
+      .from(coverLetterTemplates)
+      .where(eq(coverLetterTemplates.id, templateId))
+      .get();
+
+    if (!template || template.userId !== user.userId) {
+      return sendNotFound(c, 'Template not found');
+    }
+
+    return sendSuccess(c, formatTemplate(template));
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to fetch template');
+  }
+});
+
+// Update template
+templateRoutes.put('/:id', zValidator('json', updateTemplateSchema), async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const templateId = c.req.param('id');
+    const data = c.req.valid('json');
+
+    const template = await db.select()
+      .from(coverLetterTemplates)
+      .where(eq(coverLetterTemplates.id, templateId))
+      .get();
+
+    if (!template || template.userId !== user.userId) {
+      return sendNotFound(c, 'Template not found');
+    }
+
+    const updated = await db.update(coverLetterTemplates)
+      .set({
+        name: data.name,
+        instructions: data.instructions,
+        opening: data.opening,
+        closing: data.closing,
+        avoidPhrases: data.avoidPhrases === undefined ? undefined
+          : data.avoidPhrases.length > 0 ? JSON.stringify(data.avoidPhrases) : null,
+        signature: data.signature,
+        preferences: data.preferences === undefined ? undefined
+          : data.preferences ? JSON.stringify(data.preferences) : null,
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(coverLetterTemplates.id, templateId))
+      .returning();
+
+    return sendSuccess(c, formatTemplate(updated[0]));
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to update template');
+  }
+});
+
+// Delete template - letters generated with it keep their text
+templateRoutes.delete('/:id', async (c) => {
+  try {
+    const { user, db } = getAuthContext(c);
+    const templateId = c.req.param('id');
+
+    const template = await db.select()
+      .from(coverLetterTemplates)
+      .where(eq(coverLetterTemplates.id, templateId))
+      .get();
+
+    if (!template || template.userId !== user.userId) {
+      return sendNotFound(c, 'Template not found');
+    }
+
+    // Letters generated with it are unlinked by the foreign key (ON DELETE SET NULL)
+    await db.delete(coverLetterTemplates)
+      .where(eq(coverLetterTemplates.id, templateId));
+
+    return sendSuccess(c, { message: 'Template deleted successfully' });
+
+  } catch (error) {
+    return handleError(c, error, 'Failed to delete template');
+  }
+});
+
+export { templateRoutes };
@@ -1,11 +1,24 @@
 import type { InferSelectModel, InferInsertModel } from 'drizzle-orm';
-import type { users, resumes, extractedJobs, coverLetters, apiUsage, subscriptions, payments, creditTransactions } from '../db/schema';
+import type { z } from 'zod';
+import type { users, resumes, resumeProfiles, extractedJobs, jobMatches, coverLetterTemplates, promptTemplates, promptExperiments, coverLetters, coverLetterVersions, applications, applicationStatusChanges, applicationDocuments, apiUsage, subscriptions, payments, creditTransactions } from '../db/schema';
+import type { resumeProfileSchema, jobMatchAnalysisSchema, coverLetterCritiqueSchema, jobExtractionDataSchema } from '../lib/validation';
+import type { JobFieldSources } from '../lib/jobPosting';
+import type { LetterLanguage } from '../lib/languages';
 
 // Select types (what you get when querying)
 export type User = InferSelectModel<typeof users>;
 export type Resume = InferSelectModel<typeof resumes>;
+export type ResumeProfileRecord = InferSelectModel<typeof resumeProfiles>;
 export type ExtractedJob = InferSelectModel<typeof extractedJobs>;
+export type JobMatch = InferSelectModel<typeof jobMatches>;
+export type CoverLetterTemplate = InferSelectModel<typeof coverLetterTemplates>;
+export type PromptTemplate = InferSelectModel<typeof promptTemplates>;
+export type PromptExperiment = InferSelectModel<typeof promptExperiments>;
 export type CoverLetter = InferSelectModel<typeof coverLetters>;
+export type CoverLetterVersion = InferSelectModel<typeof coverLetterVersions>;
+export type Application = InferSelectModel<typeof applications>;
+export type ApplicationStatusChange = InferSelectModel<typeof applicationStatusChanges>;
+export type ApplicationDocument = InferSelectModel<typeof applicationDocuments>;
 export type ApiUsage = InferSelectModel<typeof apiUsage>;
 export type Subscription = InferSelectModel<typeof subscriptions>;
 export type Payment = InferSelectModel<typeof payments>;
@@ -14,47 +27,90 @@ export type CreditTransaction = InferSelectModel<typeof creditTransactions>;
 // Insert types (what you need when inserting)
 export type NewUser = InferInsertModel<typeof users>;
 export type NewResume = InferInsertModel<typeof resumes>;
+export type NewResumeProfileRecord = InferInsertModel<typeof resumeProfiles>;
 export type NewExtractedJob = InferInsertModel<typeof extractedJobs>;
+export type NewJobMatch = InferInsertModel<typeof jobMatches>;
+export type NewCoverLetterTemplate = InferInsertModel<typeof coverLetterTemplates>;
+export type NewPromptTemplate = InferInsertModel<typeof promptTemplates>;
+export type NewPromptExperiment = InferInsertModel<typeof promptExperiments>;
 export type NewCoverLetter = InferInsertModel<typeof coverLetters>;
+export type NewCoverLetterVersion = InferInsertModel<typeof coverLetterVersions>;
+export type NewApplication = InferInsertModel<typeof applications>;
+export type NewApplicationStatusChange = InferInsertModel<typeof applicationStatusChanges>;
+export type NewApplicationDocument = InferInsertModel<typeof applicationDocuments>;
 export type NewApiUsage = InferInsertModel<typeof apiUsage>;
 export type NewSubscription = InferInsertModel<typeof subscriptions>;
 export type NewPayment = InferInsertModel<typeof payments>;
 export type NewCreditTransaction = InferInsertModel<typeof creditTransactions>;
 
 // Formatted job type (with parsed JSON fields)
-export interface FormattedExtractedJob extends Omit<ExtractedJob, 'requirements' | 'benefits' | 'skills'> {
+export interface FormattedExtractedJob extends Omit<ExtractedJob, 'requirements' | 'benefits' | 'skills' | 'fieldSources'> {
   requirements: string[];
   benefits: string[];
   skills: string[];
+  fieldSources: JobFieldSources;
 }
 
+// Structured resume profile produced by AI parsing
+export type ResumeProfile = z.infer<typeof resumeProfileSchema>;
+
+// Formatted job match (with parsed JSON fields)
+export interface FormattedJobMatch extends Omit<JobMatch, 'matchedSkills' | 'missingSkills' | 'matchedRequirements' | 'missingRequirements' | 'recommendations'> {
+  matchedSkills: string[];
+  missingSkills: string[];
+  matchedRequirements: string[];
+  missingRequirements: string[];
+  recommendations: string[];
+}
+
+// Application pipeline status
+export type ApplicationStatus = Application['status'];
+
+// Application with its status history
+export interface ApplicationWithHistory extends Application {
+  history: ApplicationStatusChange[];
+}
+
+// Kind of application document (outreach, thank-you, follow-up, ...)
+export type ApplicationDocumentType = ApplicationDocument['type'];
+
+// AI assessment of how well a resume fits a job
+export type JobMatchAnalysis = z.infer<typeof jobMatchAnalysisSchema>;
+
+// AI critique of a cover letter
+export type CoverLetterCritique = z.infer<typeof coverLetterCritiqueSchema>;
+
+// Share of users an experiment variant gets, relative to the other variants' weights
+export interface PromptExperimentVariant {
+  version: number;
+  weight: number;
+}
+
+// Prompt experiment (with parsed JSON fields)
+export interface FormattedPromptExperiment extends Omit<PromptExperiment, 'variants'> {
+  variants: PromptExperimentVariant[];
+}
+
+// Who wrote a cover letter version
+export type CoverLetterVersionSource = CoverLetterVersion['source'];
+
 // Cover letter generation preferences
 export interface CoverLetterPreferences {
   tone?: 'professional' | 'casual' | 'enthusiastic';
   focus?: 'experience' | 'skills' | 'achievements';
   length?: 'short' | 'medium' | 'long';
+  language?: LetterLanguage;
 }
 
-// Job extraction data - matches what AI service expects/returns
-export interface JobExtractionData {
-  title?: string;
-  company?: string;
-  location?: string;
-  description?: string;
-  salary?: string;
-  jobType?: string;
-  experience?: string;
-  requirements?: string[];
-  skills?: string[];
-  benefits?: string[];
-  industry?: string;
-  remote?: string;
-  pageType: string;
-  confidence: number;
-  url: string;
-  domain: string;
+// Formatted cover letter template (with parsed JSON fields)
+export interface FormattedCoverLetterTemplate extends Omit<CoverLetterTemplate, 'avoidPhrases' | 'preferences'> {
+  avoidPhrases: string[];
+  preferences: CoverLetterPreferences | null;
 }
 
+// Job extraction data - matches what AI service expects/returns
+export type JobExtractionData = z.infer<typeof jobExtractionDataSchema>;
+
 // Validation error details
 export interface ValidationErrorDetail {
   field: string;
@@ -1,17 +1,29 @@
 import type { Database } from '../lib/db';
+import type { WorkersAIBinding } from '../lib/llm';
 
 export interface Env {
   DB: D1Database;
   BUCKET: R2Bucket;
   RATE_LIMIT_KV: KVNamespace; // KV for rate limiting
   EXTENSION_KV: KVNamespace;   // KV for extension data
-  OPENAI_API_KEY: string;
+  AI?: WorkersAIBinding;       // Workers AI binding, for "workers-ai:" models
+  OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  OPENAI_COMPATIBLE_BASE_URL?: string; // e.g. a self-hosted vLLM or Ollama server
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  AI_MODEL?: string;           // Standard-tier "provider:model", e.g. "openai:gpt-4o"
+  AI_FAST_MODEL?: string;      // Fast-tier "provider:model"
+  AI_PREMIUM_MODEL?: string;   // Premium-tier "provider:model"
+  AI_OPERATION_MODELS?: string; // JSON object of operation -> "provider:model"
+  AI_TIMEOUT_MS?: string;      // Per-attempt AI request timeout
+  AI_MAX_RETRIES?: string;     // Retries for rate-limited or failed AI requests
   STRIPE_SECRET_KEY: string;
   STRIPE_WEBHOOK_SECRET: string;
   JWT_SECRET: string;
   EXTENSION_SECRET: string;
   VALID_EXTENSION_IDS: string; // JSON string array
   TEST_API_KEY?: string;       // Optional for development
+  ADMIN_API_KEY?: string;      // Enables the admin API (prompt management)
   ENVIRONMENT: 'development' | 'staging' | 'production';
   [key: string]: unknown;
 }
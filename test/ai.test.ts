@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createTestWorker, useFakeProvider, type TestWorker } from './helpers/testWorker';
+import { initializeConfig, resetConfig } from '../src/lib/config';
+import { AIService } from '../src/lib/ai';
+import { AIError } from '../src/lib/llm';
+
+const RESUME_TEXT = 'Alex Candidate\nSoftware Engineer at Acme Inc, 2020 - present';
+const JOB = { title: 'Data Engineer', company: 'Initech', description: 'Own the data platform.', skills: ['SQL'], requirements: [] };
+
+describe('AIService.servedBy', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker({ AI_OPERATION_MODELS: JSON.stringify({ resumeTailoring: 'fake:tailoring' }) });
+    initializeConfig(worker.env);
+  });
+
+  afterAll(async () => {
+    resetConfig();
+    await worker?.dispose();
+  });
+
+  it('is null before any call', () => {
+    expect(new AIService({ plan: 'free' }).servedBy).toBeNull();
+  });
+
+  it('records the routed model and tier', async () => {
+    useFakeProvider();
+    const ai = new AIService({ plan: 'free', quality: 'fast' });
+
+    await ai.parseResume(RESUME_TEXT);
+
+    expect(ai.servedBy).toEqual({ model: 'fake:fast', tier: 'fast' });
+  });
+
+  it('records every model that served a call, each once', async () => {
+    const provider = useFakeProvider();
+    const ai = new AIService({ plan: 'free' });
+
+    await ai.parseResume(RESUME_TEXT);
+    await ai.tailorResume(JOB, RESUME_TEXT);
+    await ai.parseResume(RESUME_TEXT);
+
+    expect(provider.requests.map(request => request.model)).toEqual(['standard', 'tailoring', 'standard']);
+    expect(ai.servedBy).toEqual({ model: 'fake:standard,fake:tailoring', tier: 'standard' });
+  });
+});
+
+describe('AIService structured output repair', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+    initializeConfig(worker.env);
+  });
+
+  afterAll(async () => {
+    resetConfig();
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  const KEYWORD_MATCH = { score: 50, matchedSkills: ['SQL'], missingSkills: [], matchedRequirements: [], missingRequirements: [], recommendations: [] };
+
+  // Answers with each response in turn, repeating the last
+  function scripted(...responses: string[]) {
+    return useFakeProvider({ respond: () => responses.length > 1 ? responses.shift() : responses[0] });
+  }
+
+  it('sends invalid output back once with the errors, and uses the repaired answer', async () => {
+    const provider = scripted(
+      '{"score": 140, "summary": "Strong match"}',
+      '{"score": 85, "summary": "Strong match"}'
+    );
+    const ai = new AIService({ plan: 'free' });
+
+    const { analysis } = await ai.analyzeJobMatch(JOB, RESUME_TEXT, KEYWORD_MATCH);
+
+    expect(analysis).toEqual({ score: 85, summary: 'Strong match', recommendations: [] });
+    expect(provider.requests).toHaveLength(2);
+    const repair = provider.requests[1].messages.slice(-2);
+    expect(repair[0]).toEqual({ role: 'assistant', content: '{"score": 140, "summary": "Strong match"}' });
+    expect(repair[1].role).toBe('user');
+    expect(repair[1].content).toContain('- score: Number must be less than or equal to 100');
+  });
+
+  it('repairs only once', async () => {
+    const provider = scripted('{"score": "high"}');
+    const ai = new AIService({ plan: 'free' });
+
+    const error = await ai.analyzeJobMatch(JOB, RESUME_TEXT, KEYWORD_MATCH).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AIError);
+    expect(error).toMatchObject({ code: 'invalid_output' });
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('keeps the valid fields of a job extraction that is still partly invalid after repair', async () => {
+    const provider = scripted(JSON.stringify({
+      title: 'Data Engineer',
+      company: 'Initech',
+      pageType: 'job',
+      confidence: 3,
+      url: 'https://careers.initech.com/jobs/42',
+      domain: 'careers.initech.com'
+    }));
+    const ai = new AIService({ plan: 'free' });
+
+    const result = await ai.extractJobFromHTML('<h1>Data Engineer</h1>', 'https://careers.initech.com/jobs/42', 'Data Engineer');
+
+    expect(provider.requests).toHaveLength(2);
+    expect(result.status).toBe('partial');
+    expect(result.jobData).toMatchObject({ title: 'Data Engineer', company: 'Initech' });
+    expect(result.jobData).not.toHaveProperty('confidence');
+    expect(result.fieldValidity).toMatchObject({ title: 'valid', confidence: 'invalid', salary: 'missing' });
+  });
+
+  it('does not re-prompt valid output', async () => {
+    const provider = scripted('{"score": 70, "summary": "Good match", "recommendations": ["Mention SQL"]}');
+    const ai = new AIService({ plan: 'free' });
+
+    await ai.analyzeJobMatch(JOB, RESUME_TEXT, KEYWORD_MATCH);
+
+    expect(provider.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { checkCoverLetter, numberLines } from '../src/lib/coverLetterReview';
+
+const JOB = {
+  company: 'Globex',
+  skills: ['TypeScript', 'Node.js', 'Kubernetes', 'Go'],
+  requirements: ['Experience running PostgreSQL databases in production', 'Mentoring junior engineers']
+};
+
+const LETTER = `Dear Globex team,
+
+I have spent four years building TypeScript services on Node and k8s, running PostgreSQL databases in production for 2 million users.
+
+Best regards,
+Alex Candidate`;
+
+describe('checkCoverLetter', () => {
+  describe('keyword coverage', () => {
+    it('splits the posting into matched and missing skills and requirements, counting aliases', () => {
+      const { keywordCoverage } = checkCoverLetter(LETTER, JOB);
+
+      expect(keywordCoverage).toEqual({
+        score: 65, // 3 of 4 skills weighted 0.6, 1 of 2 requirements weighted 0.4
+        matchedSkills: ['TypeScript', 'Node.js', 'Kubernetes'],
+        missingSkills: ['Go'],
+        matchedRequirements: ['Experience running PostgreSQL databases in production'],
+        missingRequirements: ['Mentoring junior engineers']
+      });
+    });
+
+    it('suggests the missing skills and requirements', () => {
+      const { suggestions } = checkCoverLetter(LETTER, JOB);
+
+      expect(suggestions.filter(suggestion => suggestion.category === 'keywords')).toEqual([
+        {
+          category: 'keywords',
+          line: null,
+          suggestion: 'The posting asks for Go - mention any you genuinely have so ATS keyword filters pick them up.'
+        },
+        { category: 'keywords', line: null, suggestion: 'Not addressed: "Mentoring junior engineers"' }
+      ]);
+    });
+
+    it('scores a letter covering everything at 100 with no keyword suggestions', () => {
+      const letter = `${LETTER}\n\nI mentor junior engineers and write Go.`;
+
+      const checks = checkCoverLetter(letter, JOB);
+
+      expect(checks.scores.keywordCoverage).toBe(100);
+      expect(checks.suggestions.some(suggestion => suggestion.category === 'keywords')).toBe(false);
+    });
+
+    it('scores only what the posting has', () => {
+      const skillsOnly = checkCoverLetter(LETTER, { ...JOB, requirements: [] });
+      const requirementsOnly = checkCoverLetter(LETTER, { ...JOB, skills: [] });
+
+      expect(skillsOnly.scores.keywordCoverage).toBe(75);
+      expect(requirementsOnly.scores.keywordCoverage).toBe(50);
+    });
+
+    it('has no coverage without a job or without anything to compare against', () => {
+      expect(checkCoverLetter(LETTER, null)).toMatchObject({ keywordCoverage: null, scores: { keywordCoverage: null } });
+      expect(checkCoverLetter(LETTER, { company: 'Globex', skills: [], requirements: [] }).keywordCoverage).toBeNull();
+    });
+  });
+
+  it('finds every cliché case-insensitively, with its line', () => {
+    const letter = 'To whom it may concern,\n\nI am a Team Player.\nAlso a team player at heart.';
+
+    const { cliches, scores, suggestions } = checkCoverLetter(letter, null);
+
+    expect(cliches).toEqual([
+      { phrase: 'to whom it may concern', line: 1 },
+      { phrase: 'team player', line: 3 },
+      { phrase: 'team player', line: 4 }
+    ]);
+    expect(scores.cliches).toBe(55);
+    expect(suggestions.find(suggestion => suggestion.category === 'cliches')).toMatchObject({ line: 1, excerpt: 'To whom it may concern' });
+  });
+
+  it('scores length against one readable page', () => {
+    const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+    expect(checkCoverLetter(words(300), null).scores.length).toBe(100);
+    expect(checkCoverLetter(words(175), null).scores.length).toBe(50);
+    expect(checkCoverLetter(words(550), null).scores.length).toBe(50);
+    expect(checkCoverLetter(words(50), null)).toMatchObject({ wordCount: 50, scores: { length: 0 } });
+  });
+
+  it('rewards measurable results and naming the company, and flags paragraphs without evidence', () => {
+    const vague = `Dear team,\n\n${'I worked on various projects and did many things across several teams '.repeat(4)}`;
+
+    const specific = checkCoverLetter(LETTER, JOB);
+    const unspecific = checkCoverLetter(vague, JOB);
+
+    // One sentence with a number, and the company is named
+    expect(specific.scores.specificity).toBe(60);
+    expect(unspecific.scores.specificity).toBe(0);
+    expect(unspecific.suggestions.filter(suggestion => suggestion.category === 'specificity')).toEqual([
+      expect.objectContaining({ line: 3, suggestion: expect.stringContaining('no concrete evidence') }),
+      { category: 'specificity', line: null, suggestion: 'Mention Globex by name and what draws you to it specifically.' }
+    ]);
+  });
+});
+
+describe('numberLines', () => {
+  it('prefixes each line with its 1-based number', () => {
+    expect(numberLines('Dear team,\n\nThanks')).toBe('1: Dear team,\n2: \n3: Thanks');
+  });
+});
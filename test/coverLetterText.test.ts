@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { splitParagraphs, resolveSection, replaceSection } from '../src/lib/coverLetterText';
+
+const LETTER = 'Dear Globex team,\n\nI build dashboards.\nFast ones.\n\n   \n\nBest,\nAlex\n';
+
+describe('splitParagraphs', () => {
+  it('splits on blank lines, skipping whitespace-only blocks', () => {
+    expect(splitParagraphs(LETTER).map(paragraph => paragraph.text)).toEqual([
+      'Dear Globex team,',
+      'I build dashboards.\nFast ones.',
+      'Best,\nAlex'
+    ]);
+  });
+
+  it('reports offsets that point back into the letter', () => {
+    for (const paragraph of splitParagraphs(LETTER)) {
+      expect(LETTER.slice(paragraph.start, paragraph.end)).toBe(paragraph.text);
+    }
+  });
+
+  it('finds nothing in a blank letter', () => {
+    expect(splitParagraphs(' \n\n\t\n')).toEqual([]);
+  });
+});
+
+describe('resolveSection', () => {
+  it('resolves a paragraph index', () => {
+    expect(resolveSection(LETTER, { paragraphIndex: 1 })).toEqual({
+      start: 19,
+      end: 49,
+      text: 'I build dashboards.\nFast ones.'
+    });
+  });
+
+  it('does not count whitespace-only blocks as paragraphs', () => {
+    expect(resolveSection(LETTER, { paragraphIndex: 2 })?.text).toBe('Best,\nAlex');
+    expect(resolveSection(LETTER, { paragraphIndex: 3 })).toBeNull();
+  });
+
+  it('resolves a character range', () => {
+    expect(resolveSection(LETTER, { range: { start: 27, end: 37 } })).toEqual({ start: 27, end: 37, text: 'dashboards' });
+  });
+
+  it('rejects ranges past the end of the letter', () => {
+    expect(resolveSection(LETTER, { range: { start: 60, end: LETTER.length + 1 } })).toBeNull();
+    expect(resolveSection(LETTER, { range: { start: LETTER.length + 5, end: LETTER.length + 10 } })).toBeNull();
+  });
+
+  it('rejects ranges that cover only whitespace', () => {
+    expect(resolveSection(LETTER, { range: { start: 49, end: 56 } })).toBeNull();
+  });
+
+  it('needs an index or a range', () => {
+    expect(resolveSection(LETTER, {})).toBeNull();
+  });
+});
+
+describe('replaceSection', () => {
+  it('replaces a paragraph, keeping the text around it', () => {
+    const section = resolveSection(LETTER, { paragraphIndex: 1 })!;
+
+    expect(replaceSection(LETTER, section, 'I ship dashboards people use.'))
+      .toBe('Dear Globex team,\n\nI ship dashboards people use.\n\n   \n\nBest,\nAlex\n');
+  });
+
+  it('replaces a range inside a paragraph', () => {
+    const section = resolveSection(LETTER, { range: { start: 27, end: 37 } })!;
+
+    expect(replaceSection(LETTER, section, 'reporting tools'))
+      .toBe('Dear Globex team,\n\nI build reporting tools.\nFast ones.\n\n   \n\nBest,\nAlex\n');
+  });
+});
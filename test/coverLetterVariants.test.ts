@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { buildVariantPreferences } from '../src/lib/coverLetterVariants';
+
+describe('buildVariantPreferences', () => {
+  it('starts with the requested preferences, defaulting tone and focus', () => {
+    expect(buildVariantPreferences({ length: 'short' }, 1)).toEqual([
+      { length: 'short', tone: 'professional', focus: 'experience' }
+    ]);
+  });
+
+  it('varies both tone and focus when the user chose neither', () => {
+    const variants = buildVariantPreferences({}, 3);
+
+    expect(variants).toHaveLength(3);
+    for (const [index, variant] of variants.entries()) {
+      for (const other of variants.slice(index + 1)) {
+        expect(other.tone).not.toBe(variant.tone);
+        expect(other.focus).not.toBe(variant.focus);
+      }
+    }
+  });
+
+  it("keeps the user's tone, varying the focus", () => {
+    const variants = buildVariantPreferences({ tone: 'casual' }, 3);
+
+    expect(variants.map(variant => variant.tone)).toEqual(['casual', 'casual', 'casual']);
+    expect(new Set(variants.map(variant => variant.focus)).size).toBe(3);
+  });
+
+  it("keeps the user's focus, varying the tone", () => {
+    const variants = buildVariantPreferences({ focus: 'skills' }, 3);
+
+    expect(variants.map(variant => variant.focus)).toEqual(['skills', 'skills', 'skills']);
+    expect(new Set(variants.map(variant => variant.tone)).size).toBe(3);
+  });
+
+  it('only overrides a choice when both were made', () => {
+    const variants = buildVariantPreferences({ tone: 'enthusiastic', focus: 'achievements', language: 'de' }, 2);
+
+    expect(variants[0]).toEqual({ tone: 'enthusiastic', focus: 'achievements', language: 'de' });
+    expect(variants[1]).toMatchObject({ language: 'de' });
+    // Still different, but sharing one of the choices
+    const kept = (variants[1].tone === 'enthusiastic' ? 1 : 0) + (variants[1].focus === 'achievements' ? 1 : 0);
+    expect(kept).toBe(1);
+  });
+});
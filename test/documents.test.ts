@@ -0,0 +1,209 @@
+import { readFileSync } from 'node:fs';
+import { deflateSync, deflateRawSync } from 'node:zlib';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { extractDocumentText, detectDocumentType, DocumentExtractionError } from '../src/lib/documentText';
+import { extractPdfText, createPdf } from '../src/lib/pdf';
+import { extractDocxText, markdownToDocx } from '../src/lib/docx';
+import { readZipEntries, readZipEntry, createZip } from '../src/lib/zip';
+import { inflate, DecompressionLimitError, MAX_DECOMPRESSED_BYTES } from '../src/lib/binary';
+
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(new URL(`./fixtures/documents/${name}`, import.meta.url)));
+}
+
+async function extractionError(data: Uint8Array, mimeType: string): Promise<DocumentExtractionError> {
+  const error = await extractDocumentText(data, mimeType).catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(DocumentExtractionError);
+  return error as DocumentExtractionError;
+}
+
+describe('PDF text extraction', () => {
+  it('reads Flate content streams, form XObjects and ToUnicode fonts kept in an object stream', async () => {
+    const result = await extractPdfText(fixture('resume.pdf'));
+
+    expect(result).toMatchObject({ pageCount: 2, imageCount: 0, encrypted: false });
+    expect(result.text.split('\n').map(line => line.trim())).toEqual([
+      'Alex Candidate',
+      'Senior Software Engineer', // Word gaps from TJ kerning
+      '“Quoted” (with parens) – 2020', // WinAnsi quotes and dash, escaped parentheses
+      'Contact: alex@example.com', // From the form XObject
+      'Skills', // Two-byte codes through the CMap; the unmapped one is dropped
+      ''
+    ]);
+  });
+
+  it('reports an encrypted PDF without reading its streams', async () => {
+    expect(await extractPdfText(fixture('encrypted.pdf'))).toEqual({ text: '', pageCount: 0, imageCount: 0, encrypted: true });
+
+    const error = await extractionError(fixture('encrypted.pdf'), 'application/pdf');
+    expect(error.code).toBe('encrypted_pdf');
+  });
+
+  it('counts the images of a scanned PDF so it is not mistaken for an empty one', async () => {
+    expect(await extractPdfText(fixture('scanned.pdf'))).toEqual({ text: '', pageCount: 1, imageCount: 1, encrypted: false });
+
+    const error = await extractionError(fixture('scanned.pdf'), 'application/pdf');
+    expect(error.code).toBe('image_only_pdf');
+  });
+
+  it('reads back what createPdf writes, across pages', async () => {
+    const paragraph = 'Dear hiring team, I would love to join Globex (and its “platform” team). '.repeat(12);
+    const pdf = createPdf([
+      { text: 'Alex Candidate', bold: true, size: 16, spacingAfter: 12 },
+      ...Array.from({ length: 6 }, () => ({ text: paragraph, spacingAfter: 8 }))
+    ]);
+
+    const result = await extractPdfText(pdf);
+
+    expect(result.pageCount).toBeGreaterThan(1);
+    expect(result.text).toContain('Alex Candidate');
+    expect(result.text).toContain('(and its “platform” team)');
+  });
+});
+
+describe('DOCX text extraction', () => {
+  beforeEach(() => {
+    // Unreadable files are logged before being reported as corrupt
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  it('reads deflated parts, headers first, with list bullets, tabs and entities', async () => {
+    const text = await extractDocxText(fixture('resume.docx'));
+
+    expect(text).toBe([
+      'Alex Candidate',
+      'alex@example.com',
+      '',
+      'Experience',
+      'Software Engineer, Acme & Sons\t2020 – present',
+      '• Cut page load times by 40%',
+      'Go',
+      '\tRust',
+      '\t'
+    ].join('\n'));
+  });
+
+  it('reads back what markdownToDocx writes', async () => {
+    const docx = markdownToDocx('# Alex Candidate\n\nI **led** the *migration*.\n\n- Cut costs by 30%');
+
+    expect(await extractDocumentText(docx, 'application/octet-stream')).toBe('Alex Candidate\nI led the migration.\n• Cut costs by 30%');
+  });
+
+  it('reports a DOCX with a damaged central directory as corrupt', async () => {
+    expect(() => readZipEntries(fixture('corrupt-central-directory.docx'))).toThrow('Invalid ZIP archive: corrupt central directory');
+
+    const error = await extractionError(fixture('corrupt-central-directory.docx'), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    expect(error.code).toBe('corrupt_file');
+  });
+
+  it('reports a ZIP without the document part as corrupt', async () => {
+    const zip = createZip([{ name: 'word/styles.xml', data: '<w:styles/>' }]);
+
+    await expect(extractDocxText(zip)).rejects.toThrow('Invalid DOCX: word/document.xml not found');
+    expect((await extractionError(zip, '')).code).toBe('corrupt_file');
+  });
+});
+
+describe('ZIP archives', () => {
+  it('inflates deflate entries and returns stored entries as-is', async () => {
+    const deflated = fixture('resume.docx');
+    const document = readZipEntries(deflated).get('word/document.xml')!;
+    expect(document.compressionMethod).toBe(8);
+    expect(new TextDecoder().decode(await readZipEntry(deflated, document))).toContain('<w:t>Experience</w:t>');
+
+    const stored = createZip([{ name: 'a.txt', data: 'first' }, { name: 'dir/b.txt', data: new Uint8Array([1, 2, 3]) }]);
+    const entries = readZipEntries(stored);
+    expect([...entries.keys()]).toEqual(['a.txt', 'dir/b.txt']);
+    expect(new TextDecoder().decode(await readZipEntry(stored, entries.get('a.txt')!))).toBe('first');
+    expect([...await readZipEntry(stored, entries.get('dir/b.txt')!)]).toEqual([1, 2, 3]);
+  });
+
+  it('rejects data with no end of central directory', () => {
+    const truncated = fixture('resume.docx').subarray(0, 200);
+
+    expect(() => readZipEntries(truncated)).toThrow('Invalid ZIP archive: end of central directory not found');
+  });
+
+  it('rejects unsupported compression methods and bad local headers', async () => {
+    const zip = createZip([{ name: 'a.txt', data: 'first' }]);
+    const entry = readZipEntries(zip).get('a.txt')!;
+
+    await expect(readZipEntry(zip, { ...entry, compressionMethod: 12 })).rejects.toThrow('Unsupported ZIP compression method 12 for a.txt');
+    await expect(readZipEntry(zip, { ...entry, localHeaderOffset: 5 })).rejects.toThrow('Invalid ZIP archive: bad local header for a.txt');
+  });
+});
+
+// Zeros compress about 1000:1 - a few tens of KB that expand past the decompression limit
+const BOMB_SIZE = MAX_DECOMPRESSED_BYTES + 1024 * 1024;
+
+// A DOCX whose document part is deflated zeros (createZip only stores, so the method is patched to deflate)
+function docxBomb(): Uint8Array {
+  const zip = createZip([{ name: 'word/document.xml', data: new Uint8Array(deflateRawSync(new Uint8Array(BOMB_SIZE))) }]);
+  const view = new DataView(zip.buffer);
+  const central = zip.length - 22 - (46 + 'word/document.xml'.length);
+  view.setUint16(8, 8, true);
+  view.setUint16(central + 10, 8, true);
+  return zip;
+}
+
+// A one-page PDF whose content stream is deflated zeros
+function pdfBomb(): Uint8Array {
+  const stream = deflateSync(new Uint8Array(BOMB_SIZE));
+  return new Uint8Array(Buffer.concat([
+    Buffer.from('%PDF-1.4\n'
+      + '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n'
+      + '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj\n'
+      + '3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R >> endobj\n'
+      + `4 0 obj << /Length ${stream.length} /Filter /FlateDecode >> stream\n`, 'latin1'),
+    stream,
+    Buffer.from('\nendstream endobj\ntrailer << /Root 1 0 R >>\n%%EOF\n', 'latin1')
+  ]));
+}
+
+describe('decompression limit', () => {
+  it('stops inflating once the output passes the limit', async () => {
+    const compressed = new Uint8Array(deflateSync(new Uint8Array(100_000)));
+
+    expect(await inflate(compressed, 'deflate', 100_000)).toHaveLength(100_000);
+    await expect(inflate(compressed, 'deflate', 50_000)).rejects.toThrow(DecompressionLimitError);
+  });
+
+  it('applies to ZIP entries', async () => {
+    const compressed = new Uint8Array(deflateRawSync(new TextEncoder().encode('x'.repeat(5000))));
+    const zip = createZip([{ name: 'a.txt', data: compressed }]);
+    new DataView(zip.buffer).setUint16(zip.length - 22 - 46 - 5 + 10, 8, true);
+    const entry = readZipEntries(zip).get('a.txt')!;
+
+    expect(await readZipEntry(zip, entry, 5000)).toHaveLength(5000);
+    await expect(readZipEntry(zip, entry, 4999)).rejects.toThrow(DecompressionLimitError);
+  });
+
+  it('rejects a DOCX zip bomb', async () => {
+    const bomb = docxBomb();
+    expect(bomb.length).toBeLessThan(100_000);
+
+    await expect(extractDocxText(bomb)).rejects.toThrow(DecompressionLimitError);
+    expect(await extractionError(bomb, '')).toMatchObject({
+      code: 'corrupt_file',
+      message: 'The DOCX file expands to more data than a resume could hold, so it was not read.'
+    });
+  });
+
+  it('rejects a PDF Flate bomb', async () => {
+    const bomb = pdfBomb();
+    expect(bomb.length).toBeLessThan(100_000);
+
+    await expect(extractPdfText(bomb)).rejects.toThrow(DecompressionLimitError);
+    expect((await extractionError(bomb, '')).code).toBe('corrupt_file');
+  });
+});
+
+describe('document type detection', () => {
+  it('trusts magic bytes over the declared MIME type', () => {
+    expect(detectDocumentType(fixture('resume.pdf'), 'text/plain')).toBe('pdf');
+    expect(detectDocumentType(fixture('resume.docx'), 'application/pdf')).toBe('docx');
+    expect(detectDocumentType(new TextEncoder().encode('Alex'), 'text/plain')).toBe('text');
+    expect(detectDocumentType(new TextEncoder().encode('Alex'), 'image/png')).toBeNull();
+  });
+});
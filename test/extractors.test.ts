@@ -0,0 +1,160 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect, vi } from 'vitest';
+import { runSiteExtractor, getExtractorForUrl, registerExtractor } from '../src/lib/extractors';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/extractors/${name}.html`, import.meta.url), 'utf8');
+}
+
+describe('site extractors', () => {
+  it('extracts a Greenhouse job board page', () => {
+    const result = runSiteExtractor(fixture('greenhouse'), 'https://boards.greenhouse.io/acmerobotics/jobs/4012345');
+
+    expect(result).toEqual({
+      extractor: 'greenhouse',
+      data: {
+        title: 'Senior Backend Engineer',
+        company: 'Acme Robotics',
+        location: 'Remote - US',
+        remote: 'remote',
+        description: 'Acme Robotics builds warehouse automation used by hundreds of fulfilment centers. We are looking for a backend engineer to own our fleet coordination services. You will design APIs, scale our event pipeline and mentor other engineers.',
+        requirements: [
+          '5+ years building production services in Go or Rust',
+          'Experience with PostgreSQL and Kafka',
+          'Comfort owning services on call'
+        ],
+        benefits: ['Medical, dental and vision coverage', '401(k) with 4% match']
+      }
+    });
+  });
+
+  it('extracts a Lever posting', () => {
+    const result = runSiteExtractor(fixture('lever'), 'https://jobs.lever.co/northwind/7d0c2b8e-1f3a-4c55-9e0b-3a1f2d4c5b6a');
+
+    expect(result).toEqual({
+      extractor: 'lever',
+      data: {
+        title: 'Product Designer',
+        company: 'Northwind',
+        location: 'London, United Kingdom',
+        jobType: 'full-time',
+        remote: 'hybrid',
+        salary: '£60,000 - £75,000 a year',
+        description: 'Northwind helps independent retailers manage inventory across every channel. As a Product Designer you will shape the core merchant experience. You will work closely with engineering and research from discovery to launch.',
+        requirements: [
+          '4+ years of product design experience',
+          'A portfolio of shipped B2B products',
+          'Fluency in Figma and prototyping tools'
+        ],
+        benefits: ['25 days holiday', 'Learning budget of £1,000 a year']
+      }
+    });
+  });
+
+  it('extracts a Workday posting, taking the company from the tenant subdomain', () => {
+    const result = runSiteExtractor(fixture('workday'), 'https://globex.wd5.myworkdayjobs.com/en-US/Careers/job/Chicago-IL/Data-Analyst_R-10482');
+
+    expect(result).toEqual({
+      extractor: 'workday',
+      data: {
+        title: 'Data Analyst',
+        company: 'Globex',
+        location: 'Chicago, IL',
+        jobType: 'full-time',
+        remote: 'hybrid',
+        description: 'Globex Corporation is hiring a Data Analyst to turn operational data into decisions for our logistics teams.',
+        requirements: ["Bachelor's degree in a quantitative field", 'Strong SQL and Tableau skills'],
+        benefits: ['Annual performance bonus', 'Tuition reimbursement']
+      }
+    });
+  });
+
+  it('extracts an Ashby posting from the embedded app data', () => {
+    const result = runSiteExtractor(fixture('ashby'), 'https://jobs.ashbyhq.com/lumen-labs/5c1e8f3a-0d2b-4a41-9a6e-2f6b7d1c9e10');
+
+    expect(result).toEqual({
+      extractor: 'ashby',
+      data: {
+        title: 'Staff Machine Learning Engineer',
+        company: 'Lumen Labs',
+        location: 'New York, NY',
+        jobType: 'full-time',
+        remote: 'remote',
+        salary: '$210K – $250K',
+        datePosted: '2024-05-02',
+        description: 'Lumen Labs trains retrieval models for legal research. You will lead our ranking team and set the technical direction for model evaluation.',
+        requirements: ['8+ years of ML engineering', 'Experience shipping ranking systems'],
+        benefits: ['Equity in an early-stage company', 'Home office stipend']
+      }
+    });
+  });
+
+  it('extracts a SmartRecruiters posting, including sections without lists', () => {
+    const result = runSiteExtractor(fixture('smartrecruiters'), 'https://jobs.smartrecruiters.com/Initech/743999912345678-customer-success-manager');
+
+    expect(result).toEqual({
+      extractor: 'smartrecruiters',
+      data: {
+        title: 'Customer Success Manager',
+        company: 'Initech',
+        location: 'Austin, TX, United States',
+        jobType: 'full-time',
+        description: 'Initech is growing its enterprise customer base. As a Customer Success Manager you will own onboarding and renewals for a portfolio of accounts.',
+        requirements: ['3+ years in customer success or account management', 'Experience with Salesforce'],
+        benefits: ['Fully paid health insurance', 'Flexible working hours']
+      }
+    });
+  });
+
+  it('extracts a LinkedIn guest job view with its job criteria', () => {
+    const result = runSiteExtractor(fixture('linkedin'), 'https://www.linkedin.com/jobs/view/3912345678/');
+
+    expect(result).toEqual({
+      extractor: 'linkedin',
+      data: {
+        title: 'Site Reliability Engineer',
+        company: 'Hooli',
+        location: 'Seattle, WA',
+        jobType: 'full-time',
+        experience: 'Mid-Senior level',
+        industry: 'Software Development',
+        description: 'Hooli runs one of the largest search platforms in the world. Our SRE team keeps it fast and available for billions of requests a day.',
+        requirements: ['Experience operating Kubernetes in production', 'Proficiency in Python or Go']
+      }
+    });
+  });
+});
+
+describe('extractor registry', () => {
+  it('matches exact hosts and any subdomain of ".domain" entries', () => {
+    expect(getExtractorForUrl(new URL('https://job-boards.greenhouse.io/acme/jobs/1'))?.name).toBe('greenhouse');
+    expect(getExtractorForUrl(new URL('https://initech.wd1.myworkdayjobs.com/External/job/1'))?.name).toBe('workday');
+    expect(getExtractorForUrl(new URL('https://uk.linkedin.com/jobs/view/1'))?.name).toBe('linkedin');
+    expect(getExtractorForUrl(new URL('https://greenhouse.io/jobs/1'))).toBeNull();
+  });
+
+  it('falls back when no extractor handles the host', () => {
+    expect(runSiteExtractor(fixture('greenhouse'), 'https://careers.example.com/jobs/1')).toBeNull();
+    expect(runSiteExtractor(fixture('greenhouse'), 'not a url')).toBeNull();
+  });
+
+  it('falls back when the extractor finds nothing on the page', () => {
+    const html = '<html><head></head><body><p>Sign in to continue</p></body></html>';
+    expect(runSiteExtractor(html, 'https://www.linkedin.com/jobs/view/1/')).toBeNull();
+  });
+
+  it('falls back when an extractor throws', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    registerExtractor({
+      name: 'broken',
+      hosts: ['jobs.broken.test'],
+      extract() {
+        throw new Error('layout changed');
+      }
+    });
+
+    expect(runSiteExtractor(fixture('greenhouse'), 'https://jobs.broken.test/1')).toBeNull();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
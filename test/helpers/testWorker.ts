@@ -0,0 +1,145 @@
+import { readFileSync } from 'node:fs';
+import { Miniflare } from 'miniflare';
+import worker from '../../src/index';
+import { generateToken } from '../../src/lib/auth';
+import { resetConfig } from '../../src/lib/config';
+import { clearRegisteredLLMProviders, registerLLMProvider, createFakeProvider, type FakeProviderOptions } from '../../src/lib/llm';
+import type { ApiResponse } from '../../src/lib/responses';
+import type { Env, JWTPayload } from '../../src/types/env';
+
+/**
+ * The worker running in Node against Miniflare's local D1, KV and R2, with every AI call
+ * served by the fake provider - no network or API keys needed
+ */
+
+const JWT_SECRET = 'test-jwt-secret-that-is-at-least-32-characters';
+const TEST_API_KEY = 'test-api-key';
+const MIGRATIONS_DIR = new URL('../../drizzle/migrations/', import.meta.url);
+
+export interface TestWorker {
+  env: Env;
+  db: D1Database;
+  fetch(path: string, init?: RequestInit): Promise<Response>;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Apply the drizzle migrations in journal order, one batch (transaction) per file, like wrangler does
+ */
+async function applyMigrations(db: D1Database): Promise<void> {
+  const journal = JSON.parse(readFileSync(new URL('meta/_journal.json', MIGRATIONS_DIR), 'utf8')) as { entries: { tag: string }[] };
+
+  for (const { tag } of journal.entries) {
+    const statements = readFileSync(new URL(`${tag}.sql`, MIGRATIONS_DIR), 'utf8')
+      .split('--> statement-breakpoint')
+      .map(statement => statement.trim())
+      .filter(Boolean);
+    await db.batch(statements.map(statement => db.prepare(statement)));
+  }
+}
+
+/**
+ * A worker with fresh storage. Bindings override the defaults, e.g. to enable optional features.
+ */
+export async function createTestWorker(bindings: Partial<Env> = {}): Promise<TestWorker> {
+  // The config caches the bindings of the first env it sees - a second worker in the same file needs its own
+  resetConfig();
+
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch: () => new Response(null, { status: 404 }) }',
+    d1Databases: ['DB'],
+    kvNamespaces: ['RATE_LIMIT_KV', 'EXTENSION_KV'],
+    r2Buckets: ['BUCKET']
+  });
+
+  const db = await mf.getD1Database('DB');
+  await applyMigrations(db);
+
+  // Miniflare types its bindings with its own copy of the workers types, which differ in overload detail
+  const env: Env = {
+    DB: db,
+    BUCKET: await mf.getR2Bucket('BUCKET') as unknown as R2Bucket,
+    RATE_LIMIT_KV: await mf.getKVNamespace('RATE_LIMIT_KV') as unknown as KVNamespace,
+    EXTENSION_KV: await mf.getKVNamespace('EXTENSION_KV') as unknown as KVNamespace,
+    ENVIRONMENT: 'development',
+    JWT_SECRET,
+    TEST_API_KEY,
+    STRIPE_SECRET_KEY: 'sk_test_unused',
+    STRIPE_WEBHOOK_SECRET: 'whsec_unused',
+    EXTENSION_SECRET: 'test-extension-secret',
+    VALID_EXTENSION_IDS: '[]',
+    AI_MODEL: 'fake:standard',
+    AI_FAST_MODEL: 'fake:fast',
+    AI_PREMIUM_MODEL: 'fake:premium',
+    AI_MAX_RETRIES: '0',
+    ...bindings
+  };
+
+  const ctx = { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext;
+
+  return {
+    env,
+    db,
+    fetch: (path, init) => worker.fetch(new Request(`https://api.test${path}`, init), env, ctx),
+    dispose: () => mf.dispose()
+  };
+}
+
+/**
+ * Replace the fake provider, e.g. to script its responses. Returns it so tests can inspect requests.
+ */
+export function useFakeProvider(options: FakeProviderOptions = {}) {
+  clearRegisteredLLMProviders();
+  const provider = createFakeProvider(options);
+  registerLLMProvider(provider);
+  return provider;
+}
+
+/**
+ * Insert a user and return the headers that authenticate as them
+ */
+export async function createUser(
+  testWorker: TestWorker,
+  { credits = 10, plan = 'free' }: { credits?: number; plan?: JWTPayload['plan'] } = {}
+): Promise<{ userId: string; headers: Record<string, string> }> {
+  const userId = crypto.randomUUID();
+  const email = `${userId}@example.com`;
+
+  await testWorker.db.prepare('INSERT INTO users (id, email, name, password_hash, plan, credits) VALUES (?, ?, ?, ?, ?, ?)')
+    .bind(userId, email, 'Alex Candidate', 'unused', plan, credits)
+    .run();
+
+  const token = await generateToken({ userId, email, plan }, JWT_SECRET);
+  return {
+    userId,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'X-Test-Key': TEST_API_KEY,
+      'Content-Type': 'application/json'
+    }
+  };
+}
+
+export async function getCredits(testWorker: TestWorker, userId: string): Promise<number> {
+  const user = await testWorker.db.prepare('SELECT credits FROM users WHERE id = ?').bind(userId).first<{ credits: number }>();
+  return user!.credits;
+}
+
+/**
+ * Read a response body as the API's standard success/error envelope
+ */
+export async function json<T = unknown>(response: Response): Promise<ApiResponse<T>> {
+  return await response.json() as ApiResponse<T>;
+}
+
+/**
+ * Read the data of a success response, failing the test with the error when it is not one
+ */
+export async function jsonData<T>(response: Response): Promise<T> {
+  const body = await json<T>(response);
+  if (!body.success) {
+    throw new Error(`Expected a success response, got ${response.status}: ${body.error}`);
+  }
+  return body.data;
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest';
+import { parseStructuredJobPosting } from '../src/lib/jobPosting';
+
+function jsonLd(data: unknown): string {
+  return `<script type="application/ld+json">${typeof data === 'string' ? data : JSON.stringify(data)}</script>`;
+}
+
+function page(...blocks: string[]): string {
+  return `<html><head><title>Careers</title>${blocks.join('\n')}</head><body><h1>Careers</h1></body></html>`;
+}
+
+const POSTING = {
+  '@context': 'https://schema.org',
+  '@type': 'JobPosting',
+  title: 'Platform Engineer',
+  hiringOrganization: { '@type': 'Organization', name: 'Umbrella Corp' },
+  description: 'Run our internal developer platform.'
+};
+
+describe('parseStructuredJobPosting', () => {
+  describe('JSON-LD', () => {
+    it('maps a JobPosting to job fields', () => {
+      const data = parseStructuredJobPosting(page(jsonLd({
+        ...POSTING,
+        employmentType: ['FULL_TIME', 'CONTRACTOR'],
+        qualifications: '<ul><li>Kubernetes in production</li><li>Terraform</li></ul>',
+        skills: 'Kubernetes, Terraform, Go',
+        jobBenefits: 'Health insurance\nEquity',
+        experienceRequirements: { '@type': 'OccupationalExperienceRequirements', monthsOfExperience: 36 },
+        industry: 'Biotechnology',
+        datePosted: '2024-04-01',
+        validThrough: '2024-06-01T00:00'
+      })));
+
+      expect(data).toEqual({
+        title: 'Platform Engineer',
+        company: 'Umbrella Corp',
+        description: 'Run our internal developer platform.',
+        jobType: 'full-time, contract',
+        experience: '3+ years',
+        requirements: ['Kubernetes in production', 'Terraform'],
+        skills: ['Kubernetes', 'Terraform', 'Go'],
+        benefits: ['Health insurance', 'Equity'],
+        industry: 'Biotechnology',
+        datePosted: '2024-04-01',
+        validThrough: '2024-06-01T00:00'
+      });
+    });
+
+    it('finds the posting in an @graph', () => {
+      const data = parseStructuredJobPosting(page(jsonLd({
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'Organization', name: 'Umbrella Corp', url: 'https://umbrella.example.com' },
+          { '@type': 'WebPage', name: 'Careers at Umbrella Corp' },
+          { ...POSTING, '@context': undefined }
+        ]
+      })));
+
+      expect(data).toMatchObject({ title: 'Platform Engineer', company: 'Umbrella Corp' });
+    });
+
+    it('finds postings in top-level arrays and wrappers like mainEntity', () => {
+      const array = parseStructuredJobPosting(page(jsonLd([{ '@type': 'BreadcrumbList' }, POSTING])));
+      const wrapped = parseStructuredJobPosting(page(jsonLd({ '@type': 'WebPage', mainEntity: POSTING })));
+
+      expect(array?.title).toBe('Platform Engineer');
+      expect(wrapped?.title).toBe('Platform Engineer');
+    });
+
+    it('accepts an array of types and full type IRIs', () => {
+      const types = parseStructuredJobPosting(page(jsonLd({ ...POSTING, '@type': ['Thing', 'JobPosting'] })));
+      const iri = parseStructuredJobPosting(page(jsonLd({ ...POSTING, '@type': 'http://schema.org/JobPosting' })));
+
+      expect(types?.title).toBe('Platform Engineer');
+      expect(iri?.title).toBe('Platform Engineer');
+    });
+
+    it('ignores nodes of other types', () => {
+      expect(parseStructuredJobPosting(page(jsonLd({ '@type': 'Organization', name: 'Umbrella Corp' })))).toBeNull();
+    });
+
+    it('skips malformed blocks and reads the rest', () => {
+      const data = parseStructuredJobPosting(page(
+        jsonLd('{ "@type": "JobPosting", "title": "Broken", }'),
+        jsonLd(POSTING)
+      ));
+
+      expect(data?.title).toBe('Platform Engineer');
+      expect(parseStructuredJobPosting(page(jsonLd('{ "@type": "JobPosting"')))).toBeNull();
+    });
+
+    it('reads blocks wrapped in CDATA', () => {
+      expect(parseStructuredJobPosting(page(jsonLd(`<![CDATA[${JSON.stringify(POSTING)}]]>`)))?.title).toBe('Platform Engineer');
+    });
+
+    it('decodes entity-encoded HTML descriptions and titles', () => {
+      const data = parseStructuredJobPosting(page(jsonLd({
+        ...POSTING,
+        title: 'R&amp;D Engineer',
+        description: '&lt;p&gt;Umbrella is hiring an &lt;strong&gt;R&amp;amp;D Engineer&lt;/strong&gt; to run our labs.&lt;/p&gt;&lt;ul&gt;&lt;li&gt;Kubernetes&lt;/li&gt;&lt;/ul&gt;'
+      })));
+
+      expect(data?.title).toBe('R&D Engineer');
+      expect(data?.description).toBe('Umbrella is hiring an R&D Engineer to run our labs.');
+    });
+
+    it('shortens long descriptions to their opening sentences', () => {
+      const sentence = 'Umbrella Corp runs a large internal developer platform used by every team. ';
+      const data = parseStructuredJobPosting(page(jsonLd({ ...POSTING, description: sentence.repeat(20) })));
+
+      expect(data!.description!.length).toBeLessThanOrEqual(600);
+      expect(data!.description).toMatch(/team\.$/);
+    });
+
+    describe('baseSalary', () => {
+      function salaryOf(baseSalary: unknown) {
+        return parseStructuredJobPosting(page(jsonLd({ ...POSTING, baseSalary })))?.salary;
+      }
+
+      it('formats a range with its currency and unit', () => {
+        expect(salaryOf({
+          '@type': 'MonetaryAmount',
+          currency: 'USD',
+          value: { '@type': 'QuantitativeValue', minValue: 120000, maxValue: 150000, unitText: 'YEAR' }
+        })).toBe('USD 120,000 - 150,000 per year');
+      });
+
+      it('formats a single value', () => {
+        expect(salaryOf({ currency: 'EUR', value: { value: '45', unitText: 'HOUR' } })).toBe('EUR 45 per hour');
+        expect(salaryOf({ currency: 'GBP', value: 60000 })).toBe('GBP 60,000');
+        expect(salaryOf({ value: { minValue: '90000' } })).toBe('90,000');
+      });
+
+      it('keeps a salary given as text', () => {
+        expect(salaryOf('$100k - $120k')).toBe('$100k - $120k');
+      });
+
+      it('drops a salary without an amount', () => {
+        expect(salaryOf({ currency: 'USD', value: { unitText: 'YEAR' } })).toBeUndefined();
+      });
+
+      it('falls back to estimatedSalary', () => {
+        const data = parseStructuredJobPosting(page(jsonLd({ ...POSTING, estimatedSalary: { currency: 'USD', value: 80000 } })));
+
+        expect(data?.salary).toBe('USD 80,000');
+      });
+    });
+
+    describe('jobLocation', () => {
+      function locationOf(extra: Record<string, unknown>) {
+        return parseStructuredJobPosting(page(jsonLd({ ...POSTING, ...extra })));
+      }
+
+      it('formats a postal address', () => {
+        const data = locationOf({
+          jobLocation: {
+            '@type': 'Place',
+            address: { '@type': 'PostalAddress', streetAddress: '1 Main St', addressLocality: 'Denver', addressRegion: 'CO', addressCountry: 'US' }
+          }
+        });
+
+        expect(data?.location).toBe('Denver, CO, US');
+      });
+
+      it('joins several locations and reads named countries', () => {
+        const data = locationOf({
+          jobLocation: [
+            { '@type': 'Place', address: { addressLocality: 'Berlin', addressCountry: { '@type': 'Country', name: 'Germany' } } },
+            { '@type': 'Place', address: 'London, UK' },
+            { '@type': 'Place', address: { addressLocality: 'Berlin', addressCountry: { '@type': 'Country', name: 'Germany' } } }
+          ]
+        });
+
+        expect(data?.location).toBe('Berlin, Germany; London, UK');
+      });
+
+      it('marks telecommute postings remote, taking the location from the applicant requirements', () => {
+        const data = locationOf({
+          jobLocationType: 'TELECOMMUTE',
+          applicantLocationRequirements: { '@type': 'Country', name: 'USA' }
+        });
+
+        expect(data).toMatchObject({ remote: 'remote', location: 'USA' });
+      });
+    });
+  });
+
+  describe('microdata', () => {
+    const MICRODATA = `<div itemscope itemtype="https://schema.org/JobPosting">
+      <h1 itemprop="title">Data Engineer</h1>
+      <div itemprop="hiringOrganization" itemscope itemtype="https://schema.org/Organization">
+        <span itemprop="name">Globex</span>
+      </div>
+      <div itemprop="jobLocation" itemscope itemtype="https://schema.org/Place">
+        <div itemprop="address" itemscope itemtype="https://schema.org/PostalAddress">
+          <span itemprop="addressLocality">Austin</span>, <span itemprop="addressRegion">TX</span>
+        </div>
+      </div>
+      <meta itemprop="employmentType" content="FULL_TIME">
+      <time itemprop="datePosted" datetime="2024-05-01">May 1</time>
+      <script>var title = "<span itemprop='title'>Not this</span>";</script>
+      <div itemprop="description"><p>Globex is building a new data platform.</p></div>
+    </div>`;
+
+    it('reads a JobPosting from microdata when there is no JSON-LD', () => {
+      const data = parseStructuredJobPosting(`<html><body>${MICRODATA}</body></html>`);
+
+      expect(data).toEqual({
+        title: 'Data Engineer',
+        company: 'Globex',
+        location: 'Austin, TX',
+        jobType: 'full-time',
+        datePosted: '2024-05-01',
+        description: 'Globex is building a new data platform.'
+      });
+    });
+
+    it('fills fields the JSON-LD lacks, letting the JSON-LD win where both have one', () => {
+      const data = parseStructuredJobPosting(page(jsonLd({ '@type': 'JobPosting', title: 'Senior Data Engineer' })) + MICRODATA);
+
+      expect(data).toMatchObject({ title: 'Senior Data Engineer', company: 'Globex', location: 'Austin, TX' });
+    });
+  });
+
+  it('returns null for a page without job markup', () => {
+    expect(parseStructuredJobPosting('<html><body><h1>Data Engineer</h1></body></html>')).toBeNull();
+  });
+});
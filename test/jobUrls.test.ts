@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeJobUrl, hashJobContent } from '../src/lib/jobUrls';
+
+describe('canonicalizeJobUrl', () => {
+  describe('any site', () => {
+    it('strips tracking parameters', () => {
+      const url = 'https://example.com/careers/backend-engineer?utm_source=linkedin&utm_medium=social&gclid=abc&fbclid=def&ref=newsletter&mc_cid=1';
+
+      expect(canonicalizeJobUrl(url)).toBe('https://example.com/careers/backend-engineer');
+    });
+
+    it('keeps meaningful parameters in a stable order', () => {
+      expect(canonicalizeJobUrl('https://example.com/jobs?team=data&utm_campaign=spring&id=42'))
+        .toBe('https://example.com/jobs?id=42&team=data');
+      expect(canonicalizeJobUrl('https://example.com/jobs?id=42&team=data'))
+        .toBe('https://example.com/jobs?id=42&team=data');
+    });
+
+    it('normalizes the scheme and host but keeps the case of the path', () => {
+      expect(canonicalizeJobUrl('http://WWW.Example.COM/Careers/Backend-Engineer'))
+        .toBe('https://example.com/Careers/Backend-Engineer');
+      expect(canonicalizeJobUrl('https://careers.example.com:8443/jobs/1')).toBe('https://careers.example.com:8443/jobs/1');
+    });
+
+    it('drops trailing slashes', () => {
+      expect(canonicalizeJobUrl('https://example.com/jobs/1//')).toBe('https://example.com/jobs/1');
+      expect(canonicalizeJobUrl('https://example.com/')).toBe('https://example.com');
+    });
+
+    it('drops the fragment', () => {
+      expect(canonicalizeJobUrl('https://example.com/jobs/1?id=1#apply')).toBe('https://example.com/jobs/1?id=1');
+    });
+
+    it('returns text that is not a URL as it is, trimmed', () => {
+      expect(canonicalizeJobUrl('  not a url  ')).toBe('not a url');
+    });
+  });
+
+  describe('job boards', () => {
+    it.each([
+      [
+        'LinkedIn posting',
+        'https://www.linkedin.com/jobs/view/senior-engineer-at-acme-3812345678/?trk=public_jobs&refId=abc#top',
+        'https://www.linkedin.com/jobs/view/3812345678'
+      ],
+      [
+        'LinkedIn search result',
+        'https://www.linkedin.com/jobs/search/?currentJobId=3812345678&keywords=engineer',
+        'https://www.linkedin.com/jobs/view/3812345678'
+      ],
+      [
+        'Indeed posting',
+        'https://www.indeed.com/viewjob?jk=abc123def456&from=serp&vjs=3',
+        'https://www.indeed.com/viewjob?jk=abc123def456'
+      ],
+      [
+        'Indeed search result',
+        'https://uk.indeed.com/jobs?q=engineer&l=London&vjk=abc123def456',
+        'https://uk.indeed.com/viewjob?jk=abc123def456'
+      ],
+      [
+        'Glassdoor listing',
+        'https://www.glassdoor.com/job-listing/senior-engineer-acme-JV_IC1147401.htm?jl=1009876543&src=GD_JOB_AD',
+        'https://www.glassdoor.com/job-listing/?jl=1009876543'
+      ],
+      [
+        'Greenhouse board',
+        'https://job-boards.greenhouse.io/acmerobotics/jobs/4012345?gh_src=abc',
+        'https://boards.greenhouse.io/acmerobotics/jobs/4012345'
+      ],
+      [
+        'Greenhouse embedded in a careers page',
+        'https://www.acme.com/careers/?gh_jid=4012345&gh_src=abc&utm_source=x',
+        'https://www.acme.com/careers?gh_jid=4012345'
+      ],
+      [
+        'Lever application page',
+        'https://jobs.lever.co/acme/0A1B2C3D-4E5F-6789-ABCD-EF0123456789/apply?lever-source=LinkedIn',
+        'https://jobs.lever.co/acme/0a1b2c3d-4e5f-6789-abcd-ef0123456789'
+      ],
+      [
+        'Workday application page',
+        'https://acme.wd5.myworkdayjobs.com/en-US/External/job/Denver-CO/Platform-Engineer_R12345/apply?source=LinkedIn',
+        'https://acme.wd5.myworkdayjobs.com/External/job/Denver-CO/Platform-Engineer_R12345'
+      ]
+    ])('reduces a %s to the posting ID', (_board, url, canonical) => {
+      expect(canonicalizeJobUrl(url)).toBe(canonical);
+    });
+
+    it('treats board pages without a posting ID like any other page', () => {
+      expect(canonicalizeJobUrl('https://www.linkedin.com/jobs/search/?keywords=engineer&trk=abc'))
+        .toBe('https://linkedin.com/jobs/search?keywords=engineer');
+      expect(canonicalizeJobUrl('https://boards.greenhouse.io/acmerobotics/')).toBe('https://boards.greenhouse.io/acmerobotics');
+    });
+  });
+});
+
+describe('hashJobContent', () => {
+  it('ignores markup, scripts, comments, whitespace and case', async () => {
+    const first = await hashJobContent('<h1>Platform Engineer</h1>\n<p>Run our   platform.</p><script>track("a")</script>');
+    const second = await hashJobContent('<!-- v2 --><div><H1>platform engineer</H1> <p>Run our platform.</p></div><style>p{}</style>');
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(second).toBe(first);
+  });
+
+  it('changes with the text of the posting', async () => {
+    expect(await hashJobContent('<p>Run our platform.</p>')).not.toBe(await hashJobContent('<p>Run our data platform.</p>'));
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { detectJobLanguage, resolveLetterLanguage, getLetterLanguage } from '../src/lib/languages';
+
+const ENGLISH = {
+  title: 'Senior Software Engineer',
+  description: 'We are looking for a senior engineer to join our platform team. You will work with product and design, and your work will shape how this company ships software.'
+};
+
+const GERMAN = {
+  title: 'Softwareentwicklerin (m/w/d)',
+  description: 'Wir suchen eine erfahrene Entwicklerin für unser Team. Sie arbeiten mit der Produktabteilung und sind für die Plattform verantwortlich.',
+  requirements: ['Erfahrung mit TypeScript und Node.js', 'Freude an der Arbeit im Team, das ist uns wichtig']
+};
+
+const FRENCH = {
+  title: 'Développeur logiciel',
+  description: 'Nous recherchons un développeur pour rejoindre notre équipe. Vous travaillerez avec les équipes produit et vous serez responsable de la plateforme. Le poste est essentiel dans la croissance de nos services.'
+};
+
+const SPANISH = {
+  title: 'Ingeniero de software',
+  description: 'Buscamos una persona para unirse a nuestro equipo. Trabajarás con el equipo de producto y serás responsable de la plataforma que usan los clientes en todo el país. Es un puesto remoto.'
+};
+
+const PORTUGUESE = {
+  title: 'Engenheira de software',
+  description: 'Procuramos uma pessoa para nossa equipe. Você vai trabalhar com o time de produto e será responsável pela plataforma da empresa. Os clientes estão em todo o país e a vaga é remota.'
+};
+
+describe('detectJobLanguage', () => {
+  it.each([
+    ['English', ENGLISH, 'en'],
+    ['German', GERMAN, 'de'],
+    ['French', FRENCH, 'fr'],
+    ['Spanish', SPANISH, 'es'],
+    ['Brazilian Portuguese', PORTUGUESE, 'pt-BR']
+  ])('detects a %s posting', (_language, job, expected) => {
+    expect(detectJobLanguage(job)).toBe(expected);
+  });
+
+  it('infers British English and Quebec French from the location', () => {
+    expect(detectJobLanguage({ ...ENGLISH, location: 'London, UK' })).toBe('en-GB');
+    expect(detectJobLanguage({ ...ENGLISH, location: 'Austin, TX' })).toBe('en');
+    expect(detectJobLanguage({ ...FRENCH, location: 'Montréal, QC' })).toBe('fr-CA');
+    expect(detectJobLanguage({ ...FRENCH, location: 'Paris, France' })).toBe('fr');
+  });
+
+  it('counts the requirements along with the description', () => {
+    const job = { title: 'Backend Engineer', description: 'Remote role.', requirements: [GERMAN.description] };
+
+    expect(detectJobLanguage(job)).toBe('de');
+  });
+
+  it('is unsure about text too short to tell', () => {
+    expect(detectJobLanguage({ title: 'Software Engineer', description: 'Remote role with the platform team.' })).toBeNull();
+    expect(detectJobLanguage({})).toBeNull();
+  });
+
+  it('is unsure when no language clearly leads', () => {
+    const job = {
+      title: 'Software Engineer',
+      description: 'We are hiring for the team and you will work with our engineers. Wir suchen für das Team und Sie arbeiten mit der Abteilung, die das Produkt ist.'
+    };
+
+    expect(detectJobLanguage(job)).toBeNull();
+  });
+});
+
+describe('resolveLetterLanguage', () => {
+  it('prefers the requested language over the posting', () => {
+    expect(resolveLetterLanguage('de', ENGLISH)).toBe('de');
+  });
+
+  it("uses the posting's language when none is requested", () => {
+    expect(resolveLetterLanguage(undefined, SPANISH)).toBe('es');
+  });
+
+  it('falls back to English when the posting is unclear', () => {
+    expect(resolveLetterLanguage(undefined, { title: 'Ingeniero', description: 'Remoto.' })).toBe('en');
+  });
+});
+
+describe('getLetterLanguage', () => {
+  it('falls back to English for unknown or missing codes', () => {
+    expect(getLetterLanguage('fr-CA').locale).toBe('fr-CA');
+    expect(getLetterLanguage('ja').locale).toBe('en-US');
+    expect(getLetterLanguage(null).locale).toBe('en-US');
+  });
+});
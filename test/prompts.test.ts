@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { assignVariant, renderPrompt, findUnknownVariables } from '../src/lib/prompts';
+
+const VARIANTS = [{ version: 1, weight: 1 }, { version: 2, weight: 1 }];
+
+function userIds(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `user-${i}`);
+}
+
+describe('assignVariant', () => {
+  it('gives a user the same variant every time', () => {
+    for (const userId of userIds(50)) {
+      const first = assignVariant('experiment-1', userId, VARIANTS);
+      expect(assignVariant('experiment-1', userId, VARIANTS)).toBe(first);
+      expect(assignVariant('experiment-1', userId, [...VARIANTS])).toEqual(first);
+    }
+  });
+
+  it('splits users by weight', () => {
+    const variants = [{ version: 1, weight: 1 }, { version: 2, weight: 3 }];
+    const counts = { 1: 0, 2: 0 } as Record<number, number>;
+
+    for (const userId of userIds(4000)) {
+      counts[assignVariant('experiment-1', userId, variants).version]++;
+    }
+
+    expect(counts[1] / 4000).toBeCloseTo(0.25, 1);
+    expect(counts[2] / 4000).toBeCloseTo(0.75, 1);
+  });
+
+  it('reshuffles users between experiments', () => {
+    const users = userIds(200);
+    const first = users.map(userId => assignVariant('experiment-1', userId, VARIANTS).version);
+    const second = users.map(userId => assignVariant('experiment-2', userId, VARIANTS).version);
+
+    const moved = first.filter((version, index) => version !== second[index]).length;
+    expect(moved).toBeGreaterThan(50);
+    expect(moved).toBeLessThan(150);
+  });
+
+  it('always picks a single variant', () => {
+    expect(assignVariant('experiment-1', 'user-1', [{ version: 3, weight: 5 }])).toEqual({ version: 3, weight: 5 });
+  });
+});
+
+describe('renderPrompt', () => {
+  it('fills placeholders once, leaving braces in values alone', () => {
+    expect(renderPrompt('Job: {{ job }}\nResume: {{resume}}\n{{unknown}}', { job: 'Engineer', resume: 'Uses {{templates}}' }))
+      .toBe('Job: Engineer\nResume: Uses {{templates}}\n');
+  });
+});
+
+describe('findUnknownVariables', () => {
+  it("lists placeholders the prompt doesn't supply", () => {
+    expect(findUnknownVariables('cover_letter', ['{{job}} {{tone}}', '{{salary}} {{resume}} {{salary}}'])).toEqual(['salary']);
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  withResilience,
+  createFakeProvider,
+  AIError,
+  LLMProviderError,
+  type ChatCompletionRequest,
+  type ChatCompletionStreamChunk,
+  type LLMProvider
+} from '../src/lib/llm';
+
+const REQUEST: ChatCompletionRequest = {
+  operation: 'coverLetter',
+  model: 'standard',
+  messages: [{ role: 'user', content: 'Write a cover letter' }],
+  temperature: 0.7,
+  maxTokens: 1000
+};
+
+// Fails with each status in turn, then answers
+function failingProvider(...statuses: Array<number | { status: number; retryAfterMs: number }>) {
+  const failures = [...statuses];
+  return createFakeProvider({
+    respond: () => {
+      const next = failures.shift();
+      if (next === undefined) return 'Dear team,';
+      const { status, retryAfterMs } = typeof next === 'number' ? { status: next, retryAfterMs: undefined } : next;
+      throw new LLMProviderError('fake', status, `fake API error: ${status}`, retryAfterMs);
+    }
+  });
+}
+
+// Never answers, like a provider that ignores the abort signal
+function hangingProvider(firstChunk?: string) {
+  const calls: AbortSignal[] = [];
+  const provider: LLMProvider = {
+    name: 'fake',
+    complete(_request, signal) {
+      calls.push(signal!);
+      return new Promise(() => {});
+    },
+    async *stream(_request, signal): AsyncGenerator<ChatCompletionStreamChunk> {
+      calls.push(signal!);
+      if (firstChunk) yield { content: firstChunk };
+      await new Promise(() => {});
+    }
+  };
+  return { provider, calls };
+}
+
+// Enough of KV for the circuit breaker
+function memoryKV() {
+  const store = new Map<string, string>();
+  const kv = {
+    async get(key: string, type?: 'json') {
+      const value = store.get(key);
+      if (value === undefined) return null;
+      return type === 'json' ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string) {
+      store.set(key, value);
+    },
+    async delete(key: string) {
+      store.delete(key);
+    }
+  };
+  return { store, kv: kv as unknown as KVNamespace };
+}
+
+async function failure(promise: Promise<unknown>): Promise<AIError> {
+  const error = await promise.catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(AIError);
+  return error as AIError;
+}
+
+async function collect(stream: AsyncGenerator<ChatCompletionStreamChunk>): Promise<string> {
+  let content = '';
+  for await (const chunk of stream) content += chunk.content ?? '';
+  return content;
+}
+
+describe('withResilience', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    return () => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    };
+  });
+
+  describe('retries', () => {
+    it('retries server errors with jittered exponential backoff', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const fake = failingProvider(503, 502);
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 2 });
+
+      const result = provider.complete(REQUEST);
+
+      // Half of 500ms, then half of 1000ms
+      await vi.advanceTimersByTimeAsync(249);
+      expect(fake.requests).toHaveLength(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fake.requests).toHaveLength(2);
+      await vi.advanceTimersByTimeAsync(500);
+      expect(fake.requests).toHaveLength(3);
+      expect(await result).toMatchObject({ content: 'Dear team,' });
+    });
+
+    it('gives up after the last retry', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      const fake = failingProvider(503, 503, 503);
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 1 });
+
+      const result = failure(provider.complete(REQUEST));
+      await vi.runAllTimersAsync();
+
+      expect((await result).code).toBe('provider_error');
+      expect(fake.requests).toHaveLength(2);
+    });
+
+    it('does not retry client errors', async () => {
+      const fake = failingProvider(400);
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 3 });
+
+      const error = await failure(provider.complete(REQUEST));
+
+      expect(error.code).toBe('provider_error');
+      expect(fake.requests).toHaveLength(1);
+    });
+
+    it('waits at least as long as Retry-After asks', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      const fake = failingProvider({ status: 429, retryAfterMs: 3000 });
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 1 });
+
+      const result = provider.complete(REQUEST);
+
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(fake.requests).toHaveLength(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fake.requests).toHaveLength(2);
+      expect(await result).toMatchObject({ content: 'Dear team,' });
+    });
+
+    it('fails straight away when Retry-After is too long to wait', async () => {
+      const fake = failingProvider({ status: 429, retryAfterMs: 60_000 });
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 3 });
+
+      const error = await failure(provider.complete(REQUEST));
+
+      expect(error).toMatchObject({ code: 'rate_limited', retryAfterMs: 60_000 });
+      expect(fake.requests).toHaveLength(1);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('times out an attempt and aborts it', async () => {
+      const { provider: hanging, calls } = hangingProvider();
+      const provider = withResilience(hanging, { timeoutMs: 1000, maxRetries: 0 });
+
+      const result = failure(provider.complete(REQUEST));
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect((await result).code).toBe('timeout');
+      expect(calls).toHaveLength(1);
+      expect(calls[0].aborted).toBe(true);
+    });
+
+    it('retries a timed out attempt', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      const { provider: hanging, calls } = hangingProvider();
+      const provider = withResilience(hanging, { timeoutMs: 1000, maxRetries: 1 });
+
+      const result = failure(provider.complete(REQUEST));
+      await vi.runAllTimersAsync();
+
+      expect((await result).code).toBe('timeout');
+      expect(calls).toHaveLength(2);
+    });
+
+    it('times out each wait for a stream chunk, without retrying once content was sent', async () => {
+      const { provider: hanging, calls } = hangingProvider('Dear ');
+      const provider = withResilience(hanging, { timeoutMs: 1000, maxRetries: 2 });
+
+      const chunks: string[] = [];
+      const result = failure((async () => {
+        for await (const chunk of provider.stream(REQUEST)) chunks.push(chunk.content ?? '');
+      })());
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect((await result).code).toBe('timeout');
+      expect(chunks).toEqual(['Dear ']);
+      expect(calls).toHaveLength(1);
+    });
+
+    it('streams normally within the deadline', async () => {
+      const provider = withResilience(createFakeProvider({ respond: () => 'Dear Globex team,' }), { timeoutMs: 1000, maxRetries: 0 });
+
+      expect(await collect(provider.stream(REQUEST))).toBe('Dear Globex team,');
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('opens after repeated upstream failures and fails fast while open', async () => {
+      const { kv } = memoryKV();
+      const fake = failingProvider(500, 500, 500, 500, 500);
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 0, kv });
+
+      for (let i = 0; i < 5; i++) {
+        expect((await failure(provider.complete(REQUEST))).code).toBe('provider_error');
+      }
+
+      const error = await failure(provider.complete(REQUEST));
+      expect(error).toMatchObject({ code: 'provider_unavailable', retryAfterMs: 30_000 });
+      expect(fake.requests).toHaveLength(5);
+    });
+
+    it('lets a trial call through once open long enough, and closes when it succeeds', async () => {
+      const { kv, store } = memoryKV();
+      const fake = failingProvider(500, 500, 500, 500, 500);
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 0, kv });
+      for (let i = 0; i < 5; i++) await failure(provider.complete(REQUEST));
+
+      vi.advanceTimersByTime(30_000);
+
+      expect(await provider.complete(REQUEST)).toMatchObject({ content: 'Dear team,' });
+      expect(store.size).toBe(0);
+    });
+
+    it('reopens straight away when the trial call fails', async () => {
+      const { kv } = memoryKV();
+      const fake = failingProvider(500, 500, 500, 500, 500, 500);
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 0, kv });
+      for (let i = 0; i < 5; i++) await failure(provider.complete(REQUEST));
+
+      vi.advanceTimersByTime(30_000);
+      expect((await failure(provider.complete(REQUEST))).code).toBe('provider_error');
+
+      expect((await failure(provider.complete(REQUEST))).code).toBe('provider_unavailable');
+      expect(fake.requests).toHaveLength(6);
+    });
+
+    it('forgets failures outside the window', async () => {
+      const { kv } = memoryKV();
+      const fake = failingProvider(500, 500, 500, 500, 500);
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 0, kv });
+
+      for (let i = 0; i < 4; i++) await failure(provider.complete(REQUEST));
+      vi.advanceTimersByTime(60_000);
+      await failure(provider.complete(REQUEST));
+
+      expect(await provider.complete(REQUEST)).toMatchObject({ content: 'Dear team,' });
+    });
+
+    it("doesn't count client errors or rate limits", async () => {
+      const { kv, store } = memoryKV();
+      const fake = failingProvider(400, 400, 400, 400, 400, 429);
+      const provider = withResilience(fake, { timeoutMs: 10_000, maxRetries: 0, kv });
+
+      for (let i = 0; i < 6; i++) await failure(provider.complete(REQUEST));
+
+      expect(store.size).toBe(0);
+      expect(await provider.complete(REQUEST)).toMatchObject({ content: 'Dear team,' });
+    });
+
+    it('never fails the call when KV does', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const kv = {
+        get: () => Promise.reject(new Error('KV unavailable')),
+        put: () => Promise.reject(new Error('KV unavailable')),
+        delete: () => Promise.reject(new Error('KV unavailable'))
+      } as unknown as KVNamespace;
+      const provider = withResilience(failingProvider(500), { timeoutMs: 10_000, maxRetries: 0, kv });
+
+      expect((await failure(provider.complete(REQUEST))).code).toBe('provider_error');
+      expect(await provider.complete(REQUEST)).toMatchObject({ content: 'Dear team,' });
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createTestWorker, useFakeProvider, createUser, getCredits, json, jsonData, type TestWorker } from '../helpers/testWorker';
+import { APPLICATION_DOCUMENT_CONFIG, fitToLength } from '../../src/lib/applicationDocuments';
+import type { ApplicationDocument, ApplicationDocumentType } from '../../src/types/database';
+
+interface GenerateResult {
+  document: ApplicationDocument;
+  tokensUsed: number;
+  remainingCredits: number;
+}
+
+describe('fitToLength', () => {
+  it('leaves text within the limit alone, apart from surrounding whitespace', () => {
+    expect(fitToLength('  Thanks for your time.\n', 100)).toBe('Thanks for your time.');
+  });
+
+  it('ends on the last full sentence when one fits', () => {
+    const text = 'Thanks for your time today. I enjoyed hearing about the platform team. Looking forward to next steps.';
+
+    expect(fitToLength(text, 80)).toBe('Thanks for your time today. I enjoyed hearing about the platform team.');
+  });
+
+  it('falls back to the last full word when no sentence ends past halfway', () => {
+    const text = 'Hi. Thanks for taking the time to talk through the role with me yesterday afternoon';
+
+    expect(fitToLength(text, 40)).toBe('Hi. Thanks for taking the time to talk');
+  });
+});
+
+describe('application documents API', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    useFakeProvider();
+    return () => vi.restoreAllMocks();
+  });
+
+  function generate(headers: Record<string, string>, body: Record<string, unknown>) {
+    return worker.fetch('/api/documents/generate', { method: 'POST', headers, body: JSON.stringify(body) });
+  }
+
+  async function generated(headers: Record<string, string>, body: Record<string, unknown>) {
+    const response = await generate(headers, body);
+    expect(response.status).toBe(201);
+    return (await jsonData<GenerateResult>(response)).document;
+  }
+
+  describe('credits', () => {
+    const costs: Array<[ApplicationDocumentType, number]> = [
+      ['linkedin_message', 1],
+      ['thank_you', 1],
+      ['follow_up', 1],
+      ['withdrawal', 1],
+      ['offer_negotiation', 2]
+    ];
+
+    it.each(costs)('charges %s its own cost', async (type, cost) => {
+      const { userId, headers } = await createUser(worker);
+
+      const response = await generate(headers, { type, company: 'Globex', details: 'Base salary of $120k offered' });
+      const { document, remainingCredits } = await jsonData<GenerateResult>(response);
+
+      expect(document).toMatchObject({ type, creditsUsed: cost });
+      expect(remainingCredits).toBe(10 - cost);
+      expect(await getCredits(worker, userId)).toBe(10 - cost);
+    });
+
+    it('charges double for the best quality on a standard plan, and half for fast', async () => {
+      const { userId, headers } = await createUser(worker);
+      const details = 'Base salary of $120k offered';
+
+      await generated(headers, { type: 'offer_negotiation', company: 'Globex', details, quality: 'best' });
+      expect(await getCredits(worker, userId)).toBe(6);
+
+      await generated(headers, { type: 'offer_negotiation', company: 'Globex', details, quality: 'fast' });
+      await generated(headers, { type: 'follow_up', company: 'Globex', quality: 'fast' });
+      expect(await getCredits(worker, userId)).toBe(4);
+    });
+
+    it('refuses without enough credits for the type, before calling the AI', async () => {
+      const provider = useFakeProvider();
+      const { userId, headers } = await createUser(worker, { credits: 1 });
+
+      const response = await generate(headers, { type: 'offer_negotiation', company: 'Globex', details: 'Base salary of $120k offered' });
+
+      expect(response.status).toBe(402);
+      expect(provider.requests).toHaveLength(0);
+      expect(await getCredits(worker, userId)).toBe(1);
+    });
+
+    it("doesn't charge when generation fails", async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      useFakeProvider({ respond: () => 'Not JSON at all' });
+      const { userId, headers } = await createUser(worker);
+
+      const response = await generate(headers, { type: 'thank_you', company: 'Globex' });
+
+      expect(response.status).toBe(502);
+      expect(await getCredits(worker, userId)).toBe(10);
+    });
+  });
+
+  describe('validation', () => {
+    it('requires details for an offer negotiation', async () => {
+      const provider = useFakeProvider();
+      const { userId, headers } = await createUser(worker);
+
+      const response = await generate(headers, { type: 'offer_negotiation', company: 'Globex' });
+      const body = await json(response);
+
+      expect(response.status).toBe(400);
+      expect(JSON.stringify(body)).toContain('This document type needs details');
+      expect(provider.requests).toHaveLength(0);
+      expect(await getCredits(worker, userId)).toBe(10);
+    });
+
+    it("doesn't require details for the other types", async () => {
+      const { headers } = await createUser(worker);
+      const optional = Object.entries(APPLICATION_DOCUMENT_CONFIG)
+        .filter(([, config]) => !config.requiresDetails)
+        .map(([type]) => type);
+
+      for (const type of optional) {
+        expect((await generate(headers, { type, company: 'Globex' })).status).toBe(201);
+      }
+    });
+
+    it('requires something to write about', async () => {
+      const { headers } = await createUser(worker);
+
+      const response = await generate(headers, { type: 'follow_up' });
+
+      expect(response.status).toBe(400);
+      expect(JSON.stringify(await json(response))).toContain('Provide an application, an extracted job or a job title/company');
+    });
+  });
+
+  describe('output', () => {
+    it('keeps the subject for emails and drops it for LinkedIn messages', async () => {
+      const { headers } = await createUser(worker);
+
+      const email = await generated(headers, { type: 'thank_you', company: 'Globex' });
+      const message = await generated(headers, { type: 'linkedin_message', company: 'Globex' });
+
+      expect(email.subject).toBe('Thank you');
+      expect(message.subject).toBeNull();
+    });
+
+    it("trims text over the type's limit to a full sentence", async () => {
+      const sentence = 'I remain very interested in the role and happy to share anything else you need. ';
+      useFakeProvider({ respond: () => JSON.stringify({ subject: null, content: sentence.repeat(40) }) });
+      const { headers } = await createUser(worker);
+
+      const document = await generated(headers, { type: 'linkedin_message', company: 'Globex' });
+      const limit = APPLICATION_DOCUMENT_CONFIG.linkedin_message.maxCharacters;
+
+      expect(document.content.length).toBeLessThanOrEqual(limit);
+      expect(document.content.length).toBeGreaterThan(limit - sentence.length);
+      expect(document.content).toMatch(/need\.$/);
+    });
+
+    it("fills the job from the user's application", async () => {
+      const provider = useFakeProvider();
+      const { userId, headers } = await createUser(worker);
+      const applicationId = crypto.randomUUID();
+      await worker.db.prepare(`INSERT INTO applications (id, user_id, job_title, company, status)
+        VALUES (?, ?, 'Data Engineer', 'Globex', 'interview')`)
+        .bind(applicationId, userId)
+        .run();
+
+      const document = await generated(headers, { type: 'thank_you', applicationId });
+
+      expect(document).toMatchObject({ applicationId, jobTitle: 'Data Engineer', company: 'Globex' });
+      expect(provider.requests[0].messages.at(-1)!.content).toContain('Application status: interview');
+
+      const other = await createUser(worker);
+      expect((await generate(other.headers, { type: 'thank_you', applicationId })).status).toBe(404);
+    });
+  });
+
+  describe('PUT /api/documents/:id', () => {
+    function update(headers: Record<string, string>, id: string, body: Record<string, unknown>) {
+      return worker.fetch(`/api/documents/${id}`, { method: 'PUT', headers, body: JSON.stringify(body) });
+    }
+
+    it('edits the subject and text of an email', async () => {
+      const { headers } = await createUser(worker);
+      const document = await generated(headers, { type: 'follow_up', company: 'Globex' });
+
+      const response = await update(headers, document.id, { subject: 'Following up on my application', content: 'Hi Sam,' });
+
+      expect(await jsonData<ApplicationDocument>(response)).toMatchObject({ subject: 'Following up on my application', content: 'Hi Sam,' });
+    });
+
+    it('rejects a subject for a LinkedIn message but still edits its text', async () => {
+      const { headers } = await createUser(worker);
+      const document = await generated(headers, { type: 'linkedin_message', company: 'Globex' });
+
+      const withSubject = await update(headers, document.id, { subject: 'Hello', content: 'Hi Sam,' });
+      expect(withSubject.status).toBe(400);
+      expect(await json(withSubject)).toMatchObject({ success: false, error: 'LinkedIn messages have no subject line' });
+
+      const textOnly = await update(headers, document.id, { content: 'Hi Sam,' });
+      expect(await jsonData<ApplicationDocument>(textOnly)).toMatchObject({ subject: null, content: 'Hi Sam,' });
+    });
+
+    it('requires a change', async () => {
+      const { headers } = await createUser(worker);
+      const document = await generated(headers, { type: 'follow_up', company: 'Globex' });
+
+      expect((await update(headers, document.id, {})).status).toBe(400);
+    });
+
+    it("returns 404 for another user's document", async () => {
+      const owner = await createUser(worker);
+      const other = await createUser(worker);
+      const document = await generated(owner.headers, { type: 'follow_up', company: 'Globex' });
+
+      expect((await update(other.headers, document.id, { content: 'Mine now' })).status).toBe(404);
+    });
+  });
+});
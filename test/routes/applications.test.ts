@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createTestWorker, createUser, json, jsonData, type TestWorker } from '../helpers/testWorker';
+import { canTransitionStatus } from '../../src/lib/applications';
+import type { Application, ApplicationStatus, ApplicationStatusChange, ApplicationWithHistory } from '../../src/types/database';
+
+interface StatusUpdate {
+  application: Application;
+  change: ApplicationStatusChange;
+}
+
+interface Board {
+  columns: Record<ApplicationStatus, Application[]>;
+  counts: Record<ApplicationStatus, number>;
+  total: number;
+}
+
+describe('canTransitionStatus', () => {
+  it('moves forward, skipping stages if needed', () => {
+    expect(canTransitionStatus('saved', 'applied')).toBe(true);
+    expect(canTransitionStatus('applied', 'interview')).toBe(true);
+    expect(canTransitionStatus('screening', 'offer')).toBe(true);
+  });
+
+  it("doesn't move backward or stay put", () => {
+    expect(canTransitionStatus('interview', 'screening')).toBe(false);
+    expect(canTransitionStatus('offer', 'saved')).toBe(false);
+    expect(canTransitionStatus('applied', 'applied')).toBe(false);
+  });
+
+  it('ends an open application and reopens an ended one at any stage', () => {
+    expect(canTransitionStatus('saved', 'withdrawn')).toBe(true);
+    expect(canTransitionStatus('offer', 'rejected')).toBe(true);
+    expect(canTransitionStatus('rejected', 'screening')).toBe(true);
+    expect(canTransitionStatus('withdrawn', 'saved')).toBe(true);
+    expect(canTransitionStatus('rejected', 'withdrawn')).toBe(true);
+  });
+});
+
+describe('applications API', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  async function createApplication(headers: Record<string, string>, body: Record<string, unknown>) {
+    const response = await worker.fetch('/api/applications', { method: 'POST', headers, body: JSON.stringify(body) });
+    expect(response.status).toBe(201);
+    return await jsonData<Application>(response);
+  }
+
+  function moveTo(headers: Record<string, string>, id: string, status: ApplicationStatus, note?: string) {
+    return worker.fetch(`/api/applications/${id}/status`, { method: 'POST', headers, body: JSON.stringify({ status, note }) });
+  }
+
+  it('fills in the job details from an extracted job', async () => {
+    const { userId, headers } = await createUser(worker);
+    const extractedJobId = crypto.randomUUID();
+    await worker.db.prepare(`INSERT INTO extracted_jobs (id, user_id, url, title, company)
+      VALUES (?, ?, 'https://jobs.example.com/1', 'Data Engineer', 'Globex')`)
+      .bind(extractedJobId, userId)
+      .run();
+
+    const application = await createApplication(headers, { extractedJobId, company: 'Globex Corporation' });
+
+    expect(application).toMatchObject({
+      extractedJobId,
+      jobTitle: 'Data Engineer',
+      company: 'Globex Corporation',
+      url: 'https://jobs.example.com/1',
+      status: 'saved',
+      appliedAt: null
+    });
+  });
+
+  it('sets appliedAt on the first move to applied, and keeps it afterwards', async () => {
+    const { headers } = await createUser(worker);
+    const application = await createApplication(headers, { jobTitle: 'Data Engineer', company: 'Globex' });
+
+    const applied = await jsonData<StatusUpdate>(await moveTo(headers, application.id, 'applied'));
+    expect(applied.application.appliedAt).not.toBeNull();
+    expect(applied.application.appliedAt).toBe(applied.application.statusChangedAt);
+
+    const interview = await jsonData<StatusUpdate>(await moveTo(headers, application.id, 'interview'));
+    expect(interview.application.status).toBe('interview');
+    expect(interview.application.appliedAt).toBe(applied.application.appliedAt);
+  });
+
+  it('sets appliedAt when created past the saved stage', async () => {
+    const { headers } = await createUser(worker);
+
+    const application = await createApplication(headers, { company: 'Globex', status: 'screening' });
+
+    expect(application.appliedAt).toBe(application.createdAt);
+  });
+
+  it('records every status change in the history', async () => {
+    const { headers } = await createUser(worker);
+    const application = await createApplication(headers, { jobTitle: 'Data Engineer' });
+
+    const applied = await moveTo(headers, application.id, 'applied', 'Sent through the careers page');
+    expect((await jsonData<StatusUpdate>(applied)).change).toMatchObject({
+      applicationId: application.id,
+      fromStatus: 'saved',
+      toStatus: 'applied',
+      note: 'Sent through the careers page'
+    });
+    await moveTo(headers, application.id, 'rejected');
+    await moveTo(headers, application.id, 'screening');
+
+    const response = await worker.fetch(`/api/applications/${application.id}`, { headers });
+    const { status, history } = await jsonData<ApplicationWithHistory>(response);
+
+    expect(status).toBe('screening');
+    expect(history.map(change => [change.fromStatus, change.toStatus])).toEqual([
+      [null, 'saved'],
+      ['saved', 'applied'],
+      ['applied', 'rejected'],
+      ['rejected', 'screening']
+    ]);
+  });
+
+  it('rejects moves the pipeline does not allow, without recording them', async () => {
+    const { headers } = await createUser(worker);
+    const application = await createApplication(headers, { company: 'Globex', status: 'interview' });
+
+    const backward = await moveTo(headers, application.id, 'applied');
+    expect(backward.status).toBe(409);
+    expect(await json(backward)).toMatchObject({ success: false, error: 'Cannot move application from interview to applied' });
+
+    const same = await moveTo(headers, application.id, 'interview');
+    expect(same.status).toBe(409);
+
+    const response = await worker.fetch(`/api/applications/${application.id}`, { headers });
+    const { status, history } = await jsonData<ApplicationWithHistory>(response);
+    expect(status).toBe('interview');
+    expect(history).toHaveLength(1);
+  });
+
+  it("returns 404 for another user's application", async () => {
+    const owner = await createUser(worker);
+    const other = await createUser(worker);
+    const application = await createApplication(owner.headers, { jobTitle: 'Data Engineer', company: 'Globex' });
+    const path = `/api/applications/${application.id}`;
+
+    const responses = [
+      await worker.fetch(path, { headers: other.headers }),
+      await worker.fetch(path, { method: 'PUT', headers: other.headers, body: JSON.stringify({ notes: 'Mine now' }) }),
+      await moveTo(other.headers, application.id, 'applied'),
+      await worker.fetch(path, { method: 'DELETE', headers: other.headers })
+    ];
+    expect(responses.map(response => response.status)).toEqual([404, 404, 404, 404]);
+
+    const unchanged = await jsonData<ApplicationWithHistory>(await worker.fetch(path, { headers: owner.headers }));
+    expect(unchanged).toMatchObject({ status: 'saved', notes: null });
+    expect(unchanged.history).toHaveLength(1);
+  });
+
+  it("doesn't link another user's resume or job", async () => {
+    const owner = await createUser(worker);
+    const other = await createUser(worker);
+    const resumeId = crypto.randomUUID();
+    const extractedJobId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain')`)
+        .bind(resumeId, owner.userId, `resumes/${resumeId}`),
+      worker.db.prepare(`INSERT INTO extracted_jobs (id, user_id, url, title, company)
+        VALUES (?, ?, 'https://jobs.example.com/2', 'Data Engineer', 'Globex')`)
+        .bind(extractedJobId, owner.userId)
+    ]);
+    const application = await createApplication(other.headers, { company: 'Globex' });
+
+    const create = await worker.fetch('/api/applications', { method: 'POST', headers: other.headers, body: JSON.stringify({ extractedJobId }) });
+    const update = await worker.fetch(`/api/applications/${application.id}`, {
+      method: 'PUT',
+      headers: other.headers,
+      body: JSON.stringify({ resumeId })
+    });
+
+    expect(create.status).toBe(404);
+    expect(update.status).toBe(404);
+    expect(await json(update)).toMatchObject({ success: false, error: 'Resume not found' });
+  });
+
+  it('updates and deletes an application along with its history', async () => {
+    const { headers } = await createUser(worker);
+    const application = await createApplication(headers, { jobTitle: 'Data Engineer' });
+    await moveTo(headers, application.id, 'applied');
+    const path = `/api/applications/${application.id}`;
+
+    const updated = await worker.fetch(path, { method: 'PUT', headers, body: JSON.stringify({ notes: 'Recruiter: Sam' }) });
+    expect(await jsonData<Application>(updated)).toMatchObject({ notes: 'Recruiter: Sam', status: 'applied' });
+
+    const deleted = await worker.fetch(path, { method: 'DELETE', headers });
+    expect(deleted.status).toBe(200);
+    expect((await worker.fetch(path, { headers })).status).toBe(404);
+
+    const history = await worker.db.prepare('SELECT COUNT(*) AS count FROM application_status_changes WHERE application_id = ?')
+      .bind(application.id)
+      .first<{ count: number }>();
+    expect(history?.count).toBe(0);
+  });
+
+  it('groups the board by status with every column present', async () => {
+    const { headers } = await createUser(worker);
+    const other = await createUser(worker);
+    await createApplication(other.headers, { company: 'Initech', status: 'offer' });
+
+    const first = await createApplication(headers, { company: 'Globex', status: 'applied' });
+    const second = await createApplication(headers, { company: 'Umbrella', status: 'applied' });
+    const saved = await createApplication(headers, { company: 'Hooli' });
+    await moveTo(headers, first.id, 'interview');
+    await moveTo(headers, second.id, 'interview');
+    await worker.db.prepare("UPDATE applications SET status_changed_at = '2030-01-01T00:00:00.000Z' WHERE id = ?")
+      .bind(second.id)
+      .run();
+
+    const board = await jsonData<Board>(await worker.fetch('/api/applications/board', { headers }));
+
+    expect(board.total).toBe(3);
+    expect(board.counts).toEqual({ saved: 1, applied: 0, screening: 0, interview: 2, offer: 0, rejected: 0, withdrawn: 0 });
+    expect(board.columns.saved.map(application => application.id)).toEqual([saved.id]);
+    // Most recently moved first
+    expect(board.columns.interview.map(application => application.id)).toEqual([second.id, first.id]);
+  });
+
+  it('filters the list by status', async () => {
+    const { headers } = await createUser(worker);
+    await createApplication(headers, { company: 'Globex', status: 'applied' });
+    const offer = await createApplication(headers, { company: 'Umbrella', status: 'offer' });
+
+    const response = await worker.fetch('/api/applications?status=offer', { headers });
+    const { applications } = await jsonData<{ applications: Application[] }>(response);
+
+    expect(applications.map(application => application.id)).toEqual([offer.id]);
+  });
+});
@@ -0,0 +1,937 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createTestWorker, useFakeProvider, createUser, getCredits, json, jsonData, type TestWorker } from '../helpers/testWorker';
+import type { CoverLetter, CoverLetterPreferences, CoverLetterVersion } from '../../src/types/database';
+import { LLMProviderError, registerLLMProvider, clearRegisteredLLMProviders } from '../../src/lib/llm';
+import { extractPdfText } from '../../src/lib/pdf';
+import { extractDocxText } from '../../src/lib/docx';
+import type { CoverLetterChecks } from '../../src/lib/coverLetterReview';
+
+// What generate returns
+interface GenerateResult {
+  coverLetter: CoverLetter;
+  remainingCredits: number;
+}
+
+interface VariantsResult extends GenerateResult {
+  variants: CoverLetter[];
+  generationGroupId: string | null;
+  failedVariants: number;
+}
+
+// What the review returns
+interface Review extends CoverLetterChecks {
+  scores: CoverLetterChecks['scores'] & { toneConsistency: number | null; overall: number };
+  summary: string | null;
+  extractedJobId: string | null;
+  aiReview: boolean;
+  creditsUsed: number;
+}
+
+// Events of a server-sent event stream, with their JSON data parsed
+function parseSSE(body: string): Array<{ event: string; data: unknown }> {
+  return body.split('\n\n').filter(Boolean).map(message => {
+    const lines = message.split('\n');
+    const event = lines.find(line => line.startsWith('event: '))?.slice('event: '.length) ?? 'message';
+    const data = lines.filter(line => line.startsWith('data: ')).map(line => line.slice('data: '.length)).join('\n');
+    return { event, data: JSON.parse(data) as unknown };
+  });
+}
+
+const RESUME_TEXT = 'Alex Candidate\nSoftware Engineer at Acme Inc, 2020 - present\nLed a migration that cut page load times by 40%';
+
+// What the extension sends when the job was never saved
+const EXTRACTED_CONTENT = {
+  title: 'Data Engineer',
+  company: 'Initech',
+  description: 'Own the data platform.',
+  pageType: 'job',
+  confidence: 0.8,
+  url: 'https://careers.initech.com/jobs/42',
+  domain: 'careers.initech.com'
+};
+
+describe('POST /api/cover-letters/generate', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    // Request logging is noise here
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  async function seedUserWithJob(credits = 10) {
+    const user = await createUser(worker, { credits });
+    const resumeId = crypto.randomUUID();
+    const extractedJobId = crypto.randomUUID();
+
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type, extracted_text, extraction_status)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain', ?, 'completed')`)
+        .bind(resumeId, user.userId, `resumes/${resumeId}`, RESUME_TEXT),
+      worker.db.prepare(`INSERT INTO extracted_jobs (id, user_id, url, title, company, description, requirements)
+        VALUES (?, ?, 'https://jobs.example.com/1', 'Senior Frontend Engineer', 'Globex', 'Build the Globex customer dashboard.', ?)`)
+        .bind(extractedJobId, user.userId, JSON.stringify(['React', 'TypeScript']))
+    ]);
+
+    return { ...user, resumeId, extractedJobId };
+  }
+
+  it('generates and saves a letter with the fake provider, charging the standard cost', async () => {
+    const provider = useFakeProvider({ respond: () => 'Dear Globex team,\n\nI would love to build your dashboard.' });
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob();
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ extractedJobId, resumeId })
+    });
+    const data = await jsonData<GenerateResult>(response);
+
+    expect(response.status).toBe(201);
+    expect(data.coverLetter).toMatchObject({
+      userId,
+      extractedJobId,
+      resumeId,
+      company: 'Globex',
+      jobTitle: 'Senior Frontend Engineer',
+      content: 'Dear Globex team,\n\nI would love to build your dashboard.',
+      creditsUsed: 3,
+      promptName: 'cover_letter',
+      promptVersion: 1
+    });
+    expect(data.remainingCredits).toBe(7);
+    expect(await getCredits(worker, userId)).toBe(7);
+
+    // The prompt carries the job and the resume text
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].operation).toBe('coverLetter');
+    const prompt = provider.requests[0].messages.map(message => message.content).join('\n');
+    expect(prompt).toContain('Senior Frontend Engineer');
+    expect(prompt).toContain('Led a migration that cut page load times by 40%');
+
+    const versions = await worker.db.prepare('SELECT version, source FROM cover_letter_versions WHERE cover_letter_id = ?')
+      .bind(data.coverLetter.id)
+      .all();
+    expect(versions.results).toEqual([{ version: 1, source: 'ai' }]);
+
+    const usage = await worker.db.prepare('SELECT endpoint, model, model_tier FROM api_usage WHERE user_id = ?')
+      .bind(userId)
+      .all();
+    expect(usage.results).toEqual([{ endpoint: 'generate-cover-letter', model: 'fake:standard', model_tier: 'standard' }]);
+  });
+
+  it('generates from extracted content without a saved job', async () => {
+    useFakeProvider();
+    const { headers, resumeId } = await seedUserWithJob();
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        resumeId,
+        extractedContent: EXTRACTED_CONTENT
+      })
+    });
+    const data = await jsonData<GenerateResult>(response);
+
+    expect(response.status).toBe(201);
+    expect(data.coverLetter).toMatchObject({ company: 'Initech', jobTitle: 'Data Engineer' });
+  });
+
+  it('rejects users without enough credits before calling the provider', async () => {
+    const provider = useFakeProvider();
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob(2);
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ extractedJobId, resumeId })
+    });
+
+    expect(response.status).toBe(402);
+    expect(provider.requests).toHaveLength(0);
+    expect(await getCredits(worker, userId)).toBe(2);
+  });
+
+  it('only requires the fast cost for a fast letter', async () => {
+    const provider = useFakeProvider();
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob(2);
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ extractedJobId, resumeId, quality: 'fast' })
+    });
+    const data = await jsonData<GenerateResult>(response);
+
+    expect(response.status).toBe(201);
+    expect(data.coverLetter.creditsUsed).toBe(2);
+    expect(provider.requests[0].model).toBe('fast');
+    expect(await getCredits(worker, userId)).toBe(0);
+  });
+
+  it('returns a sanitized AI error and charges nothing when the provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useFakeProvider({
+      respond: () => {
+        throw new LLMProviderError('fake', 401, 'fake API error: 401 Unauthorized - {"error":"invalid api key sk-live-123"}');
+      }
+    });
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob();
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ extractedJobId, resumeId })
+    });
+    const body = await json(response);
+
+    expect(response.status).toBe(502);
+    expect(body).toEqual({
+      success: false,
+      error: 'The AI provider returned an error. Please try again.',
+      code: 'ai_provider_error'
+    });
+    expect(await getCredits(worker, userId)).toBe(10);
+  });
+
+  it('generates variants in parallel, keeping the chosen tone and charging each one', async () => {
+    const provider = useFakeProvider({ respond: request => `Letter ${request.messages.at(-1)!.content.match(/Focus: (\w+)/)![1]}` });
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob();
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ extractedJobId, resumeId, variants: 3, preferences: { tone: 'casual' } })
+    });
+    const data = await jsonData<VariantsResult>(response);
+
+    expect(response.status).toBe(201);
+    expect(provider.requests).toHaveLength(3);
+    expect(data.variants).toHaveLength(3);
+    expect(data.failedVariants).toBe(0);
+    expect(data.coverLetter).toEqual(data.variants[0]);
+
+    const preferences = data.variants.map(variant => JSON.parse(variant.preferences!) as CoverLetterPreferences);
+    expect(preferences.map(preference => preference.tone)).toEqual(['casual', 'casual', 'casual']);
+    expect(new Set(preferences.map(preference => preference.focus)).size).toBe(3);
+    expect(data.variants.map(variant => variant.content)).toEqual(preferences.map(preference => `Letter ${preference.focus}`));
+
+    expect(new Set(data.variants.map(variant => variant.generationGroupId))).toEqual(new Set([data.generationGroupId]));
+    expect(data.generationGroupId).not.toBeNull();
+    expect(data.remainingCredits).toBe(1);
+    expect(await getCredits(worker, userId)).toBe(1);
+  });
+
+  it('saves and charges only the variants that were generated', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useFakeProvider({
+      respond: request => {
+        if (request.messages.at(-1)!.content.includes('Focus: skills')) {
+          throw new LLMProviderError('fake', 500, 'fake API error: 500');
+        }
+        return undefined;
+      }
+    });
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob();
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ extractedJobId, resumeId, variants: 3, preferences: { tone: 'professional' } })
+    });
+    const data = await jsonData<VariantsResult>(response);
+
+    expect(response.status).toBe(201);
+    expect(data.variants).toHaveLength(2);
+    expect(data.failedVariants).toBe(1);
+    expect(await getCredits(worker, userId)).toBe(4);
+
+    const saved = await worker.db.prepare('SELECT COUNT(*) AS count FROM cover_letters WHERE user_id = ?')
+      .bind(userId)
+      .first<{ count: number }>();
+    expect(saved!.count).toBe(2);
+  });
+
+  it('fails without charging when every variant fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useFakeProvider({
+      respond: () => {
+        throw new LLMProviderError('fake', 500, 'fake API error: 500');
+      }
+    });
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob();
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ extractedJobId, resumeId, variants: 2 })
+    });
+
+    expect(response.status).toBe(502);
+    expect(await getCredits(worker, userId)).toBe(10);
+  });
+
+  it('requires credits for every variant up front', async () => {
+    const provider = useFakeProvider();
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob(8);
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ extractedJobId, resumeId, variants: 3 })
+    });
+
+    expect(response.status).toBe(402);
+    expect(provider.requests).toHaveLength(0);
+    expect(await getCredits(worker, userId)).toBe(8);
+  });
+
+  it('returns 404 for a resume that belongs to another user', async () => {
+    useFakeProvider();
+    const owner = await seedUserWithJob();
+    const { headers } = await createUser(worker);
+
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        resumeId: owner.resumeId,
+        extractedContent: EXTRACTED_CONTENT
+      })
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('POST /api/cover-letters/generate/stream', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => {
+      clearRegisteredLLMProviders();
+      vi.restoreAllMocks();
+    };
+  });
+
+  async function seedUserWithJob(credits = 10) {
+    const user = await createUser(worker, { credits });
+    const resumeId = crypto.randomUUID();
+    const extractedJobId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type, extracted_text, extraction_status)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain', ?, 'completed')`)
+        .bind(resumeId, user.userId, `resumes/${resumeId}`, RESUME_TEXT),
+      worker.db.prepare(`INSERT INTO extracted_jobs (id, user_id, url, title, company)
+        VALUES (?, ?, 'https://jobs.example.com/1', 'Senior Frontend Engineer', 'Globex')`)
+        .bind(extractedJobId, user.userId)
+    ]);
+    return { ...user, resumeId, extractedJobId };
+  }
+
+  function generateStream(headers: Record<string, string>, body: Record<string, unknown>) {
+    return worker.fetch('/api/cover-letters/generate/stream', { method: 'POST', headers, body: JSON.stringify(body) });
+  }
+
+  async function savedLetters(userId: string): Promise<number> {
+    const row = await worker.db.prepare('SELECT COUNT(*) AS count FROM cover_letters WHERE user_id = ?').bind(userId).first<{ count: number }>();
+    return row!.count;
+  }
+
+  it('streams the letter as tokens, then saves and charges for it', async () => {
+    useFakeProvider({ respond: () => 'Dear Globex team,\n\nI would love to build your dashboard.' });
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob();
+
+    const response = await generateStream(headers, { extractedJobId, resumeId });
+    const events = parseSSE(await response.text());
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(events[0]).toEqual({ event: 'start', data: { resumeId, extractedJobId, language: 'en' } });
+
+    const tokens = events.filter(event => event.event === 'token').map(event => (event.data as { content: string }).content);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe('Dear Globex team,\n\nI would love to build your dashboard.');
+
+    const done = events.at(-1)!;
+    expect(done.event).toBe('done');
+    const { coverLetter, remainingCredits } = done.data as GenerateResult;
+    expect(coverLetter).toMatchObject({ userId, extractedJobId, resumeId, content: tokens.join(''), creditsUsed: 3 });
+    expect(remainingCredits).toBe(7);
+    expect(await getCredits(worker, userId)).toBe(7);
+
+    const saved = await jsonData<CoverLetter>(await worker.fetch(`/api/cover-letters/${coverLetter.id}`, { headers }));
+    expect(saved.content).toBe(coverLetter.content);
+  });
+
+  it('sends a sanitized error event and charges nothing when the provider fails mid-stream', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    registerLLMProvider({
+      name: 'fake',
+      complete: () => Promise.reject(new Error('unused')),
+      async *stream() {
+        yield { content: 'Dear ' };
+        throw new LLMProviderError('fake', 500, 'upstream stack trace with internal details');
+      }
+    });
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob();
+
+    const response = await generateStream(headers, { extractedJobId, resumeId });
+    const body = await response.text();
+    const events = parseSSE(body);
+
+    expect(events.map(event => event.event)).toEqual(['start', 'token', 'error']);
+    expect(events[2].data).toEqual({
+      success: false,
+      error: 'The AI provider returned an error. Please try again.',
+      code: 'ai_provider_error'
+    });
+    expect(body).not.toContain('internal details');
+    expect(await savedLetters(userId)).toBe(0);
+    expect(await getCredits(worker, userId)).toBe(10);
+  });
+
+  it('stops generating when the client disconnects, saving and charging nothing', async () => {
+    let aborted!: () => void;
+    const abortSeen = new Promise<void>(resolve => { aborted = resolve; });
+    registerLLMProvider({
+      name: 'fake',
+      complete: () => Promise.reject(new Error('unused')),
+      async *stream(_request, signal) {
+        yield { content: 'Dear ' };
+        // Keeps generating until told to stop
+        if (!signal!.aborted) {
+          await new Promise<void>(resolve => signal!.addEventListener('abort', () => resolve(), { once: true }));
+        }
+        aborted();
+      }
+    });
+    const { userId, headers, resumeId, extractedJobId } = await seedUserWithJob();
+
+    const response = await generateStream(headers, { extractedJobId, resumeId });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    while (!received.includes('event: token')) {
+      const { value } = await reader.read();
+      received += decoder.decode(value, { stream: true });
+    }
+    await reader.cancel();
+
+    await abortSeen;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(await savedLetters(userId)).toBe(0);
+    expect(await getCredits(worker, userId)).toBe(10);
+  });
+
+  it('answers with a plain error before streaming when credits are short', async () => {
+    const provider = useFakeProvider();
+    const { headers, resumeId, extractedJobId } = await seedUserWithJob(2);
+
+    const response = await generateStream(headers, { extractedJobId, resumeId });
+
+    expect(response.status).toBe(402);
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    expect(provider.requests).toHaveLength(0);
+  });
+});
+
+describe('DELETE /api/cover-letters/:id', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  it('keeps translations of the deleted letter, unlinked from it', async () => {
+    const { userId, headers } = await createUser(worker);
+    const resumeId = crypto.randomUUID();
+    const originalId = crypto.randomUUID();
+    const translationId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain')`)
+        .bind(resumeId, userId, `resumes/${resumeId}`),
+      worker.db.prepare(`INSERT INTO cover_letters (id, user_id, resume_id, content, credits_used)
+        VALUES (?, ?, ?, 'Dear team,', 3)`)
+        .bind(originalId, userId, resumeId),
+      worker.db.prepare(`INSERT INTO cover_letters (id, user_id, resume_id, language, translated_from_id, content, credits_used)
+        VALUES (?, ?, ?, 'de', ?, 'Liebes Team,', 1)`)
+        .bind(translationId, userId, resumeId, originalId)
+    ]);
+
+    const response = await worker.fetch(`/api/cover-letters/${originalId}`, { method: 'DELETE', headers });
+
+    expect(response.status).toBe(200);
+    expect(await worker.db.prepare('SELECT language, translated_from_id FROM cover_letters WHERE id = ?').bind(translationId).first())
+      .toEqual({ language: 'de', translated_from_id: null });
+  });
+});
+
+describe('cover letter versions', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  // A letter from before versioning: no rows in cover_letter_versions yet
+  async function seedLegacyLetter(content = 'Dear team,\n\nI build dashboards.') {
+    const user = await createUser(worker);
+    const resumeId = crypto.randomUUID();
+    const coverLetterId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain')`)
+        .bind(resumeId, user.userId, `resumes/${resumeId}`),
+      worker.db.prepare(`INSERT INTO cover_letters (id, user_id, resume_id, content, credits_used)
+        VALUES (?, ?, ?, ?, 3)`)
+        .bind(coverLetterId, user.userId, resumeId, content)
+    ]);
+    return { ...user, coverLetterId };
+  }
+
+  function edit(coverLetterId: string, headers: Record<string, string>, content: string) {
+    return worker.fetch(`/api/cover-letters/${coverLetterId}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ content })
+    });
+  }
+
+  it('backfills version 1 for a legacy letter when its history is first read', async () => {
+    const { headers, coverLetterId } = await seedLegacyLetter();
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/versions`, { headers });
+    const data = await jsonData<{ currentVersion: number; versions: CoverLetterVersion[] }>(response);
+
+    expect(response.status).toBe(200);
+    expect(data.currentVersion).toBe(1);
+    expect(data.versions).toHaveLength(1);
+    expect(data.versions[0]).toMatchObject({ version: 1, source: 'ai', content: 'Dear team,\n\nI build dashboards.' });
+
+    // Reading again doesn't add another
+    await worker.fetch(`/api/cover-letters/${coverLetterId}/versions`, { headers });
+    const rows = await worker.db.prepare('SELECT COUNT(*) AS count FROM cover_letter_versions WHERE cover_letter_id = ?')
+      .bind(coverLetterId)
+      .first<{ count: number }>();
+    expect(rows!.count).toBe(1);
+  });
+
+  it('saves edits as new versions, keeping the original as version 1', async () => {
+    const { headers, coverLetterId } = await seedLegacyLetter();
+
+    const response = await edit(coverLetterId, headers, 'Dear Globex team,\n\nI build dashboards.');
+    const data = await jsonData<{ coverLetter: CoverLetter; version: CoverLetterVersion }>(response);
+
+    expect(response.status).toBe(200);
+    expect(data.coverLetter).toMatchObject({ currentVersion: 2, content: 'Dear Globex team,\n\nI build dashboards.' });
+    expect(data.version).toMatchObject({ version: 2, source: 'user', restoredFromVersion: null });
+
+    const versions = await jsonData<{ versions: CoverLetterVersion[] }>(
+      await worker.fetch(`/api/cover-letters/${coverLetterId}/versions`, { headers })
+    );
+    expect(versions.versions.map(version => [version.version, version.content])).toEqual([
+      [2, 'Dear Globex team,\n\nI build dashboards.'],
+      [1, 'Dear team,\n\nI build dashboards.']
+    ]);
+  });
+
+  it('does not add a version when the text is unchanged', async () => {
+    const { headers, coverLetterId } = await seedLegacyLetter();
+
+    const response = await edit(coverLetterId, headers, 'Dear team,\n\nI build dashboards.');
+    const data = await jsonData<{ coverLetter: CoverLetter; version: CoverLetterVersion | null }>(response);
+
+    expect(data.version).toBeNull();
+    expect(data.coverLetter.currentVersion).toBe(1);
+  });
+
+  it('diffs a version against the current one by default', async () => {
+    const { headers, coverLetterId } = await seedLegacyLetter('I led the team');
+    await edit(coverLetterId, headers, 'I managed the team');
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/versions/diff?from=1`, { headers });
+    const data = await jsonData<{ from: number; to: number; stats: { added: number; removed: number; unchanged: number } }>(response);
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      from: 1,
+      to: 2,
+      granularity: 'word',
+      changes: [
+        { type: 'equal', value: 'I ' },
+        { type: 'removed', value: 'led' },
+        { type: 'added', value: 'managed' },
+        { type: 'equal', value: ' the team' }
+      ],
+      stats: { added: 1, removed: 1, unchanged: 3 }
+    });
+
+    const missing = await worker.fetch(`/api/cover-letters/${coverLetterId}/versions/diff?from=1&to=5`, { headers });
+    expect(missing.status).toBe(404);
+  });
+
+  it('restores an earlier version as a new version that records where it came from', async () => {
+    const { headers, coverLetterId } = await seedLegacyLetter('First draft');
+    await edit(coverLetterId, headers, 'Second draft');
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/versions/1/restore`, { method: 'POST', headers });
+    const data = await jsonData<{ coverLetter: CoverLetter; version: CoverLetterVersion }>(response);
+
+    expect(response.status).toBe(201);
+    expect(data.coverLetter).toMatchObject({ currentVersion: 3, content: 'First draft' });
+    expect(data.version).toMatchObject({ version: 3, source: 'user', restoredFromVersion: 1, content: 'First draft' });
+
+    // Nothing is lost
+    const version2 = await jsonData<CoverLetterVersion>(
+      await worker.fetch(`/api/cover-letters/${coverLetterId}/versions/2`, { headers })
+    );
+    expect(version2.content).toBe('Second draft');
+  });
+
+  it('refuses to restore the current version', async () => {
+    const { headers, coverLetterId } = await seedLegacyLetter();
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/versions/1/restore`, { method: 'POST', headers });
+
+    expect(response.status).toBe(409);
+  });
+
+  it("hides another user's versions", async () => {
+    const { coverLetterId } = await seedLegacyLetter();
+    const { headers } = await createUser(worker);
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/versions`, { headers });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('GET /api/cover-letters/:id/export', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  async function seedLetter() {
+    const user = await createUser(worker);
+    const resumeId = crypto.randomUUID();
+    const coverLetterId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain')`)
+        .bind(resumeId, user.userId, `resumes/${resumeId}`),
+      worker.db.prepare(`INSERT INTO cover_letters (id, user_id, resume_id, company, job_title, content, credits_used, created_at, updated_at)
+        VALUES (?, ?, ?, 'Globex', 'Data Engineer', ?, 3, '2026-03-02T10:00:00.000Z', '2026-03-02T10:00:00.000Z')`)
+        .bind(coverLetterId, user.userId, resumeId, 'Dear Globex team,\n\nI build data platforms.')
+    ]);
+    return { ...user, coverLetterId };
+  }
+
+  async function cachedKeys(userId: string, coverLetterId: string): Promise<string[]> {
+    const listed = await worker.env.BUCKET.list({ prefix: `cover-letters/${userId}/${coverLetterId}/exports/` });
+    return listed.objects.map(object => object.key);
+  }
+
+  it('renders a PDF with the header and letter, then serves it from the cache', async () => {
+    const { userId, headers, coverLetterId } = await seedLetter();
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/export?format=pdf`, { headers });
+    const pdf = new Uint8Array(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="Globex-cover-letter.pdf"');
+    expect(response.headers.get('X-Export-Cache')).toBe('MISS');
+
+    const { text } = await extractPdfText(pdf);
+    expect(text).toContain('Alex Candidate');
+    expect(text).toContain('March 2, 2026');
+    expect(text).toContain('I build data platforms.');
+
+    expect(await cachedKeys(userId, coverLetterId)).toHaveLength(1);
+
+    const cached = await worker.fetch(`/api/cover-letters/${coverLetterId}/export?format=pdf`, { headers });
+    expect(cached.headers.get('X-Export-Cache')).toBe('HIT');
+    expect(new Uint8Array(await cached.arrayBuffer())).toEqual(pdf);
+  });
+
+  it('renders a DOCX', async () => {
+    const { headers, coverLetterId } = await seedLetter();
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/export?format=docx&layout=modern`, { headers });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    const text = await extractDocxText(new Uint8Array(await response.arrayBuffer()));
+    expect(text).toContain('Alex Candidate');
+    expect(text).toContain('Dear Globex team,');
+    expect(text).toContain('I build data platforms.');
+  });
+
+  it('renders a new export after an edit instead of the cached one', async () => {
+    const { headers, coverLetterId } = await seedLetter();
+    await worker.fetch(`/api/cover-letters/${coverLetterId}/export?format=txt`, { headers });
+
+    await worker.fetch(`/api/cover-letters/${coverLetterId}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ content: 'Dear Globex team,\n\nI build reliable data platforms.' })
+    });
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/export?format=txt`, { headers });
+
+    expect(response.headers.get('X-Export-Cache')).toBe('MISS');
+    expect(await response.text()).toContain('I build reliable data platforms.');
+  });
+
+  it('skips the cache when asked to', async () => {
+    const { userId, headers, coverLetterId } = await seedLetter();
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/export?format=md&cache=false`, { headers });
+
+    expect(response.headers.get('X-Export-Cache')).toBe('BYPASS');
+    expect(await response.text()).toContain('# Alex Candidate');
+    expect(await cachedKeys(userId, coverLetterId)).toEqual([]);
+  });
+
+  it('removes cached exports when the letter is deleted', async () => {
+    const { userId, headers, coverLetterId } = await seedLetter();
+    await worker.fetch(`/api/cover-letters/${coverLetterId}/export?format=pdf`, { headers });
+    await worker.fetch(`/api/cover-letters/${coverLetterId}/export?format=docx`, { headers });
+    expect(await cachedKeys(userId, coverLetterId)).toHaveLength(2);
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}`, { method: 'DELETE', headers });
+
+    expect(response.status).toBe(200);
+    expect(await cachedKeys(userId, coverLetterId)).toEqual([]);
+  });
+
+  it("hides another user's letter", async () => {
+    const { coverLetterId } = await seedLetter();
+    const { headers } = await createUser(worker);
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/export`, { headers });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('POST /api/cover-letters/:id/translate', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  it('saves the translation as a new letter, recording the prompt that produced it', async () => {
+    const provider = useFakeProvider({ respond: () => 'Liebes Globex-Team,' });
+    const { userId, headers } = await createUser(worker);
+    const resumeId = crypto.randomUUID();
+    const coverLetterId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain')`)
+        .bind(resumeId, userId, `resumes/${resumeId}`),
+      worker.db.prepare(`INSERT INTO cover_letters (id, user_id, resume_id, company, content, credits_used, prompt_name, prompt_version)
+        VALUES (?, ?, ?, 'Globex', 'Dear Globex team,', 3, 'cover_letter', 1)`)
+        .bind(coverLetterId, userId, resumeId)
+    ]);
+
+    const response = await worker.fetch(`/api/cover-letters/${coverLetterId}/translate`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ language: 'de' })
+    });
+    const data = await jsonData<GenerateResult>(response);
+
+    expect(response.status).toBe(201);
+    expect(provider.requests[0].operation).toBe('coverLetterTranslation');
+    expect(data.coverLetter).toMatchObject({
+      language: 'de',
+      translatedFromId: coverLetterId,
+      content: 'Liebes Globex-Team,',
+      promptName: 'cover_letter_translation',
+      promptVersion: 1,
+      promptExperimentId: null
+    });
+  });
+});
+
+describe('cover letter review', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  const LETTER = 'Dear Globex team,\n\nI am a team player who built TypeScript services used by 2 million people.\n\nBest regards,\nAlex Candidate';
+
+  async function seedUserWithJob(credits = 10) {
+    const user = await createUser(worker, { credits });
+    const extractedJobId = crypto.randomUUID();
+    await worker.db.prepare(`INSERT INTO extracted_jobs (id, user_id, url, title, company, skills, requirements)
+      VALUES (?, ?, 'https://jobs.example.com/1', 'Backend Engineer', 'Globex', ?, ?)`)
+      .bind(extractedJobId, user.userId, JSON.stringify(['TypeScript', 'Go']), JSON.stringify([]))
+      .run();
+    return { ...user, extractedJobId };
+  }
+
+  function review(headers: Record<string, string>, body: Record<string, unknown>, path = '/api/cover-letters/review') {
+    return worker.fetch(path, { method: 'POST', headers, body: JSON.stringify(body) });
+  }
+
+  it('runs the checks for free without calling the AI', async () => {
+    const provider = useFakeProvider();
+    const { userId, headers, extractedJobId } = await seedUserWithJob(0);
+
+    const response = await review(headers, { content: LETTER, extractedJobId });
+    const data = await jsonData<Review>(response);
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      aiReview: false,
+      creditsUsed: 0,
+      summary: null,
+      extractedJobId,
+      keywordCoverage: { matchedSkills: ['TypeScript'], missingSkills: ['Go'] },
+      cliches: [{ phrase: 'team player', line: 3 }]
+    });
+    // Overall is the average of the check scores
+    expect(data.scores).toEqual({ keywordCoverage: 50, cliches: 85, length: 0, specificity: 60, toneConsistency: null, overall: 49 });
+    expect(provider.requests).toHaveLength(0);
+    expect(await getCredits(worker, userId)).toBe(0);
+  });
+
+  it('blends the AI critique into the scores and suggestions, charging only for it', async () => {
+    const provider = useFakeProvider();
+    const { userId, headers, extractedJobId } = await seedUserWithJob();
+    const checks = await jsonData<Review>(await review(headers, { content: LETTER, extractedJobId }));
+
+    const response = await review(headers, { content: LETTER, extractedJobId, useAI: true });
+    const data = await jsonData<Review>(response);
+
+    // The fake critique scores specificity 70, tone 85 and overall 75
+    expect(data.scores).toEqual({
+      ...checks.scores,
+      specificity: Math.round((checks.scores.specificity + 70) / 2),
+      toneConsistency: 85,
+      overall: Math.round((checks.scores.overall + 75) / 2)
+    });
+    expect(data).toMatchObject({ aiReview: true, creditsUsed: 1, summary: expect.any(String) });
+    expect(data.suggestions[0]).toMatchObject({ category: 'critique', line: 3 });
+    expect(data.suggestions.slice(1)).toEqual(checks.suggestions);
+    expect(provider.requests.map(request => request.operation)).toEqual(['coverLetterCritique']);
+    expect(provider.requests[0].messages.at(-1)!.content).toContain('3: I am a team player');
+    expect(await getCredits(worker, userId)).toBe(9);
+  });
+
+  it('requires the credit for the critique before calling the AI', async () => {
+    const provider = useFakeProvider();
+    const { userId, headers } = await seedUserWithJob(0);
+
+    const response = await review(headers, { content: LETTER, useAI: true });
+
+    expect(response.status).toBe(402);
+    expect(provider.requests).toHaveLength(0);
+    expect(await getCredits(worker, userId)).toBe(0);
+  });
+
+  it("doesn't charge when the critique fails", async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useFakeProvider({ respond: () => { throw new LLMProviderError('fake', 500, 'fake API error: 500'); } });
+    const { userId, headers } = await seedUserWithJob();
+
+    const response = await review(headers, { content: LETTER, useAI: true });
+
+    expect(response.status).toBe(502);
+    expect(await getCredits(worker, userId)).toBe(10);
+  });
+
+  it("reviews a saved letter against its linked job, hiding other users' letters and jobs", async () => {
+    useFakeProvider();
+    const { userId, headers, extractedJobId } = await seedUserWithJob();
+    const resumeId = crypto.randomUUID();
+    const coverLetterId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain')`)
+        .bind(resumeId, userId, `resumes/${resumeId}`),
+      worker.db.prepare(`INSERT INTO cover_letters (id, user_id, resume_id, extracted_job_id, company, content, credits_used)
+        VALUES (?, ?, ?, ?, 'Globex', ?, 3)`)
+        .bind(coverLetterId, userId, resumeId, extractedJobId, LETTER)
+    ]);
+    const path = `/api/cover-letters/${coverLetterId}/review`;
+
+    const data = await jsonData<Review>(await review(headers, {}, path));
+    expect(data).toMatchObject({ extractedJobId, keywordCoverage: { missingSkills: ['Go'] }, creditsUsed: 0 });
+
+    const other = await seedUserWithJob();
+    expect((await review(other.headers, {}, path)).status).toBe(404);
+    expect((await review(headers, { extractedJobId: other.extractedJobId }, path)).status).toBe(404);
+    expect((await review(headers, { content: LETTER, extractedJobId: other.extractedJobId })).status).toBe(404);
+  });
+});
@@ -0,0 +1,310 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, onTestFinished, vi } from 'vitest';
+import { createTestWorker, useFakeProvider, createUser, getCredits, jsonData, type TestWorker } from '../helpers/testWorker';
+import type { FormattedExtractedJob, FormattedJobMatch } from '../../src/types/database';
+
+// What extract-from-html returns on top of the saved job
+interface ExtractionResult extends FormattedExtractedJob {
+  duplicate: boolean;
+  aiExtraction: { status: string; fieldValidity: Record<string, boolean> } | null;
+  tokensUsed: number;
+  creditsUsed: number;
+  remainingCredits: number;
+}
+
+const GREENHOUSE_URL = 'https://boards.greenhouse.io/acmerobotics/jobs/4012345';
+const greenhouseHtml = readFileSync(new URL('../fixtures/extractors/greenhouse.html', import.meta.url), 'utf8');
+
+// A careers page with no markup the deterministic extractors understand
+const PLAIN_HTML = `<html><head><title>Careers at Example Corp</title></head><body>
+  <h1>Software Engineer</h1>
+  <p>Example Corp is hiring a Software Engineer to build web applications for our customers. This is a remote role.</p>
+</body></html>`;
+
+// Schema.org JobPosting markup covering every required field
+const STRUCTURED_HTML = `<html><head><title>Platform Engineer</title>
+<script type="application/ld+json">${JSON.stringify({
+  '@context': 'https://schema.org',
+  '@type': 'JobPosting',
+  title: 'Platform Engineer',
+  hiringOrganization: { '@type': 'Organization', name: 'Umbrella Corp' },
+  jobLocation: { '@type': 'Place', address: { '@type': 'PostalAddress', addressLocality: 'Denver', addressRegion: 'CO' } },
+  description: '<p>Umbrella Corp is looking for a Platform Engineer to run our internal developer platform.</p>',
+  qualifications: 'Experience running Kubernetes clusters',
+  skills: 'Kubernetes, Terraform, Go',
+  employmentType: 'FULL_TIME',
+  datePosted: '2024-04-01'
+})}</script>
+</head><body><h1>Platform Engineer</h1></body></html>`;
+
+describe('POST /api/jobs/extract-from-html', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  function extract(headers: Record<string, string>, body: Record<string, unknown>) {
+    return worker.fetch('/api/jobs/extract-from-html', { method: 'POST', headers, body: JSON.stringify(body) });
+  }
+
+  it('extracts a page with no structured data through the AI and charges for it', async () => {
+    const provider = useFakeProvider();
+    const { userId, headers } = await createUser(worker);
+
+    const response = await extract(headers, { html: PLAIN_HTML, url: 'https://careers.example.com/jobs/1', title: 'Careers at Example Corp' });
+    const data = await jsonData<ExtractionResult>(response);
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      title: 'Software Engineer',
+      company: 'Example Corp',
+      extractionMethod: 'ai',
+      extractor: null,
+      aiExtraction: { status: 'complete' },
+      creditsUsed: 1,
+      remainingCredits: 9
+    });
+    expect(provider.requests.map(request => request.operation)).toEqual(['jobExtraction']);
+    expect(await getCredits(worker, userId)).toBe(9);
+
+    const saved = await worker.db.prepare('SELECT title, extraction_method FROM extracted_jobs WHERE id = ?').bind(data.id).first();
+    expect(saved).toEqual({ title: 'Software Engineer', extraction_method: 'ai' });
+  });
+
+  it('keeps the site extractor fields and asks the AI only for the rest', async () => {
+    const provider = useFakeProvider();
+    const { headers } = await createUser(worker);
+
+    const response = await extract(headers, { html: greenhouseHtml, url: GREENHOUSE_URL, title: 'Senior Backend Engineer' });
+    const data = await jsonData<ExtractionResult>(response);
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      title: 'Senior Backend Engineer',
+      company: 'Acme Robotics',
+      location: 'Remote - US',
+      skills: ['TypeScript', 'Node.js', 'SQL'], // From the fake provider
+      extractionMethod: 'hybrid',
+      extractor: 'greenhouse'
+    });
+    expect(data.fieldSources).toMatchObject({ title: 'extractor', company: 'extractor', skills: 'ai' });
+
+    // The page is still sent, but the prompt names only the missing fields
+    expect(provider.requests).toHaveLength(1);
+    const prompt = provider.requests[0].messages.map(message => message.content).join('\n');
+    expect(prompt).toContain('skills');
+  });
+
+  it('uses complete structured data without calling the AI or charging', async () => {
+    const provider = useFakeProvider();
+    const { userId, headers } = await createUser(worker);
+
+    const response = await extract(headers, { html: STRUCTURED_HTML, url: 'https://umbrella.example.com/jobs/platform', title: 'Platform Engineer' });
+    const data = await jsonData<ExtractionResult>(response);
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      title: 'Platform Engineer',
+      company: 'Umbrella Corp',
+      extractionMethod: 'structured',
+      aiExtraction: null,
+      creditsUsed: 0
+    });
+    expect(provider.requests).toHaveLength(0);
+    expect(await getCredits(worker, userId)).toBe(10);
+  });
+
+  it('returns the saved job for an unchanged page without charging again', async () => {
+    const provider = useFakeProvider();
+    const { userId, headers } = await createUser(worker);
+    const request = { html: PLAIN_HTML, url: 'https://careers.example.com/jobs/2?utm_source=linkedin', title: 'Careers at Example Corp' };
+
+    const first = await jsonData<ExtractionResult>(await extract(headers, request));
+    const second = await jsonData<ExtractionResult>(await extract(headers, { ...request, url: 'https://careers.example.com/jobs/2' }));
+
+    expect(second).toMatchObject({ id: first.id, duplicate: true, tokensUsed: 0 });
+    expect(provider.requests).toHaveLength(1);
+    expect(await getCredits(worker, userId)).toBe(9);
+  });
+
+  it('falls back to the extractor fields when the AI response is unusable', async () => {
+    useFakeProvider({ respond: () => 'Sorry, I cannot help with that.' });
+    const { userId, headers } = await createUser(worker);
+
+    const response = await extract(headers, { html: greenhouseHtml, url: GREENHOUSE_URL, title: 'Senior Backend Engineer' });
+    const data = await jsonData<ExtractionResult>(response);
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      title: 'Senior Backend Engineer',
+      extractionMethod: 'extractor',
+      extractor: 'greenhouse',
+      aiExtraction: { status: 'failed' },
+      creditsUsed: 0
+    });
+    expect(await getCredits(worker, userId)).toBe(10);
+  });
+
+  it('uses the active stored version of the extraction prompt', async () => {
+    const provider = useFakeProvider();
+    const { headers } = await createUser(worker);
+    const promptId = crypto.randomUUID();
+    await worker.db.prepare(`INSERT INTO prompt_templates (id, name, version, system, template, is_active)
+      VALUES (?, 'job_extraction', 2, 'You extract job postings.', 'Posting at {{url}}: {{content}}', 1)`)
+      .bind(promptId)
+      .run();
+    onTestFinished(async () => {
+      await worker.db.prepare('DELETE FROM prompt_templates WHERE id = ?').bind(promptId).run();
+    });
+
+    const response = await extract(headers, { html: PLAIN_HTML, url: 'https://careers.example.com/jobs/4', title: 'Careers at Example Corp' });
+
+    expect(response.status).toBe(200);
+    expect(provider.requests[0].messages.slice(0, 2)).toEqual([
+      { role: 'system', content: 'You extract job postings.' },
+      { role: 'user', content: expect.stringMatching(/^Posting at https:\/\/careers\.example\.com\/jobs\/4: Careers at Example Corp Software Engineer/) }
+    ]);
+  });
+
+  it('rejects an AI extraction the user cannot pay for', async () => {
+    const provider = useFakeProvider();
+    const { headers } = await createUser(worker, { credits: 0 });
+
+    const response = await extract(headers, { html: PLAIN_HTML, url: 'https://careers.example.com/jobs/3', title: 'Careers at Example Corp' });
+
+    expect(response.status).toBe(402);
+    expect(provider.requests).toHaveLength(0);
+  });
+});
+
+describe('DELETE /api/jobs/extracted/:id', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  it('keeps later versions of the posting, unlinked from the deleted one', async () => {
+    const { userId, headers } = await createUser(worker);
+    const firstId = crypto.randomUUID();
+    const secondId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO extracted_jobs (id, user_id, url, canonical_url, version, title)
+        VALUES (?, ?, 'https://jobs.example.com/1', 'https://jobs.example.com/1', 1, 'Engineer')`)
+        .bind(firstId, userId),
+      worker.db.prepare(`INSERT INTO extracted_jobs (id, user_id, url, canonical_url, version, previous_version_id, title)
+        VALUES (?, ?, 'https://jobs.example.com/1', 'https://jobs.example.com/1', 2, ?, 'Senior Engineer')`)
+        .bind(secondId, userId, firstId)
+    ]);
+
+    const response = await worker.fetch(`/api/jobs/extracted/${firstId}`, { method: 'DELETE', headers });
+
+    expect(response.status).toBe(200);
+    expect(await worker.db.prepare('SELECT version, previous_version_id FROM extracted_jobs WHERE id = ?').bind(secondId).first())
+      .toEqual({ version: 2, previous_version_id: null });
+  });
+});
+
+describe('job matching', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    useFakeProvider();
+    return () => vi.restoreAllMocks();
+  });
+
+  async function seedResumeAndJob(resumeText: string) {
+    const user = await createUser(worker);
+    const resumeId = crypto.randomUUID();
+    const jobId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type, extracted_text, extraction_status)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain', ?, 'completed')`)
+        .bind(resumeId, user.userId, `resumes/${resumeId}`, resumeText),
+      worker.db.prepare(`INSERT INTO extracted_jobs (id, user_id, url, title, company, skills, requirements)
+        VALUES (?, ?, 'https://jobs.example.com/1', 'Frontend Engineer', 'Globex', ?, '[]')`)
+        .bind(jobId, user.userId, JSON.stringify(['React', 'TypeScript', 'GraphQL', 'CSS']))
+    ]);
+    return { ...user, resumeId, jobId };
+  }
+
+  async function match(headers: Record<string, string>, jobId: string, resumeId: string) {
+    const response = await worker.fetch(`/api/jobs/extracted/${jobId}/match`, { method: 'POST', headers, body: JSON.stringify({ resumeId }) });
+    return jsonData<FormattedJobMatch & { cached: boolean; stale: boolean }>(response);
+  }
+
+  async function storedMatches(headers: Record<string, string>, jobId: string) {
+    const response = await worker.fetch(`/api/jobs/extracted/${jobId}/match`, { headers });
+    return jsonData<{ matches: (FormattedJobMatch & { stale: boolean })[]; bestScore: number | null }>(response);
+  }
+
+  it('reuses the stored result while the resume and job are unchanged', async () => {
+    const { headers, resumeId, jobId } = await seedResumeAndJob('Built dashboards in React and TypeScript');
+
+    const first = await match(headers, jobId, resumeId);
+    const second = await match(headers, jobId, resumeId);
+
+    expect(first).toMatchObject({ cached: false, stale: false, matchedSkills: ['React', 'TypeScript'] });
+    expect(second).toMatchObject({ id: first.id, cached: true, score: first.score });
+    expect(await storedMatches(headers, jobId)).toMatchObject({ matches: [{ id: first.id, stale: false }], bestScore: first.score });
+  });
+
+  it('recomputes after the resume file is replaced', async () => {
+    const { headers, resumeId, jobId } = await seedResumeAndJob('Built dashboards in React');
+    const first = await match(headers, jobId, resumeId);
+
+    const { 'Content-Type': _contentType, ...uploadHeaders } = headers;
+    const replaced = await worker.fetch(`/api/resumes/${resumeId}/upload`, {
+      method: 'POST',
+      headers: uploadHeaders,
+      body: 'Built dashboards in React, TypeScript and GraphQL'
+    });
+    expect(replaced.status).toBe(200);
+
+    expect(await storedMatches(headers, jobId)).toMatchObject({ matches: [{ id: first.id, stale: true }], bestScore: null });
+
+    const second = await match(headers, jobId, resumeId);
+    expect(second).toMatchObject({ cached: false, stale: false, matchedSkills: ['React', 'TypeScript', 'GraphQL'] });
+    expect(second.score).toBeGreaterThan(first.score);
+  });
+
+  it('recomputes after the resume is parsed into new skills', async () => {
+    const { userId, headers, resumeId, jobId } = await seedResumeAndJob('Built dashboards in React');
+    await match(headers, jobId, resumeId);
+
+    await worker.db.prepare(`INSERT INTO resume_profiles (id, resume_id, user_id, profile, skills) VALUES (?, ?, ?, '{}', ?)`)
+      .bind(crypto.randomUUID(), resumeId, userId, JSON.stringify(['CSS']))
+      .run();
+
+    expect((await storedMatches(headers, jobId)).matches[0].stale).toBe(true);
+    expect(await match(headers, jobId, resumeId)).toMatchObject({ cached: false, matchedSkills: ['React', 'CSS'] });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createTestWorker, useFakeProvider, createUser, json, jsonData, type TestWorker } from '../helpers/testWorker';
+import { assignVariant } from '../../src/lib/prompts';
+import type { CoverLetter, FormattedPromptExperiment, PromptTemplate } from '../../src/types/database';
+
+const ADMIN_API_KEY = 'test-admin-key-that-is-at-least-32-characters';
+const ADMIN_HEADERS = { 'X-Admin-Key': ADMIN_API_KEY, 'Content-Type': 'application/json' };
+
+interface ExperimentResults extends FormattedPromptExperiment {
+  results: Array<{
+    version: number;
+    weight: number;
+    letters: number;
+    ratings: number;
+    averageRating: number | null;
+    editRate: number | null;
+    averageEdits: number | null;
+    averageRewrites: number | null;
+  }>;
+}
+
+describe('admin prompt API without ADMIN_API_KEY', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  it("doesn't exist", async () => {
+    const response = await worker.fetch('/api/admin/prompts', { headers: ADMIN_HEADERS });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('admin prompt API', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker({ ADMIN_API_KEY });
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  function admin(path: string, init: RequestInit = {}) {
+    return worker.fetch(`/api/admin/prompts${path}`, { ...init, headers: ADMIN_HEADERS });
+  }
+
+  function createVersion(system: string, activate = false) {
+    return admin('/versions', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'cover_letter', system, template: 'Write to {{job}} using {{resume}}', activate })
+    });
+  }
+
+  async function seedUserWithJob() {
+    const user = await createUser(worker);
+    const resumeId = crypto.randomUUID();
+    const extractedJobId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type, extracted_text, extraction_status)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain', 'Alex Candidate', 'completed')`)
+        .bind(resumeId, user.userId, `resumes/${resumeId}`),
+      worker.db.prepare(`INSERT INTO extracted_jobs (id, user_id, url, title, company)
+        VALUES (?, ?, 'https://jobs.example.com/1', 'Data Engineer', 'Globex')`)
+        .bind(extractedJobId, user.userId)
+    ]);
+    return { ...user, resumeId, extractedJobId };
+  }
+
+  async function generate() {
+    const { headers, userId, resumeId, extractedJobId } = await seedUserWithJob();
+    const response = await worker.fetch('/api/cover-letters/generate', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ extractedJobId, resumeId })
+    });
+    const { coverLetter } = await jsonData<{ coverLetter: CoverLetter }>(response);
+    return { userId, coverLetter };
+  }
+
+  it('rejects a wrong admin key', async () => {
+    const response = await worker.fetch('/api/admin/prompts', { headers: { 'X-Admin-Key': 'wrong' } });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects versions that use variables the prompt does not supply', async () => {
+    const response = await admin('/versions', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'cover_letter', system: 'You write letters.', template: 'Salary: {{salary}}' })
+    });
+    const body = await json(response);
+
+    expect(response.status).toBe(400);
+    expect(JSON.stringify(body)).toContain('Unknown variables: salary');
+  });
+
+  it('serves the active version, and the built-in one again once version 1 is activated', async () => {
+    const provider = useFakeProvider();
+    const version = await jsonData<PromptTemplate>(await createVersion('Active system prompt', true));
+    expect(version).toMatchObject({ version: 2, isActive: true });
+
+    const { coverLetter } = await generate();
+    expect(coverLetter).toMatchObject({ promptName: 'cover_letter', promptVersion: 2, promptExperimentId: null });
+    expect(provider.requests[0].messages[0].content).toBe('Active system prompt');
+    expect(provider.requests[0].messages[1].content).toMatch(/^Write to \{\n  "title": "Data Engineer"/);
+
+    // A newer inactive version changes nothing
+    await createVersion('Draft system prompt');
+    expect((await generate()).coverLetter.promptVersion).toBe(2);
+
+    const activated = await admin('/cover_letter/versions/1/activate', { method: 'POST' });
+    expect(await jsonData(activated)).toEqual({ name: 'cover_letter', activeVersion: 1 });
+
+    const builtIn = await generate();
+    expect(builtIn.coverLetter.promptVersion).toBe(1);
+    expect(provider.requests.at(-1)!.messages[0].content).not.toBe('Active system prompt');
+  });
+
+  async function startExperiment(versions: number[]) {
+    const response = await admin('/experiments', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Shorter intro', promptName: 'cover_letter', variants: versions.map(version => ({ version })) })
+    });
+    expect(response.status).toBe(201);
+    return await jsonData<FormattedPromptExperiment>(response);
+  }
+
+  it('gives each user their experiment variant until the experiment stops', async () => {
+    const provider = useFakeProvider();
+    const version = await jsonData<PromptTemplate>(await createVersion('Experiment system prompt'));
+    const experiment = await startExperiment([1, version.version]);
+
+    const second = await admin('/experiments', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Another', promptName: 'cover_letter', variants: [{ version: 1 }, { version: version.version }] })
+    });
+    expect(second.status).toBe(409);
+
+    for (let i = 0; i < 6; i++) {
+      const { userId, coverLetter } = await generate();
+      const assigned = assignVariant(experiment.id, userId, experiment.variants).version;
+
+      expect(coverLetter).toMatchObject({ promptExperimentId: experiment.id, promptVersion: assigned });
+      expect(provider.requests.at(-1)!.messages[0].content === 'Experiment system prompt').toBe(assigned === version.version);
+    }
+
+    const stopped = await admin(`/experiments/${experiment.id}/stop`, { method: 'POST' });
+    expect(await jsonData<FormattedPromptExperiment>(stopped)).toMatchObject({ status: 'stopped' });
+    expect((await generate()).coverLetter.promptExperimentId).toBeNull();
+  });
+
+  it('reports ratings, edits and rewrites per variant', async () => {
+    const version = await jsonData<PromptTemplate>(await createVersion('Results system prompt'));
+    const experiment = await startExperiment([1, version.version]);
+    const { userId } = await createUser(worker);
+    const resumeId = crypto.randomUUID();
+    await worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type)
+      VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain')`)
+      .bind(resumeId, userId, `resumes/${resumeId}`)
+      .run();
+
+    // Letters with their rating and the sources of their versions after the first
+    const letters: Array<{ variant: number | null; rating: number | null; revisions: Array<'user' | 'ai' | 'restore'> }> = [
+      { variant: 1, rating: 4, revisions: ['user', 'user', 'restore'] },
+      { variant: 1, rating: null, revisions: ['ai'] },
+      { variant: 1, rating: 5, revisions: [] },
+      { variant: version.version, rating: 2, revisions: ['ai', 'ai', 'user'] },
+      { variant: null, rating: 1, revisions: ['user'] } // Not part of the experiment
+    ];
+    for (const letter of letters) {
+      const coverLetterId = crypto.randomUUID();
+      await worker.db.batch([
+        worker.db.prepare(`INSERT INTO cover_letters (id, user_id, resume_id, content, credits_used, rating, prompt_name, prompt_version, prompt_experiment_id)
+          VALUES (?, ?, ?, 'Dear team,', 3, ?, 'cover_letter', ?, ?)`)
+          .bind(coverLetterId, userId, resumeId, letter.rating, letter.variant ?? 1, letter.variant ? experiment.id : null),
+        ...['ai' as const, ...letter.revisions].map((source, index) =>
+          worker.db.prepare(`INSERT INTO cover_letter_versions (id, cover_letter_id, version, content, source, restored_from_version)
+            VALUES (?, ?, ?, 'Dear team,', ?, ?)`)
+            .bind(crypto.randomUUID(), coverLetterId, index + 1, source === 'restore' ? 'user' : source, source === 'restore' ? 1 : null))
+      ]);
+    }
+
+    const results = await jsonData<ExperimentResults>(await admin(`/experiments/${experiment.id}`));
+
+    expect(results.results).toEqual([
+      { version: 1, weight: 1, letters: 3, ratings: 2, averageRating: 4.5, editRate: 0.33, averageEdits: 0.67, averageRewrites: 0.33 },
+      { version: version.version, weight: 1, letters: 1, ratings: 1, averageRating: 2, editRate: 1, averageEdits: 1, averageRewrites: 2 }
+    ]);
+
+    await admin(`/experiments/${experiment.id}/stop`, { method: 'POST' });
+  });
+
+  it('reports no outcomes for a variant without letters', async () => {
+    const version = await jsonData<PromptTemplate>(await createVersion('Unused system prompt'));
+    const experiment = await startExperiment([1, version.version]);
+
+    const results = await jsonData<ExperimentResults>(await admin(`/experiments/${experiment.id}`));
+
+    expect(results.results[1]).toEqual({
+      version: version.version,
+      weight: 1,
+      letters: 0,
+      ratings: 0,
+      averageRating: null,
+      editRate: null,
+      averageEdits: null,
+      averageRewrites: null
+    });
+  });
+
+  it('returns 404 for an unknown experiment', async () => {
+    const response = await admin(`/experiments/${crypto.randomUUID()}`);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,357 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createTestWorker, useFakeProvider, createUser, getCredits, json, jsonData, type TestWorker } from '../helpers/testWorker';
+import type { Resume, ResumeProfile } from '../../src/types/database';
+
+interface UploadResult {
+  resume: Omit<Resume, 'extractedText'>;
+  extractionStatus: string;
+  extractionError: string | null;
+  creditsUsed: number;
+  remainingCredits: number;
+}
+
+interface ReplaceResult {
+  size: number;
+  extractionStatus: string;
+  extractionError: string | null;
+  creditsUsed: number;
+  remainingCredits: number;
+}
+
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(new URL(`../fixtures/documents/${name}`, import.meta.url)));
+}
+
+// A body streamed in 64KB chunks with no Content-Length
+function chunkedBody(totalBytes: number): ReadableStream<Uint8Array> {
+  let sent = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (sent >= totalBytes) {
+        controller.close();
+        return;
+      }
+      const size = Math.min(64 * 1024, totalBytes - sent);
+      controller.enqueue(new Uint8Array(size).fill(0x61));
+      sent += size;
+    }
+  });
+}
+
+describe('resume uploads', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useFakeProvider();
+    return () => vi.restoreAllMocks();
+  });
+
+  // Auth headers without the JSON Content-Type, so the body sets its own
+  async function createUploader(credits = 10) {
+    const { userId, headers } = await createUser(worker, { credits });
+    const { 'Content-Type': _contentType, ...authHeaders } = headers;
+    return { userId, headers: authHeaders };
+  }
+
+  function upload(headers: Record<string, string>, data: Uint8Array, name: string) {
+    const form = new FormData();
+    form.set('file', new File([data], name));
+    return worker.fetch('/api/resumes/upload', { method: 'POST', headers, body: form });
+  }
+
+  function replace(headers: Record<string, string>, resumeId: string, body: BodyInit, init: RequestInit = {}) {
+    return worker.fetch(`/api/resumes/${resumeId}/upload`, { method: 'POST', headers, body, ...init });
+  }
+
+  async function storedResume(resumeId: string) {
+    return await worker.db.prepare('SELECT extracted_text, extraction_status, mime_type FROM resumes WHERE id = ?')
+      .bind(resumeId)
+      .first<{ extracted_text: string | null; extraction_status: string; mime_type: string }>();
+  }
+
+  async function uploadedResume() {
+    const uploader = await createUploader();
+    const { resume } = await jsonData<UploadResult>(await upload(uploader.headers, fixture('resume.docx'), 'resume.docx'));
+    return { ...uploader, resumeId: resume.id, fileKey: resume.fileKey };
+  }
+
+  describe('POST /api/resumes/upload', () => {
+    it('stores the file, caches its text and charges for it', async () => {
+      const { userId, headers } = await createUploader();
+
+      const response = await upload(headers, fixture('resume.docx'), 'resume.docx');
+      const data = await jsonData<UploadResult>(response);
+
+      expect(response.status).toBe(201);
+      expect(data).toMatchObject({ extractionStatus: 'completed', extractionError: null, creditsUsed: 1, remainingCredits: 9 });
+      expect(await getCredits(worker, userId)).toBe(9);
+
+      const saved = await storedResume(data.resume.id);
+      expect(saved?.extracted_text).toContain('Cut page load times by 40%');
+      expect(await worker.env.BUCKET.head(data.resume.fileKey)).not.toBeNull();
+    });
+
+    it('keeps a file whose text cannot be extracted without charging for it', async () => {
+      const { userId, headers } = await createUploader();
+
+      const response = await upload(headers, fixture('encrypted.pdf'), 'resume.pdf');
+      const data = await jsonData<UploadResult>(response);
+
+      expect(response.status).toBe(201);
+      expect(data).toMatchObject({ extractionStatus: 'failed', creditsUsed: 0, remainingCredits: 10 });
+      expect(data.extractionError).toContain('encrypted');
+      expect(await getCredits(worker, userId)).toBe(10);
+    });
+
+    it('rejects a file type outside the allow-list', async () => {
+      const { userId, headers } = await createUploader();
+
+      const response = await upload(headers, new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00]), 'resume.pdf');
+
+      expect(response.status).toBe(415);
+      expect(await getCredits(worker, userId)).toBe(10);
+    });
+
+    it('rejects a chunked body over the plan limit while reading it', async () => {
+      const { headers } = await createUploader();
+
+      const response = await worker.fetch('/api/resumes/upload', {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'multipart/form-data; boundary=chunked' },
+        body: chunkedBody(3 * 1024 * 1024),
+        duplex: 'half'
+      } as RequestInit);
+
+      expect(response.status).toBe(413);
+    });
+
+    it('requires the upload credit', async () => {
+      const { headers } = await createUploader(0);
+
+      const response = await upload(headers, fixture('resume.docx'), 'resume.docx');
+
+      expect(response.status).toBe(402);
+    });
+  });
+
+  describe('POST /api/resumes/:id/upload', () => {
+    it('re-extracts the replaced file and charges like a fresh upload', async () => {
+      const { userId, headers, resumeId } = await uploadedResume();
+
+      const response = await replace(headers, resumeId, fixture('resume.pdf'));
+      const data = await jsonData<ReplaceResult>(response);
+
+      expect(response.status).toBe(200);
+      expect(data).toMatchObject({ extractionStatus: 'completed', creditsUsed: 1, remainingCredits: 8 });
+      expect(await getCredits(worker, userId)).toBe(8);
+
+      const saved = await storedResume(resumeId);
+      expect(saved).toMatchObject({ extraction_status: 'completed', mime_type: 'application/pdf' });
+      expect(saved?.extracted_text).toContain('Senior Software Engineer');
+    });
+
+    it('does not charge when the replacement cannot be read', async () => {
+      const { userId, headers, resumeId } = await uploadedResume();
+
+      const response = await replace(headers, resumeId, fixture('scanned.pdf'));
+      const data = await jsonData<ReplaceResult>(response);
+
+      expect(data).toMatchObject({ extractionStatus: 'failed', creditsUsed: 0, remainingCredits: 9 });
+      expect(await getCredits(worker, userId)).toBe(9);
+      expect(await storedResume(resumeId)).toMatchObject({ extracted_text: null, extraction_status: 'failed' });
+    });
+
+    it('rejects a chunked body over the plan limit', async () => {
+      const { headers, resumeId } = await uploadedResume();
+
+      const response = await replace(headers, resumeId, chunkedBody(3 * 1024 * 1024), { duplex: 'half' } as RequestInit);
+      const body = await json(response);
+
+      expect(response.status).toBe(413);
+      expect(body).toMatchObject({ success: false, error: 'File exceeds the size limit for your plan' });
+    });
+
+    it('requires the upload credit', async () => {
+      const { headers, resumeId, userId } = await uploadedResume();
+      await worker.db.prepare('UPDATE users SET credits = 0 WHERE id = ?').bind(userId).run();
+
+      const response = await replace(headers, resumeId, fixture('resume.pdf'));
+
+      expect(response.status).toBe(402);
+    });
+
+    it('returns 404 for a resume that belongs to another user', async () => {
+      const { resumeId } = await uploadedResume();
+      const { headers } = await createUploader();
+
+      const response = await replace(headers, resumeId, fixture('resume.pdf'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/resumes/:id/extract', () => {
+    it('re-extracts the stored file into the cached text without charging', async () => {
+      const { userId, headers, resumeId } = await uploadedResume();
+      await worker.db.prepare("UPDATE resumes SET extracted_text = 'Stale text', extraction_status = 'failed' WHERE id = ?")
+        .bind(resumeId)
+        .run();
+
+      const response = await worker.fetch(`/api/resumes/${resumeId}/extract`, { method: 'POST', headers });
+      const data = await jsonData<{ extractionStatus: string; contentLength: number }>(response);
+
+      expect(response.status).toBe(200);
+      expect(data.extractionStatus).toBe('completed');
+      const saved = await storedResume(resumeId);
+      expect(saved?.extracted_text).toContain('Cut page load times by 40%');
+      expect(data.contentLength).toBe(saved?.extracted_text?.length);
+      expect(await getCredits(worker, userId)).toBe(9); // Only the upload was charged
+    });
+
+    it('serves the cached text afterwards without reading the file again', async () => {
+      const { headers, resumeId, fileKey } = await uploadedResume();
+      await worker.fetch(`/api/resumes/${resumeId}/extract`, { method: 'POST', headers });
+      await worker.env.BUCKET.delete(fileKey);
+
+      const response = await worker.fetch(`/api/resumes/${resumeId}/content`, { headers });
+
+      expect((await jsonData<{ content: string }>(response)).content).toContain('Cut page load times by 40%');
+    });
+
+    it('reports a missing file', async () => {
+      const { headers, resumeId, fileKey } = await uploadedResume();
+      await worker.env.BUCKET.delete(fileKey);
+
+      const response = await worker.fetch(`/api/resumes/${resumeId}/extract`, { method: 'POST', headers });
+
+      expect(response.status).toBe(404);
+      expect(await json(response)).toMatchObject({ success: false, error: 'Resume file not found' });
+    });
+
+    it('returns 404 for a resume that belongs to another user', async () => {
+      const { resumeId } = await uploadedResume();
+      const other = await createUploader();
+
+      const response = await worker.fetch(`/api/resumes/${resumeId}/extract`, { method: 'POST', headers: other.headers });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/resumes/:id/parse', () => {
+    interface ParseResult {
+      id: string;
+      resumeId: string;
+      profile: ResumeProfile;
+      remainingCredits: number;
+    }
+
+    function parse(headers: Record<string, string>, resumeId: string) {
+      return worker.fetch(`/api/resumes/${resumeId}/parse`, { method: 'POST', headers });
+    }
+
+    async function storedProfiles(resumeId: string) {
+      const { results } = await worker.db.prepare('SELECT profile, skills FROM resume_profiles WHERE resume_id = ?')
+        .bind(resumeId)
+        .all<{ profile: string; skills: string }>();
+      return results;
+    }
+
+    it('saves the parsed profile for the resume and charges for it', async () => {
+      const provider = useFakeProvider();
+      const { userId, headers, resumeId } = await uploadedResume();
+
+      const response = await parse(headers, resumeId);
+      const data = await jsonData<ParseResult>(response);
+
+      expect(response.status).toBe(200);
+      expect(data).toMatchObject({ resumeId, remainingCredits: 7, profile: { skills: ['TypeScript', 'Node.js', 'SQL'] } });
+      expect(await getCredits(worker, userId)).toBe(7);
+      expect(provider.requests[0].messages.at(-1)!.content).toContain('Cut page load times by 40%');
+
+      const stored = await storedProfiles(resumeId);
+      expect(stored).toHaveLength(1);
+      expect(JSON.parse(stored[0].profile)).toEqual(data.profile);
+      expect(JSON.parse(stored[0].skills)).toEqual(['TypeScript', 'Node.js', 'SQL']);
+
+      const profile = await jsonData<{ id: string; profile: ResumeProfile }>(await worker.fetch(`/api/resumes/${resumeId}/profile`, { headers }));
+      expect(profile).toMatchObject({ id: data.id, profile: data.profile });
+    });
+
+    it('replaces the profile when the resume is parsed again', async () => {
+      const { headers, resumeId } = await uploadedResume();
+      const first = await jsonData<ParseResult>(await parse(headers, resumeId));
+
+      useFakeProvider({
+        respond: () => JSON.stringify({ ...first.profile, skills: ['TypeScript', 'Go'] })
+      });
+      const second = await jsonData<ParseResult>(await parse(headers, resumeId));
+
+      expect(second.id).toBe(first.id);
+      const stored = await storedProfiles(resumeId);
+      expect(stored).toHaveLength(1);
+      expect(JSON.parse(stored[0].skills)).toEqual(['TypeScript', 'Go']);
+    });
+
+    it('saves nothing and charges nothing when the profile is unusable', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      useFakeProvider({ respond: () => JSON.stringify({ summary: 'No contact or skills' }) });
+      const { userId, headers, resumeId } = await uploadedResume();
+
+      const response = await parse(headers, resumeId);
+
+      expect(response.status).toBe(502);
+      expect(await storedProfiles(resumeId)).toHaveLength(0);
+      expect(await getCredits(worker, userId)).toBe(9);
+      expect((await worker.fetch(`/api/resumes/${resumeId}/profile`, { headers })).status).toBe(404);
+    });
+
+    it("hides another user's resume and profile", async () => {
+      const { headers, resumeId } = await uploadedResume();
+      await parse(headers, resumeId);
+      const other = await createUploader();
+
+      expect((await parse(other.headers, resumeId)).status).toBe(404);
+      expect((await worker.fetch(`/api/resumes/${resumeId}/profile`, { headers: other.headers })).status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/resumes/:id', () => {
+    it('keeps resumes tailored from it and for its job, unlinked from the deleted one', async () => {
+      const { userId, headers } = await createUploader();
+      const { resume } = await jsonData<UploadResult>(await upload(headers, fixture('resume.docx'), 'resume.docx'));
+      const jobId = crypto.randomUUID();
+      const tailoredId = crypto.randomUUID();
+      await worker.db.batch([
+        worker.db.prepare("INSERT INTO extracted_jobs (id, user_id, url, title) VALUES (?, ?, 'https://jobs.example.com/1', 'Engineer')")
+          .bind(jobId, userId),
+        worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type, parent_resume_id, tailored_for_job_id)
+          VALUES (?, ?, 'resume - Engineer.md', ?, 10, 'text/markdown', ?, ?)`)
+          .bind(tailoredId, userId, `resumes/${tailoredId}`, resume.id, jobId)
+      ]);
+
+      const response = await worker.fetch(`/api/resumes/${resume.id}`, { method: 'DELETE', headers });
+
+      expect(response.status).toBe(200);
+      expect(await worker.env.BUCKET.head(resume.fileKey)).toBeNull();
+      expect(await worker.db.prepare('SELECT parent_resume_id, tailored_for_job_id FROM resumes WHERE id = ?').bind(tailoredId).first())
+        .toEqual({ parent_resume_id: null, tailored_for_job_id: jobId });
+
+      await worker.fetch(`/api/jobs/extracted/${jobId}`, { method: 'DELETE', headers });
+
+      expect(await worker.db.prepare('SELECT tailored_for_job_id FROM resumes WHERE id = ?').bind(tailoredId).first())
+        .toEqual({ tailored_for_job_id: null });
+    });
+  });
+});
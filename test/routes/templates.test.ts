@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createTestWorker, createUser, jsonData, type TestWorker } from '../helpers/testWorker';
+import type { FormattedCoverLetterTemplate } from '../../src/types/database';
+
+describe('DELETE /api/templates/:id', () => {
+  let worker: TestWorker;
+
+  beforeAll(async () => {
+    worker = await createTestWorker();
+  });
+
+  afterAll(async () => {
+    await worker?.dispose();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  async function seedTemplateWithLetter() {
+    const user = await createUser(worker);
+    const template = await jsonData<FormattedCoverLetterTemplate>(await worker.fetch('/api/templates', {
+      method: 'POST',
+      headers: user.headers,
+      body: JSON.stringify({ name: 'Startups', instructions: 'Keep it under 200 words.' })
+    }));
+
+    const resumeId = crypto.randomUUID();
+    const coverLetterId = crypto.randomUUID();
+    await worker.db.batch([
+      worker.db.prepare(`INSERT INTO resumes (id, user_id, filename, file_key, file_size, mime_type)
+        VALUES (?, ?, 'resume.txt', ?, 100, 'text/plain')`)
+        .bind(resumeId, user.userId, `resumes/${resumeId}`),
+      worker.db.prepare(`INSERT INTO cover_letters (id, user_id, resume_id, template_id, content, credits_used)
+        VALUES (?, ?, ?, ?, 'Dear team,', 3)`)
+        .bind(coverLetterId, user.userId, resumeId, template.id)
+    ]);
+
+    return { ...user, templateId: template.id, coverLetterId };
+  }
+
+  it('deletes the template and keeps its letters, unlinked', async () => {
+    const { headers, templateId, coverLetterId } = await seedTemplateWithLetter();
+
+    const response = await worker.fetch(`/api/templates/${templateId}`, { method: 'DELETE', headers });
+
+    expect(response.status).toBe(200);
+    expect(await worker.db.prepare('SELECT id FROM cover_letter_templates WHERE id = ?').bind(templateId).first()).toBeNull();
+    expect(await worker.db.prepare('SELECT template_id, content FROM cover_letters WHERE id = ?').bind(coverLetterId).first())
+      .toEqual({ template_id: null, content: 'Dear team,' });
+  });
+
+  it('returns 404 for a template that belongs to another user', async () => {
+    const { templateId } = await seedTemplateWithLetter();
+    const { headers } = await createUser(worker);
+
+    const response = await worker.fetch(`/api/templates/${templateId}`, { method: 'DELETE', headers });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { validateStructuredOutput, buildRepairPrompt } from '../src/lib/llm';
+
+const schema = z.object({
+  title: z.string(),
+  score: z.number().min(0).max(100),
+  skills: z.array(z.string()).default([]),
+  range: z.object({ start: z.number(), end: z.number() })
+    .refine(range => range.end > range.start, { message: 'End must be after start' })
+    .nullable()
+    .default(null)
+});
+
+describe('validateStructuredOutput', () => {
+  it('returns complete data, telling valid fields from missing ones', () => {
+    const output = validateStructuredOutput(JSON.stringify({ title: 'Engineer', score: 80, skills: [] }), schema);
+
+    expect(output).toEqual({
+      complete: true,
+      data: { title: 'Engineer', score: 80, skills: [], range: null },
+      fieldValidity: { title: 'valid', score: 'valid', skills: 'missing', range: 'missing' },
+      errors: []
+    });
+  });
+
+  it('reads JSON wrapped in code fences and prose', () => {
+    const output = validateStructuredOutput('Here you go:\n```json\n{"title": "Engineer", "score": 75}\n```', schema);
+
+    expect(output.complete).toBe(true);
+    expect(output.data).toMatchObject({ title: 'Engineer', score: 75 });
+  });
+
+  it('keeps the fields that validate when others do not', () => {
+    const output = validateStructuredOutput(JSON.stringify({ title: 'Engineer', score: 140, skills: ['SQL', 3] }), schema);
+
+    expect(output).toEqual({
+      complete: false,
+      data: { title: 'Engineer', range: null },
+      fieldValidity: { title: 'valid', score: 'invalid', skills: 'invalid', range: 'missing' },
+      errors: [
+        'score: Number must be less than or equal to 100',
+        'skills.1: Expected string, received number'
+      ]
+    });
+  });
+
+  it("reports a field's own refinement under the field", () => {
+    const output = validateStructuredOutput(JSON.stringify({ title: 'Engineer', score: 50, range: { start: 5, end: 2 } }), schema);
+
+    expect(output.complete).toBe(false);
+    expect(output.fieldValidity.range).toBe('invalid');
+    expect(output.errors).toEqual(['range: End must be after start']);
+  });
+
+  it('falls back to object-level errors when every field validates on its own', () => {
+    const output = validateStructuredOutput(
+      JSON.stringify({ title: 'Engineer', score: 50, reasoning: 'Strong match' }),
+      schema.strict()
+    );
+
+    expect(output.complete).toBe(false);
+    expect(output.data).toEqual({ title: 'Engineer', score: 50, skills: [], range: null });
+    expect(Object.values(output.fieldValidity)).not.toContain('invalid');
+    expect(output.errors).toEqual(["(root): Unrecognized key(s) in object: 'reasoning'"]);
+  });
+
+  it('marks every field invalid when the response is not a JSON object', () => {
+    for (const text of ['Sorry, I cannot help with that.', '[{"title": "Engineer"}]']) {
+      const output = validateStructuredOutput(text, schema);
+
+      expect(output.complete).toBe(false);
+      expect(output.data).toEqual({});
+      expect(output.fieldValidity).toEqual({ title: 'invalid', score: 'invalid', skills: 'invalid', range: 'invalid' });
+      expect(output.errors).toHaveLength(1);
+    }
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('lists the errors for the model to fix', () => {
+    expect(buildRepairPrompt(['score: Required', 'skills.1: Expected string, received number'])).toBe(
+      'Your previous response did not match the required JSON format:\n'
+      + '- score: Required\n'
+      + '- skills.1: Expected string, received number\n\n'
+      + 'Return the complete corrected JSON object only. Keep every value that was already correct.'
+    );
+  });
+});
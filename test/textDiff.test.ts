@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { diffText } from '../src/lib/textDiff';
+
+function joined(changes: { type: string; value: string }[], skip: 'added' | 'removed'): string {
+  return changes.filter(change => change.type !== skip).map(change => change.value).join('');
+}
+
+describe('diffText', () => {
+  it('diffs words, merging neighbouring tokens of the same kind', () => {
+    const diff = diffText('I led the team', 'I managed the whole team');
+
+    expect(diff.granularity).toBe('word');
+    expect(diff.changes).toEqual([
+      { type: 'equal', value: 'I ' },
+      { type: 'removed', value: 'led' },
+      { type: 'added', value: 'managed' },
+      { type: 'equal', value: ' the' },
+      { type: 'added', value: ' whole' },
+      { type: 'equal', value: ' team' }
+    ]);
+    expect(diff.stats).toEqual({ added: 2, removed: 1, unchanged: 3 });
+  });
+
+  it('keeps whitespace so either side joins back into its text', () => {
+    const before = 'Dear team,\n\nI build dashboards.\nThanks';
+    const after = 'Dear Globex team,\n\nI build fast dashboards.\n\nBest,\nAlex';
+    const { changes } = diffText(before, after);
+
+    expect(joined(changes, 'added')).toBe(before);
+    expect(joined(changes, 'removed')).toBe(after);
+  });
+
+  it('diffs lines, counting only non-blank ones', () => {
+    const diff = diffText('Dear team,\n\nFirst paragraph.\nThanks\n', 'Dear team,\n\nNew paragraph.\nThanks\n', 'line');
+
+    expect(diff.changes).toEqual([
+      { type: 'equal', value: 'Dear team,\n\n' },
+      { type: 'removed', value: 'First paragraph.\n' },
+      { type: 'added', value: 'New paragraph.\n' },
+      { type: 'equal', value: 'Thanks\n' }
+    ]);
+    expect(diff.stats).toEqual({ added: 1, removed: 1, unchanged: 2 });
+  });
+
+  it('reports identical texts as a single unchanged run', () => {
+    expect(diffText('Same text', 'Same text')).toEqual({
+      granularity: 'word',
+      changes: [{ type: 'equal', value: 'Same text' }],
+      stats: { added: 0, removed: 0, unchanged: 2 }
+    });
+  });
+
+  it('falls back to lines when a word diff would be too large', () => {
+    const before = Array.from({ length: 2100 }, (_, i) => `a${i}`).join(' ');
+    const after = Array.from({ length: 2100 }, (_, i) => `b${i}`).join(' ');
+
+    expect(diffText(before, after).granularity).toBe('line');
+  });
+});
@@ -0,0 +1,98 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { validateResumeFile, readBodyWithLimit, sanitizeFilename, RESUME_SIZE_LIMITS } from '../src/lib/uploads';
+import { createZip } from '../src/lib/zip';
+
+const MB = 1024 * 1024;
+
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(new URL(`./fixtures/documents/${name}`, import.meta.url)));
+}
+
+function text(content: string): Uint8Array {
+  return new TextEncoder().encode(content);
+}
+
+describe('validateResumeFile', () => {
+  it('decides the type from the bytes, not the filename', () => {
+    expect(validateResumeFile(fixture('resume.pdf'), 'resume.txt', 'free')).toEqual({ valid: true, type: 'pdf', mimeType: 'application/pdf' });
+    expect(validateResumeFile(fixture('resume.docx'), 'resume.pdf', 'free')).toEqual({
+      valid: true,
+      type: 'docx',
+      mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    });
+  });
+
+  it('uses the extension only to tell Markdown from plain text', () => {
+    expect(validateResumeFile(text('# Alex'), 'resume.md', 'free')).toMatchObject({ valid: true, type: 'md' });
+    expect(validateResumeFile(text('# Alex'), 'resume.markdown', 'free')).toMatchObject({ valid: true, type: 'md' });
+    expect(validateResumeFile(text('# Alex'), 'resume.pdf', 'free')).toMatchObject({ valid: true, type: 'txt' });
+  });
+
+  it('rejects a ZIP that is not a Word document', () => {
+    const zip = createZip([{ name: 'payload.exe', data: 'MZ' }]);
+
+    expect(validateResumeFile(zip, 'resume.docx', 'free')).toMatchObject({ valid: false, status: 415 });
+  });
+
+  it('rejects binary data and invalid UTF-8', () => {
+    expect(validateResumeFile(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]), 'resume.txt', 'free')).toMatchObject({ valid: false, status: 415 });
+    expect(validateResumeFile(new Uint8Array([0x41, 0xc3, 0x28]), 'resume.txt', 'free')).toMatchObject({ valid: false, status: 415 });
+  });
+
+  it('rejects an empty file', () => {
+    expect(validateResumeFile(new Uint8Array(0), 'resume.txt', 'pro')).toMatchObject({ valid: false, status: 400 });
+  });
+
+  it('applies the size limit of the plan', () => {
+    const threeMb = new Uint8Array(3 * MB).fill(0x61);
+
+    expect(validateResumeFile(threeMb, 'resume.txt', 'free')).toEqual({
+      valid: false,
+      error: 'File exceeds the 2MB limit for the free plan',
+      status: 413
+    });
+    expect(validateResumeFile(threeMb, 'resume.txt', 'starter')).toMatchObject({ valid: true });
+    expect(validateResumeFile(new Uint8Array(RESUME_SIZE_LIMITS.free).fill(0x61), 'resume.txt', 'free')).toMatchObject({ valid: true });
+    expect(validateResumeFile(new Uint8Array(RESUME_SIZE_LIMITS.pro + 1).fill(0x61), 'resume.txt', 'pro')).toMatchObject({ valid: false, status: 413 });
+  });
+});
+
+describe('readBodyWithLimit', () => {
+  function chunkedRequest(chunks: number, chunkSize: number): Request {
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent++ < chunks) {
+          controller.enqueue(new Uint8Array(chunkSize).fill(0x61));
+        } else {
+          controller.close();
+        }
+      }
+    });
+    return new Request('https://api.test/upload', { method: 'POST', body, duplex: 'half' } as RequestInit);
+  }
+
+  it('returns the whole body when it fits', async () => {
+    const body = await readBodyWithLimit(chunkedRequest(4, 1024), 4096);
+
+    expect(body?.byteLength).toBe(4096);
+  });
+
+  it('stops reading a chunked body once it passes the limit', async () => {
+    expect(await readBodyWithLimit(chunkedRequest(100, 1024), 4096)).toBeNull();
+  });
+
+  it('treats a request without a body as empty', async () => {
+    expect(await readBodyWithLimit(new Request('https://api.test/upload', { method: 'POST' }), 10)).toEqual(new Uint8Array(0));
+  });
+});
+
+describe('sanitizeFilename', () => {
+  it('keeps only a safe base name', () => {
+    expect(sanitizeFilename('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFilename('C:\\Users\\alex\\My Resume (final).pdf')).toBe('My_Resume_final_.pdf');
+    expect(sanitizeFilename('.hidden')).toBe('hidden');
+    expect(sanitizeFilename('///')).toBe('resume');
+  });
+});